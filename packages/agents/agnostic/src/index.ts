@@ -2,6 +2,26 @@
 // Generated by @solo-labs/utils generate-index
 // To regenerate, run: npx nx run @solo-labs/agents-agnostic:generate-index
 
+export interface ToolSpec {
+  raw: string;
+  tool: string;
+  specifier: string | null;
+  subagentType: string | null;
+}
+
+export interface ContentEntry {
+  description: string;
+  filePath: string;
+  argumentHint: string | null;
+  allowedTools: readonly ToolSpec[] | null;
+  model: string | null;
+  subagents: readonly string[];
+  knowledge: readonly string[];
+  package: string;
+  bytes: number;
+  extra: Readonly<Record<string, unknown>>;
+}
+
 // Agent types
 type Agent =
   | 'aegis-architect'
@@ -34,153 +54,454 @@ type Agent =
   | 'test-writer';
 
 type Agents = {
-  [key in Agent]: {
-    description: string;
-    filePath: string;
-  };
+  [key in Agent]: ContentEntry;
 };
 
-// Export agents with descriptions and file paths
+// Export agents with their frontmatter, file paths and sizes
 export const agents: Agents = {
   'aegis-architect': {
     description:
       'Protocol architecture specialist for AegisEngine - designs vault lifecycle, session management, and understands three-layer execution model',
     filePath: './aegis-architect.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [
+      'two-phase-execution',
+      'session-lifecycle',
+      'vault-operations',
+      'v4-hooks',
+      'transient-storage',
+    ],
+    package: 'agnostic',
+    bytes: 7872,
+    extra: {},
   },
   'agent-capability-analyst': {
     description:
       'Advanced specialist in AI agent capability analysis with enhanced scoring algorithms, semantic matching for natural language tasks, and team composition recommendations for complex workflows',
     filePath: './agent-capability-analyst.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 15194,
+    extra: {},
   },
   'agent-optimizer': {
     description:
       'Meta-agent that analyzes, optimizes, and continuously improves the performance of other AI agents through systematic refinement strategies',
     filePath: './agent-optimizer.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 10259,
+    extra: {},
   },
   'agent-orchestrator': {
     description:
       'Intelligent orchestrator that coordinates other AI agents for complex software development workflows, matching tasks to specialists based on capabilities',
     filePath: './agent-orchestrator.md',
+    argumentHint: null,
+    allowedTools: [
+      {
+        raw: '*',
+        tool: '*',
+        specifier: null,
+        subagentType: null,
+      },
+    ],
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 14290,
+    extra: {},
   },
   'cicd-agent': {
     description:
       'CI/CD pipeline specialist for automated deployment setup, workflow configuration, and release management',
     filePath: './cicd-agent.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 7396,
+    extra: {},
   },
   'code-explainer': {
     description:
       'Explains code functionality, patterns, and design decisions in clear, accessible language',
     filePath: './code-explainer.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 4395,
+    extra: {},
   },
   'code-generator': {
     description:
       'Comprehensive code generation specialist that creates production-ready code with tests, following best practices and existing patterns',
     filePath: './code-generator.md',
+    argumentHint: null,
+    allowedTools: [
+      {
+        raw: 'Read',
+        tool: 'Read',
+        specifier: null,
+        subagentType: null,
+      },
+      {
+        raw: 'Write',
+        tool: 'Write',
+        specifier: null,
+        subagentType: null,
+      },
+      {
+        raw: 'Grep',
+        tool: 'Grep',
+        specifier: null,
+        subagentType: null,
+      },
+    ],
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 12662,
+    extra: {},
   },
   'commit-message-generator': {
     description:
       'Generates clear, conventional commit messages following project standards',
     filePath: './commit-message-generator.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 4455,
+    extra: {},
   },
   'context-loader': {
     description:
       'Advanced context management system for deep codebase understanding, intelligent summarization, and cross-agent context sharing.',
     filePath: './context-loader.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 12826,
+    extra: {},
   },
   'debug-assistant': {
     description:
       'Helps diagnose and fix bugs through systematic debugging techniques',
     filePath: './debug-assistant.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 4923,
+    extra: {},
   },
   'doc-writer': {
     description:
       'Generates clear, comprehensive documentation for code, APIs, and systems',
     filePath: './doc-writer.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 3765,
+    extra: {},
   },
   'foundry-test-writer': {
     description:
       'Foundry test generation specialist - creates unit tests, fuzz tests, invariant tests, and integration tests for Solidity contracts',
     filePath: './foundry-test-writer.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: ['equity-neutrality', 'precision-errors', 'reentrancy-risks'],
+    package: 'agnostic',
+    bytes: 8369,
+    extra: {},
   },
   'infrastructure-agent': {
     description:
       'Infrastructure automation specialist for cloud architecture, scaling strategies, and cost optimization',
     filePath: './infrastructure-agent.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 9482,
+    extra: {},
   },
   'l-unit-accountant': {
     description:
       'L-unit math and equity calculation specialist - validates equity-neutral operations, debugs share price calculations, ensures PIPS precision',
     filePath: './l-unit-accountant.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [
+      'l-units',
+      'pips',
+      'equity-neutrality',
+      'precision-errors',
+      'fee-accrual',
+    ],
+    package: 'agnostic',
+    bytes: 3643,
+    extra: {},
   },
   'migration-assistant': {
     description:
       'Migration specialist for guiding version upgrades, compatibility checking, rollback strategies, and validation steps',
     filePath: './migration-assistant.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 10297,
+    extra: {},
   },
   'performance-analyzer': {
     description:
       'Comprehensive performance analysis agent for identifying bottlenecks, analyzing complexity, and providing optimization strategies with measurable impact estimates',
     filePath: './performance-analyzer.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 8885,
+    extra: {},
   },
   'plan-reviewer': {
     description:
       'Reviews implementation plans for completeness, correctness, and alignment with codebase patterns',
     filePath: './plan-reviewer.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 3235,
+    extra: {},
   },
   planner: {
     description:
       'Create clear, actionable implementation plans without writing code',
     filePath: './planner.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 8960,
+    extra: {},
   },
   'pr-creator': {
     description:
       'Creates or updates Graphite PRs with auto-generated conventional commit messages and comprehensive PR descriptions based on diffs',
     filePath: './pr-creator.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: 'claude-sonnet-4-5-20250929',
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 7589,
+    extra: {},
   },
   'pr-reviewer': {
     description:
       'Reviews pull requests for code quality, correctness, security, and adherence to best practices',
     filePath: './pr-reviewer.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 4280,
+    extra: {},
   },
   'prompt-engineer': {
     description:
       'Expert in analyzing, optimizing, and testing prompts for AI agents and LLMs to maximize clarity, effectiveness, and efficiency',
     filePath: './prompt-engineer.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 13978,
+    extra: {},
   },
   refactorer: {
     description:
       'Identifies refactoring opportunities and provides safe, incremental refactoring plans',
     filePath: './refactorer.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 5267,
+    extra: {},
   },
   researcher: {
     description:
       'Conduct comprehensive research including architectural patterns, technology comparison, security analysis, and codebase pattern extraction.',
     filePath: './researcher.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 11439,
+    extra: {},
   },
   'security-analyzer': {
     description:
       'Comprehensive security analysis agent for vulnerability assessment, threat modeling, and compliance checking',
     filePath: './security-analyzer.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 11253,
+    extra: {},
   },
   'stack-splitter': {
     description:
       'Semantic analysis agent for splitting monolithic branches into logical, reviewable PR stacks. Analyzes git history, file changes, and code semantics to propose optimal split boundaries.',
     filePath: './stack-splitter.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 9708,
+    extra: {},
   },
   'style-enforcer': {
     description:
       'Advanced style and convention enforcement with multi-language support, pattern detection, automated fixes, and comprehensive reporting.',
     filePath: './style-enforcer.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 13118,
+    extra: {
+      version: '2.0.0',
+      capabilities: [
+        'multi-language-style-enforcement',
+        'advanced-pattern-detection',
+        'automated-fix-generation',
+        'style-guide-management',
+        'reporting-analytics',
+        'integration-support',
+      ],
+      supported_languages: [
+        'javascript',
+        'typescript',
+        'python',
+        'go',
+        'rust',
+        'java',
+        'c-sharp',
+        'php',
+        'ruby',
+        'swift',
+        'kotlin',
+      ],
+      supported_frameworks: [
+        'react',
+        'vue',
+        'angular',
+        'django',
+        'flask',
+        'spring',
+        'express',
+        'nextjs',
+        'nuxt',
+        'svelte',
+      ],
+    },
   },
   'test-runner': {
     description:
       'Automated agent testing specialist that validates agent behaviors, tests prompt variations, detects regressions, and provides comprehensive test reporting with performance metrics.',
     filePath: './test-runner.md',
+    argumentHint: null,
+    allowedTools: [
+      {
+        raw: '*',
+        tool: '*',
+        specifier: null,
+        subagentType: null,
+      },
+    ],
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 9907,
+    extra: {},
   },
   'test-writer': {
     description:
       'Generate comprehensive, deterministic tests with advanced testing strategies, scenario generation, and edge case identification.',
     filePath: './test-writer.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 8210,
+    extra: {},
   },
 } as const;
 
@@ -2,40 +2,210 @@
 // Generated by @solo-labs/utils generate-index
 // To regenerate, run: npx nx run @solo-labs/agents-frontend:generate-index
 
+export interface ToolSpec {
+  raw: string;
+  tool: string;
+  specifier: string | null;
+  subagentType: string | null;
+}
+
+export interface ContentEntry {
+  description: string;
+  filePath: string;
+  argumentHint: string | null;
+  allowedTools: readonly ToolSpec[] | null;
+  model: string | null;
+  subagents: readonly string[];
+  knowledge: readonly string[];
+  package: string;
+  bytes: number;
+  extra: Readonly<Record<string, unknown>>;
+}
+
 // Agent types
 type Agent =
-  | 'graphql-expert'
-  | 'redux-architect'
-  | 'vault-ui-builder'
-  | 'web3-integrator';
+  'graphql-expert' | 'redux-architect' | 'vault-ui-builder' | 'web3-integrator';
 
 type Agents = {
-  [key in Agent]: {
-    description: string;
-    filePath: string;
-  };
+  [key in Agent]: ContentEntry;
 };
 
-// Export agents with descriptions and file paths
+// Export agents with their frontmatter, file paths and sizes
 export const agents: Agents = {
   'graphql-expert': {
     description:
       'Design GraphQL queries and Apollo Client integration for aegis-engine-subgraph',
     filePath: './graphql-expert.md',
+    argumentHint: null,
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*.graphql)',
+        tool: 'Write',
+        specifier: '*.graphql',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*.ts)',
+        tool: 'Write',
+        specifier: '*.ts',
+        subagentType: null,
+      },
+    ],
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'frontend',
+    bytes: 7099,
+    extra: {},
   },
   'redux-architect': {
     description:
       'Design and optimize Redux state management for AEGIS vault interactions',
     filePath: './redux-architect.md',
+    argumentHint: null,
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*.ts)',
+        tool: 'Write',
+        specifier: '*.ts',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*.tsx)',
+        tool: 'Write',
+        specifier: '*.tsx',
+        subagentType: null,
+      },
+    ],
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'frontend',
+    bytes: 5525,
+    extra: {},
   },
   'vault-ui-builder': {
     description:
       'Build vault management UI components with proper L-unit display and LTV visualization',
     filePath: './vault-ui-builder.md',
+    argumentHint: null,
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*.tsx)',
+        tool: 'Write',
+        specifier: '*.tsx',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*.css)',
+        tool: 'Write',
+        specifier: '*.css',
+        subagentType: null,
+      },
+    ],
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'frontend',
+    bytes: 13395,
+    extra: {},
   },
   'web3-integrator': {
     description: 'Integrate wagmi/viem hooks with AEGIS contract interactions',
     filePath: './web3-integrator.md',
+    argumentHint: null,
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*.ts)',
+        tool: 'Write',
+        specifier: '*.ts',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*.tsx)',
+        tool: 'Write',
+        specifier: '*.tsx',
+        subagentType: null,
+      },
+    ],
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'frontend',
+    bytes: 10092,
+    extra: {},
   },
 } as const;
 
@@ -0,0 +1,121 @@
+import { readdir, readFile, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { parseFrontmatter } from '../../../utils/src/lib/frontmatter.js';
+import {
+  findIncludes,
+  splitSections,
+} from '../../../utils/src/lib/includes.js';
+import { buildSearchIndex, type SectionInput } from '../src/search.js';
+
+export interface GenerateSearchIndexOptions {
+  srcPath: string; // Directory containing one folder per category
+  outputPath: string;
+  regenerateCommand: string; // The nx command to regenerate
+}
+
+async function readSections(
+  filePath: string,
+  category: string,
+  file: string,
+): Promise<SectionInput[]> {
+  const content = await readFile(filePath, 'utf-8');
+  const parsed = parseFrontmatter(content, filePath);
+  const name = file.replace(/\.md$/, '');
+  const title = String(parsed?.frontmatter.extra.title ?? name);
+
+  // Included text is indexed with the doc it comes from, not every doc that includes it
+  const includeLines = new Set(
+    findIncludes(content).map((directive) => directive.line),
+  );
+  const body = (parsed ? parsed.body : content)
+    .split('\n')
+    .filter(
+      (_, index) => !includeLines.has(index + (parsed ? parsed.bodyLine : 1)),
+    )
+    .join('\n');
+
+  return splitSections(body).map((section) => ({
+    name,
+    category,
+    title,
+    heading: section.heading,
+    anchor: section.anchor,
+    parents: section.parents,
+    text: section.body,
+  }));
+}
+
+/**
+ * Write src/search-index.ts: the BM25 index of every section of every doc,
+ * one section or term per line so regenerating gives readable diffs.
+ */
+export async function generateSearchIndex(
+  options: GenerateSearchIndexOptions,
+): Promise<void> {
+  const { srcPath, outputPath, regenerateCommand } = options;
+
+  const inputs: SectionInput[] = [];
+  for (const category of (await readdir(srcPath)).sort()) {
+    if (!(await stat(join(srcPath, category))).isDirectory()) {
+      continue;
+    }
+    const files = (await readdir(join(srcPath, category)))
+      .filter((file) => file.endsWith('.md'))
+      .sort();
+    for (const file of files) {
+      inputs.push(
+        ...(await readSections(join(srcPath, category, file), category, file)),
+      );
+    }
+  }
+
+  const index = buildSearchIndex(inputs);
+  const sections = index.sections.map(
+    (section) => `    ${JSON.stringify(section)},`,
+  );
+  const postings = Object.keys(index.postings)
+    .sort()
+    .map(
+      (term) =>
+        `    ${JSON.stringify(term)}: ${JSON.stringify(index.postings[term])},`,
+    );
+
+  // Not run through Prettier, which would put every number on its own line
+  const content = `// Auto-generated file - DO NOT EDIT
+// Generated by scripts/generate-search-index.ts
+// To regenerate, run: ${regenerateCommand}
+
+import {
+  searchSections,
+  type SearchHit,
+  type SearchIndex,
+  type SearchOptions,
+} from './search.js';
+
+export const searchIndex: SearchIndex = {
+  averageLength: ${index.averageLength},
+  sections: [
+${sections.join('\n')}
+  ],
+  postings: {
+${postings.join('\n')}
+  },
+};
+
+/**
+ * Rank the sections of every knowledge doc against a query, best first
+ */
+export function searchKnowledge(
+  query: string,
+  options?: SearchOptions
+): SearchHit[] {
+  return searchSections(searchIndex, query, options);
+}
+`;
+
+  await writeFile(outputPath, content, 'utf-8');
+
+  console.log(
+    `Generated search index with ${index.sections.length} sections and ${postings.length} terms`,
+  );
+}
@@ -0,0 +1,27 @@
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { generateKnowledgeIndex } from '../../../utils/src/lib/generate-knowledge-index.js';
+import { generateSearchIndex } from './generate-search-index.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const srcPath = join(__dirname, '..', 'src');
+
+const regenerateCommand =
+  'npx nx run @solo-labs/protocol-knowledge:generate-index';
+
+generateKnowledgeIndex({
+  srcPath,
+  outputPath: join(srcPath, 'index.ts'),
+  regenerateCommand,
+})
+  .then(() =>
+    generateSearchIndex({
+      srcPath,
+      outputPath: join(srcPath, 'search-index.ts'),
+      regenerateCommand,
+    }),
+  )
+  .catch((error) => {
+    console.error('Failed to generate index:', error);
+    process.exit(1);
+  });
@@ -1,3 +1,7 @@
+// Auto-generated file - DO NOT EDIT
+// Generated by @solo-labs/utils generate-knowledge-index
+// To regenerate, run: npx nx run @solo-labs/protocol-knowledge:generate-index
+
 /**
  * @solo-labs/protocol-knowledge
  *
@@ -13,39 +17,204 @@
 
 export const concepts = {
   'l-units': './concepts/l-units.md',
+  pips: './concepts/pips.md',
   'sqrt-k-floor': './concepts/sqrt-k-floor.md',
-  'two-phase-execution': './concepts/two-phase-execution.md',
   'transient-storage': './concepts/transient-storage.md',
-  'pips': './concepts/pips.md',
+  'two-phase-execution': './concepts/two-phase-execution.md',
   'v4-hooks': './concepts/v4-hooks.md',
 } as const;
 
-export const patterns = {
-  'vault-operations': './patterns/vault-operations.md',
-  'keeper-flows': './patterns/keeper-flows.md',
-  'collateral-management': './patterns/collateral-management.md',
-  'fee-accrual': './patterns/fee-accrual.md',
-  'session-lifecycle': './patterns/session-lifecycle.md',
-} as const;
-
 export const gotchas = {
+  'assemblyscript-quirks': './gotchas/assemblyscript-quirks.md',
   'equity-neutrality': './gotchas/equity-neutrality.md',
   'precision-errors': './gotchas/precision-errors.md',
   'reentrancy-risks': './gotchas/reentrancy-risks.md',
-  'assemblyscript-quirks': './gotchas/assemblyscript-quirks.md',
+} as const;
+
+export const patterns = {
+  'collateral-management': './patterns/collateral-management.md',
+  'fee-accrual': './patterns/fee-accrual.md',
+  'keeper-flows': './patterns/keeper-flows.md',
+  'session-lifecycle': './patterns/session-lifecycle.md',
+  'vault-operations': './patterns/vault-operations.md',
 } as const;
 
 export type ConceptName = keyof typeof concepts;
-export type PatternName = keyof typeof patterns;
 export type GotchaName = keyof typeof gotchas;
+export type PatternName = keyof typeof patterns;
+
+export type KnowledgeCategory = 'concepts' | 'gotchas' | 'patterns';
+
+export type KnowledgeDocName = ConceptName | GotchaName | PatternName;
+
+export interface KnowledgeDoc {
+  title: string;
+  summary: string;
+  category: KnowledgeCategory;
+  tags: readonly string[];
+  related: readonly KnowledgeDocName[];
+  filePath: string;
+}
+
+/**
+ * Frontmatter of every knowledge document, keyed by name
+ */
+export const docs: Record<KnowledgeDocName, KnowledgeDoc> = {
+  'l-units': {
+    title: 'L-Units: Liquidity Accounting in AEGIS',
+    summary:
+      'L-units are the price-agnostic, oracle-free unit of account for the lender book; borrows and repays never change equity measured in L-units.',
+    category: 'concepts',
+    tags: ['accounting', 'liquidity', 'lending'],
+    related: ['pips', 'sqrt-k-floor', 'vault-operations', 'equity-neutrality'],
+    filePath: './concepts/l-units.md',
+  },
+  pips: {
+    title: 'PIPS: Parts Per Million in AEGIS',
+    summary:
+      'PIPS (parts per million, 1e6) is the precision standard for percentages, ratios and fees.',
+    category: 'concepts',
+    tags: ['precision', 'fees', 'math'],
+    related: ['l-units', 'precision-errors', 'fee-accrual'],
+    filePath: './concepts/pips.md',
+  },
+  'sqrt-k-floor': {
+    title: 'sqrt(K) Floor: Collateral Requirements in AEGIS',
+    summary:
+      'The sqrt(K) floor is a static, price-invariant, oracle-free collateral bound for per-vault solvency.',
+    category: 'concepts',
+    tags: ['collateral', 'solvency', 'math'],
+    related: ['l-units', 'collateral-management', 'keeper-flows'],
+    filePath: './concepts/sqrt-k-floor.md',
+  },
+  'transient-storage': {
+    title: 'Transient Storage: EIP-1153 in AEGIS',
+    summary:
+      'EIP-1153 transient storage holds session-scoped state that lives only for the duration of a transaction.',
+    category: 'concepts',
+    tags: ['eip-1153', 'sessions', 'storage'],
+    related: ['two-phase-execution', 'session-lifecycle', 'reentrancy-risks'],
+    filePath: './concepts/transient-storage.md',
+  },
+  'two-phase-execution': {
+    title: 'Two-Phase Execution: PM Locked vs Unlocked',
+    summary:
+      'Which operations are safe while the PoolManager is locked (Phase 0) versus unlocked (Phase 1).',
+    category: 'concepts',
+    tags: ['pool-manager', 'callbacks', 'execution'],
+    related: ['transient-storage', 'session-lifecycle', 'reentrancy-risks'],
+    filePath: './concepts/two-phase-execution.md',
+  },
+  'v4-hooks': {
+    title: 'Uniswap V4 Hooks: AEGIS Integration',
+    summary:
+      'How the AegisHook contract uses Uniswap V4 hook callbacks to intercept and augment pool operations.',
+    category: 'concepts',
+    tags: ['uniswap-v4', 'hooks'],
+    related: ['two-phase-execution', 'session-lifecycle', 'fee-accrual'],
+    filePath: './concepts/v4-hooks.md',
+  },
+  'assemblyscript-quirks': {
+    title: 'AssemblyScript Quirks: The Graph Development',
+    summary:
+      'AssemblyScript differences from TypeScript that commonly break The Graph subgraph handlers.',
+    category: 'gotchas',
+    tags: ['subgraph', 'assemblyscript', 'the-graph'],
+    related: ['v4-hooks', 'fee-accrual', 'vault-operations'],
+    filePath: './gotchas/assemblyscript-quirks.md',
+  },
+  'equity-neutrality': {
+    title: 'Equity Neutrality: Common Violations',
+    summary:
+      'Borrow and repay must never change equityLWad; common ways code violates this invariant.',
+    category: 'gotchas',
+    tags: ['invariants', 'accounting', 'lending'],
+    related: ['l-units', 'fee-accrual', 'precision-errors'],
+    filePath: './gotchas/equity-neutrality.md',
+  },
+  'precision-errors': {
+    title: 'Precision Errors: PIPS, WAD, and Rounding',
+    summary:
+      'Rounding and scaling mistakes across PIPS, WAD and RAY precision levels.',
+    category: 'gotchas',
+    tags: ['precision', 'rounding', 'math'],
+    related: ['pips', 'l-units', 'equity-neutrality'],
+    filePath: './gotchas/precision-errors.md',
+  },
+  'reentrancy-risks': {
+    title: 'Reentrancy Risks: Callback Safety in AEGIS',
+    summary:
+      'Reentrancy vectors in the Uniswap V4 callback architecture and the guards that prevent them.',
+    category: 'gotchas',
+    tags: ['security', 'reentrancy', 'callbacks'],
+    related: ['two-phase-execution', 'session-lifecycle', 'transient-storage'],
+    filePath: './gotchas/reentrancy-risks.md',
+  },
+  'collateral-management': {
+    title: 'Collateral Management: SAFE Multi-NFT Algorithm',
+    summary:
+      'The SAFE (Summed Adjusted Floor Evaluation) algorithm for vaults collateralized by multiple LP positions.',
+    category: 'patterns',
+    tags: ['collateral', 'vaults', 'lp-positions'],
+    related: ['sqrt-k-floor', 'vault-operations', 'keeper-flows'],
+    filePath: './patterns/collateral-management.md',
+  },
+  'fee-accrual': {
+    title: 'Fee Accrual: Protocol Revenue Distribution',
+    summary:
+      'How fees accrue and are split between lenders (sL holders), the protocol treasury and keepers.',
+    category: 'patterns',
+    tags: ['fees', 'revenue', 'lending'],
+    related: ['l-units', 'pips', 'equity-neutrality'],
+    filePath: './patterns/fee-accrual.md',
+  },
+  'keeper-flows': {
+    title: 'Keeper Flows: Peel and Liquidation',
+    summary:
+      'Peel and liquidation operations that keepers execute to keep vaults healthy, and how they are rewarded.',
+    category: 'patterns',
+    tags: ['keepers', 'liquidation', 'peel'],
+    related: ['vault-operations', 'collateral-management', 'sqrt-k-floor'],
+    filePath: './patterns/keeper-flows.md',
+  },
+  'session-lifecycle': {
+    title: 'Session Lifecycle: Managing Execution Context',
+    summary:
+      'How a session wraps every vault operation and moves between Phase 0 (PM locked) and Phase 1 (PM unlocked).',
+    category: 'patterns',
+    tags: ['sessions', 'execution', 'pool-manager'],
+    related: ['two-phase-execution', 'transient-storage', 'vault-operations'],
+    filePath: './patterns/session-lifecycle.md',
+  },
+  'vault-operations': {
+    title: 'Vault Operations: Core User Flows',
+    summary:
+      'Core vault flows: creating ERC-721 vaults, depositing and withdrawing collateral, borrowing and repaying.',
+    category: 'patterns',
+    tags: ['vaults', 'borrowing', 'collateral'],
+    related: ['l-units', 'sqrt-k-floor', 'session-lifecycle', 'keeper-flows'],
+    filePath: './patterns/vault-operations.md',
+  },
+};
 
 /**
  * All knowledge documents indexed by category
  */
 export const knowledge = {
   concepts,
-  patterns,
   gotchas,
+  patterns,
 } as const;
 
 export default knowledge;
+
+// Section-level full-text search; the index is written by scripts/generate-search-index.ts
+export { searchKnowledge, searchIndex } from './search-index.js';
+export { buildSearchIndex, searchSections, tokenize } from './search.js';
+export type {
+  SearchHit,
+  SearchIndex,
+  SearchOptions,
+  SearchSection,
+  SectionInput,
+} from './search.js';
@@ -0,0 +1,1869 @@
+// Auto-generated file - DO NOT EDIT
+// Generated by scripts/generate-search-index.ts
+// To regenerate, run: npx nx run @solo-labs/protocol-knowledge:generate-index
+
+import {
+  searchSections,
+  type SearchHit,
+  type SearchIndex,
+  type SearchOptions,
+} from './search.js';
+
+export const searchIndex: SearchIndex = {
+  averageLength: 46.955882352941174,
+  sections: [
+    {"name":"l-units","category":"concepts","title":"L-Units: Liquidity Accounting in AEGIS","heading":"Overview","anchor":"overview","parents":["L-Units: Liquidity Accounting in AEGIS"],"text":"L-units are Uniswap liquidity units used throughout AEGIS for equity-neutral accounting. They provide a **price-agnostic, oracle-free** unit of account that doesn't change when borrows or repays occur. The lender book is maintained entirely in L-units.\n\n> **Reference:** Research-0009 \"L-Unit Ledger for Canonical Full-Range Liquidity\"","length":49},
+    {"name":"l-units","category":"concepts","title":"L-Units: Liquidity Accounting in AEGIS","heading":"Definition","anchor":"definition","parents":["L-Units: Liquidity Accounting in AEGIS","Key Properties"],"text":"- L-units represent ownership of Uniswap V4 **full-range** liquidity (MIN_TICK → MAX_TICK)\n- Stored as `uint256` (per-NFT mints/burns saturate to `uint128`)\n- Directly correspond to Uniswap's internal liquidity units","length":38},
+    {"name":"l-units","category":"concepts","title":"L-Units: Liquidity Accounting in AEGIS","heading":"Core Variables","anchor":"core-variables","parents":["L-Units: Liquidity Accounting in AEGIS","Key Properties"],"text":"| Variable | Description | Precision |\n|----------|-------------|-----------|\n| `L` | Liquidity of canonical full-range NFT | uint256 |\n| `B_L` | Borrower principal aggregated in L-units | uint256 |\n| `M` | Interest multiplier (simple interest) | WAD (1e18) |\n| `T` | Lender share supply (ERC-20) | WAD (1e18) |\n| `E_L` | Booked equity: `L + B_L * M` | L-units |","length":56},
+    {"name":"l-units","category":"concepts","title":"L-Units: Liquidity Accounting in AEGIS","heading":"Share Price Formula","anchor":"share-price-formula","parents":["L-Units: Liquidity Accounting in AEGIS","Key Properties"],"text":"```\nsharePrice = E_L / T = (L + B_L * M) / T\n```\n\nThe share price represents how many L-units each share is worth. At bootstrap (T=0), initial price is **1 L per share**.","length":43},
+    {"name":"l-units","category":"concepts","title":"L-Units: Liquidity Accounting in AEGIS","heading":"Fee Sync (feeSync)","anchor":"fee-sync-feesync","parents":["L-Units: Liquidity Accounting in AEGIS","L-Unit Flows"],"text":"Called at the **top** of every public mutator:\n\n1. `collect()` swap fees from pool → `(Δx, Δy)`\n2. Mint as much L as tokens allow: `mintFullRange(Δx, Δy)`\n3. Residuals `(R0, R1)` carried forward **off-equity** until mintable\n4. `L += ΔL_fees` (equity increases from fees)\n\n**Only mintable fees count** — residual tokens don't affect equity until converted to L.","length":68},
+    {"name":"l-units","category":"concepts","title":"L-Units: Liquidity Accounting in AEGIS","heading":"Deposits","anchor":"deposits","parents":["L-Units: Liquidity Accounting in AEGIS","L-Unit Flows"],"text":"1. User requests **target ΔL** (not token amounts)\n2. Quote required tokens: `getAmountsForLiquidity(s, MIN, MAX, ΔL)`\n3. Pull exact tokens, mint full-range liquidity\n4. Mint shares proportionally:\n\n```\nΔT = (T == 0) ? ΔL : floor(ΔL * T / E_L)\n```","length":49},
+    {"name":"l-units","category":"concepts","title":"L-Units: Liquidity Accounting in AEGIS","heading":"Withdrawals","anchor":"withdrawals","parents":["L-Units: Liquidity Accounting in AEGIS","L-Unit Flows"],"text":"1. User burns ΔT shares\n2. Calculate claim in L-units: `E_claim = (ΔT / T) * (L + B_L * M)`\n3. Enforce utilization cap: `E_claim ≤ L - L_min` where `L_min = B_L*M * (1/Ū - 1)`\n4. Burn liquidity, transfer tokens to user\n\n```\nwithdrawL = ΔT * E_L / T\n```","length":57},
+    {"name":"l-units","category":"concepts","title":"L-Units: Liquidity Accounting in AEGIS","heading":"Borrows","anchor":"borrows","parents":["L-Units: Liquidity Accounting in AEGIS","L-Unit Flows"],"text":"1. Burn real L from pool: `L_real = r_L * M`\n2. Credit tokens to vault\n3. Update global: `L -= L_real`, `B_L += r_L`\n4. **Conservative √K bridge**: `vault.b_K += r_L` (1 L ≡ 1 √K for debt)\n5. **E_L unchanged** (equity neutrality)","length":55},
+    {"name":"l-units","category":"concepts","title":"L-Units: Liquidity Accounting in AEGIS","heading":"Repays","anchor":"repays","parents":["L-Units: Liquidity Accounting in AEGIS","L-Unit Flows"],"text":"1. Mint real L to pool from repaid tokens\n2. Record actual liquidity minted and tokens used\n3. Effective principal: `r_L_eff = floor(liquidityMinted / M)`\n4. Update global: `L += liquidityMinted`, `B_L -= r_L_eff`\n5. **Conservative √K decrease**: `Δb_K = min(r_L_eff, floor(sqrt(x_used * y_used)) / M)`\n6. **E_L unchanged** (equity neutrality)","length":67},
+    {"name":"l-units","category":"concepts","title":"L-Units: Liquidity Accounting in AEGIS","heading":"Problem: Token Amounts Fluctuate","anchor":"problem-token-amounts-fluctuate","parents":["L-Units: Liquidity Accounting in AEGIS","Why L-Units?"],"text":"When using raw token amounts, the \"value\" of debt changes as pool price moves:\n\n- Token 0 worth more → debt seems higher\n- Token 1 worth more → debt seems lower","length":43},
+    {"name":"l-units","category":"concepts","title":"L-Units: Liquidity Accounting in AEGIS","heading":"Solution: L-Units Are Price-Neutral","anchor":"solution-l-units-are-price-neutral","parents":["L-Units: Liquidity Accounting in AEGIS","Why L-Units?"],"text":"L-units measure liquidity position, not token amounts:\n\n- Same L-units = same share of pool\n- Price changes don't affect L-unit values\n- Enables equity-neutral borrow/repay","length":49},
+    {"name":"l-units","category":"concepts","title":"L-Units: Liquidity Accounting in AEGIS","heading":"Converting Amounts to L-Units","anchor":"converting-amounts-to-l-units","parents":["L-Units: Liquidity Accounting in AEGIS","Mathematical Foundations"],"text":"```solidity\n// From token amounts to L-units\nL = LMath.getLFromAmounts(amount0, amount1, sqrtPriceX96, tickLower, tickUpper)\n```","length":32},
+    {"name":"l-units","category":"concepts","title":"L-Units: Liquidity Accounting in AEGIS","heading":"Converting L-Units to Amounts","anchor":"converting-l-units-to-amounts","parents":["L-Units: Liquidity Accounting in AEGIS","Mathematical Foundations"],"text":"```solidity\n// From L-units to token amounts\n(amount0, amount1) = LMath.getAmountsFromL(L, sqrtPriceX96, tickLower, tickUpper)\n```","length":32},
+    {"name":"l-units","category":"concepts","title":"L-Units: Liquidity Accounting in AEGIS","heading":"Key Relationship","anchor":"key-relationship","parents":["L-Units: Liquidity Accounting in AEGIS","Mathematical Foundations"],"text":"```\nL = liquidity * (tickSpacing factor)\n```\n\nWhere liquidity is Uniswap's internal unit for concentrated positions.","length":24},
+    {"name":"l-units","category":"concepts","title":"L-Units: Liquidity Accounting in AEGIS","heading":"Calculate Required L-Units for Borrow","anchor":"calculate-required-l-units-for-borrow","parents":["L-Units: Liquidity Accounting in AEGIS","Common Operations"],"text":"```solidity\nborrowL = LMath.getLFromAmounts(borrowAmount0, borrowAmount1, currentSqrtPrice, ...)\n```","length":29},
+    {"name":"l-units","category":"concepts","title":"L-Units: Liquidity Accounting in AEGIS","heading":"Calculate Tokens for Withdrawal","anchor":"calculate-tokens-for-withdrawal","parents":["L-Units: Liquidity Accounting in AEGIS","Common Operations"],"text":"```solidity\n(amount0, amount1) = LMath.getAmountsFromL(\n    shares * equityLWad / totalShares,\n    currentSqrtPrice,\n    tickLower,\n    tickUpper\n)\n```","length":27},
+    {"name":"l-units","category":"concepts","title":"L-Units: Liquidity Accounting in AEGIS","heading":"Invariants","anchor":"invariants","parents":["L-Units: Liquidity Accounting in AEGIS"],"text":"| ID | Statement | Reason |\n|----|-----------|--------|\n| I-1 | **Equity-neutral borrow/repay**: E_L unchanged by borrow/repay | Burn/mint r_L×M from L and move principal; algebra cancels |\n| I-2 | **Utilization cap**: All user actions enforce U_L ≤ Ū (95%) | Enforced on withdrawals; borrow/repay maintain by construction |\n| I-3 | **Protocol rake on interest only**; swap fees accrue to holders | feeSync() and interest accrual separation |\n| I-4 | **Per-vault solvency**: Non-overstatement of √K collateral | Delegated to Research-0008 |\n| I-5 | **No deposit donations**: Deposits don't create equity outside ΔL | Target-ΔL with exact pulls and refunds |\n| I-6 | **Share price monotone ↑**: On both deposits and withdrawals | Proportional mint (floor-rounded) |","length":99},
+    {"name":"l-units","category":"concepts","title":"L-Units: Liquidity Accounting in AEGIS","heading":"Interest Accrual","anchor":"interest-accrual","parents":["L-Units: Liquidity Accounting in AEGIS"],"text":"```solidity\n// Per-tick accrual (simple interest)\nΔM = rate(U_L) * Δt\nM += ΔM\nΔE = B_L * ΔM  // Interest earned in L-units\n\n// Protocol fee mint (only on interest, never swap fees)\nfee = f_prot * ΔE  // e.g., 10% of interest\nmint = floor(fee * T / (E_L + ΔE - fee))\n```","length":56},
+    {"name":"l-units","category":"concepts","title":"L-Units: Liquidity Accounting in AEGIS","heading":"Debugging Checklist","anchor":"debugging-checklist","parents":["L-Units: Liquidity Accounting in AEGIS"],"text":"- [ ] All L-unit operations use WAD (1e18) precision\n- [ ] Percentage calculations use PIPS (1e6)\n- [ ] Equity neutrality maintained for borrow/repay\n- [ ] Rounding direction favors protocol\n- [ ] No division-before-multiplication issues\n- [ ] Interest accrual happens before state changes","length":44},
+    {"name":"l-units","category":"concepts","title":"L-Units: Liquidity Accounting in AEGIS","heading":"Related Concepts","anchor":"related-concepts","parents":["L-Units: Liquidity Accounting in AEGIS"],"text":"- [PIPS](./pips.md) - Precision for percentages\n- [sqrt(K) Floor](./sqrt-k-floor.md) - Per-vault collateral (Research-0008)\n- [Vault Operations](../patterns/vault-operations.md) - How vaults use L-units\n- [Equity Neutrality](../gotchas/equity-neutrality.md) - Common violations","length":46},
+    {"name":"pips","category":"concepts","title":"PIPS: Parts Per Million in AEGIS","heading":"Overview","anchor":"overview","parents":["PIPS: Parts Per Million in AEGIS"],"text":"PIPS (Parts Per Million) is the precision standard used throughout AEGIS for representing percentages, ratios, and fees. Using 1e6 as the denominator provides sufficient precision while avoiding overflow issues.","length":31},
+    {"name":"pips","category":"concepts","title":"PIPS: Parts Per Million in AEGIS","heading":"Definition","anchor":"definition","parents":["PIPS: Parts Per Million in AEGIS"],"text":"```\n1 PIP = 1 / 1,000,000 = 0.0001%\n100% = 1,000,000 PIPS\n```","length":21},
+    {"name":"pips","category":"concepts","title":"PIPS: Parts Per Million in AEGIS","heading":"Common Values","anchor":"common-values","parents":["PIPS: Parts Per Million in AEGIS","Definition"],"text":"| Percentage | PIPS Value | Constant |\n|------------|------------|----------|\n| 100% | 1,000,000 | `1e6` |\n| 95% | 950,000 | Utilization cap |\n| 50% | 500,000 | |\n| 10% | 100,000 | |\n| 1% | 10,000 | |\n| 0.1% | 1,000 | |\n| 0.01% | 100 | |\n| 0.001% | 10 | |\n| 0.0001% | 1 | 1 PIP |","length":50},
+    {"name":"pips","category":"concepts","title":"PIPS: Parts Per Million in AEGIS","heading":"Problem: Percentage Precision","anchor":"problem-percentage-precision","parents":["PIPS: Parts Per Million in AEGIS","Why PIPS?"],"text":"With simple percentages:\n\n- 5% = 5 (loses sub-percent precision)\n- 5.5% = ? (can't represent)","length":28},
+    {"name":"pips","category":"concepts","title":"PIPS: Parts Per Million in AEGIS","heading":"Solution: PIPS Scale","anchor":"solution-pips-scale","parents":["PIPS: Parts Per Million in AEGIS","Why PIPS?"],"text":"With PIPS:\n\n- 5% = 50,000 PIPS\n- 5.5% = 55,000 PIPS\n- 5.55% = 55,500 PIPS\n- 5.555% = 55,550 PIPS","length":35},
+    {"name":"pips","category":"concepts","title":"PIPS: Parts Per Million in AEGIS","heading":"Why Not WAD (1e18)?","anchor":"why-not-wad-1e18","parents":["PIPS: Parts Per Million in AEGIS","Why PIPS?"],"text":"- WAD is overkill for percentages\n- Higher overflow risk in multiplications\n- PIPS sufficient for financial precision\n- Gas efficiency","length":28},
+    {"name":"pips","category":"concepts","title":"PIPS: Parts Per Million in AEGIS","heading":"AEGIS Constants","anchor":"aegis-constants","parents":["PIPS: Parts Per Million in AEGIS"],"text":"AEGIS uses **BPS (basis points)** for most parameters, where 10,000 BPS = 100%.","length":22},
+    {"name":"pips","category":"concepts","title":"PIPS: Parts Per Million in AEGIS","heading":"Protocol Parameters (BPS)","anchor":"protocol-parameters-bps","parents":["PIPS: Parts Per Million in AEGIS","AEGIS Constants"],"text":"```solidity\n// From Constants.sol\nuint256 constant BPS_DENOMINATOR = 10_000;\n\n// LTV Thresholds\nuint256 constant MAX_LTV_BPS = 9_800;           // 98% - Max allowed LTV\nuint256 constant HARD_LTV_BPS = 9_900;          // 99% - Hard liquidation threshold\n\n// Utilization\nuint256 constant UTILIZATION_CAP_BPS = 9_500;   // 95% - Market utilization cap\n\n// Fees (bounded to 10_000 max)\nuint256 constant PROTOCOL_FEE_MAX_BPS = 10_000; // Max protocol fee on interest\n\n// Keeper Rewards\nuint256 constant PEEL_BOUNTY_BPS = varies;      // Keeper peel reward\nuint256 constant MICRO_LIQ_FEE_MAX_BPS = varies; // Max micro-liquidation fee\n```","length":101},
+    {"name":"pips","category":"concepts","title":"PIPS: Parts Per Million in AEGIS","heading":"PPM (Parts Per Million) for Hook Fees","anchor":"ppm-parts-per-million-for-hook-fees","parents":["PIPS: Parts Per Million in AEGIS","AEGIS Constants"],"text":"```solidity\n// From PoolPolicyManager.sol\nuint256 constant PPM_SCALE = 1_000_000;         // 1e6 for hook fees\n\n// Hook fees use PPM, bounded by PPM_SCALE\nhookFeePpm <= PPM_SCALE  // Max 100%\n```","length":50},
+    {"name":"pips","category":"concepts","title":"PIPS: Parts Per Million in AEGIS","heading":"Applying a PIPS Rate","anchor":"applying-a-pips-rate","parents":["PIPS: Parts Per Million in AEGIS","Mathematical Operations"],"text":"```solidity\n// Calculate amount * rate (in PIPS)\nfunction applyPips(uint256 amount, uint256 ratePips) internal pure returns (uint256) {\n    return amount * ratePips / PIPS_DENOMINATOR;\n}\n\n// Example: 1000 tokens at 5% fee\n// fee = 1000 * 50_000 / 1_000_000 = 50 tokens\n```","length":50},
+    {"name":"pips","category":"concepts","title":"PIPS: Parts Per Million in AEGIS","heading":"Converting to/from PIPS","anchor":"converting-tofrom-pips","parents":["PIPS: Parts Per Million in AEGIS","Mathematical Operations"],"text":"```solidity\n// Percentage to PIPS\nfunction toPips(uint256 percent) internal pure returns (uint256) {\n    return percent * 10_000;  // 5% → 50,000 PIPS\n}\n\n// PIPS to percentage (with decimals)\nfunction fromPips(uint256 pips) internal pure returns (uint256) {\n    return pips / 10_000;  // 50,000 PIPS → 5%\n}\n```","length":51},
+    {"name":"pips","category":"concepts","title":"PIPS: Parts Per Million in AEGIS","heading":"Safe Multiplication","anchor":"safe-multiplication","parents":["PIPS: Parts Per Million in AEGIS","Mathematical Operations"],"text":"```solidity\n// Avoid overflow: multiply then divide\nfunction mulPips(uint256 a, uint256 pips) internal pure returns (uint256) {\n    return (a * pips) / PIPS_DENOMINATOR;\n}\n\n// For large numbers, use mulDiv\nfunction safeMulPips(uint256 a, uint256 pips) internal pure returns (uint256) {\n    return FullMath.mulDiv(a, pips, PIPS_DENOMINATOR);\n}\n```","length":51},
+    {"name":"pips","category":"concepts","title":"PIPS: Parts Per Million in AEGIS","heading":"Rounding","anchor":"rounding","parents":["PIPS: Parts Per Million in AEGIS","Precision Considerations"],"text":"Always consider rounding direction:\n\n```solidity\n// Round down (default, favors protocol)\nuint256 fee = amount * feePips / PIPS_DENOMINATOR;\n\n// Round up (when needed)\nuint256 feeUp = (amount * feePips + PIPS_DENOMINATOR - 1) / PIPS_DENOMINATOR;\n\n// Using FullMath\nuint256 feeDown = FullMath.mulDiv(amount, feePips, PIPS_DENOMINATOR);\nuint256 feeUp = FullMath.mulDivUp(amount, feePips, PIPS_DENOMINATOR);\n```","length":56},
+    {"name":"pips","category":"concepts","title":"PIPS: Parts Per Million in AEGIS","heading":"Precision Loss","anchor":"precision-loss","parents":["PIPS: Parts Per Million in AEGIS","Precision Considerations"],"text":"With small amounts:\n\n```solidity\n// 10 tokens at 0.01% fee\n// fee = 10 * 100 / 1_000_000 = 0 (precision loss!)\n\n// Solution: use minimum or WAD intermediate\nuint256 feeWad = amount * feePips * 1e12;  // Scale up\n// ... process in WAD ...\nuint256 fee = feeWad / 1e18;  // Scale down\n```","length":50},
+    {"name":"pips","category":"concepts","title":"PIPS: Parts Per Million in AEGIS","heading":"PIPS vs WAD Comparison","anchor":"pips-vs-wad-comparison","parents":["PIPS: Parts Per Million in AEGIS"],"text":"| Aspect | PIPS (1e6) | WAD (1e18) |\n|--------|------------|------------|\n| Precision | 0.0001% | ~0 |\n| Overflow risk | Lower | Higher |\n| Gas cost | Lower | Higher |\n| Use case | Percentages | Amounts |\n| Typical domain | Fees, ratios | Token amounts |","length":44},
+    {"name":"pips","category":"concepts","title":"PIPS: Parts Per Million in AEGIS","heading":"Fee Calculation","anchor":"fee-calculation","parents":["PIPS: Parts Per Million in AEGIS","Common Patterns"],"text":"```solidity\nfunction calculateFee(uint256 amount, uint256 feePips) internal pure returns (uint256) {\n    return FullMath.mulDiv(amount, feePips, PIPS_DENOMINATOR);\n}\n```","length":31},
+    {"name":"pips","category":"concepts","title":"PIPS: Parts Per Million in AEGIS","heading":"Utilization Check","anchor":"utilization-check","parents":["PIPS: Parts Per Million in AEGIS","Common Patterns"],"text":"```solidity\nfunction isUtilizationSafe(uint256 borrowed, uint256 total) internal pure returns (bool) {\n    uint256 utilizationPips = FullMath.mulDiv(borrowed, PIPS_DENOMINATOR, total);\n    return utilizationPips <= MAX_UTILIZATION_PIPS;\n}\n```","length":37},
+    {"name":"pips","category":"concepts","title":"PIPS: Parts Per Million in AEGIS","heading":"Collateral Ratio Check","anchor":"collateral-ratio-check","parents":["PIPS: Parts Per Million in AEGIS","Common Patterns"],"text":"```solidity\nfunction isCollateralSufficient(\n    uint256 collateralValue,\n    uint256 debtValue,\n    uint256 minRatioPips\n) internal pure returns (bool) {\n    // collateralValue / debtValue >= minRatioPips / PIPS_DENOMINATOR\n    return collateralValue * PIPS_DENOMINATOR >= debtValue * minRatioPips;\n}\n```","length":40},
+    {"name":"pips","category":"concepts","title":"PIPS: Parts Per Million in AEGIS","heading":"Debugging Tips","anchor":"debugging-tips","parents":["PIPS: Parts Per Million in AEGIS"],"text":"1. **Check scale**: Ensure both operands use PIPS\n2. **Watch for truncation**: Small amounts lose precision\n3. **Verify denominator**: Always divide by 1e6\n4. **Test boundaries**: Check at 0%, 100%, edge values","length":40},
+    {"name":"pips","category":"concepts","title":"PIPS: Parts Per Million in AEGIS","heading":"Related Concepts","anchor":"related-concepts","parents":["PIPS: Parts Per Million in AEGIS"],"text":"- [L-Units](./l-units.md) - Uses WAD precision\n- [Precision Errors](../gotchas/precision-errors.md) - Common mistakes\n- [Fee Accrual](../patterns/fee-accrual.md) - Fee calculations","length":35},
+    {"name":"sqrt-k-floor","category":"concepts","title":"sqrt(K) Floor: Collateral Requirements in AEGIS","heading":"Overview","anchor":"overview","parents":["sqrt(K) Floor: Collateral Requirements in AEGIS"],"text":"The sqrt(K) floor is a **static, price-invariant, oracle-free** collateral bound for per-vault solvency in AEGIS. It ensures borrowers maintain sufficient collateral without relying on external price feeds.\n\n> **Reference:** Research-0008 \"√K-First Static Collateral Floor\"","length":41},
+    {"name":"sqrt-k-floor","category":"concepts","title":"sqrt(K) Floor: Collateral Requirements in AEGIS","heading":"Basic Definition","anchor":"basic-definition","parents":["sqrt(K) Floor: Collateral Requirements in AEGIS","The Formula"],"text":"For a position with token amounts (x, y):\n\n```\n√K = floor(sqrt(x * y))\n```\n\nThis is the **geometric mean** of token amounts, providing a conservative lower bound that's independent of price.","length":34},
+    {"name":"sqrt-k-floor","category":"concepts","title":"sqrt(K) Floor: Collateral Requirements in AEGIS","heading":"Per-Vault Collateral (C_min)","anchor":"per-vault-collateral-c_min","parents":["sqrt(K) Floor: Collateral Requirements in AEGIS","The Formula"],"text":"```solidity\nC_min = CollateralFloorMath.evaluateRaw(\n    idleBalances,     // (idle0, idle1) in vault\n    nftPositions[]    // Up to 2 attached NFTs\n)\n```\n\nThe collateral floor aggregates:\n\n1. Idle token balances in the vault\n2. √K from each attached NFT position","length":50},
+    {"name":"sqrt-k-floor","category":"concepts","title":"sqrt(K) Floor: Collateral Requirements in AEGIS","heading":"LTV Calculation","anchor":"ltv-calculation","parents":["sqrt(K) Floor: Collateral Requirements in AEGIS","The Formula"],"text":"```\nLTV = (b_v * M) / C_min\n```\n\nWhere:\n\n- `b_v` = per-vault principal in √K units\n- `M` = interest multiplier (accrued debt factor)\n- `C_min` = collateral floor from `CollateralFloorMath`","length":37},
+    {"name":"sqrt-k-floor","category":"concepts","title":"sqrt(K) Floor: Collateral Requirements in AEGIS","heading":"Problem: Price Manipulation Risk","anchor":"problem-price-manipulation-risk","parents":["sqrt(K) Floor: Collateral Requirements in AEGIS","Why sqrt(K)?"],"text":"If collateral was based on current token value:\n\n- Attacker manipulates price via large swap\n- Collateral value temporarily inflates\n- Borrow against inflated value\n- Price returns → protocol has bad debt","length":46},
+    {"name":"sqrt-k-floor","category":"concepts","title":"sqrt(K) Floor: Collateral Requirements in AEGIS","heading":"Solution: sqrt(K) Is Price-Invariant","anchor":"solution-sqrtk-is-price-invariant","parents":["sqrt(K) Floor: Collateral Requirements in AEGIS","Why sqrt(K)?"],"text":"The √K value:\n\n- **Constant for any price** within a full-range position\n- Requires moving **BOTH** tokens proportionally to manipulate\n- Cost of manipulation exceeds profit from attack\n- No oracle dependency → no oracle manipulation vector","length":50},
+    {"name":"sqrt-k-floor","category":"concepts","title":"sqrt(K) Floor: Collateral Requirements in AEGIS","heading":"Collateral Calculation","anchor":"collateral-calculation","parents":["sqrt(K) Floor: Collateral Requirements in AEGIS","Implementation Details"],"text":"```solidity\nstruct CollateralInfo {\n    uint256 sqrtKFloor;      // Minimum sqrt(K) required\n    uint256 currentSqrtK;    // Current collateral value\n    bool isSafe;             // currentSqrtK >= sqrtKFloor\n}\n```","length":32},
+    {"name":"sqrt-k-floor","category":"concepts","title":"sqrt(K) Floor: Collateral Requirements in AEGIS","heading":"Multi-NFT Algorithm","anchor":"multi-nft-algorithm","parents":["sqrt(K) Floor: Collateral Requirements in AEGIS","Implementation Details"],"text":"For multiple collateral positions:\n\n```solidity\ntotalSqrtK = sum(sqrtK_i for each NFT position)\n```\n\nThe SAFE algorithm:\n\n1. Sum sqrt(K) across all positions\n2. Compare to total debt's sqrt(K) requirement\n3. Account for position concentration risk","length":49},
+    {"name":"sqrt-k-floor","category":"concepts","title":"sqrt(K) Floor: Collateral Requirements in AEGIS","heading":"Key Constants (BPS = basis points, 10000 = 100%)","anchor":"key-constants-bps--basis-points-10000--100","parents":["sqrt(K) Floor: Collateral Requirements in AEGIS"],"text":"| Constant | Value | Description |\n|----------|-------|-------------|\n| `MAX_LTV_BPS` | 9,800 | 98% - Maximum allowed LTV |\n| `HARD_LTV_BPS` | 9,900 | 99% - Hard liquidation threshold |\n| `UTILIZATION_CAP_BPS` | 9,500 | 95% - Market utilization cap |\n| `MAX_NFTS_PER_VAULT` | 2 | Maximum NFT positions per vault |\n| `PEEL_BOUNTY_BPS` | varies | Keeper reward for peel operations |","length":75},
+    {"name":"sqrt-k-floor","category":"concepts","title":"sqrt(K) Floor: Collateral Requirements in AEGIS","heading":"Healthy","anchor":"healthy","parents":["sqrt(K) Floor: Collateral Requirements in AEGIS","Collateral States"],"text":"```\nLTV = (b_v * M) / C_min < θ_L (MAX_LTV_BPS)\n```\n\nPosition is safe, all operations allowed.","length":27},
+    {"name":"sqrt-k-floor","category":"concepts","title":"sqrt(K) Floor: Collateral Requirements in AEGIS","heading":"Liquidatable","anchor":"liquidatable","parents":["sqrt(K) Floor: Collateral Requirements in AEGIS","Collateral States"],"text":"```\nLTV ≥ θ_L (MAX_LTV_BPS = 98%)\n```\n\nPosition can be liquidated by keepers via `peelOrMicroLiquidate`.","length":24},
+    {"name":"sqrt-k-floor","category":"concepts","title":"sqrt(K) Floor: Collateral Requirements in AEGIS","heading":"Hard Liquidation","anchor":"hard-liquidation","parents":["sqrt(K) Floor: Collateral Requirements in AEGIS","Collateral States"],"text":"```\nLTV ≥ θ_H (HARD_LTV_BPS = 99%)\n```\n\nForced liquidation with maximum keeper incentive.","length":26},
+    {"name":"sqrt-k-floor","category":"concepts","title":"sqrt(K) Floor: Collateral Requirements in AEGIS","heading":"Increasing Collateral","anchor":"increasing-collateral","parents":["sqrt(K) Floor: Collateral Requirements in AEGIS","Operations Affecting sqrt(K)"],"text":"1. Deposit additional NFTs\n2. Add liquidity to existing positions\n3. Result: `currentSqrtK` increases","length":29},
+    {"name":"sqrt-k-floor","category":"concepts","title":"sqrt(K) Floor: Collateral Requirements in AEGIS","heading":"Decreasing Collateral","anchor":"decreasing-collateral","parents":["sqrt(K) Floor: Collateral Requirements in AEGIS","Operations Affecting sqrt(K)"],"text":"1. Withdraw NFTs\n2. Remove liquidity from positions\n3. Must maintain `currentSqrtK >= sqrtKFloor`","length":28},
+    {"name":"sqrt-k-floor","category":"concepts","title":"sqrt(K) Floor: Collateral Requirements in AEGIS","heading":"Borrowing More","anchor":"borrowing-more","parents":["sqrt(K) Floor: Collateral Requirements in AEGIS","Operations Affecting sqrt(K)"],"text":"1. Calculate new total debt\n2. Calculate new `sqrtKFloor`\n3. Verify `currentSqrtK >= newSqrtKFloor`","length":29},
+    {"name":"sqrt-k-floor","category":"concepts","title":"sqrt(K) Floor: Collateral Requirements in AEGIS","heading":"Price Near Position Boundaries","anchor":"price-near-position-boundaries","parents":["sqrt(K) Floor: Collateral Requirements in AEGIS","Edge Cases"],"text":"When price moves to position edges:\n\n- Amount of one token approaches zero\n- sqrt(K) decreases\n- May trigger liquidation","length":35},
+    {"name":"sqrt-k-floor","category":"concepts","title":"sqrt(K) Floor: Collateral Requirements in AEGIS","heading":"Impermanent Loss Effects","anchor":"impermanent-loss-effects","parents":["sqrt(K) Floor: Collateral Requirements in AEGIS","Edge Cases"],"text":"Concentrated liquidity has amplified IL:\n\n- More sensitive to price movements\n- sqrt(K) can decrease significantly\n- Monitor positions actively","length":34},
+    {"name":"sqrt-k-floor","category":"concepts","title":"sqrt(K) Floor: Collateral Requirements in AEGIS","heading":"Flash Loan Resistance","anchor":"flash-loan-resistance","parents":["sqrt(K) Floor: Collateral Requirements in AEGIS","Security Considerations"],"text":"The sqrt(K) calculation:\n\n- Uses spot values, not TWAPs\n- But manipulation requires capital\n- Economic security through capital requirements","length":34},
+    {"name":"sqrt-k-floor","category":"concepts","title":"sqrt(K) Floor: Collateral Requirements in AEGIS","heading":"Oracle Independence","anchor":"oracle-independence","parents":["sqrt(K) Floor: Collateral Requirements in AEGIS","Security Considerations"],"text":"Unlike price oracles:\n\n- No external data dependencies\n- Calculated from on-chain state\n- Resistant to oracle manipulation","length":27},
+    {"name":"sqrt-k-floor","category":"concepts","title":"sqrt(K) Floor: Collateral Requirements in AEGIS","heading":"Related Concepts","anchor":"related-concepts","parents":["sqrt(K) Floor: Collateral Requirements in AEGIS"],"text":"- [L-Units](./l-units.md) - Liquidity unit accounting\n- [Collateral Management](../patterns/collateral-management.md) - Managing collateral\n- [Keeper Flows](../patterns/keeper-flows.md) - Liquidation process","length":36},
+    {"name":"transient-storage","category":"concepts","title":"Transient Storage: EIP-1153 in AEGIS","heading":"Overview","anchor":"overview","parents":["Transient Storage: EIP-1153 in AEGIS"],"text":"Transient storage (EIP-1153) provides temporary storage that persists only for the duration of a transaction. AEGIS uses it extensively for session-scoped state management.","length":26},
+    {"name":"transient-storage","category":"concepts","title":"Transient Storage: EIP-1153 in AEGIS","heading":"Operations","anchor":"operations","parents":["Transient Storage: EIP-1153 in AEGIS","EIP-1153 Basics"],"text":"| Opcode | Operation | Gas Cost |\n|--------|-----------|----------|\n| `TSTORE` | Write transient slot | 100 gas |\n| `TLOAD` | Read transient slot | 100 gas |\n\nCompare to regular storage:\n\n- `SSTORE` (cold): 20,000+ gas\n- `SLOAD` (cold): 2,100 gas","length":40},
+    {"name":"transient-storage","category":"concepts","title":"Transient Storage: EIP-1153 in AEGIS","heading":"Lifetime","anchor":"lifetime","parents":["Transient Storage: EIP-1153 in AEGIS","EIP-1153 Basics"],"text":"```\nTransaction Start\n    ↓\nTSTORE writes data\n    ↓\nTLOAD reads data (same transaction)\n    ↓\nTransaction End → All transient data cleared\n```","length":27},
+    {"name":"transient-storage","category":"concepts","title":"Transient Storage: EIP-1153 in AEGIS","heading":"Session Slots","anchor":"session-slots","parents":["Transient Storage: EIP-1153 in AEGIS","AEGIS Transient Storage Layout"],"text":"```solidity\n// Slot definitions (simplified)\nuint256 constant SESSION_ACTIVE_SLOT = 0x01;\nuint256 constant SESSION_OWNER_SLOT = 0x02;\nuint256 constant ACCUMULATED_DELTA_SLOT = 0x03;\nuint256 constant REENTRANCY_GUARD_SLOT = 0x04;\n```","length":43},
+    {"name":"transient-storage","category":"concepts","title":"Transient Storage: EIP-1153 in AEGIS","heading":"Data Stored","anchor":"data-stored","parents":["Transient Storage: EIP-1153 in AEGIS","AEGIS Transient Storage Layout"],"text":"| Slot | Data | Purpose |\n|------|------|---------|\n| `SESSION_ACTIVE` | bool | Is session in progress |\n| `SESSION_OWNER` | address | Who started session |\n| `DELTA_AMOUNT0` | int256 | Token 0 running total |\n| `DELTA_AMOUNT1` | int256 | Token 1 running total |\n| `PENDING_OPS` | bytes | Queued operations |","length":48},
+    {"name":"transient-storage","category":"concepts","title":"Transient Storage: EIP-1153 in AEGIS","heading":"Session Guard","anchor":"session-guard","parents":["Transient Storage: EIP-1153 in AEGIS","Usage Patterns"],"text":"```solidity\nmodifier onlyDuringSession() {\n    require(tload(SESSION_ACTIVE_SLOT) == 1, \"No active session\");\n    _;\n}\n\nfunction startSession() internal {\n    require(tload(SESSION_ACTIVE_SLOT) == 0, \"Session exists\");\n    tstore(SESSION_ACTIVE_SLOT, 1);\n    tstore(SESSION_OWNER_SLOT, uint256(uint160(msg.sender)));\n}\n\nfunction endSession() internal {\n    tstore(SESSION_ACTIVE_SLOT, 0);\n    tstore(SESSION_OWNER_SLOT, 0);\n}\n```","length":62},
+    {"name":"transient-storage","category":"concepts","title":"Transient Storage: EIP-1153 in AEGIS","heading":"Delta Accumulation","anchor":"delta-accumulation","parents":["Transient Storage: EIP-1153 in AEGIS","Usage Patterns"],"text":"```solidity\nfunction accumulateDelta(int256 amount0, int256 amount1) internal {\n    int256 current0 = int256(tload(DELTA_AMOUNT0_SLOT));\n    int256 current1 = int256(tload(DELTA_AMOUNT1_SLOT));\n\n    tstore(DELTA_AMOUNT0_SLOT, uint256(current0 + amount0));\n    tstore(DELTA_AMOUNT1_SLOT, uint256(current1 + amount1));\n}\n\nfunction getAccumulatedDeltas() internal view returns (int256, int256) {\n    return (\n        int256(tload(DELTA_AMOUNT0_SLOT)),\n        int256(tload(DELTA_AMOUNT1_SLOT))\n    );\n}\n```","length":67},
+    {"name":"transient-storage","category":"concepts","title":"Transient Storage: EIP-1153 in AEGIS","heading":"Reentrancy Protection","anchor":"reentrancy-protection","parents":["Transient Storage: EIP-1153 in AEGIS","Usage Patterns"],"text":"```solidity\nmodifier nonReentrantTransient() {\n    require(tload(REENTRANCY_GUARD_SLOT) == 0, \"Reentrant call\");\n    tstore(REENTRANCY_GUARD_SLOT, 1);\n    _;\n    tstore(REENTRANCY_GUARD_SLOT, 0);\n}\n```","length":34},
+    {"name":"transient-storage","category":"concepts","title":"Transient Storage: EIP-1153 in AEGIS","heading":"Gas Efficiency","anchor":"gas-efficiency","parents":["Transient Storage: EIP-1153 in AEGIS","Benefits in AEGIS"],"text":"Session state changes frequently:\n\n- Multiple operations per session\n- State cleared at end anyway\n- Transient saves ~20,000 gas per operation","length":32},
+    {"name":"transient-storage","category":"concepts","title":"Transient Storage: EIP-1153 in AEGIS","heading":"Automatic Cleanup","anchor":"automatic-cleanup","parents":["Transient Storage: EIP-1153 in AEGIS","Benefits in AEGIS"],"text":"No need to manually clear:\n\n- Session state auto-clears\n- No storage slot pollution\n- No orphaned data","length":28},
+    {"name":"transient-storage","category":"concepts","title":"Transient Storage: EIP-1153 in AEGIS","heading":"Reentrancy Safety","anchor":"reentrancy-safety","parents":["Transient Storage: EIP-1153 in AEGIS","Benefits in AEGIS"],"text":"Natural protection:\n\n- Guard resets at transaction end\n- Can't persist malicious state\n- Clean slate each transaction","length":28},
+    {"name":"transient-storage","category":"concepts","title":"Transient Storage: EIP-1153 in AEGIS","heading":"No Persistence","anchor":"no-persistence","parents":["Transient Storage: EIP-1153 in AEGIS","Limitations"],"text":"Data doesn't survive:\n\n- Transaction end\n- External calls (if they return)\n- Reverts (entire transaction)","length":26},
+    {"name":"transient-storage","category":"concepts","title":"Transient Storage: EIP-1153 in AEGIS","heading":"No Cross-Transaction Access","anchor":"no-cross-transaction-access","parents":["Transient Storage: EIP-1153 in AEGIS","Limitations"],"text":"Cannot:\n\n- Read previous transaction's transient data\n- Store data for future transactions\n- Use as cache across calls","length":33},
+    {"name":"transient-storage","category":"concepts","title":"Transient Storage: EIP-1153 in AEGIS","heading":"Assembly Required","anchor":"assembly-required","parents":["Transient Storage: EIP-1153 in AEGIS","Limitations"],"text":"In Solidity, need inline assembly:\n\n```solidity\nfunction tstore(uint256 slot, uint256 value) internal {\n    assembly {\n        tstore(slot, value)\n    }\n}\n\nfunction tload(uint256 slot) internal view returns (uint256 value) {\n    assembly {\n        value := tload(slot)\n    }\n}\n```","length":41},
+    {"name":"transient-storage","category":"concepts","title":"Transient Storage: EIP-1153 in AEGIS","heading":"In Foundry Tests","anchor":"in-foundry-tests","parents":["Transient Storage: EIP-1153 in AEGIS","Debugging Transient Storage"],"text":"```solidity\n// Can't directly read transient storage in tests\n// Use wrapper functions that expose values\nfunction getSessionState() external view returns (bool active, address owner) {\n    active = tload(SESSION_ACTIVE_SLOT) == 1;\n    owner = address(uint160(tload(SESSION_OWNER_SLOT)));\n}\n```","length":49},
+    {"name":"transient-storage","category":"concepts","title":"Transient Storage: EIP-1153 in AEGIS","heading":"Common Issues","anchor":"common-issues","parents":["Transient Storage: EIP-1153 in AEGIS","Debugging Transient Storage"],"text":"1. **Reading after transaction**: Data is gone\n2. **Assuming persistence**: State won't be there next call\n3. **Slot collisions**: Use unique slot constants\n4. **Type confusion**: Cast carefully between types","length":43},
+    {"name":"transient-storage","category":"concepts","title":"Transient Storage: EIP-1153 in AEGIS","heading":"Slot Isolation","anchor":"slot-isolation","parents":["Transient Storage: EIP-1153 in AEGIS","Security Considerations"],"text":"Use unique slots per logical variable:\n\n```solidity\n// Good: Unique slots\nuint256 constant SLOT_A = keccak256(\"aegis.session.slotA\");\nuint256 constant SLOT_B = keccak256(\"aegis.session.slotB\");\n\n// Bad: Sequential slots (collision risk)\nuint256 constant SLOT_A = 1;\nuint256 constant SLOT_B = 2;\n```","length":52},
+    {"name":"transient-storage","category":"concepts","title":"Transient Storage: EIP-1153 in AEGIS","heading":"Cross-Contract Safety","anchor":"cross-contract-safety","parents":["Transient Storage: EIP-1153 in AEGIS","Security Considerations"],"text":"Transient storage is per-contract:\n\n- Can't read other contract's transient data\n- External calls don't share transient state\n- Safe from cross-contract interference","length":39},
+    {"name":"transient-storage","category":"concepts","title":"Transient Storage: EIP-1153 in AEGIS","heading":"Related Concepts","anchor":"related-concepts","parents":["Transient Storage: EIP-1153 in AEGIS"],"text":"- [Two-Phase Execution](./two-phase-execution.md) - When transient storage is used\n- [Session Lifecycle](../patterns/session-lifecycle.md) - Session management\n- [Reentrancy Risks](../gotchas/reentrancy-risks.md) - Protection patterns","length":37},
+    {"name":"two-phase-execution","category":"concepts","title":"Two-Phase Execution: PM Locked vs Unlocked","heading":"Overview","anchor":"overview","parents":["Two-Phase Execution: PM Locked vs Unlocked"],"text":"AEGIS uses a two-phase execution model based on Uniswap V4's PoolManager callback pattern. Understanding when the PoolManager is locked vs unlocked is critical for safe contract interactions.","length":32},
+    {"name":"two-phase-execution","category":"concepts","title":"Two-Phase Execution: PM Locked vs Unlocked","heading":"Phase 0: PM Locked","anchor":"phase-0-pm-locked","parents":["Two-Phase Execution: PM Locked vs Unlocked","The Two Phases"],"text":"The PoolManager is locked (within a callback):\n\n- Direct pool operations available\n- Can swap, mint/burn liquidity\n- Transient storage active\n- Must complete before returning","length":41},
+    {"name":"two-phase-execution","category":"concepts","title":"Two-Phase Execution: PM Locked vs Unlocked","heading":"Phase 1: PM Unlocked","anchor":"phase-1-pm-unlocked","parents":["Two-Phase Execution: PM Locked vs Unlocked","The Two Phases"],"text":"The PoolManager is unlocked (normal execution):\n\n- Cannot directly access pool operations\n- Must go through unlock pattern\n- Prepare operations for Phase 0\n- Handle external interactions","length":42},
+    {"name":"two-phase-execution","category":"concepts","title":"Two-Phase Execution: PM Locked vs Unlocked","heading":"Execution Flow","anchor":"execution-flow","parents":["Two-Phase Execution: PM Locked vs Unlocked"],"text":"```\nUser Call (Phase 1)\n    ↓\nRouter.execute()\n    ↓\nPoolManager.unlock()\n    ↓\nunlockCallback() [Phase 0 begins]\n    ↓\n    ├── AegisEngine.executeSession()\n    ├── Swap/Mint/Burn operations\n    └── State updates\n    ↓\n[Phase 0 ends]\n    ↓\nReturn to Phase 1\n    ↓\nReturn to User\n```","length":41},
+    {"name":"two-phase-execution","category":"concepts","title":"Two-Phase Execution: PM Locked vs Unlocked","heading":"Phase 0 Operations","anchor":"phase-0-operations","parents":["Two-Phase Execution: PM Locked vs Unlocked","What Can Happen in Each Phase"],"text":"| Operation | Available | Notes |\n|-----------|-----------|-------|\n| Pool swaps | ✅ | Direct via PoolManager |\n| Mint liquidity | ✅ | Via hook callback |\n| Burn liquidity | ✅ | Via hook callback |\n| Transient storage | ✅ | Session state |\n| External calls | ⚠️ | Reentrancy risk |\n| Token transfers | ✅ | Via PoolManager |","length":50},
+    {"name":"two-phase-execution","category":"concepts","title":"Two-Phase Execution: PM Locked vs Unlocked","heading":"Phase 1 Operations","anchor":"phase-1-operations","parents":["Two-Phase Execution: PM Locked vs Unlocked","What Can Happen in Each Phase"],"text":"| Operation | Available | Notes |\n|-----------|-----------|-------|\n| Pool swaps | ❌ | Must unlock first |\n| NFT transfers | ✅ | ERC-721 ops |\n| External calls | ✅ | Safe to call out |\n| View functions | ✅ | Read state |\n| Setup/validation | ✅ | Prepare for Phase 0 |","length":47},
+    {"name":"two-phase-execution","category":"concepts","title":"Two-Phase Execution: PM Locked vs Unlocked","heading":"Session Start (Phase 1 → Phase 0)","anchor":"session-start-phase-1--phase-0","parents":["Two-Phase Execution: PM Locked vs Unlocked","Session Lifecycle"],"text":"```solidity\n// Phase 1: Setup\nfunction executeVaultAction(bytes calldata data) external {\n    // Validation in Phase 1\n    require(msg.sender == owner, \"Not owner\");\n\n    // Transition to Phase 0\n    poolManager.unlock(abi.encode(data));\n}\n\n// Phase 0: Execution\nfunction unlockCallback(bytes calldata data) external {\n    // Now in Phase 0\n    _startSession();\n    _executeActions(data);\n    _endSession();\n}\n```","length":70},
+    {"name":"two-phase-execution","category":"concepts","title":"Two-Phase Execution: PM Locked vs Unlocked","heading":"Session End (Phase 0 → Phase 1)","anchor":"session-end-phase-0--phase-1","parents":["Two-Phase Execution: PM Locked vs Unlocked","Session Lifecycle"],"text":"```solidity\nfunction _endSession() internal {\n    // Still in Phase 0\n    _settleBalances();\n    _clearTransientStorage();\n    // Return control - Phase 1 resumes\n}\n```","length":41},
+    {"name":"two-phase-execution","category":"concepts","title":"Two-Phase Execution: PM Locked vs Unlocked","heading":"Transient Storage Usage","anchor":"transient-storage-usage","parents":["Two-Phase Execution: PM Locked vs Unlocked"],"text":"Transient storage (EIP-1153) is only valid during Phase 0:\n\n```solidity\n// Phase 0 only\ntstore(SESSION_SLOT, sessionData)  // Write\ntload(SESSION_SLOT)                 // Read\n\n// Automatically cleared when Phase 0 ends\n```","length":43},
+    {"name":"two-phase-execution","category":"concepts","title":"Two-Phase Execution: PM Locked vs Unlocked","heading":"What to Store Transiently","anchor":"what-to-store-transiently","parents":["Two-Phase Execution: PM Locked vs Unlocked","Transient Storage Usage"],"text":"- Session identifiers\n- Accumulated deltas\n- Temporary calculations\n- Re-entrancy guards","length":25},
+    {"name":"two-phase-execution","category":"concepts","title":"Two-Phase Execution: PM Locked vs Unlocked","heading":"What NOT to Store Transiently","anchor":"what-not-to-store-transiently","parents":["Two-Phase Execution: PM Locked vs Unlocked","Transient Storage Usage"],"text":"- Persistent state\n- Audit logs\n- User balances\n- Anything needed after callback returns","length":30},
+    {"name":"two-phase-execution","category":"concepts","title":"Two-Phase Execution: PM Locked vs Unlocked","heading":"Safe External Calls","anchor":"safe-external-calls","parents":["Two-Phase Execution: PM Locked vs Unlocked","Common Patterns"],"text":"```solidity\nfunction processWithExternalCall() external {\n    // Phase 1: Make external call\n    uint256 data = externalContract.getData();\n\n    // Transition to Phase 0 with data\n    poolManager.unlock(abi.encode(data));\n}\n```","length":40},
+    {"name":"two-phase-execution","category":"concepts","title":"Two-Phase Execution: PM Locked vs Unlocked","heading":"Deferred Operations","anchor":"deferred-operations","parents":["Two-Phase Execution: PM Locked vs Unlocked","Common Patterns"],"text":"```solidity\nfunction unlockCallback(bytes calldata data) external {\n    // Phase 0: Execute pool operations\n    _executePoolOps(data);\n\n    // Queue actions for Phase 1\n    _queuePostSessionActions();\n}\n\nfunction executeQueuedActions() external {\n    // Phase 1: Process queued items\n    _processQueue();\n}\n```","length":43},
+    {"name":"two-phase-execution","category":"concepts","title":"Two-Phase Execution: PM Locked vs Unlocked","heading":"Reentrancy in Phase 0","anchor":"reentrancy-in-phase-0","parents":["Two-Phase Execution: PM Locked vs Unlocked","Security Considerations"],"text":"- External calls during Phase 0 are risky\n- Callbacks could re-enter\n- Use transient reentrancy guards\n\n```solidity\nfunction unlockCallback(bytes calldata data) external {\n    require(tload(REENTRANCY_GUARD) == 0, \"Reentrant\");\n    tstore(REENTRANCY_GUARD, 1);\n\n    // ... operations ...\n\n    tstore(REENTRANCY_GUARD, 0);\n}\n```","length":54},
+    {"name":"two-phase-execution","category":"concepts","title":"Two-Phase Execution: PM Locked vs Unlocked","heading":"State Consistency","anchor":"state-consistency","parents":["Two-Phase Execution: PM Locked vs Unlocked","Security Considerations"],"text":"- Don't assume state persists across phases\n- Transient storage clears automatically\n- Validate state at phase transitions","length":30},
+    {"name":"two-phase-execution","category":"concepts","title":"Two-Phase Execution: PM Locked vs Unlocked","heading":"Debugging Tips","anchor":"debugging-tips","parents":["Two-Phase Execution: PM Locked vs Unlocked"],"text":"1. **Identify current phase**: Check if in unlock callback\n2. **Trace phase transitions**: Log enter/exit\n3. **Verify transient storage**: Check values within Phase 0\n4. **Test reentrancy**: Attempt malicious callbacks","length":43},
+    {"name":"two-phase-execution","category":"concepts","title":"Two-Phase Execution: PM Locked vs Unlocked","heading":"Related Concepts","anchor":"related-concepts","parents":["Two-Phase Execution: PM Locked vs Unlocked"],"text":"- [Transient Storage](./transient-storage.md) - EIP-1153 details\n- [Session Lifecycle](../patterns/session-lifecycle.md) - Full session flow\n- [Reentrancy Risks](../gotchas/reentrancy-risks.md) - Security patterns","length":38},
+    {"name":"v4-hooks","category":"concepts","title":"Uniswap V4 Hooks: AEGIS Integration","heading":"Overview","anchor":"overview","parents":["Uniswap V4 Hooks: AEGIS Integration"],"text":"AEGIS integrates with Uniswap V4 through the hook system. The `AegisHook` contract implements specific hook callbacks to intercept and augment pool operations.","length":25},
+    {"name":"v4-hooks","category":"concepts","title":"Uniswap V4 Hooks: AEGIS Integration","heading":"Hook Lifecycle","anchor":"hook-lifecycle","parents":["Uniswap V4 Hooks: AEGIS Integration","V4 Hook Basics"],"text":"```\nUser Action\n    ↓\nRouter.execute()\n    ↓\nPoolManager.unlock()\n    ↓\nPoolManager.[operation]()\n    ↓\nHook.before[Operation]() ← AEGIS intercepts here\n    ↓\nCore Pool Logic\n    ↓\nHook.after[Operation]() ← AEGIS intercepts here\n    ↓\nReturn to User\n```","length":39},
+    {"name":"v4-hooks","category":"concepts","title":"Uniswap V4 Hooks: AEGIS Integration","heading":"Available Hooks","anchor":"available-hooks","parents":["Uniswap V4 Hooks: AEGIS Integration","V4 Hook Basics"],"text":"| Hook | Before | After | AEGIS Uses |\n|------|--------|-------|------------|\n| Initialize | ✅ | ✅ | ✅ Setup |\n| Swap | ✅ | ✅ | ✅ Fee capture |\n| ModifyLiquidity | ✅ | ✅ | ✅ Liquidity tracking |\n| Donate | ✅ | ✅ | ❌ |","length":28},
+    {"name":"v4-hooks","category":"concepts","title":"Uniswap V4 Hooks: AEGIS Integration","heading":"Hook Flags","anchor":"hook-flags","parents":["Uniswap V4 Hooks: AEGIS Integration","V4 Hook Basics"],"text":"```solidity\n// AEGIS Hook Flags (example)\nHooks.Permissions({\n    beforeInitialize: true,\n    afterInitialize: true,\n    beforeSwap: true,\n    afterSwap: true,\n    beforeModifyLiquidity: true,\n    afterModifyLiquidity: true,\n    beforeDonate: false,\n    afterDonate: false\n})\n```","length":37},
+    {"name":"v4-hooks","category":"concepts","title":"Uniswap V4 Hooks: AEGIS Integration","heading":"Pool Initialization","anchor":"pool-initialization","parents":["Uniswap V4 Hooks: AEGIS Integration","AegisHook Implementation"],"text":"```solidity\nfunction beforeInitialize(\n    address sender,\n    PoolKey calldata key,\n    uint160 sqrtPriceX96\n) external override returns (bytes4) {\n    // Validate pool configuration\n    _validatePoolKey(key);\n\n    // Initialize AEGIS market state\n    _initializeMarket(key);\n\n    return this.beforeInitialize.selector;\n}\n```","length":41},
+    {"name":"v4-hooks","category":"concepts","title":"Uniswap V4 Hooks: AEGIS Integration","heading":"Swap Hooks","anchor":"swap-hooks","parents":["Uniswap V4 Hooks: AEGIS Integration","AegisHook Implementation"],"text":"```solidity\nfunction beforeSwap(\n    address sender,\n    PoolKey calldata key,\n    IPoolManager.SwapParams calldata params,\n    bytes calldata hookData\n) external override returns (bytes4, BeforeSwapDelta, uint24) {\n    // Check if swap affects AEGIS positions\n    _checkSwapImpact(key, params);\n\n    // Apply dynamic fees if enabled\n    uint24 dynamicFee = _calculateDynamicFee(key, params);\n\n    return (\n        this.beforeSwap.selector,\n        BeforeSwapDeltaLibrary.ZERO_DELTA,\n        dynamicFee\n    );\n}\n\nfunction afterSwap(\n    address sender,\n    PoolKey calldata key,\n    IPoolManager.SwapParams calldata params,\n    BalanceDelta delta,\n    bytes calldata hookData\n) external override returns (bytes4, int128) {\n    // Capture fees for lenders\n    int128 hookDelta = _captureSwapFees(key, delta);\n\n    // Update market state\n    _updateMarketAfterSwap(key, delta);\n\n    return (this.afterSwap.selector, hookDelta);\n}\n```","length":99},
+    {"name":"v4-hooks","category":"concepts","title":"Uniswap V4 Hooks: AEGIS Integration","heading":"Liquidity Hooks","anchor":"liquidity-hooks","parents":["Uniswap V4 Hooks: AEGIS Integration","AegisHook Implementation"],"text":"```solidity\nfunction beforeModifyLiquidity(\n    address sender,\n    PoolKey calldata key,\n    IPoolManager.ModifyLiquidityParams calldata params,\n    bytes calldata hookData\n) external override returns (bytes4) {\n    // Validate liquidity operation\n    if (params.liquidityDelta > 0) {\n        // Adding liquidity - check market capacity\n        _checkMarketCapacity(key, params);\n    } else {\n        // Removing liquidity - check collateral requirements\n        _checkCollateralAfterRemoval(key, params);\n    }\n\n    return this.beforeModifyLiquidity.selector;\n}\n```","length":59},
+    {"name":"v4-hooks","category":"concepts","title":"Uniswap V4 Hooks: AEGIS Integration","heading":"Encoding Hook Data","anchor":"encoding-hook-data","parents":["Uniswap V4 Hooks: AEGIS Integration","Hook Data Pattern"],"text":"```solidity\n// In Router\nbytes memory hookData = abi.encode(\n    HookData({\n        sessionId: currentSession,\n        vaultId: userVault,\n        action: ActionType.BORROW\n    })\n);\n\npoolManager.swap(key, params, hookData);\n```","length":37},
+    {"name":"v4-hooks","category":"concepts","title":"Uniswap V4 Hooks: AEGIS Integration","heading":"Decoding in Hook","anchor":"decoding-in-hook","parents":["Uniswap V4 Hooks: AEGIS Integration","Hook Data Pattern"],"text":"```solidity\nfunction afterSwap(..., bytes calldata hookData) external {\n    HookData memory data = abi.decode(hookData, (HookData));\n\n    // Use hook data for AEGIS-specific logic\n    if (data.action == ActionType.BORROW) {\n        _processBorrowSwap(data.vaultId, delta);\n    }\n}\n```","length":43},
+    {"name":"v4-hooks","category":"concepts","title":"Uniswap V4 Hooks: AEGIS Integration","heading":"Dynamic Fee Hook","anchor":"dynamic-fee-hook","parents":["Uniswap V4 Hooks: AEGIS Integration","Fee Capture"],"text":"```solidity\nfunction getFee(\n    address sender,\n    PoolKey calldata key\n) external view returns (uint24) {\n    // Base fee + dynamic adjustment\n    uint24 baseFee = key.fee;\n    uint24 dynamicAdjustment = _calculateUtilizationFee(key);\n\n    return baseFee + dynamicAdjustment;\n}\n```","length":43},
+    {"name":"v4-hooks","category":"concepts","title":"Uniswap V4 Hooks: AEGIS Integration","heading":"Fee Distribution","anchor":"fee-distribution","parents":["Uniswap V4 Hooks: AEGIS Integration","Fee Capture"],"text":"```solidity\nfunction _captureSwapFees(\n    PoolKey calldata key,\n    BalanceDelta delta\n) internal returns (int128) {\n    // Calculate protocol's share\n    int256 fee0 = _calculateFeeShare(delta.amount0());\n    int256 fee1 = _calculateFeeShare(delta.amount1());\n\n    // Distribute to lenders\n    _distributeFees(key, fee0, fee1);\n\n    // Return hook's delta (fees taken)\n    return int128(fee0 + fee1);\n}\n```","length":54},
+    {"name":"v4-hooks","category":"concepts","title":"Uniswap V4 Hooks: AEGIS Integration","heading":"Session-Aware Hooks","anchor":"session-aware-hooks","parents":["Uniswap V4 Hooks: AEGIS Integration","Integration with AEGIS Engine"],"text":"```solidity\nfunction beforeSwap(...) external {\n    // Get current session from transient storage\n    Session memory session = _getCurrentSession();\n\n    if (session.active) {\n        // Within session - apply session rules\n        _applySessionRules(session, params);\n    } else {\n        // Regular swap - standard processing\n        _processStandardSwap(params);\n    }\n}\n```","length":48},
+    {"name":"v4-hooks","category":"concepts","title":"Uniswap V4 Hooks: AEGIS Integration","heading":"Engine Callbacks","anchor":"engine-callbacks","parents":["Uniswap V4 Hooks: AEGIS Integration","Integration with AEGIS Engine"],"text":"```solidity\n// Hook calls back to Engine\nfunction afterModifyLiquidity(...) external {\n    IAegisEngine(engine).onLiquidityModified(\n        key,\n        params.liquidityDelta,\n        hookData\n    );\n}\n```","length":29},
+    {"name":"v4-hooks","category":"concepts","title":"Uniswap V4 Hooks: AEGIS Integration","heading":"Callback Validation","anchor":"callback-validation","parents":["Uniswap V4 Hooks: AEGIS Integration","Security Considerations"],"text":"```solidity\nmodifier onlyPoolManager() {\n    require(msg.sender == address(poolManager), \"Not PM\");\n    _;\n}\n\nfunction beforeSwap(...) external onlyPoolManager {\n    // Safe - called by PoolManager\n}\n```","length":30},
+    {"name":"v4-hooks","category":"concepts","title":"Uniswap V4 Hooks: AEGIS Integration","heading":"Reentrancy in Hooks","anchor":"reentrancy-in-hooks","parents":["Uniswap V4 Hooks: AEGIS Integration","Security Considerations"],"text":"```solidity\n// Hooks are called during PM operations\n// External calls from hooks can cause reentrancy\nfunction afterSwap(...) external {\n    // Safe: read-only external call\n    uint256 price = oracle.getPrice();\n\n    // Risky: state-changing external call\n    // externalContract.update(); // Avoid!\n}\n```","length":45},
+    {"name":"v4-hooks","category":"concepts","title":"Uniswap V4 Hooks: AEGIS Integration","heading":"Foundry Setup","anchor":"foundry-setup","parents":["Uniswap V4 Hooks: AEGIS Integration","Testing Hooks"],"text":"```solidity\nfunction setUp() public {\n    // Deploy with hook flags\n    address hookAddress = address(\n        uint160(Hooks.BEFORE_SWAP_FLAG | Hooks.AFTER_SWAP_FLAG)\n    );\n\n    deployCodeTo(\"AegisHook.sol\", hookAddress);\n    hook = AegisHook(hookAddress);\n}\n```","length":39},
+    {"name":"v4-hooks","category":"concepts","title":"Uniswap V4 Hooks: AEGIS Integration","heading":"Testing Hook Behavior","anchor":"testing-hook-behavior","parents":["Uniswap V4 Hooks: AEGIS Integration","Testing Hooks"],"text":"```solidity\nfunction test_hookCapturesFees() public {\n    // Perform swap\n    poolManager.swap(key, params, hookData);\n\n    // Verify fees captured\n    assertGt(hook.accumulatedFees(key), 0);\n}\n```","length":36},
+    {"name":"v4-hooks","category":"concepts","title":"Uniswap V4 Hooks: AEGIS Integration","heading":"Related Concepts","anchor":"related-concepts","parents":["Uniswap V4 Hooks: AEGIS Integration"],"text":"- [Two-Phase Execution](./two-phase-execution.md) - PM locked/unlocked\n- [Session Lifecycle](../patterns/session-lifecycle.md) - Session management\n- [Fee Accrual](../patterns/fee-accrual.md) - Fee distribution","length":37},
+    {"name":"assemblyscript-quirks","category":"gotchas","title":"AssemblyScript Quirks: The Graph Development","heading":"Overview","anchor":"overview","parents":["AssemblyScript Quirks: The Graph Development"],"text":"The Graph's subgraph handlers are written in AssemblyScript, a TypeScript-like language that compiles to WebAssembly. It has subtle but important differences from TypeScript that cause common bugs.","length":27},
+    {"name":"assemblyscript-quirks","category":"gotchas","title":"AssemblyScript Quirks: The Graph Development","heading":"1. No undefined","anchor":"1-no-undefined","parents":["AssemblyScript Quirks: The Graph Development","Critical Differences"],"text":"**TypeScript:**\n\n```typescript\nlet value: string | undefined;\nif (value === undefined) { ... }\n```\n\n**AssemblyScript:**\n\n```typescript\n// undefined doesn't exist!\n// Use null for nullable types\nlet value: string | null = null;\nif (value === null) { ... }\n```","length":42},
+    {"name":"assemblyscript-quirks","category":"gotchas","title":"AssemblyScript Quirks: The Graph Development","heading":"2. No Implicit Type Coercion","anchor":"2-no-implicit-type-coercion","parents":["AssemblyScript Quirks: The Graph Development","Critical Differences"],"text":"**TypeScript (works):**\n\n```typescript\nlet num = 5;\nlet str = \"Value: \" + num;  // Automatic conversion\n```\n\n**AssemblyScript (error):**\n\n```typescript\nlet num: i32 = 5;\nlet str = \"Value: \" + num;  // ERROR!\nlet str = \"Value: \" + num.toString();  // Correct\n```","length":51},
+    {"name":"assemblyscript-quirks","category":"gotchas","title":"AssemblyScript Quirks: The Graph Development","heading":"3. Different Number Types","anchor":"3-different-number-types","parents":["AssemblyScript Quirks: The Graph Development","Critical Differences"],"text":"**AssemblyScript types:**\n\n| Type | Description |\n|------|-------------|\n| i32 | 32-bit signed integer |\n| u32 | 32-bit unsigned integer |\n| i64 | 64-bit signed integer |\n| u64 | 64-bit unsigned integer |\n| f32 | 32-bit float |\n| f64 | 64-bit float |\n\n**Common mistake:**\n\n```typescript\n// TypeScript\nlet x = 5;  // number\n\n// AssemblyScript\nlet x = 5;  // i32 (not number!)\nlet y: i64 = 5;  // Explicit 64-bit\n```","length":72},
+    {"name":"assemblyscript-quirks","category":"gotchas","title":"AssemblyScript Quirks: The Graph Development","heading":"4. BigInt Handling","anchor":"4-bigint-handling","parents":["AssemblyScript Quirks: The Graph Development","Critical Differences"],"text":"**Padding for Hex Conversion:**\n\n```typescript\n// Wrong: Loses leading zeros\nlet id = event.params.id.toHexString();\n// Returns \"0x1\" instead of \"0x0000...0001\"\n\n// Correct: Pad to expected length\nlet id = event.params.id.toHexString().padStart(66, '0');\n// Or use consistent formatting\nlet id = event.params.id.toHex();  // Includes 0x prefix\n```\n\n**BigInt arithmetic:**\n\n```typescript\n// Wrong: Regular operators\nlet sum = a + b;  // Only works if both are same type\n\n// Correct: Use BigInt methods\nlet sum = a.plus(b);\nlet diff = a.minus(b);\nlet product = a.times(b);\nlet quotient = a.div(b);\n```","length":94},
+    {"name":"assemblyscript-quirks","category":"gotchas","title":"AssemblyScript Quirks: The Graph Development","heading":"5. Entity Loading Returns null","anchor":"5-entity-loading-returns-null","parents":["AssemblyScript Quirks: The Graph Development","Critical Differences"],"text":"**Wrong:**\n\n```typescript\nlet vault = Vault.load(id);\nvault.balance = newBalance;  // ERROR if vault is null!\n```\n\n**Correct:**\n\n```typescript\nlet vault = Vault.load(id);\nif (vault === null) {\n    vault = new Vault(id);\n    vault.balance = BigInt.zero();\n}\nvault.balance = newBalance;\nvault.save();\n```","length":58},
+    {"name":"assemblyscript-quirks","category":"gotchas","title":"AssemblyScript Quirks: The Graph Development","heading":"1. String Comparison with Bytes","anchor":"1-string-comparison-with-bytes","parents":["AssemblyScript Quirks: The Graph Development","Common Bugs"],"text":"**Wrong:**\n\n```typescript\n// Bytes and string are not directly comparable\nif (event.params.action == \"deposit\") { ... }  // ERROR\n```\n\n**Correct:**\n\n```typescript\n// Convert Bytes to string first\nlet action = event.params.action.toString();\nif (action == \"deposit\") { ... }\n\n// Or compare as Bytes\nif (event.params.action.equals(Bytes.fromUTF8(\"deposit\"))) { ... }\n```","length":56},
+    {"name":"assemblyscript-quirks","category":"gotchas","title":"AssemblyScript Quirks: The Graph Development","heading":"2. Missing Null Checks","anchor":"2-missing-null-checks","parents":["AssemblyScript Quirks: The Graph Development","Common Bugs"],"text":"**Wrong:**\n\n```typescript\nexport function handleTransfer(event: Transfer): void {\n    let token = Token.load(event.params.tokenId.toString());\n    token.owner = event.params.to;  // Crashes if token doesn't exist!\n    token.save();\n}\n```\n\n**Correct:**\n\n```typescript\nexport function handleTransfer(event: Transfer): void {\n    let id = event.params.tokenId.toString();\n    let token = Token.load(id);\n\n    if (token === null) {\n        log.warning(\"Token {} not found\", [id]);\n        return;\n    }\n\n    token.owner = event.params.to;\n    token.save();\n}\n```","length":81},
+    {"name":"assemblyscript-quirks","category":"gotchas","title":"AssemblyScript Quirks: The Graph Development","heading":"3. BigDecimal Precision","anchor":"3-bigdecimal-precision","parents":["AssemblyScript Quirks: The Graph Development","Common Bugs"],"text":"**Wrong:**\n\n```typescript\n// Division loses precision\nlet ratio = amount0.div(amount1);\n```\n\n**Correct:**\n\n```typescript\n// Convert to BigDecimal for precision\nlet ratio = amount0.toBigDecimal().div(amount1.toBigDecimal());\n```","length":37},
+    {"name":"assemblyscript-quirks","category":"gotchas","title":"AssemblyScript Quirks: The Graph Development","heading":"4. Array Mutation","anchor":"4-array-mutation","parents":["AssemblyScript Quirks: The Graph Development","Common Bugs"],"text":"**Wrong (doesn't persist):**\n\n```typescript\nlet vault = Vault.load(id)!;\nvault.positions.push(newPosition);  // Creates copy, doesn't persist!\nvault.save();\n```\n\n**Correct:**\n\n```typescript\nlet vault = Vault.load(id)!;\nlet positions = vault.positions;\npositions.push(newPosition);\nvault.positions = positions;  // Reassign the array\nvault.save();\n```","length":57},
+    {"name":"assemblyscript-quirks","category":"gotchas","title":"AssemblyScript Quirks: The Graph Development","heading":"5. Event Parameter Access","anchor":"5-event-parameter-access","parents":["AssemblyScript Quirks: The Graph Development","Common Bugs"],"text":"**Wrong:**\n\n```typescript\n// Accessing non-existent parameter\nlet value = event.params.nonExistent;  // Runtime error\n```\n\n**Correct:**\n\n```typescript\n// Check event signature matches ABI\n// Use exact parameter names from contract\nlet value = event.params.existingParam;\n```","length":48},
+    {"name":"assemblyscript-quirks","category":"gotchas","title":"AssemblyScript Quirks: The Graph Development","heading":"Creating Mock Events","anchor":"creating-mock-events","parents":["AssemblyScript Quirks: The Graph Development","Matchstick Testing Patterns"],"text":"```typescript\nimport { newMockEvent } from \"matchstick-as\";\n\nfunction createDepositEvent(\n    vaultId: BigInt,\n    amount: BigInt\n): Deposit {\n    let event = changetype<Deposit>(newMockEvent());\n\n    event.parameters = new Array();\n    event.parameters.push(\n        new ethereum.EventParam(\"vaultId\", ethereum.Value.fromUnsignedBigInt(vaultId))\n    );\n    event.parameters.push(\n        new ethereum.EventParam(\"amount\", ethereum.Value.fromUnsignedBigInt(amount))\n    );\n\n    return event;\n}\n```","length":60},
+    {"name":"assemblyscript-quirks","category":"gotchas","title":"AssemblyScript Quirks: The Graph Development","heading":"Testing Entity State","anchor":"testing-entity-state","parents":["AssemblyScript Quirks: The Graph Development","Matchstick Testing Patterns"],"text":"```typescript\nimport { assert, test, clearStore } from \"matchstick-as\";\n\ntest(\"Deposit updates vault balance\", () => {\n    // Setup\n    let vaultId = BigInt.fromI32(1);\n    let initialBalance = BigInt.fromI32(1000);\n\n    // Create initial entity\n    let vault = new Vault(vaultId.toString());\n    vault.balance = initialBalance;\n    vault.save();\n\n    // Execute handler\n    let event = createDepositEvent(vaultId, BigInt.fromI32(500));\n    handleDeposit(event);\n\n    // Assert\n    assert.fieldEquals(\n        \"Vault\",\n        vaultId.toString(),\n        \"balance\",\n        \"1500\"\n    );\n\n    clearStore();\n});\n```","length":72},
+    {"name":"assemblyscript-quirks","category":"gotchas","title":"AssemblyScript Quirks: The Graph Development","heading":"Mocking Contract Calls","anchor":"mocking-contract-calls","parents":["AssemblyScript Quirks: The Graph Development","Matchstick Testing Patterns"],"text":"```typescript\nimport { createMockedFunction } from \"matchstick-as\";\n\ncreateMockedFunction(\n    Address.fromString(\"0x1234...\"),\n    \"balanceOf\",\n    \"balanceOf(address):(uint256)\"\n)\n    .withArgs([ethereum.Value.fromAddress(userAddress)])\n    .returns([ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(1000))]);\n```","length":40},
+    {"name":"assemblyscript-quirks","category":"gotchas","title":"AssemblyScript Quirks: The Graph Development","heading":"1. Use Logging","anchor":"1-use-logging","parents":["AssemblyScript Quirks: The Graph Development","Debugging Tips"],"text":"```typescript\nimport { log } from \"@graphprotocol/graph-ts\";\n\nlog.info(\"Processing vault {}\", [vaultId]);\nlog.warning(\"Unexpected state: {}\", [state.toString()]);\nlog.error(\"Critical error: {}\", [error]);\n```","length":37},
+    {"name":"assemblyscript-quirks","category":"gotchas","title":"AssemblyScript Quirks: The Graph Development","heading":"2. Null Safety Pattern","anchor":"2-null-safety-pattern","parents":["AssemblyScript Quirks: The Graph Development","Debugging Tips"],"text":"```typescript\nfunction safeLoadVault(id: string): Vault {\n    let vault = Vault.load(id);\n    if (vault === null) {\n        log.error(\"Vault {} not found\", [id]);\n        // Create empty entity or throw\n        vault = new Vault(id);\n    }\n    return vault;\n}\n```","length":48},
+    {"name":"assemblyscript-quirks","category":"gotchas","title":"AssemblyScript Quirks: The Graph Development","heading":"3. Type Conversion Helper","anchor":"3-type-conversion-helper","parents":["AssemblyScript Quirks: The Graph Development","Debugging Tips"],"text":"```typescript\nfunction bytesToString(bytes: Bytes): string {\n    return bytes.toHexString();\n}\n\nfunction bigIntToId(value: BigInt): string {\n    return value.toHexString().padStart(66, '0');\n}\n```","length":38},
+    {"name":"assemblyscript-quirks","category":"gotchas","title":"AssemblyScript Quirks: The Graph Development","heading":"Use Derived Fields","anchor":"use-derived-fields","parents":["AssemblyScript Quirks: The Graph Development","Schema Best Practices"],"text":"```yaml\n# schema.graphql\ntype Vault @entity {\n  id: ID!\n  positions: [Position!]! @derivedFrom(field: \"vault\")\n}\n\ntype Position @entity {\n  id: ID!\n  vault: Vault!\n}\n```","length":36},
+    {"name":"assemblyscript-quirks","category":"gotchas","title":"AssemblyScript Quirks: The Graph Development","heading":"Consistent ID Formatting","anchor":"consistent-id-formatting","parents":["AssemblyScript Quirks: The Graph Development","Schema Best Practices"],"text":"```typescript\n// Combine multiple values into ID\nfunction createPositionId(vaultId: BigInt, index: i32): string {\n    return vaultId.toString() + \"-\" + index.toString();\n}\n```","length":34},
+    {"name":"assemblyscript-quirks","category":"gotchas","title":"AssemblyScript Quirks: The Graph Development","heading":"Related Concepts","anchor":"related-concepts","parents":["AssemblyScript Quirks: The Graph Development"],"text":"- [V4 Hooks](../concepts/v4-hooks.md) - Event sources\n- [Fee Accrual](../patterns/fee-accrual.md) - Tracking in subgraph\n- [Vault Operations](../patterns/vault-operations.md) - Entity modeling","length":34},
+    {"name":"equity-neutrality","category":"gotchas","title":"Equity Neutrality: Common Violations","heading":"The Invariant","anchor":"the-invariant","parents":["Equity Neutrality: Common Violations"],"text":"**Borrow and repay operations MUST NOT change `equityLWad`.**\n\nThis is the fundamental accounting invariant of AEGIS. When a user borrows or repays, only `debtPrincipalLWad` changes. The lenders' equity (`equityLWad`) remains constant.","length":29},
+    {"name":"equity-neutrality","category":"gotchas","title":"Equity Neutrality: Common Violations","heading":"Correct Behavior","anchor":"correct-behavior","parents":["Equity Neutrality: Common Violations","Why This Matters"],"text":"```\nBefore Borrow:\n  equityLWad = 1000\n  debtPrincipalLWad = 500\n\nAfter Borrow of 100L:\n  equityLWad = 1000       ← UNCHANGED\n  debtPrincipalLWad = 600 ← +100\n\nBefore Repay:\n  equityLWad = 1000\n  debtPrincipalLWad = 600\n\nAfter Repay of 50L:\n  equityLWad = 1000       ← UNCHANGED\n  debtPrincipalLWad = 550 ← -50\n```","length":41},
+    {"name":"equity-neutrality","category":"gotchas","title":"Equity Neutrality: Common Violations","heading":"What Equity Neutrality Protects","anchor":"what-equity-neutrality-protects","parents":["Equity Neutrality: Common Violations","Why This Matters"],"text":"1. **Share price stability**: Borrows don't dilute lenders\n2. **Fair accounting**: Debt doesn't become equity\n3. **Predictable returns**: Lenders know their expected yield\n4. **Protocol solvency**: Assets match liabilities","length":45},
+    {"name":"equity-neutrality","category":"gotchas","title":"Equity Neutrality: Common Violations","heading":"1. Adding Borrow Amount to Equity","anchor":"1-adding-borrow-amount-to-equity","parents":["Equity Neutrality: Common Violations","Common Violations"],"text":"**Wrong:**\n\n```solidity\nfunction borrow(uint256 amount) internal {\n    // BUG: This increases lender equity!\n    equityLWad += amount;\n    debtPrincipalLWad += amount;\n}\n```\n\n**Correct:**\n\n```solidity\nfunction borrow(uint256 amount) internal {\n    // Only debt changes\n    debtPrincipalLWad += amount;\n}\n```","length":48},
+    {"name":"equity-neutrality","category":"gotchas","title":"Equity Neutrality: Common Violations","heading":"2. Subtracting Repay from Equity","anchor":"2-subtracting-repay-from-equity","parents":["Equity Neutrality: Common Violations","Common Violations"],"text":"**Wrong:**\n\n```solidity\nfunction repay(uint256 amount) internal {\n    // BUG: This decreases lender equity!\n    equityLWad -= amount;\n    debtPrincipalLWad -= amount;\n}\n```\n\n**Correct:**\n\n```solidity\nfunction repay(uint256 amount) internal {\n    // Only debt changes\n    debtPrincipalLWad -= amount;\n}\n```","length":45},
+    {"name":"equity-neutrality","category":"gotchas","title":"Equity Neutrality: Common Violations","heading":"3. Confusing Interest with Principal","anchor":"3-confusing-interest-with-principal","parents":["Equity Neutrality: Common Violations","Common Violations"],"text":"**Wrong:**\n\n```solidity\nfunction accrueInterest() internal {\n    uint256 interest = calculateInterest();\n    // BUG: Interest should go to equity, not debt principal\n    debtPrincipalLWad += interest;\n}\n```\n\n**Correct:**\n\n```solidity\nfunction accrueInterest() internal {\n    uint256 interest = calculateInterest();\n    // Interest DOES increase equity (it's a fee, not a borrow)\n    equityLWad += interest;\n}\n```","length":53},
+    {"name":"equity-neutrality","category":"gotchas","title":"Equity Neutrality: Common Violations","heading":"4. Double-Counting During Liquidation","anchor":"4-double-counting-during-liquidation","parents":["Equity Neutrality: Common Violations","Common Violations"],"text":"**Wrong:**\n\n```solidity\nfunction liquidate(uint256 vaultId) internal {\n    uint256 debt = vaults[vaultId].debtL;\n    uint256 proceeds = sellCollateral(vaultId);\n\n    // BUG: Proceeds shouldn't go to equity if covering debt\n    equityLWad += proceeds;\n    debtPrincipalLWad -= debt;\n}\n```\n\n**Correct:**\n\n```solidity\nfunction liquidate(uint256 vaultId) internal {\n    uint256 debt = vaults[vaultId].debtL;\n    uint256 proceeds = sellCollateral(vaultId);\n\n    if (proceeds >= debt) {\n        // Debt fully covered\n        debtPrincipalLWad -= debt;\n        // Remainder to vault owner (not equity)\n        transferToOwner(proceeds - debt);\n    } else {\n        // Bad debt - this DOES affect equity\n        debtPrincipalLWad -= debt;\n        equityLWad -= (debt - proceeds);  // Socialize loss\n    }\n}\n```","length":94},
+    {"name":"equity-neutrality","category":"gotchas","title":"Equity Neutrality: Common Violations","heading":"5. Fee Calculation Errors","anchor":"5-fee-calculation-errors","parents":["Equity Neutrality: Common Violations","Common Violations"],"text":"**Wrong:**\n\n```solidity\nfunction chargeBorrowFee(uint256 borrowAmount) internal {\n    uint256 fee = borrowAmount * FEE_RATE / PIPS;\n\n    // BUG: Fee should increase equity, but borrow shouldn't\n    equityLWad += borrowAmount;  // Wrong!\n    equityLWad += fee;           // Correct\n}\n```\n\n**Correct:**\n\n```solidity\nfunction chargeBorrowFee(uint256 borrowAmount) internal {\n    uint256 fee = borrowAmount * FEE_RATE / PIPS;\n\n    // Only the fee increases equity\n    equityLWad += fee;\n\n    // Borrow increases debt only\n    debtPrincipalLWad += borrowAmount;\n}\n```","length":71},
+    {"name":"equity-neutrality","category":"gotchas","title":"Equity Neutrality: Common Violations","heading":"Invariant Test","anchor":"invariant-test","parents":["Equity Neutrality: Common Violations","Validation Checks"],"text":"```solidity\nfunction test_equityNeutrality_borrow() public {\n    uint256 equityBefore = engine.equityLWad();\n\n    // Perform borrow\n    vm.prank(borrower);\n    engine.borrow(vaultId, 100e18);\n\n    uint256 equityAfter = engine.equityLWad();\n\n    // Equity unchanged (only fee might add to it)\n    assertEq(equityAfter, equityBefore + expectedFee);\n}\n\nfunction test_equityNeutrality_repay() public {\n    uint256 equityBefore = engine.equityLWad();\n\n    // Perform repay\n    vm.prank(borrower);\n    engine.repay(vaultId, 50e18);\n\n    uint256 equityAfter = engine.equityLWad();\n\n    // Equity unchanged\n    assertEq(equityAfter, equityBefore);\n}\n```","length":72},
+    {"name":"equity-neutrality","category":"gotchas","title":"Equity Neutrality: Common Violations","heading":"Fuzz Test","anchor":"fuzz-test","parents":["Equity Neutrality: Common Violations","Validation Checks"],"text":"```solidity\nfunction testFuzz_equityNeutrality(\n    uint256 borrowAmount,\n    uint256 repayAmount\n) public {\n    borrowAmount = bound(borrowAmount, 1e18, 1000e18);\n    repayAmount = bound(repayAmount, 0, borrowAmount);\n\n    uint256 equityBefore = engine.equityLWad();\n\n    engine.borrow(vaultId, borrowAmount);\n    engine.repay(vaultId, repayAmount);\n\n    uint256 equityAfter = engine.equityLWad();\n\n    // Only fees should change equity\n    uint256 expectedFeeIncrease = calculateExpectedFees(borrowAmount);\n    assertEq(equityAfter, equityBefore + expectedFeeIncrease);\n}\n```","length":60},
+    {"name":"equity-neutrality","category":"gotchas","title":"Equity Neutrality: Common Violations","heading":"Invariant Test","anchor":"invariant-test","parents":["Equity Neutrality: Common Violations","Validation Checks"],"text":"```solidity\nfunction invariant_equityNeutralityHolds() public {\n    // Track equity changes over all operations\n    uint256 currentEquity = engine.equityLWad();\n    uint256 totalFees = engine.accumulatedFees();\n\n    // Equity should only increase by fees\n    assertEq(currentEquity, initialEquity + totalFees);\n}\n```","length":40},
+    {"name":"equity-neutrality","category":"gotchas","title":"Equity Neutrality: Common Violations","heading":"Symptoms","anchor":"symptoms","parents":["Equity Neutrality: Common Violations","Debugging Violations"],"text":"1. **Share price drops unexpectedly**: Equity decreased\n2. **Share price spikes on borrow**: Equity incorrectly increased\n3. **Lenders lose money on normal operations**: Equity leaking\n4. **Protocol becomes insolvent**: Assets < liabilities","length":38},
+    {"name":"equity-neutrality","category":"gotchas","title":"Equity Neutrality: Common Violations","heading":"Debugging Steps","anchor":"debugging-steps","parents":["Equity Neutrality: Common Violations","Debugging Violations"],"text":"1. **Track equity before/after each operation**\n2. **Verify only fees increase equity**\n3. **Check debt changes equal borrow/repay amounts**\n4. **Audit liquidation paths separately**","length":38},
+    {"name":"equity-neutrality","category":"gotchas","title":"Equity Neutrality: Common Violations","heading":"Logging Pattern","anchor":"logging-pattern","parents":["Equity Neutrality: Common Violations","Debugging Violations"],"text":"```solidity\nfunction borrow(uint256 amount) internal {\n    uint256 equityBefore = equityLWad;\n    uint256 debtBefore = debtPrincipalLWad;\n\n    _executeBorrow(amount);\n\n    // Verify invariant\n    assert(equityLWad == equityBefore + expectedFee);\n    assert(debtPrincipalLWad == debtBefore + amount);\n\n    emit BorrowExecuted(amount, equityLWad, debtPrincipalLWad);\n}\n```","length":41},
+    {"name":"equity-neutrality","category":"gotchas","title":"Equity Neutrality: Common Violations","heading":"Safe Operations Reference","anchor":"safe-operations-reference","parents":["Equity Neutrality: Common Violations"],"text":"| Operation | equityLWad Change | debtPrincipalLWad Change |\n|-----------|-------------------|--------------------------|\n| Deposit | +depositL | 0 |\n| Withdraw | -withdrawL | 0 |\n| Borrow | +fee only | +borrowL |\n| Repay | 0 | -repayL |\n| Interest accrual | +interest | 0 |\n| Swap fee | +fee | 0 |\n| Bad debt | -badDebt | -badDebt |","length":43},
+    {"name":"equity-neutrality","category":"gotchas","title":"Equity Neutrality: Common Violations","heading":"Related Concepts","anchor":"related-concepts","parents":["Equity Neutrality: Common Violations"],"text":"- [L-Units](../concepts/l-units.md) - Accounting foundation\n- [Fee Accrual](../patterns/fee-accrual.md) - Legitimate equity increases\n- [Precision Errors](./precision-errors.md) - Rounding can violate neutrality","length":36},
+    {"name":"precision-errors","category":"gotchas","title":"Precision Errors: PIPS, WAD, and Rounding","heading":"Overview","anchor":"overview","parents":["Precision Errors: PIPS, WAD, and Rounding"],"text":"Precision errors are among the most common bugs in DeFi protocols. AEGIS uses multiple precision levels (PIPS, WAD, RAY) and careful rounding strategies to maintain correctness.","length":29},
+    {"name":"precision-errors","category":"gotchas","title":"Precision Errors: PIPS, WAD, and Rounding","heading":"Precision Levels","anchor":"precision-levels","parents":["Precision Errors: PIPS, WAD, and Rounding"],"text":"| Name | Value | Use Case |\n|------|-------|----------|\n| PIPS | 1e6 | Percentages, fees, ratios |\n| WAD | 1e18 | Token amounts, L-units |\n| RAY | 1e27 | Interest rate calculations |\n| X96 | 2^96 | Uniswap sqrt prices |","length":37},
+    {"name":"precision-errors","category":"gotchas","title":"Precision Errors: PIPS, WAD, and Rounding","heading":"1. Wrong Denominator","anchor":"1-wrong-denominator","parents":["Precision Errors: PIPS, WAD, and Rounding","Common Errors"],"text":"**Wrong:**\n\n```solidity\nfunction applyFee(uint256 amount, uint256 feePips) internal returns (uint256) {\n    // BUG: Using WAD instead of PIPS denominator\n    return amount * feePips / 1e18;\n}\n```\n\n**Correct:**\n\n```solidity\nfunction applyFee(uint256 amount, uint256 feePips) internal returns (uint256) {\n    return amount * feePips / 1_000_000;  // PIPS_DENOMINATOR\n}\n```","length":56},
+    {"name":"precision-errors","category":"gotchas","title":"Precision Errors: PIPS, WAD, and Rounding","heading":"2. Order of Operations","anchor":"2-order-of-operations","parents":["Precision Errors: PIPS, WAD, and Rounding","Common Errors"],"text":"**Wrong:**\n\n```solidity\nfunction calculateShare(uint256 amount, uint256 total, uint256 shares) internal returns (uint256) {\n    // BUG: Division before multiplication loses precision\n    return amount / total * shares;\n}\n```\n\n**Correct:**\n\n```solidity\nfunction calculateShare(uint256 amount, uint256 total, uint256 shares) internal returns (uint256) {\n    // Multiply first, then divide\n    return amount * shares / total;\n}\n```\n\n**Best:**\n\n```solidity\nfunction calculateShare(uint256 amount, uint256 total, uint256 shares) internal returns (uint256) {\n    // Use FullMath for overflow safety\n    return FullMath.mulDiv(amount, shares, total);\n}\n```","length":83},
+    {"name":"precision-errors","category":"gotchas","title":"Precision Errors: PIPS, WAD, and Rounding","heading":"3. Mixing Precision Levels","anchor":"3-mixing-precision-levels","parents":["Precision Errors: PIPS, WAD, and Rounding","Common Errors"],"text":"**Wrong:**\n\n```solidity\nfunction calculateInterest(uint256 principalWad, uint256 ratePips) internal returns (uint256) {\n    // BUG: Result is in weird units (WAD * PIPS)\n    return principalWad * ratePips;\n}\n```\n\n**Correct:**\n\n```solidity\nfunction calculateInterest(uint256 principalWad, uint256 ratePips) internal returns (uint256) {\n    // Normalize to WAD\n    return FullMath.mulDiv(principalWad, ratePips, PIPS_DENOMINATOR);\n}\n```","length":59},
+    {"name":"precision-errors","category":"gotchas","title":"Precision Errors: PIPS, WAD, and Rounding","heading":"4. Truncation to Zero","anchor":"4-truncation-to-zero","parents":["Precision Errors: PIPS, WAD, and Rounding","Common Errors"],"text":"**Problem:**\n\n```solidity\n// Small amounts can truncate to zero\nuint256 fee = 10 * 100 / 1_000_000;  // = 0, not 0.001\n```\n\n**Solutions:**\n\n```solidity\n// Solution 1: Minimum fee\nuint256 fee = Math.max(amount * feePips / PIPS, MIN_FEE);\n\n// Solution 2: Scale up intermediate\nuint256 feeWad = amount * feePips * 1e12;  // Now in WAD precision\n// ... process in WAD ...\nuint256 fee = feeWad / 1e18;\n\n// Solution 3: Round up\nuint256 fee = (amount * feePips + PIPS - 1) / PIPS;\n```","length":79},
+    {"name":"precision-errors","category":"gotchas","title":"Precision Errors: PIPS, WAD, and Rounding","heading":"5. Sqrt Price Conversion Errors","anchor":"5-sqrt-price-conversion-errors","parents":["Precision Errors: PIPS, WAD, and Rounding","Common Errors"],"text":"**Wrong:**\n\n```solidity\nfunction getPrice(uint160 sqrtPriceX96) internal returns (uint256) {\n    // BUG: Overflow risk and wrong scaling\n    return uint256(sqrtPriceX96) * uint256(sqrtPriceX96) / (2**96);\n}\n```\n\n**Correct:**\n\n```solidity\nfunction getPrice(uint160 sqrtPriceX96) internal returns (uint256) {\n    // Use FullMath to avoid overflow\n    return FullMath.mulDiv(\n        uint256(sqrtPriceX96),\n        uint256(sqrtPriceX96),\n        1 << 192\n    );\n}\n```","length":65},
+    {"name":"precision-errors","category":"gotchas","title":"Precision Errors: PIPS, WAD, and Rounding","heading":"Protocol-Favorable Rounding","anchor":"protocol-favorable-rounding","parents":["Precision Errors: PIPS, WAD, and Rounding","Rounding Rules"],"text":"Always round in the protocol's favor to prevent value extraction:\n\n| Operation | Round Direction | Rationale |\n|-----------|-----------------|-----------|\n| Fee calculation | Up | Protocol gets more |\n| Withdrawal amount | Down | User gets less |\n| Collateral requirement | Up | More collateral needed |\n| Share minting | Down | Fewer shares issued |\n| Share burning | Up | More shares burned |","length":58},
+    {"name":"precision-errors","category":"gotchas","title":"Precision Errors: PIPS, WAD, and Rounding","heading":"Implementation","anchor":"implementation","parents":["Precision Errors: PIPS, WAD, and Rounding","Rounding Rules"],"text":"```solidity\n// Round down (default)\nuint256 amountDown = a * b / c;\n\n// Round up\nuint256 amountUp = (a * b + c - 1) / c;\n\n// Using FullMath\nuint256 down = FullMath.mulDiv(a, b, c);\nuint256 up = FullMath.mulDivUp(a, b, c);\n```","length":40},
+    {"name":"precision-errors","category":"gotchas","title":"Precision Errors: PIPS, WAD, and Rounding","heading":"Deposit/Withdraw Example","anchor":"depositwithdraw-example","parents":["Precision Errors: PIPS, WAD, and Rounding","Rounding Rules"],"text":"```solidity\nfunction deposit(uint256 amount) external returns (uint256 shares) {\n    // Round DOWN shares minted (favor protocol)\n    shares = FullMath.mulDiv(amount, totalShares, totalAssets);\n    _mint(msg.sender, shares);\n}\n\nfunction withdraw(uint256 shares) external returns (uint256 amount) {\n    // Round DOWN amount returned (favor protocol)\n    amount = FullMath.mulDiv(shares, totalAssets, totalShares);\n    _burn(msg.sender, shares);\n    _transfer(msg.sender, amount);\n}\n```","length":69},
+    {"name":"precision-errors","category":"gotchas","title":"Precision Errors: PIPS, WAD, and Rounding","heading":"1. Accumulating Rounding Errors","anchor":"1-accumulating-rounding-errors","parents":["Precision Errors: PIPS, WAD, and Rounding","Dangerous Patterns"],"text":"```solidity\n// Each iteration loses precision\nfor (uint256 i = 0; i < 100; i++) {\n    balance = balance * rate / PIPS;  // Error accumulates!\n}\n```\n\n**Fix: Use exponentiation or higher precision**","length":38},
+    {"name":"precision-errors","category":"gotchas","title":"Precision Errors: PIPS, WAD, and Rounding","heading":"2. Price Oracle Precision Loss","anchor":"2-price-oracle-precision-loss","parents":["Precision Errors: PIPS, WAD, and Rounding","Dangerous Patterns"],"text":"```solidity\n// Wrong: Loses precision in cross-rate\nuint256 ethUsd = 2000e8;  // 8 decimals\nuint256 btcUsd = 50000e8;\nuint256 ethBtc = ethUsd / btcUsd;  // = 0!\n```\n\n**Fix:**\n\n```solidity\nuint256 ethBtc = FullMath.mulDiv(ethUsd, 1e18, btcUsd);\n```","length":50},
+    {"name":"precision-errors","category":"gotchas","title":"Precision Errors: PIPS, WAD, and Rounding","heading":"3. Integer Division Asymmetry","anchor":"3-integer-division-asymmetry","parents":["Precision Errors: PIPS, WAD, and Rounding","Dangerous Patterns"],"text":"```solidity\n// Positive and negative round differently\nint256 a = 7 / 3;   // = 2 (rounds toward zero)\nint256 b = -7 / 3;  // = -2 (rounds toward zero, not -3)\n```\n\n**Fix: Explicit rounding functions for signed math**","length":47},
+    {"name":"precision-errors","category":"gotchas","title":"Precision Errors: PIPS, WAD, and Rounding","heading":"Boundary Testing","anchor":"boundary-testing","parents":["Precision Errors: PIPS, WAD, and Rounding","Testing for Precision Errors"],"text":"```solidity\nfunction test_minimalAmount() public {\n    // Test with smallest meaningful amounts\n    uint256 tiny = 1;  // 1 wei\n    uint256 fee = engine.calculateFee(tiny, 100);  // 0.01%\n\n    // Should be at least 1 or explicitly 0\n    assertTrue(fee >= 1 || fee == 0);\n}\n```","length":46},
+    {"name":"precision-errors","category":"gotchas","title":"Precision Errors: PIPS, WAD, and Rounding","heading":"Fuzz Testing","anchor":"fuzz-testing","parents":["Precision Errors: PIPS, WAD, and Rounding","Testing for Precision Errors"],"text":"```solidity\nfunction testFuzz_noValueLeak(uint256 amount, uint256 rate) public {\n    amount = bound(amount, 1, type(uint128).max);\n    rate = bound(rate, 1, PIPS_DENOMINATOR);\n\n    uint256 before = totalValue();\n    executeOperation(amount, rate);\n    uint256 after = totalValue();\n\n    // No value created from thin air\n    assertLe(after, before + 1);  // Allow 1 wei rounding\n}\n```","length":58},
+    {"name":"precision-errors","category":"gotchas","title":"Precision Errors: PIPS, WAD, and Rounding","heading":"Invariant Testing","anchor":"invariant-testing","parents":["Precision Errors: PIPS, WAD, and Rounding","Testing for Precision Errors"],"text":"```solidity\nfunction invariant_noValueCreation() public {\n    uint256 totalIn = sumDeposits + sumBorrows;\n    uint256 totalOut = sumWithdrawals + sumRepays;\n\n    // Out can be less (rounding in protocol favor)\n    // Out should never exceed in\n    assertLe(totalOut, totalIn);\n}\n```","length":40},
+    {"name":"precision-errors","category":"gotchas","title":"Precision Errors: PIPS, WAD, and Rounding","heading":"Debugging Checklist","anchor":"debugging-checklist","parents":["Precision Errors: PIPS, WAD, and Rounding"],"text":"1. **Check denominators**: Are you using PIPS (1e6) or WAD (1e18)?\n2. **Check operation order**: Multiply before divide?\n3. **Check for zero results**: Small inputs truncating?\n4. **Check rounding direction**: Favors protocol?\n5. **Check overflow risk**: Need FullMath?\n6. **Check accumulation**: Error building up?","length":52},
+    {"name":"precision-errors","category":"gotchas","title":"Precision Errors: PIPS, WAD, and Rounding","heading":"Related Concepts","anchor":"related-concepts","parents":["Precision Errors: PIPS, WAD, and Rounding"],"text":"- [PIPS](../concepts/pips.md) - PIPS precision standard\n- [L-Units](../concepts/l-units.md) - WAD precision for liquidity\n- [Equity Neutrality](./equity-neutrality.md) - Rounding can violate","length":35},
+    {"name":"reentrancy-risks","category":"gotchas","title":"Reentrancy Risks: Callback Safety in AEGIS","heading":"Overview","anchor":"overview","parents":["Reentrancy Risks: Callback Safety in AEGIS"],"text":"AEGIS operates within Uniswap V4's callback architecture, creating unique reentrancy considerations. Understanding safe patterns is critical for security.","length":25},
+    {"name":"reentrancy-risks","category":"gotchas","title":"Reentrancy Risks: Callback Safety in AEGIS","heading":"1. PoolManager Callbacks","anchor":"1-poolmanager-callbacks","parents":["Reentrancy Risks: Callback Safety in AEGIS","Reentrancy Vectors"],"text":"```\nUser → Router → PM.unlock() → unlockCallback() → [operations]\n                                    ↑\n                              External call could\n                              re-enter here\n```","length":28},
+    {"name":"reentrancy-risks","category":"gotchas","title":"Reentrancy Risks: Callback Safety in AEGIS","heading":"2. ERC-721 Callbacks","anchor":"2-erc-721-callbacks","parents":["Reentrancy Risks: Callback Safety in AEGIS","Reentrancy Vectors"],"text":"```\nVault NFT transfer → onERC721Received() → malicious callback\nPosition NFT transfer → onERC721Received() → malicious callback\n```","length":31},
+    {"name":"reentrancy-risks","category":"gotchas","title":"Reentrancy Risks: Callback Safety in AEGIS","heading":"3. Hook Callbacks","anchor":"3-hook-callbacks","parents":["Reentrancy Risks: Callback Safety in AEGIS","Reentrancy Vectors"],"text":"```\nPM operation → Hook.beforeSwap() → external call → re-enter hook\n```","length":25},
+    {"name":"reentrancy-risks","category":"gotchas","title":"Reentrancy Risks: Callback Safety in AEGIS","heading":"4. Flash Loan Callbacks","anchor":"4-flash-loan-callbacks","parents":["Reentrancy Risks: Callback Safety in AEGIS","Reentrancy Vectors"],"text":"```\nFlash loan → callback → re-enter protocol with borrowed funds\n```","length":27},
+    {"name":"reentrancy-risks","category":"gotchas","title":"Reentrancy Risks: Callback Safety in AEGIS","heading":"1. State Update After External Call","anchor":"1-state-update-after-external-call","parents":["Reentrancy Risks: Callback Safety in AEGIS","Vulnerable Patterns"],"text":"**Vulnerable:**\n\n```solidity\nfunction withdraw(uint256 amount) external {\n    // External call BEFORE state update\n    token.transfer(msg.sender, amount);\n\n    // State update AFTER - vulnerable!\n    balances[msg.sender] -= amount;\n}\n```\n\n**Safe (Checks-Effects-Interactions):**\n\n```solidity\nfunction withdraw(uint256 amount) external {\n    // Check\n    require(balances[msg.sender] >= amount, \"Insufficient\");\n\n    // Effect (state update FIRST)\n    balances[msg.sender] -= amount;\n\n    // Interaction (external call LAST)\n    token.transfer(msg.sender, amount);\n}\n```","length":84},
+    {"name":"reentrancy-risks","category":"gotchas","title":"Reentrancy Risks: Callback Safety in AEGIS","heading":"2. Callback During Session","anchor":"2-callback-during-session","parents":["Reentrancy Risks: Callback Safety in AEGIS","Vulnerable Patterns"],"text":"**Vulnerable:**\n\n```solidity\nfunction executeWithCallback() external {\n    _startSession();\n\n    // External call during session - dangerous!\n    externalContract.doSomething();\n\n    _endSession();\n}\n```\n\n**Safe (transient guard):**\n\n```solidity\nfunction executeWithCallback() external {\n    // Check transient reentrancy guard\n    require(tload(REENTRANCY_SLOT) == 0, \"Reentrant\");\n    tstore(REENTRANCY_SLOT, 1);\n\n    _startSession();\n    externalContract.doSomething();\n    _endSession();\n\n    tstore(REENTRANCY_SLOT, 0);\n}\n```","length":62},
+    {"name":"reentrancy-risks","category":"gotchas","title":"Reentrancy Risks: Callback Safety in AEGIS","heading":"3. NFT Transfer Callback","anchor":"3-nft-transfer-callback","parents":["Reentrancy Risks: Callback Safety in AEGIS","Vulnerable Patterns"],"text":"**Vulnerable:**\n\n```solidity\nfunction depositNFT(uint256 tokenId) external {\n    // This triggers onERC721Received on the sender!\n    nft.safeTransferFrom(msg.sender, address(this), tokenId);\n\n    // State update after callback - vulnerable\n    vaultCollateral[vaultId].push(tokenId);\n}\n```\n\n**Safe:**\n\n```solidity\nfunction depositNFT(uint256 tokenId) external {\n    // Update state FIRST\n    vaultCollateral[vaultId].push(tokenId);\n\n    // Then transfer (callback happens, but state is already updated)\n    nft.safeTransferFrom(msg.sender, address(this), tokenId);\n}\n```","length":72},
+    {"name":"reentrancy-risks","category":"gotchas","title":"Reentrancy Risks: Callback Safety in AEGIS","heading":"1. Transient Reentrancy Guard","anchor":"1-transient-reentrancy-guard","parents":["Reentrancy Risks: Callback Safety in AEGIS","Protection Patterns"],"text":"```solidity\nmodifier nonReentrantTransient() {\n    require(tload(REENTRANCY_SLOT) == 0, \"ReentrancyGuard: reentrant call\");\n    tstore(REENTRANCY_SLOT, 1);\n    _;\n    tstore(REENTRANCY_SLOT, 0);\n}\n```\n\n**Benefits:**\n\n- Cheaper than storage-based guard\n- Automatically clears at transaction end\n- Works across all functions in same transaction","length":54},
+    {"name":"reentrancy-risks","category":"gotchas","title":"Reentrancy Risks: Callback Safety in AEGIS","heading":"2. Session-Based Guard","anchor":"2-session-based-guard","parents":["Reentrancy Risks: Callback Safety in AEGIS","Protection Patterns"],"text":"```solidity\nmodifier onlyOutsideSession() {\n    require(tload(SESSION_ACTIVE_SLOT) == 0, \"Session active\");\n    _;\n}\n\nmodifier onlyDuringSession() {\n    require(tload(SESSION_ACTIVE_SLOT) == 1, \"No session\");\n    _;\n}\n\n// Safe: Can only start session from outside\nfunction startSession() external onlyOutsideSession {\n    tstore(SESSION_ACTIVE_SLOT, 1);\n    // ...\n}\n```","length":55},
+    {"name":"reentrancy-risks","category":"gotchas","title":"Reentrancy Risks: Callback Safety in AEGIS","heading":"3. Checks-Effects-Interactions","anchor":"3-checks-effects-interactions","parents":["Reentrancy Risks: Callback Safety in AEGIS","Protection Patterns"],"text":"```solidity\nfunction borrow(uint256 amount) external {\n    // CHECKS\n    require(amount > 0, \"Zero amount\");\n    require(isCollateralized(msg.sender), \"Undercollateralized\");\n\n    // EFFECTS\n    debts[msg.sender] += amount;\n    totalDebt += amount;\n\n    // INTERACTIONS\n    token.transfer(msg.sender, amount);\n}\n```","length":49},
+    {"name":"reentrancy-risks","category":"gotchas","title":"Reentrancy Risks: Callback Safety in AEGIS","heading":"4. Pull Pattern","anchor":"4-pull-pattern","parents":["Reentrancy Risks: Callback Safety in AEGIS","Protection Patterns"],"text":"```solidity\n// Instead of pushing tokens, let users pull\nmapping(address => uint256) public pendingWithdrawals;\n\nfunction initiateWithdrawal(uint256 amount) external {\n    // State update only, no external call\n    balances[msg.sender] -= amount;\n    pendingWithdrawals[msg.sender] += amount;\n}\n\nfunction claimWithdrawal() external {\n    uint256 amount = pendingWithdrawals[msg.sender];\n    pendingWithdrawals[msg.sender] = 0;\n    token.transfer(msg.sender, amount);\n}\n```","length":64},
+    {"name":"reentrancy-risks","category":"gotchas","title":"Reentrancy Risks: Callback Safety in AEGIS","heading":"Safe Hook Implementation","anchor":"safe-hook-implementation","parents":["Reentrancy Risks: Callback Safety in AEGIS","Hook-Specific Considerations"],"text":"```solidity\nfunction beforeSwap(\n    address sender,\n    PoolKey calldata key,\n    IPoolManager.SwapParams calldata params,\n    bytes calldata hookData\n) external override onlyPoolManager returns (bytes4, BeforeSwapDelta, uint24) {\n    // Safe: Only read operations\n    uint256 fee = _calculateFee(key, params);\n\n    // Safe: Only transient storage\n    tstore(PENDING_FEE_SLOT, fee);\n\n    // AVOID: External calls here\n    // externalOracle.getPrice(); // Risky!\n\n    return (this.beforeSwap.selector, ZERO_DELTA, uint24(fee));\n}\n```","length":71},
+    {"name":"reentrancy-risks","category":"gotchas","title":"Reentrancy Risks: Callback Safety in AEGIS","heading":"Hook Callback Safety","anchor":"hook-callback-safety","parents":["Reentrancy Risks: Callback Safety in AEGIS","Hook-Specific Considerations"],"text":"```solidity\nfunction afterSwap(...) external override onlyPoolManager {\n    // State is already updated by PM\n    // External calls here are safer but still require care\n\n    // If calling external contract:\n    // 1. Use reentrancy guard\n    // 2. Don't trust return values for state\n    // 3. Limit gas to external call\n}\n```","length":55},
+    {"name":"reentrancy-risks","category":"gotchas","title":"Reentrancy Risks: Callback Safety in AEGIS","heading":"Foundry Reentrancy Test","anchor":"foundry-reentrancy-test","parents":["Reentrancy Risks: Callback Safety in AEGIS","Testing for Reentrancy"],"text":"```solidity\ncontract ReentrancyAttacker {\n    AegisEngine engine;\n    uint256 attackCount;\n\n    function attack() external {\n        engine.withdraw(100);\n    }\n\n    receive() external payable {\n        if (attackCount < 5) {\n            attackCount++;\n            engine.withdraw(100);  // Attempt reentry\n        }\n    }\n}\n\nfunction test_reentrancyProtection() public {\n    ReentrancyAttacker attacker = new ReentrancyAttacker();\n\n    vm.expectRevert(\"ReentrancyGuard: reentrant call\");\n    attacker.attack();\n}\n```","length":56},
+    {"name":"reentrancy-risks","category":"gotchas","title":"Reentrancy Risks: Callback Safety in AEGIS","heading":"Invariant Test","anchor":"invariant-test","parents":["Reentrancy Risks: Callback Safety in AEGIS","Testing for Reentrancy"],"text":"```solidity\nfunction invariant_noReentrantStateCorruption() public {\n    // After any sequence of calls, balances should sum correctly\n    uint256 sum = 0;\n    for (uint256 i = 0; i < users.length; i++) {\n        sum += engine.balanceOf(users[i]);\n    }\n    assertEq(sum, engine.totalSupply());\n}\n```","length":41},
+    {"name":"reentrancy-risks","category":"gotchas","title":"Reentrancy Risks: Callback Safety in AEGIS","heading":"1. Using Storage Guard in Callbacks","anchor":"1-using-storage-guard-in-callbacks","parents":["Reentrancy Risks: Callback Safety in AEGIS","Common Mistakes"],"text":"```solidity\n// This might not protect within PM callback chain\nmodifier nonReentrant() {\n    require(!locked, \"Reentrant\");\n    locked = true;  // SSTORE - expensive and might not help\n    _;\n    locked = false;\n}\n```\n\n**Better: Use transient storage**","length":48},
+    {"name":"reentrancy-risks","category":"gotchas","title":"Reentrancy Risks: Callback Safety in AEGIS","heading":"2. Trusting msg.sender in Callback","anchor":"2-trusting-msgsender-in-callback","parents":["Reentrancy Risks: Callback Safety in AEGIS","Common Mistakes"],"text":"```solidity\nfunction onERC721Received(...) external returns (bytes4) {\n    // msg.sender is the NFT contract, not the user!\n    // Don't use msg.sender for authorization\n}\n```","length":40},
+    {"name":"reentrancy-risks","category":"gotchas","title":"Reentrancy Risks: Callback Safety in AEGIS","heading":"3. Ignoring Cross-Function Reentrancy","anchor":"3-ignoring-cross-function-reentrancy","parents":["Reentrancy Risks: Callback Safety in AEGIS","Common Mistakes"],"text":"```solidity\n// Both functions share state but only one has guard\nfunction deposit() external nonReentrant { ... }\nfunction withdraw() external { ... }  // Vulnerable!\n```","length":40},
+    {"name":"reentrancy-risks","category":"gotchas","title":"Reentrancy Risks: Callback Safety in AEGIS","heading":"Related Concepts","anchor":"related-concepts","parents":["Reentrancy Risks: Callback Safety in AEGIS"],"text":"- [Two-Phase Execution](../concepts/two-phase-execution.md) - Callback architecture\n- [Session Lifecycle](../patterns/session-lifecycle.md) - Session guards\n- [Transient Storage](../concepts/transient-storage.md) - Guard implementation","length":37},
+    {"name":"collateral-management","category":"patterns","title":"Collateral Management: SAFE Multi-NFT Algorithm","heading":"Overview","anchor":"overview","parents":["Collateral Management: SAFE Multi-NFT Algorithm"],"text":"AEGIS uses the SAFE (Summed Adjusted Floor Evaluation) algorithm to manage multiple collateral positions. This enables users to collateralize with multiple Uniswap V4 LP positions while maintaining safety.","length":32},
+    {"name":"collateral-management","category":"patterns","title":"Collateral Management: SAFE Multi-NFT Algorithm","heading":"Single Position","anchor":"single-position","parents":["Collateral Management: SAFE Multi-NFT Algorithm","Single vs Multi-Position"],"text":"```\nVault has 1 LP position\n    ↓\nCalculate sqrt(K) for that position\n    ↓\nCompare to debt requirement\n```","length":28},
+    {"name":"collateral-management","category":"patterns","title":"Collateral Management: SAFE Multi-NFT Algorithm","heading":"Multi-Position (SAFE)","anchor":"multi-position-safe","parents":["Collateral Management: SAFE Multi-NFT Algorithm","Single vs Multi-Position"],"text":"```\nVault has N LP positions\n    ↓\nCalculate sqrt(K) for each position\n    ↓\nSum all sqrt(K) values with risk adjustment\n    ↓\nCompare summed value to debt requirement\n```","length":41},
+    {"name":"collateral-management","category":"patterns","title":"Collateral Management: SAFE Multi-NFT Algorithm","heading":"Core Formula","anchor":"core-formula","parents":["Collateral Management: SAFE Multi-NFT Algorithm","SAFE Algorithm"],"text":"```solidity\nfunction calculateSAFECollateral(\n    uint256[] memory positionIds\n) public view returns (uint256 totalSqrtK) {\n    for (uint256 i = 0; i < positionIds.length; i++) {\n        Position memory pos = getPosition(positionIds[i]);\n\n        // Calculate sqrt(K) for this position\n        uint256 sqrtK = _calculateSqrtK(pos);\n\n        // Apply concentration risk adjustment\n        uint256 adjustedSqrtK = _applyConcentrationFactor(sqrtK, pos);\n\n        totalSqrtK += adjustedSqrtK;\n    }\n}\n```","length":53},
+    {"name":"collateral-management","category":"patterns","title":"Collateral Management: SAFE Multi-NFT Algorithm","heading":"Concentration Risk Factor","anchor":"concentration-risk-factor","parents":["Collateral Management: SAFE Multi-NFT Algorithm","SAFE Algorithm"],"text":"Positions with narrower ranges have higher risk:\n\n```solidity\nfunction _applyConcentrationFactor(\n    uint256 sqrtK,\n    Position memory pos\n) internal pure returns (uint256) {\n    // Calculate tick range\n    int24 tickRange = pos.tickUpper - pos.tickLower;\n\n    // Wider range = lower risk = higher factor\n    uint256 concentrationFactor;\n    if (tickRange >= WIDE_RANGE_THRESHOLD) {\n        concentrationFactor = PIPS_DENOMINATOR;  // 100%\n    } else if (tickRange >= MEDIUM_RANGE_THRESHOLD) {\n        concentrationFactor = 900_000;  // 90%\n    } else {\n        concentrationFactor = 800_000;  // 80%\n    }\n\n    return FullMath.mulDiv(sqrtK, concentrationFactor, PIPS_DENOMINATOR);\n}\n```","length":83},
+    {"name":"collateral-management","category":"patterns","title":"Collateral Management: SAFE Multi-NFT Algorithm","heading":"Adding Collateral","anchor":"adding-collateral","parents":["Collateral Management: SAFE Multi-NFT Algorithm","Position Operations"],"text":"```solidity\nfunction addCollateralPosition(\n    uint256 vaultId,\n    uint256 positionId\n) external {\n    // Transfer position to protocol\n    positionManager.safeTransferFrom(\n        msg.sender,\n        address(this),\n        positionId\n    );\n\n    // Add to vault's position list\n    vaultPositions[vaultId].push(positionId);\n\n    // Update collateral value\n    uint256 sqrtK = _calculateSqrtK(positionId);\n    vaults[vaultId].totalSqrtK += sqrtK;\n\n    emit CollateralAdded(vaultId, positionId, sqrtK);\n}\n```","length":56},
+    {"name":"collateral-management","category":"patterns","title":"Collateral Management: SAFE Multi-NFT Algorithm","heading":"Removing Collateral","anchor":"removing-collateral","parents":["Collateral Management: SAFE Multi-NFT Algorithm","Position Operations"],"text":"```solidity\nfunction removeCollateralPosition(\n    uint256 vaultId,\n    uint256 positionId\n) external {\n    require(ownerOf(vaultId) == msg.sender, \"Not owner\");\n\n    // Calculate new collateral value\n    uint256 sqrtK = _calculateSqrtK(positionId);\n    uint256 newTotalSqrtK = vaults[vaultId].totalSqrtK - sqrtK;\n\n    // Check if still safe\n    require(\n        _isSafe(newTotalSqrtK, vaults[vaultId].debtL),\n        \"Would undercollateralize\"\n    );\n\n    // Remove from position list\n    _removeFromList(vaultPositions[vaultId], positionId);\n\n    // Update state\n    vaults[vaultId].totalSqrtK = newTotalSqrtK;\n\n    // Transfer position back\n    positionManager.safeTransferFrom(\n        address(this),\n        msg.sender,\n        positionId\n    );\n\n    emit CollateralRemoved(vaultId, positionId, sqrtK);\n}\n```","length":82},
+    {"name":"collateral-management","category":"patterns","title":"Collateral Management: SAFE Multi-NFT Algorithm","heading":"sqrt(K) Calculation","anchor":"sqrtk-calculation","parents":["Collateral Management: SAFE Multi-NFT Algorithm","Position Valuation"],"text":"```solidity\nfunction _calculateSqrtK(uint256 positionId)\n    internal view returns (uint256)\n{\n    Position memory pos = positionManager.positions(positionId);\n\n    // Get current amounts in position\n    (uint256 amount0, uint256 amount1) = _getPositionAmounts(pos);\n\n    // sqrt(K) = sqrt(amount0 * amount1)\n    return Math.sqrt(amount0 * amount1);\n}\n```","length":52},
+    {"name":"collateral-management","category":"patterns","title":"Collateral Management: SAFE Multi-NFT Algorithm","heading":"Handling Out-of-Range Positions","anchor":"handling-out-of-range-positions","parents":["Collateral Management: SAFE Multi-NFT Algorithm","Position Valuation"],"text":"```solidity\nfunction _getPositionAmounts(Position memory pos)\n    internal view returns (uint256 amount0, uint256 amount1)\n{\n    int24 currentTick = pool.slot0().tick;\n\n    if (currentTick < pos.tickLower) {\n        // Position is entirely in token0\n        amount0 = _getAmount0ForLiquidity(pos);\n        amount1 = 0;\n    } else if (currentTick >= pos.tickUpper) {\n        // Position is entirely in token1\n        amount0 = 0;\n        amount1 = _getAmount1ForLiquidity(pos);\n    } else {\n        // Position is in range\n        (amount0, amount1) = _getAmountsForLiquidity(pos, currentTick);\n    }\n}\n```","length":71},
+    {"name":"collateral-management","category":"patterns","title":"Collateral Management: SAFE Multi-NFT Algorithm","heading":"Same-Pool Positions","anchor":"same-pool-positions","parents":["Collateral Management: SAFE Multi-NFT Algorithm","Correlation Risk"],"text":"Multiple positions in the same pool are fully correlated:\n\n```solidity\nfunction _assessPoolCorrelation(\n    uint256[] memory positionIds\n) internal view returns (uint256 correlationDiscount) {\n    // Group by pool\n    mapping(bytes32 => uint256) poolCounts;\n    for (uint256 i = 0; i < positionIds.length; i++) {\n        bytes32 poolKey = _getPoolKey(positionIds[i]);\n        poolCounts[poolKey]++;\n    }\n\n    // Apply discount for concentrated risk\n    for each pool with count > 1 {\n        correlationDiscount += CORRELATION_PENALTY * (count - 1);\n    }\n}\n```","length":63},
+    {"name":"collateral-management","category":"patterns","title":"Collateral Management: SAFE Multi-NFT Algorithm","heading":"Cross-Pool Diversification","anchor":"cross-pool-diversification","parents":["Collateral Management: SAFE Multi-NFT Algorithm","Correlation Risk"],"text":"Positions in different pools get diversification benefit:\n\n```solidity\nfunction _assessDiversification(\n    uint256[] memory positionIds\n) internal view returns (uint256 diversificationBonus) {\n    uint256 uniquePools = _countUniquePools(positionIds);\n\n    if (uniquePools >= 3) {\n        diversificationBonus = 50_000;  // 5% bonus\n    } else if (uniquePools >= 2) {\n        diversificationBonus = 25_000;  // 2.5% bonus\n    }\n}\n```","length":56},
+    {"name":"collateral-management","category":"patterns","title":"Collateral Management: SAFE Multi-NFT Algorithm","heading":"When to Rebalance","anchor":"when-to-rebalance","parents":["Collateral Management: SAFE Multi-NFT Algorithm","Rebalancing"],"text":"Monitor positions for:\n\n- Price moving out of range\n- Concentration risk increasing\n- Better yield opportunities","length":22},
+    {"name":"collateral-management","category":"patterns","title":"Collateral Management: SAFE Multi-NFT Algorithm","heading":"Rebalancing Flow","anchor":"rebalancing-flow","parents":["Collateral Management: SAFE Multi-NFT Algorithm","Rebalancing"],"text":"```solidity\nfunction rebalanceCollateral(\n    uint256 vaultId,\n    uint256[] calldata removeIds,\n    uint256[] calldata addIds\n) external {\n    require(ownerOf(vaultId) == msg.sender, \"Not owner\");\n\n    // Calculate new state\n    uint256 newSqrtK = vaults[vaultId].totalSqrtK;\n\n    for (uint256 i = 0; i < removeIds.length; i++) {\n        newSqrtK -= _calculateSqrtK(removeIds[i]);\n    }\n    for (uint256 i = 0; i < addIds.length; i++) {\n        newSqrtK += _calculateSqrtK(addIds[i]);\n    }\n\n    // Verify still safe\n    require(_isSafe(newSqrtK, vaults[vaultId].debtL), \"Unsafe\");\n\n    // Execute transfers\n    _executeRebalance(vaultId, removeIds, addIds);\n}\n```","length":70},
+    {"name":"collateral-management","category":"patterns","title":"Collateral Management: SAFE Multi-NFT Algorithm","heading":"Get Vault Health","anchor":"get-vault-health","parents":["Collateral Management: SAFE Multi-NFT Algorithm","View Functions"],"text":"```solidity\nfunction getVaultHealth(uint256 vaultId)\n    external view returns (\n        uint256 collateralValue,\n        uint256 debtValue,\n        uint256 healthFactor,\n        bool isLiquidatable\n    )\n{\n    Vault memory vault = vaults[vaultId];\n\n    collateralValue = vault.totalSqrtK;\n    debtValue = _getDebtSqrtK(vault.debtL);\n\n    if (debtValue > 0) {\n        healthFactor = FullMath.mulDiv(\n            collateralValue,\n            PIPS_DENOMINATOR,\n            debtValue\n        );\n    } else {\n        healthFactor = type(uint256).max;\n    }\n\n    isLiquidatable = healthFactor < LIQUIDATION_THRESHOLD_PIPS;\n}\n```","length":65},
+    {"name":"collateral-management","category":"patterns","title":"Collateral Management: SAFE Multi-NFT Algorithm","heading":"Get Position Details","anchor":"get-position-details","parents":["Collateral Management: SAFE Multi-NFT Algorithm","View Functions"],"text":"```solidity\nfunction getPositionDetails(uint256 positionId)\n    external view returns (\n        address pool,\n        int24 tickLower,\n        int24 tickUpper,\n        uint128 liquidity,\n        uint256 sqrtK,\n        bool inRange\n    )\n{\n    Position memory pos = positionManager.positions(positionId);\n\n    pool = pos.pool;\n    tickLower = pos.tickLower;\n    tickUpper = pos.tickUpper;\n    liquidity = pos.liquidity;\n    sqrtK = _calculateSqrtK(positionId);\n\n    int24 currentTick = IPool(pool).slot0().tick;\n    inRange = currentTick >= tickLower && currentTick < tickUpper;\n}\n```","length":69},
+    {"name":"collateral-management","category":"patterns","title":"Collateral Management: SAFE Multi-NFT Algorithm","heading":"Related Concepts","anchor":"related-concepts","parents":["Collateral Management: SAFE Multi-NFT Algorithm"],"text":"- [sqrt(K) Floor](../concepts/sqrt-k-floor.md) - Base collateral formula\n- [Vault Operations](./vault-operations.md) - Core vault flows\n- [Keeper Flows](./keeper-flows.md) - Liquidation handling","length":38},
+    {"name":"fee-accrual","category":"patterns","title":"Fee Accrual: Protocol Revenue Distribution","heading":"Overview","anchor":"overview","parents":["Fee Accrual: Protocol Revenue Distribution"],"text":"AEGIS generates revenue through multiple fee mechanisms. Fees are distributed to lenders (sL holders), the protocol treasury, and keepers. Understanding fee flows is critical for accurate share price calculations.","length":31},
+    {"name":"fee-accrual","category":"patterns","title":"Fee Accrual: Protocol Revenue Distribution","heading":"1. Swap Fees","anchor":"1-swap-fees","parents":["Fee Accrual: Protocol Revenue Distribution","Fee Sources"],"text":"Captured from Uniswap V4 swaps via hook:\n\n```solidity\nfunction afterSwap(\n    address,\n    PoolKey calldata key,\n    IPoolManager.SwapParams calldata params,\n    BalanceDelta delta,\n    bytes calldata\n) external returns (bytes4, int128) {\n    // Calculate fee based on swap volume\n    int128 fee = _calculateSwapFee(delta, params);\n\n    // Distribute to lenders\n    _accrueToLenders(key, fee);\n\n    return (this.afterSwap.selector, fee);\n}\n```","length":60},
+    {"name":"fee-accrual","category":"patterns","title":"Fee Accrual: Protocol Revenue Distribution","heading":"2. Borrow Fees","anchor":"2-borrow-fees","parents":["Fee Accrual: Protocol Revenue Distribution","Fee Sources"],"text":"One-time fee on new borrows:\n\n```solidity\nfunction _applyBorrowFee(uint256 borrowAmountL)\n    internal returns (uint256 feeL)\n{\n    feeL = FullMath.mulDiv(\n        borrowAmountL,\n        BORROW_FEE_PIPS,  // e.g., 5,000 = 0.5%\n        PIPS_DENOMINATOR\n    );\n\n    // Add fee to lender equity\n    marketState.equityLWad += feeL;\n\n    emit BorrowFeeCollected(borrowAmountL, feeL);\n\n    return feeL;\n}\n```","length":58},
+    {"name":"fee-accrual","category":"patterns","title":"Fee Accrual: Protocol Revenue Distribution","heading":"3. Interest Accrual","anchor":"3-interest-accrual","parents":["Fee Accrual: Protocol Revenue Distribution","Fee Sources"],"text":"Continuous interest on outstanding debt:\n\n```solidity\nfunction _accrueInterest() internal {\n    uint256 timeElapsed = block.timestamp - lastAccrualTime;\n    if (timeElapsed == 0) return;\n\n    // Calculate accrued interest\n    uint256 interestRate = _getInterestRate();\n    uint256 accruedInterest = FullMath.mulDiv(\n        totalDebtL,\n        interestRate * timeElapsed,\n        SECONDS_PER_YEAR * PIPS_DENOMINATOR\n    );\n\n    // Add to lender equity (NOT to debt principal - equity neutrality)\n    marketState.equityLWad += accruedInterest;\n    lastAccrualTime = block.timestamp;\n\n    emit InterestAccrued(accruedInterest);\n}\n```","length":68},
+    {"name":"fee-accrual","category":"patterns","title":"Fee Accrual: Protocol Revenue Distribution","heading":"4. Liquidation Fees","anchor":"4-liquidation-fees","parents":["Fee Accrual: Protocol Revenue Distribution","Fee Sources"],"text":"Penalty on liquidated positions:\n\n```solidity\nfunction _applyLiquidationFee(uint256 collateralL)\n    internal returns (uint256 protocolFee, uint256 keeperReward)\n{\n    // Keeper gets immediate reward\n    keeperReward = FullMath.mulDiv(\n        collateralL,\n        KEEPER_REWARD_PIPS,  // e.g., 50,000 = 5%\n        PIPS_DENOMINATOR\n    );\n\n    // Protocol gets additional fee\n    protocolFee = FullMath.mulDiv(\n        collateralL,\n        PROTOCOL_FEE_PIPS,  // e.g., 10,000 = 1%\n        PIPS_DENOMINATOR\n    );\n\n    // Protocol fee goes to treasury\n    _transferToTreasury(protocolFee);\n}\n```","length":72},
+    {"name":"fee-accrual","category":"patterns","title":"Fee Accrual: Protocol Revenue Distribution","heading":"To Lenders (sL Holders)","anchor":"to-lenders-sl-holders","parents":["Fee Accrual: Protocol Revenue Distribution","Fee Distribution"],"text":"Fees increase `equityLWad`, which increases share price:\n\n```solidity\n// Before fee: sharePrice = equityLWad / totalShares\n// After fee:  sharePrice = (equityLWad + fee) / totalShares\n\nfunction _accrueToLenders(uint256 feeL) internal {\n    marketState.equityLWad += feeL;\n    // Share price automatically increases\n    // No explicit distribution needed\n}\n```","length":50},
+    {"name":"fee-accrual","category":"patterns","title":"Fee Accrual: Protocol Revenue Distribution","heading":"To Protocol Treasury","anchor":"to-protocol-treasury","parents":["Fee Accrual: Protocol Revenue Distribution","Fee Distribution"],"text":"Direct transfer of protocol's share:\n\n```solidity\nfunction _distributeProtocolFee(uint256 feeAmount) internal {\n    // Split: 80% lenders, 20% protocol\n    uint256 protocolShare = FullMath.mulDiv(\n        feeAmount,\n        PROTOCOL_FEE_SHARE_PIPS,  // 200,000 = 20%\n        PIPS_DENOMINATOR\n    );\n    uint256 lenderShare = feeAmount - protocolShare;\n\n    // Lender share increases equity\n    marketState.equityLWad += lenderShare;\n\n    // Protocol share goes to treasury\n    _mintToTreasury(protocolShare);\n}\n```","length":60},
+    {"name":"fee-accrual","category":"patterns","title":"Fee Accrual: Protocol Revenue Distribution","heading":"To Keepers","anchor":"to-keepers","parents":["Fee Accrual: Protocol Revenue Distribution","Fee Distribution"],"text":"Immediate rewards for maintenance operations:\n\n```solidity\nfunction _rewardKeeper(address keeper, uint256 rewardL) internal {\n    // Convert L-units to tokens\n    (uint256 amount0, uint256 amount1) = LMath.getAmountsFromL(rewardL, ...);\n\n    // Transfer tokens\n    token0.transfer(keeper, amount0);\n    token1.transfer(keeper, amount1);\n\n    emit KeeperRewarded(keeper, amount0, amount1);\n}\n```","length":48},
+    {"name":"fee-accrual","category":"patterns","title":"Fee Accrual: Protocol Revenue Distribution","heading":"Share Price Formula","anchor":"share-price-formula","parents":["Fee Accrual: Protocol Revenue Distribution","Share Price Mechanics"],"text":"```solidity\nfunction getSharePrice() public view returns (uint256) {\n    if (totalShares == 0) return WAD;  // 1:1 initially\n\n    // sharePrice = equityLWad * WAD / totalShares\n    return FullMath.mulDiv(\n        marketState.equityLWad,\n        WAD,\n        totalShares\n    );\n}\n```","length":43},
+    {"name":"fee-accrual","category":"patterns","title":"Fee Accrual: Protocol Revenue Distribution","heading":"Share Price Invariants","anchor":"share-price-invariants","parents":["Fee Accrual: Protocol Revenue Distribution","Share Price Mechanics"],"text":"1. **Never decreases** (except for bad debt)\n2. **Increases with fees**\n3. **Unaffected by borrows/repays** (equity neutrality)","length":32},
+    {"name":"fee-accrual","category":"patterns","title":"Fee Accrual: Protocol Revenue Distribution","heading":"Tracking Fee Impact","anchor":"tracking-fee-impact","parents":["Fee Accrual: Protocol Revenue Distribution","Share Price Mechanics"],"text":"```solidity\nfunction getAccumulatedFees() public view returns (\n    uint256 swapFees,\n    uint256 borrowFees,\n    uint256 interestFees\n) {\n    return (\n        accumulatedSwapFees,\n        accumulatedBorrowFees,\n        accumulatedInterestFees\n    );\n}\n\nfunction getCurrentAPY() public view returns (uint256) {\n    uint256 annualizedFees = _projectAnnualFees();\n    return FullMath.mulDiv(\n        annualizedFees,\n        PIPS_DENOMINATOR,\n        marketState.equityLWad\n    );\n}\n```","length":50},
+    {"name":"fee-accrual","category":"patterns","title":"Fee Accrual: Protocol Revenue Distribution","heading":"Fee Residue Handling","anchor":"fee-residue-handling","parents":["Fee Accrual: Protocol Revenue Distribution"],"text":"Small fee amounts that can't be evenly distributed:\n\n```solidity\nfunction _handleFeeResidue(uint256 fee, uint256 divisor) internal {\n    uint256 distributed = (fee / divisor) * divisor;\n    uint256 residue = fee - distributed;\n\n    if (residue > 0) {\n        // Accumulate residue until it's significant\n        feeResidue += residue;\n\n        if (feeResidue >= MIN_FEE_DISTRIBUTION) {\n            _distributeResidue();\n        }\n    }\n}\n```","length":54},
+    {"name":"fee-accrual","category":"patterns","title":"Fee Accrual: Protocol Revenue Distribution","heading":"Utilization-Based Interest","anchor":"utilization-based-interest","parents":["Fee Accrual: Protocol Revenue Distribution","Dynamic Fee Rates"],"text":"```solidity\nfunction _getInterestRate() internal view returns (uint256) {\n    uint256 utilization = _getUtilization();\n\n    if (utilization <= OPTIMAL_UTILIZATION) {\n        // Linear increase up to optimal\n        return FullMath.mulDiv(\n            utilization,\n            BASE_RATE,\n            OPTIMAL_UTILIZATION\n        );\n    } else {\n        // Steep increase above optimal\n        uint256 excessUtil = utilization - OPTIMAL_UTILIZATION;\n        uint256 maxExcess = PIPS_DENOMINATOR - OPTIMAL_UTILIZATION;\n        return BASE_RATE + FullMath.mulDiv(\n            excessUtil,\n            MAX_RATE - BASE_RATE,\n            maxExcess\n        );\n    }\n}\n```","length":70},
+    {"name":"fee-accrual","category":"patterns","title":"Fee Accrual: Protocol Revenue Distribution","heading":"Dynamic Swap Fees","anchor":"dynamic-swap-fees","parents":["Fee Accrual: Protocol Revenue Distribution","Dynamic Fee Rates"],"text":"```solidity\nfunction getFee(PoolKey calldata key) external view returns (uint24) {\n    uint256 utilization = _getUtilization();\n\n    // Higher utilization = higher fees (incentivize deposits)\n    uint24 dynamicFee = uint24(FullMath.mulDiv(\n        utilization,\n        MAX_DYNAMIC_FEE,\n        PIPS_DENOMINATOR\n    ));\n\n    return BASE_SWAP_FEE + dynamicFee;\n}\n```","length":52},
+    {"name":"fee-accrual","category":"patterns","title":"Fee Accrual: Protocol Revenue Distribution","heading":"Events","anchor":"events","parents":["Fee Accrual: Protocol Revenue Distribution"],"text":"```solidity\nevent SwapFeeCollected(bytes32 indexed poolId, uint256 fee0, uint256 fee1);\nevent BorrowFeeCollected(uint256 borrowAmount, uint256 fee);\nevent InterestAccrued(uint256 interest);\nevent ProtocolFeeWithdrawn(address indexed to, uint256 amount);\nevent SharePriceUpdated(uint256 oldPrice, uint256 newPrice);\n```","length":40},
+    {"name":"fee-accrual","category":"patterns","title":"Fee Accrual: Protocol Revenue Distribution","heading":"Related Concepts","anchor":"related-concepts","parents":["Fee Accrual: Protocol Revenue Distribution"],"text":"- [L-Units](../concepts/l-units.md) - Fee accounting units\n- [PIPS](../concepts/pips.md) - Fee rate precision\n- [Equity Neutrality](../gotchas/equity-neutrality.md) - Fee vs borrow distinction","length":37},
+    {"name":"keeper-flows","category":"patterns","title":"Keeper Flows: Peel and Liquidation","heading":"Overview","anchor":"overview","parents":["Keeper Flows: Peel and Liquidation"],"text":"Keepers are external actors who maintain protocol health by executing liquidations and \"peel\" operations. They are economically incentivized through rewards.","length":23},
+    {"name":"keeper-flows","category":"patterns","title":"Keeper Flows: Peel and Liquidation","heading":"1. Peel (Soft Liquidation)","anchor":"1-peel-soft-liquidation","parents":["Keeper Flows: Peel and Liquidation","Keeper Operations"],"text":"Removes excess debt by selling collateral at favorable terms.\n\n```\nVault in Warning Zone (110-120% ratio)\n    ↓\nKeeper calls peel()\n    ↓\nSmall portion of collateral sold\n    ↓\nDebt reduced, ratio improved\n    ↓\nVault returns to Healthy state\n```","length":46},
+    {"name":"keeper-flows","category":"patterns","title":"Keeper Flows: Peel and Liquidation","heading":"2. Full Liquidation","anchor":"2-full-liquidation","parents":["Keeper Flows: Peel and Liquidation","Keeper Operations"],"text":"Forces closure of undercollateralized vaults.\n\n```\nVault below 110% ratio\n    ↓\nKeeper calls liquidate()\n    ↓\nAll collateral sold\n    ↓\nDebt fully repaid (or bad debt recorded)\n    ↓\nVault closed, keeper rewarded\n```","length":39},
+    {"name":"keeper-flows","category":"patterns","title":"Keeper Flows: Peel and Liquidation","heading":"When to Peel","anchor":"when-to-peel","parents":["Keeper Flows: Peel and Liquidation","Peel Operation"],"text":"```solidity\nfunction canPeel(uint256 vaultId) public view returns (bool) {\n    uint256 ratio = getCollateralRatio(vaultId);\n\n    // Peelable: between liquidation threshold and target ratio\n    return ratio > LIQUIDATION_THRESHOLD_PIPS &&\n           ratio < TARGET_COLLATERAL_RATIO_PIPS;\n}\n```","length":38},
+    {"name":"keeper-flows","category":"patterns","title":"Keeper Flows: Peel and Liquidation","heading":"Peel Implementation","anchor":"peel-implementation","parents":["Keeper Flows: Peel and Liquidation","Peel Operation"],"text":"```solidity\nfunction peel(uint256 vaultId, uint256 peelAmountL) external {\n    require(canPeel(vaultId), \"Cannot peel\");\n\n    Vault storage vault = vaults[vaultId];\n\n    // Calculate how much collateral to sell\n    uint256 collateralToSell = _calculatePeelCollateral(\n        vault.collateralL,\n        vault.debtL,\n        peelAmountL\n    );\n\n    // Execute swap (collateral → debt tokens)\n    uint256 debtRepaid = _swapCollateralForDebt(collateralToSell);\n\n    // Update vault state\n    vault.collateralL -= collateralToSell;\n    vault.debtL -= debtRepaid;\n\n    // Reward keeper\n    uint256 reward = _calculatePeelReward(debtRepaid);\n    _transferReward(msg.sender, reward);\n\n    emit Peeled(vaultId, collateralToSell, debtRepaid, msg.sender);\n}\n```","length":77},
+    {"name":"keeper-flows","category":"patterns","title":"Keeper Flows: Peel and Liquidation","heading":"Peel Limits","anchor":"peel-limits","parents":["Keeper Flows: Peel and Liquidation","Peel Operation"],"text":"```solidity\n// Maximum peel per call (prevent over-liquidation)\nuint256 constant MAX_PEEL_RATIO = 100_000;  // 10% of debt\n\nfunction _calculateMaxPeel(uint256 debtL) internal pure returns (uint256) {\n    return FullMath.mulDiv(debtL, MAX_PEEL_RATIO, PIPS_DENOMINATOR);\n}\n```","length":46},
+    {"name":"keeper-flows","category":"patterns","title":"Keeper Flows: Peel and Liquidation","heading":"When to Liquidate","anchor":"when-to-liquidate","parents":["Keeper Flows: Peel and Liquidation","Full Liquidation"],"text":"```solidity\nfunction canLiquidate(uint256 vaultId) public view returns (bool) {\n    uint256 ratio = getCollateralRatio(vaultId);\n    return ratio <= LIQUIDATION_THRESHOLD_PIPS;\n}\n```","length":27},
+    {"name":"keeper-flows","category":"patterns","title":"Keeper Flows: Peel and Liquidation","heading":"Liquidation Implementation","anchor":"liquidation-implementation","parents":["Keeper Flows: Peel and Liquidation","Full Liquidation"],"text":"```solidity\nfunction liquidate(uint256 vaultId) external {\n    require(canLiquidate(vaultId), \"Cannot liquidate\");\n\n    Vault storage vault = vaults[vaultId];\n\n    // Calculate liquidation amounts\n    uint256 collateralL = vault.collateralL;\n    uint256 debtL = vault.debtL;\n\n    // Sell all collateral\n    uint256 proceeds = _sellAllCollateral(vaultId);\n\n    // Repay debt\n    if (proceeds >= debtL) {\n        // Full repayment\n        vault.debtL = 0;\n\n        // Remaining goes to vault owner\n        uint256 remainder = proceeds - debtL;\n        _transferRemainder(ownerOf(vaultId), remainder);\n    } else {\n        // Bad debt - socialize loss\n        uint256 badDebt = debtL - proceeds;\n        vault.debtL = 0;\n        _recordBadDebt(badDebt);\n    }\n\n    // Clear vault\n    vault.collateralL = 0;\n\n    // Reward keeper\n    uint256 reward = _calculateLiquidationReward(collateralL);\n    _transferReward(msg.sender, reward);\n\n    emit Liquidated(vaultId, collateralL, proceeds, msg.sender);\n}\n```","length":104},
+    {"name":"keeper-flows","category":"patterns","title":"Keeper Flows: Peel and Liquidation","heading":"Reward Structure","anchor":"reward-structure","parents":["Keeper Flows: Peel and Liquidation","Keeper Incentives"],"text":"| Operation | Reward | Source |\n|-----------|--------|--------|\n| Peel | 0.5% of debt repaid | Protocol reserve |\n| Liquidation | 5% of collateral | Collateral |\n| Gas rebate | Actual gas × 1.1 | Protocol reserve |","length":34},
+    {"name":"keeper-flows","category":"patterns","title":"Keeper Flows: Peel and Liquidation","heading":"Reward Calculation","anchor":"reward-calculation","parents":["Keeper Flows: Peel and Liquidation","Keeper Incentives"],"text":"```solidity\nfunction _calculateLiquidationReward(uint256 collateralL)\n    internal pure returns (uint256)\n{\n    return FullMath.mulDiv(\n        collateralL,\n        LIQUIDATION_REWARD_PIPS,  // 50,000 = 5%\n        PIPS_DENOMINATOR\n    );\n}\n```","length":33},
+    {"name":"keeper-flows","category":"patterns","title":"Keeper Flows: Peel and Liquidation","heading":"Dutch Auction Liquidations","anchor":"dutch-auction-liquidations","parents":["Keeper Flows: Peel and Liquidation"],"text":"For large positions, use Dutch auction to minimize slippage:\n\n```solidity\nstruct Auction {\n    uint256 vaultId;\n    uint256 startPrice;\n    uint256 endPrice;\n    uint256 startTime;\n    uint256 duration;\n}\n\nfunction startAuction(uint256 vaultId) external {\n    require(canLiquidate(vaultId), \"Cannot liquidate\");\n\n    auctions[vaultId] = Auction({\n        vaultId: vaultId,\n        startPrice: _getOraclePrice() * 110 / 100,  // 10% premium\n        endPrice: _getOraclePrice() * 80 / 100,     // 20% discount\n        startTime: block.timestamp,\n        duration: 1 hours\n    });\n}\n\nfunction bidAuction(uint256 vaultId) external {\n    Auction memory auction = auctions[vaultId];\n    uint256 currentPrice = _getAuctionPrice(auction);\n\n    // Transfer payment\n    _transferPayment(msg.sender, currentPrice);\n\n    // Transfer collateral\n    _transferCollateral(msg.sender, vaultId);\n\n    delete auctions[vaultId];\n}\n```","length":95},
+    {"name":"keeper-flows","category":"patterns","title":"Keeper Flows: Peel and Liquidation","heading":"Flash Loan Attacks","anchor":"flash-loan-attacks","parents":["Keeper Flows: Peel and Liquidation","MEV Considerations"],"text":"```solidity\n// Protection: Check price deviation\nfunction _validatePrice(uint256 expectedPrice, uint256 actualPrice) internal {\n    uint256 deviation = _calculateDeviation(expectedPrice, actualPrice);\n    require(deviation <= MAX_PRICE_DEVIATION, \"Price manipulated\");\n}\n```","length":39},
+    {"name":"keeper-flows","category":"patterns","title":"Keeper Flows: Peel and Liquidation","heading":"Backrunning Protection","anchor":"backrunning-protection","parents":["Keeper Flows: Peel and Liquidation","MEV Considerations"],"text":"```solidity\n// Use commit-reveal for large liquidations\nmapping(bytes32 => uint256) public commits;\n\nfunction commitLiquidation(bytes32 commitment) external {\n    commits[commitment] = block.number;\n}\n\nfunction revealLiquidation(\n    uint256 vaultId,\n    bytes32 secret\n) external {\n    bytes32 commitment = keccak256(abi.encodePacked(vaultId, secret, msg.sender));\n    require(commits[commitment] > 0, \"No commit\");\n    require(block.number > commits[commitment] + 1, \"Too early\");\n\n    _executeLiquidation(vaultId);\n}\n```","length":64},
+    {"name":"keeper-flows","category":"patterns","title":"Keeper Flows: Peel and Liquidation","heading":"Basic Bot Structure","anchor":"basic-bot-structure","parents":["Keeper Flows: Peel and Liquidation","Keeper Bot Implementation"],"text":"```typescript\nclass KeeperBot {\n    async run() {\n        while (true) {\n            // 1. Scan for opportunities\n            const vaults = await this.getActiveVaults();\n\n            for (const vault of vaults) {\n                // 2. Check peel eligibility\n                if (await this.canPeel(vault.id)) {\n                    await this.executePeel(vault.id);\n                }\n\n                // 3. Check liquidation eligibility\n                if (await this.canLiquidate(vault.id)) {\n                    await this.executeLiquidation(vault.id);\n                }\n            }\n\n            // 4. Wait before next scan\n            await sleep(SCAN_INTERVAL);\n        }\n    }\n}\n```","length":68},
+    {"name":"keeper-flows","category":"patterns","title":"Keeper Flows: Peel and Liquidation","heading":"Profitability Check","anchor":"profitability-check","parents":["Keeper Flows: Peel and Liquidation","Keeper Bot Implementation"],"text":"```typescript\nasync function isProfitable(\n    vaultId: bigint,\n    operation: 'peel' | 'liquidate'\n): Promise<boolean> {\n    const reward = await estimateReward(vaultId, operation);\n    const gasCost = await estimateGasCost(operation);\n\n    return reward > gasCost * 1.2;  // 20% margin\n}\n```","length":42},
+    {"name":"keeper-flows","category":"patterns","title":"Keeper Flows: Peel and Liquidation","heading":"Events","anchor":"events","parents":["Keeper Flows: Peel and Liquidation"],"text":"```solidity\nevent Peeled(\n    uint256 indexed vaultId,\n    uint256 collateralSold,\n    uint256 debtRepaid,\n    address indexed keeper\n);\n\nevent Liquidated(\n    uint256 indexed vaultId,\n    uint256 collateralL,\n    uint256 proceeds,\n    address indexed keeper\n);\n\nevent AuctionStarted(\n    uint256 indexed vaultId,\n    uint256 startPrice,\n    uint256 endPrice\n);\n```","length":41},
+    {"name":"keeper-flows","category":"patterns","title":"Keeper Flows: Peel and Liquidation","heading":"Related Concepts","anchor":"related-concepts","parents":["Keeper Flows: Peel and Liquidation"],"text":"- [Vault Operations](./vault-operations.md) - Core vault flows\n- [Collateral Management](./collateral-management.md) - Collateral handling\n- [sqrt(K) Floor](../concepts/sqrt-k-floor.md) - Collateral requirements","length":35},
+    {"name":"session-lifecycle","category":"patterns","title":"Session Lifecycle: Managing Execution Context","heading":"Overview","anchor":"overview","parents":["Session Lifecycle: Managing Execution Context"],"text":"Sessions are the core execution primitive in AEGIS. Every vault operation happens within a session, which manages state transitions between Phase 0 (PM locked) and Phase 1 (PM unlocked).","length":31},
+    {"name":"session-lifecycle","category":"patterns","title":"Session Lifecycle: Managing Execution Context","heading":"Session States","anchor":"session-states","parents":["Session Lifecycle: Managing Execution Context"],"text":"```\nNONE → STARTING → ACTIVE → SETTLING → ENDED\n```","length":16},
+    {"name":"session-lifecycle","category":"patterns","title":"Session Lifecycle: Managing Execution Context","heading":"State Definitions","anchor":"state-definitions","parents":["Session Lifecycle: Managing Execution Context","Session States"],"text":"| State | Description | Allowed Operations |\n|-------|-------------|-------------------|\n| NONE | No session | Start new session |\n| STARTING | Initializing | Setup only |\n| ACTIVE | In progress | All vault ops |\n| SETTLING | Winding down | Settlement only |\n| ENDED | Complete | None (auto-clears) |","length":42},
+    {"name":"session-lifecycle","category":"patterns","title":"Session Lifecycle: Managing Execution Context","heading":"Complete Lifecycle","anchor":"complete-lifecycle","parents":["Session Lifecycle: Managing Execution Context","Session Flow"],"text":"```\nUser Call\n    │\n    ▼\n┌─────────────────────────────────────────┐\n│  Phase 1: Preparation                    │\n│  - Validate inputs                       │\n│  - Check permissions                     │\n│  - Prepare action data                   │\n└─────────────────────────────────────────┘\n    │\n    ▼ poolManager.unlock()\n    │\n┌─────────────────────────────────────────┐\n│  Phase 0: Execution (Session Active)     │\n│  - startSession()                        │\n│  - Execute vault operations              │\n│  - Accumulate deltas                     │\n│  - endSession()                          │\n└─────────────────────────────────────────┘\n    │\n    ▼ return from callback\n    │\n┌─────────────────────────────────────────┐\n│  Phase 1: Completion                     │\n│  - Emit events                           │\n│  - Return results                        │\n└─────────────────────────────────────────┘\n```","length":48},
+    {"name":"session-lifecycle","category":"patterns","title":"Session Lifecycle: Managing Execution Context","heading":"Session Start","anchor":"session-start","parents":["Session Lifecycle: Managing Execution Context","Implementation"],"text":"```solidity\nfunction _startSession(uint256 vaultId) internal {\n    // Verify no active session (reentrancy protection)\n    require(tload(SESSION_ACTIVE_SLOT) == 0, \"Session exists\");\n\n    // Initialize session state\n    tstore(SESSION_ACTIVE_SLOT, 1);\n    tstore(SESSION_VAULT_SLOT, vaultId);\n    tstore(SESSION_OWNER_SLOT, uint256(uint160(msg.sender)));\n    tstore(DELTA_AMOUNT0_SLOT, 0);\n    tstore(DELTA_AMOUNT1_SLOT, 0);\n\n    // Record session start\n    sessionStartBlock = block.number;\n\n    emit SessionStarted(vaultId, msg.sender);\n}\n```","length":74},
+    {"name":"session-lifecycle","category":"patterns","title":"Session Lifecycle: Managing Execution Context","heading":"Session End","anchor":"session-end","parents":["Session Lifecycle: Managing Execution Context","Implementation"],"text":"```solidity\nfunction _endSession() internal {\n    // Get accumulated deltas\n    int256 delta0 = int256(tload(DELTA_AMOUNT0_SLOT));\n    int256 delta1 = int256(tload(DELTA_AMOUNT1_SLOT));\n\n    // Settle with PoolManager\n    _settleDeltas(delta0, delta1);\n\n    // Get session info before clearing\n    uint256 vaultId = tload(SESSION_VAULT_SLOT);\n\n    // Clear transient storage\n    tstore(SESSION_ACTIVE_SLOT, 0);\n    tstore(SESSION_VAULT_SLOT, 0);\n    tstore(SESSION_OWNER_SLOT, 0);\n    tstore(DELTA_AMOUNT0_SLOT, 0);\n    tstore(DELTA_AMOUNT1_SLOT, 0);\n\n    emit SessionEnded(vaultId);\n}\n```","length":80},
+    {"name":"session-lifecycle","category":"patterns","title":"Session Lifecycle: Managing Execution Context","heading":"Delta Accumulation","anchor":"delta-accumulation","parents":["Session Lifecycle: Managing Execution Context","Implementation"],"text":"```solidity\nfunction _accumulateDelta(int256 amount0, int256 amount1) internal {\n    require(tload(SESSION_ACTIVE_SLOT) == 1, \"No session\");\n\n    int256 current0 = int256(tload(DELTA_AMOUNT0_SLOT));\n    int256 current1 = int256(tload(DELTA_AMOUNT1_SLOT));\n\n    tstore(DELTA_AMOUNT0_SLOT, uint256(current0 + amount0));\n    tstore(DELTA_AMOUNT1_SLOT, uint256(current1 + amount1));\n}\n```","length":56},
+    {"name":"session-lifecycle","category":"patterns","title":"Session Lifecycle: Managing Execution Context","heading":"Batching Operations","anchor":"batching-operations","parents":["Session Lifecycle: Managing Execution Context","Multi-Action Sessions"],"text":"```solidity\nfunction executeBatch(\n    uint256 vaultId,\n    Action[] calldata actions\n) external {\n    poolManager.unlock(abi.encode(vaultId, actions));\n}\n\nfunction unlockCallback(bytes calldata data) external {\n    (uint256 vaultId, Action[] memory actions) = abi.decode(\n        data,\n        (uint256, Action[])\n    );\n\n    _startSession(vaultId);\n\n    for (uint256 i = 0; i < actions.length; i++) {\n        _executeAction(actions[i]);\n    }\n\n    _endSession();\n}\n```","length":54},
+    {"name":"session-lifecycle","category":"patterns","title":"Session Lifecycle: Managing Execution Context","heading":"Action Types","anchor":"action-types","parents":["Session Lifecycle: Managing Execution Context","Multi-Action Sessions"],"text":"```solidity\nenum ActionType {\n    DEPOSIT_COLLATERAL,\n    WITHDRAW_COLLATERAL,\n    BORROW,\n    REPAY,\n    CLAIM_REWARDS\n}\n\nstruct Action {\n    ActionType actionType;\n    bytes data;\n}\n\nfunction _executeAction(Action memory action) internal {\n    if (action.actionType == ActionType.DEPOSIT_COLLATERAL) {\n        _depositCollateral(abi.decode(action.data, (uint256)));\n    } else if (action.actionType == ActionType.BORROW) {\n        _borrow(abi.decode(action.data, (uint256)));\n    }\n    // ... other actions\n}\n```","length":63},
+    {"name":"session-lifecycle","category":"patterns","title":"Session Lifecycle: Managing Execution Context","heading":"Only During Session","anchor":"only-during-session","parents":["Session Lifecycle: Managing Execution Context","Session Guards"],"text":"```solidity\nmodifier onlyDuringSession() {\n    require(tload(SESSION_ACTIVE_SLOT) == 1, \"No active session\");\n    _;\n}\n\nfunction _borrow(uint256 amount) internal onlyDuringSession {\n    // Safe to execute - within session\n}\n```","length":38},
+    {"name":"session-lifecycle","category":"patterns","title":"Session Lifecycle: Managing Execution Context","heading":"Session Owner Only","anchor":"session-owner-only","parents":["Session Lifecycle: Managing Execution Context","Session Guards"],"text":"```solidity\nmodifier onlySessionOwner() {\n    require(\n        msg.sender == address(uint160(tload(SESSION_OWNER_SLOT))),\n        \"Not session owner\"\n    );\n    _;\n}\n```","length":31},
+    {"name":"session-lifecycle","category":"patterns","title":"Session Lifecycle: Managing Execution Context","heading":"Same Block Guard","anchor":"same-block-guard","parents":["Session Lifecycle: Managing Execution Context","Session Guards"],"text":"```solidity\nmodifier sameBlock() {\n    require(block.number == sessionStartBlock, \"Wrong block\");\n    _;\n}\n```","length":25},
+    {"name":"session-lifecycle","category":"patterns","title":"Session Lifecycle: Managing Execution Context","heading":"Session Failures","anchor":"session-failures","parents":["Session Lifecycle: Managing Execution Context","Error Handling"],"text":"```solidity\nfunction unlockCallback(bytes calldata data) external {\n    try this._executeSession(data) {\n        // Success\n    } catch Error(string memory reason) {\n        // Clean up transient storage\n        _clearSession();\n        revert(reason);\n    } catch {\n        _clearSession();\n        revert(\"Session failed\");\n    }\n}\n\nfunction _clearSession() internal {\n    tstore(SESSION_ACTIVE_SLOT, 0);\n    tstore(SESSION_VAULT_SLOT, 0);\n    tstore(SESSION_OWNER_SLOT, 0);\n    tstore(DELTA_AMOUNT0_SLOT, 0);\n    tstore(DELTA_AMOUNT1_SLOT, 0);\n}\n```","length":69},
+    {"name":"session-lifecycle","category":"patterns","title":"Session Lifecycle: Managing Execution Context","heading":"Partial Execution","anchor":"partial-execution","parents":["Session Lifecycle: Managing Execution Context","Error Handling"],"text":"```solidity\nfunction executeBatchWithContinue(\n    uint256 vaultId,\n    Action[] calldata actions,\n    bool continueOnError\n) external {\n    // If continueOnError, skip failed actions but continue\n    for (uint256 i = 0; i < actions.length; i++) {\n        if (continueOnError) {\n            try this._executeAction(actions[i]) {} catch {}\n        } else {\n            _executeAction(actions[i]);\n        }\n    }\n}\n```","length":44},
+    {"name":"session-lifecycle","category":"patterns","title":"Session Lifecycle: Managing Execution Context","heading":"Must Hold During Session","anchor":"must-hold-during-session","parents":["Session Lifecycle: Managing Execution Context","Session Invariants"],"text":"1. **Single active session**: Only one session per vault at a time\n2. **Owner consistency**: Session owner doesn't change\n3. **Delta conservation**: Deltas balance at settlement\n4. **State consistency**: Transient and persistent state align","length":50},
+    {"name":"session-lifecycle","category":"patterns","title":"Session Lifecycle: Managing Execution Context","heading":"Must Hold After Session","anchor":"must-hold-after-session","parents":["Session Lifecycle: Managing Execution Context","Session Invariants"],"text":"1. **Clean transient storage**: All session slots cleared\n2. **Settled balances**: No pending deltas with PM\n3. **Updated persistent state**: Changes committed","length":40},
+    {"name":"session-lifecycle","category":"patterns","title":"Session Lifecycle: Managing Execution Context","heading":"Session Info View","anchor":"session-info-view","parents":["Session Lifecycle: Managing Execution Context","Debugging Sessions"],"text":"```solidity\nfunction getSessionInfo() external view returns (\n    bool active,\n    uint256 vaultId,\n    address owner,\n    int256 delta0,\n    int256 delta1\n) {\n    active = tload(SESSION_ACTIVE_SLOT) == 1;\n    vaultId = tload(SESSION_VAULT_SLOT);\n    owner = address(uint160(tload(SESSION_OWNER_SLOT)));\n    delta0 = int256(tload(DELTA_AMOUNT0_SLOT));\n    delta1 = int256(tload(DELTA_AMOUNT1_SLOT));\n}\n```","length":62},
+    {"name":"session-lifecycle","category":"patterns","title":"Session Lifecycle: Managing Execution Context","heading":"Common Issues","anchor":"common-issues","parents":["Session Lifecycle: Managing Execution Context","Debugging Sessions"],"text":"| Issue | Symptom | Cause |\n|-------|---------|-------|\n| Session exists | Revert on start | Reentrancy or stuck session |\n| No session | Revert on operation | Forgot to start |\n| Wrong owner | Revert on action | Different caller |\n| Delta mismatch | Settlement fails | Accounting error |","length":41},
+    {"name":"session-lifecycle","category":"patterns","title":"Session Lifecycle: Managing Execution Context","heading":"Events","anchor":"events","parents":["Session Lifecycle: Managing Execution Context"],"text":"```solidity\nevent SessionStarted(uint256 indexed vaultId, address indexed owner);\nevent SessionEnded(uint256 indexed vaultId);\nevent SessionFailed(uint256 indexed vaultId, string reason);\nevent ActionExecuted(uint256 indexed vaultId, ActionType actionType);\n```","length":36},
+    {"name":"session-lifecycle","category":"patterns","title":"Session Lifecycle: Managing Execution Context","heading":"Related Concepts","anchor":"related-concepts","parents":["Session Lifecycle: Managing Execution Context"],"text":"- [Two-Phase Execution](../concepts/two-phase-execution.md) - PM locked/unlocked\n- [Transient Storage](../concepts/transient-storage.md) - Session state storage\n- [Vault Operations](./vault-operations.md) - Operations within sessions","length":39},
+    {"name":"vault-operations","category":"patterns","title":"Vault Operations: Core User Flows","heading":"Overview","anchor":"overview","parents":["Vault Operations: Core User Flows"],"text":"Vaults are ERC-721 NFTs representing user positions in AEGIS. Each vault can hold collateral (Uniswap V4 liquidity positions) and carry debt.","length":27},
+    {"name":"vault-operations","category":"patterns","title":"Vault Operations: Core User Flows","heading":"Vault Lifecycle","anchor":"vault-lifecycle","parents":["Vault Operations: Core User Flows"],"text":"```\nCreate Vault → Deposit Collateral → Borrow → Repay → Withdraw → Close Vault\n       ↑              ↑                ↑        ↑         ↑\n       └──────────────┴────────────────┴────────┴─────────┘\n                    (Can repeat any operation)\n```","length":24},
+    {"name":"vault-operations","category":"patterns","title":"Vault Operations: Core User Flows","heading":"Create Vault","anchor":"create-vault","parents":["Vault Operations: Core User Flows","Core Operations"],"text":"```solidity\nfunction createVault() external returns (uint256 vaultId) {\n    vaultId = _nextVaultId++;\n\n    // Mint NFT to caller\n    _mint(msg.sender, vaultId);\n\n    // Initialize vault state\n    vaults[vaultId] = Vault({\n        owner: msg.sender,\n        collateralL: 0,\n        debtL: 0,\n        createdAt: block.timestamp\n    });\n\n    emit VaultCreated(vaultId, msg.sender);\n}\n```","length":50},
+    {"name":"vault-operations","category":"patterns","title":"Vault Operations: Core User Flows","heading":"Deposit Collateral","anchor":"deposit-collateral","parents":["Vault Operations: Core User Flows","Core Operations"],"text":"```solidity\nfunction depositCollateral(\n    uint256 vaultId,\n    uint256 positionId  // Uniswap V4 position NFT\n) external {\n    require(ownerOf(vaultId) == msg.sender, \"Not vault owner\");\n\n    // Transfer position to vault\n    positionManager.transferFrom(msg.sender, address(this), positionId);\n\n    // Calculate L-units\n    uint256 positionL = _getPositionL(positionId);\n\n    // Update vault collateral\n    vaults[vaultId].collateralL += positionL;\n\n    emit CollateralDeposited(vaultId, positionId, positionL);\n}\n```","length":61},
+    {"name":"vault-operations","category":"patterns","title":"Vault Operations: Core User Flows","heading":"Borrow","anchor":"borrow","parents":["Vault Operations: Core User Flows","Core Operations"],"text":"```solidity\nfunction borrow(\n    uint256 vaultId,\n    uint256 borrowAmountL\n) external {\n    require(ownerOf(vaultId) == msg.sender, \"Not vault owner\");\n\n    Vault storage vault = vaults[vaultId];\n\n    // Check collateral ratio after borrow\n    uint256 newDebtL = vault.debtL + borrowAmountL;\n    require(\n        _isCollateralSufficient(vault.collateralL, newDebtL),\n        \"Insufficient collateral\"\n    );\n\n    // Check utilization cap\n    require(\n        _isUtilizationSafe(newDebtL),\n        \"Utilization cap exceeded\"\n    );\n\n    // Update debt (equity neutrality: equityL unchanged)\n    vault.debtL = newDebtL;\n\n    // Transfer tokens to borrower\n    _transferBorrowedTokens(msg.sender, borrowAmountL);\n\n    emit Borrowed(vaultId, borrowAmountL);\n}\n```","length":77},
+    {"name":"vault-operations","category":"patterns","title":"Vault Operations: Core User Flows","heading":"Repay","anchor":"repay","parents":["Vault Operations: Core User Flows","Core Operations"],"text":"```solidity\nfunction repay(\n    uint256 vaultId,\n    uint256 repayAmountL\n) external {\n    Vault storage vault = vaults[vaultId];\n\n    // Calculate actual repayment (may include accrued interest)\n    uint256 totalOwed = _calculateTotalOwed(vault.debtL);\n    uint256 actualRepay = repayAmountL > totalOwed ? totalOwed : repayAmountL;\n\n    // Transfer tokens from repayer\n    _transferRepaymentTokens(msg.sender, actualRepay);\n\n    // Update debt (equity neutrality: equityL unchanged)\n    vault.debtL = totalOwed - actualRepay;\n\n    emit Repaid(vaultId, actualRepay);\n}\n```","length":62},
+    {"name":"vault-operations","category":"patterns","title":"Vault Operations: Core User Flows","heading":"Withdraw Collateral","anchor":"withdraw-collateral","parents":["Vault Operations: Core User Flows","Core Operations"],"text":"```solidity\nfunction withdrawCollateral(\n    uint256 vaultId,\n    uint256 positionId\n) external {\n    require(ownerOf(vaultId) == msg.sender, \"Not vault owner\");\n\n    Vault storage vault = vaults[vaultId];\n\n    // Calculate remaining collateral\n    uint256 positionL = _getPositionL(positionId);\n    uint256 remainingL = vault.collateralL - positionL;\n\n    // Check collateral ratio after withdrawal\n    require(\n        _isCollateralSufficient(remainingL, vault.debtL),\n        \"Would undercollateralize\"\n    );\n\n    // Update vault and transfer\n    vault.collateralL = remainingL;\n    positionManager.transferFrom(address(this), msg.sender, positionId);\n\n    emit CollateralWithdrawn(vaultId, positionId, positionL);\n}\n```","length":75},
+    {"name":"vault-operations","category":"patterns","title":"Vault Operations: Core User Flows","heading":"Vault Health States","anchor":"vault-health-states","parents":["Vault Operations: Core User Flows","State Transitions"],"text":"| State | Condition | Actions Allowed |\n|-------|-----------|-----------------|\n| Empty | collateralL = 0, debtL = 0 | Deposit |\n| Healthy | ratio > 120% | All |\n| Warning | 110% < ratio ≤ 120% | Repay, Deposit |\n| Liquidatable | ratio ≤ 110% | Repay, Liquidate |","length":41},
+    {"name":"vault-operations","category":"patterns","title":"Vault Operations: Core User Flows","heading":"Collateral Ratio Calculation","anchor":"collateral-ratio-calculation","parents":["Vault Operations: Core User Flows","State Transitions"],"text":"```solidity\nfunction getCollateralRatio(uint256 vaultId) public view returns (uint256) {\n    Vault memory vault = vaults[vaultId];\n\n    if (vault.debtL == 0) return type(uint256).max;\n\n    // ratio = (collateralL * PIPS_DENOMINATOR) / debtL\n    return FullMath.mulDiv(\n        vault.collateralL,\n        PIPS_DENOMINATOR,\n        vault.debtL\n    );\n}\n```","length":52},
+    {"name":"vault-operations","category":"patterns","title":"Vault Operations: Core User Flows","heading":"Session Integration","anchor":"session-integration","parents":["Vault Operations: Core User Flows"],"text":"All vault operations occur within sessions:\n\n```solidity\nfunction executeVaultAction(\n    uint256 vaultId,\n    bytes calldata actionData\n) external {\n    // Start session (Phase 1 → Phase 0)\n    poolManager.unlock(abi.encode(vaultId, actionData));\n}\n\nfunction unlockCallback(bytes calldata data) external {\n    (uint256 vaultId, bytes memory actionData) = abi.decode(\n        data,\n        (uint256, bytes)\n    );\n\n    // Phase 0: Execute action\n    _startSession(vaultId);\n    _executeAction(vaultId, actionData);\n    _endSession();\n}\n```","length":64},
+    {"name":"vault-operations","category":"patterns","title":"Vault Operations: Core User Flows","heading":"Adding Multiple Collateral Positions","anchor":"adding-multiple-collateral-positions","parents":["Vault Operations: Core User Flows","Multi-Position Vaults"],"text":"```solidity\nfunction depositMultipleCollateral(\n    uint256 vaultId,\n    uint256[] calldata positionIds\n) external {\n    for (uint256 i = 0; i < positionIds.length; i++) {\n        depositCollateral(vaultId, positionIds[i]);\n    }\n}\n```","length":36},
+    {"name":"vault-operations","category":"patterns","title":"Vault Operations: Core User Flows","heading":"Position Aggregation","anchor":"position-aggregation","parents":["Vault Operations: Core User Flows","Multi-Position Vaults"],"text":"```solidity\nfunction getVaultCollateralDetails(uint256 vaultId)\n    external view returns (\n        uint256 totalL,\n        uint256 totalSqrtK,\n        uint256[] memory positionIds\n    )\n{\n    // Sum across all positions\n    positionIds = vaultPositions[vaultId];\n    for (uint256 i = 0; i < positionIds.length; i++) {\n        totalL += _getPositionL(positionIds[i]);\n        totalSqrtK += _getPositionSqrtK(positionIds[i]);\n    }\n}\n```","length":46},
+    {"name":"vault-operations","category":"patterns","title":"Vault Operations: Core User Flows","heading":"Common Revert Reasons","anchor":"common-revert-reasons","parents":["Vault Operations: Core User Flows","Error Handling"],"text":"| Error | Cause | Resolution |\n|-------|-------|------------|\n| `NotVaultOwner` | Caller != NFT owner | Use correct account |\n| `InsufficientCollateral` | Collateral < required | Deposit more |\n| `UtilizationExceeded` | Market full | Wait or reduce borrow |\n| `NoDebt` | Trying to repay zero | No action needed |\n| `VaultNotEmpty` | Close with debt | Repay first |","length":49},
+    {"name":"vault-operations","category":"patterns","title":"Vault Operations: Core User Flows","heading":"Events","anchor":"events","parents":["Vault Operations: Core User Flows"],"text":"```solidity\nevent VaultCreated(uint256 indexed vaultId, address indexed owner);\nevent CollateralDeposited(uint256 indexed vaultId, uint256 positionId, uint256 amountL);\nevent CollateralWithdrawn(uint256 indexed vaultId, uint256 positionId, uint256 amountL);\nevent Borrowed(uint256 indexed vaultId, uint256 amountL);\nevent Repaid(uint256 indexed vaultId, uint256 amountL);\nevent VaultLiquidated(uint256 indexed vaultId, address indexed liquidator);\n```","length":57},
+    {"name":"vault-operations","category":"patterns","title":"Vault Operations: Core User Flows","heading":"Related Concepts","anchor":"related-concepts","parents":["Vault Operations: Core User Flows"],"text":"- [L-Units](../concepts/l-units.md) - Liquidity accounting\n- [sqrt(K) Floor](../concepts/sqrt-k-floor.md) - Collateral requirements\n- [Session Lifecycle](./session-lifecycle.md) - Operation sessions\n- [Keeper Flows](./keeper-flows.md) - Liquidation process","length":43},
+  ],
+  postings: {
+    "0": [[3,1],[5,1],[9,1],[21,1],[22,4],[33,2],[34,2],[38,1],[64,1],[65,3],[67,2],[80,3],[81,1],[82,2],[83,3],[84,1],[85,6],[86,4],[87,3],[90,1],[91,1],[92,6],[94,1],[102,1],[112,1],[118,1],[130,1],[143,1],[148,5],[155,2],[160,1],[161,1],[163,3],[174,2],[176,2],[177,1],[178,1],[179,1],[183,2],[191,1],[196,2],[197,1],[200,2],[201,1],[206,1],[207,1],[212,1],[215,1],[227,3],[228,1],[232,1],[237,1],[240,1],[241,3],[242,5],[244,1],[249,5],[250,1],[259,2],[264,2],[265,1],[266,2],[267,1],[268,1]],
+    "000": [[21,4],[22,7],[24,2],[26,1],[27,3],[28,2],[29,3],[30,4],[33,2],[61,1],[68,1],[152,2],[155,2],[192,2],[198,2],[206,1],[208,2],[210,1],[225,1],[229,1]],
+    "0001": [[21,1],[22,1],[34,1],[118,1]],
+    "0008": [[16,1],[19,1],[40,1]],
+    "0009": [[0,1]],
+    "001": [[22,1],[155,1]],
+    "01": [[22,1],[33,1],[163,1]],
+    "0x": [[118,1]],
+    "0x0000": [[118,1]],
+    "0x01": [[63,1]],
+    "0x02": [[63,1]],
+    "0x03": [[63,1]],
+    "0x04": [[63,1]],
+    "0x1": [[118,1]],
+    "0x1234": [[127,1]],
+    "1": [[3,1],[4,1],[5,1],[6,3],[7,3],[8,1],[9,1],[16,1],[21,4],[22,6],[28,1],[29,1],[32,1],[33,1],[38,1],[42,1],[47,1],[52,1],[53,1],[54,1],[64,1],[65,2],[67,1],[74,1],[75,1],[76,1],[81,3],[82,2],[84,3],[85,5],[86,4],[90,1],[91,2],[92,1],[94,1],[115,3],[120,3],[126,1],[128,3],[136,1],[137,3],[145,1],[146,1],[152,4],[155,3],[156,1],[158,1],[160,3],[163,4],[164,4],[166,1],[169,3],[173,3],[174,1],[176,4],[177,2],[181,1],[184,3],[189,1],[197,2],[205,3],[208,1],[212,2],[213,1],[221,3],[228,2],[230,1],[232,1],[233,1],[234,1],[237,1],[240,2],[241,1],[243,1],[246,1],[251,1],[252,1],[253,1],[266,1]],
+    "10": [[17,1],[22,3],[26,1],[27,3],[30,2],[33,2],[155,1],[208,1],[225,1],[230,1]],
+    "100": [[21,1],[22,3],[26,1],[28,1],[33,1],[38,1],[48,3],[61,3],[135,1],[155,1],[160,1],[163,1],[182,2],[192,1],[225,1],[230,2]],
+    "1000": [[29,2],[126,1],[127,1],[135,4]],
+    "10000": [[48,3]],
+    "1000e18": [[143,1]],
+    "100e18": [[142,1]],
+    "100l": [[135,1]],
+    "110": [[221,1],[222,1],[230,1],[264,2]],
+    "1153": [[60,2],[61,2],[62,2],[63,1],[64,1],[65,1],[66,1],[67,1],[68,1],[69,1],[70,1],[71,1],[72,1],[73,1],[74,1],[75,1],[76,1],[77,1],[78,1],[87,1],[95,1]],
+    "120": [[221,1],[264,2]],
+    "1500": [[126,1]],
+    "192": [[156,1]],
+    "1e12": [[33,1],[155,1]],
+    "1e18": [[2,2],[18,1],[25,3],[33,1],[34,1],[143,1],[151,1],[152,1],[155,1],[161,1],[166,1]],
+    "1e27": [[151,1]],
+    "1e6": [[18,1],[20,1],[22,1],[28,1],[34,1],[38,1],[151,1],[166,1]],
+    "2": [[4,1],[5,1],[6,1],[7,1],[8,1],[16,1],[38,1],[42,2],[47,1],[48,1],[52,1],[53,1],[54,1],[61,1],[75,1],[76,1],[94,1],[116,3],[121,3],[129,3],[136,1],[138,3],[145,1],[146,1],[151,1],[153,3],[155,1],[156,1],[161,3],[162,2],[166,1],[170,3],[174,3],[177,3],[181,1],[185,3],[198,2],[206,3],[213,1],[222,3],[233,1],[234,1],[251,1],[252,1]],
+    "20": [[2,1],[61,1],[68,1],[210,2],[230,1],[234,1]],
+    "200": [[210,1]],
+    "2000e8": [[161,1]],
+    "25": [[198,1]],
+    "3": [[4,1],[5,1],[6,1],[7,1],[8,1],[16,1],[38,1],[47,1],[52,1],[53,1],[54,1],[75,1],[94,1],[117,3],[122,3],[130,3],[136,1],[139,3],[145,1],[146,1],[154,3],[155,1],[162,6],[166,1],[171,3],[175,3],[178,3],[181,1],[186,3],[198,1],[207,3],[213,1],[233,1],[251,1],[252,1]],
+    "32": [[117,3]],
+    "4": [[4,1],[5,1],[6,1],[7,1],[8,1],[16,1],[38,1],[75,1],[94,1],[118,3],[123,3],[136,1],[140,3],[145,1],[146,1],[155,3],[166,1],[172,3],[179,3],[208,3],[233,1],[251,1]],
+    "5": [[7,1],[8,1],[16,1],[23,4],[24,5],[29,1],[30,2],[116,2],[117,3],[119,3],[124,3],[141,3],[156,3],[166,1],[182,1],[198,2],[206,2],[208,1],[228,2],[229,1]],
+    "50": [[22,1],[24,1],[29,2],[30,2],[135,1],[198,1],[208,1],[229,1]],
+    "500": [[22,1],[24,1],[27,1],[48,1],[126,1],[135,1]],
+    "50000e8": [[161,1]],
+    "50e18": [[142,1]],
+    "50l": [[135,1]],
+    "55": [[24,4]],
+    "550": [[24,1],[135,1]],
+    "555": [[24,1]],
+    "6": [[8,1],[16,1],[166,1]],
+    "600": [[135,2]],
+    "64": [[117,4]],
+    "66": [[118,1],[130,1]],
+    "7": [[162,2]],
+    "721": [[84,1],[170,3],[257,1]],
+    "8": [[161,1]],
+    "80": [[192,1],[210,1],[230,1]],
+    "800": [[27,1],[48,1],[192,1]],
+    "9": [[27,3],[48,3]],
+    "90": [[192,1]],
+    "900": [[27,1],[48,1],[192,1]],
+    "95": [[16,1],[22,1],[27,1],[48,1]],
+    "950": [[22,1]],
+    "96": [[151,1],[156,1]],
+    "98": [[27,1],[48,1],[50,1]],
+    "99": [[27,1],[48,1],[51,1]],
+    "abi": [[85,1],[90,1],[103,1],[104,1],[124,1],[232,1],[244,2],[245,2],[266,2]],
+    "above": [[216,1]],
+    "access": [[72,3],[81,1],[124,3]],
+    "accessing": [[124,1]],
+    "account": [[0,1],[47,1],[269,1]],
+    "accounting": [[0,2],[1,1],[2,1],[3,1],[4,1],[5,1],[6,1],[7,1],[8,1],[9,1],[10,1],[11,1],[12,1],[13,1],[14,1],[15,1],[16,1],[17,1],[18,1],[19,1],[59,1],[134,1],[136,1],[149,1],[219,1],[254,1],[271,1]],
+    "accrual": [[16,1],[17,4],[18,1],[39,2],[113,2],[133,2],[148,1],[149,2],[204,1],[205,1],[206,1],[207,4],[208,1],[209,1],[210,1],[211,1],[212,1],[213,1],[214,1],[215,1],[216,1],[217,1],[218,1],[219,1]],
+    "accrue": [[16,1]],
+    "accrued": [[43,1],[207,1],[262,1]],
+    "accruedinterest": [[207,3]],
+    "accrueinterest": [[139,2],[207,1]],
+    "accruetolender": [[205,1],[209,1]],
+    "accumulate": [[160,1],[215,1],[240,1]],
+    "accumulated": [[63,1],[88,1],[242,1]],
+    "accumulatedborrowfee": [[214,1]],
+    "accumulatedelta": [[66,1],[243,1]],
+    "accumulatedfee": [[112,1],[144,1]],
+    "accumulatedinterestfee": [[214,1]],
+    "accumulatedswapfee": [[214,1]],
+    "accumulating": [[160,3]],
+    "accumulation": [[66,3],[166,1],[243,3]],
+    "accurate": [[204,1]],
+    "across": [[47,1],[72,1],[93,1],[176,1],[268,1]],
+    "action": [[16,1],[91,1],[97,1],[103,1],[104,1],[120,5],[240,1],[244,9],[245,12],[250,6],[254,1],[264,1],[266,1],[269,1]],
+    "actiondata": [[266,4]],
+    "actionexecuted": [[255,1]],
+    "actiontype": [[103,1],[104,1],[245,7],[255,2]],
+    "active": [[63,1],[64,1],[65,5],[74,3],[80,1],[107,1],[177,4],[238,1],[239,1],[240,1],[241,3],[242,1],[243,1],[246,2],[249,1],[251,1],[253,3]],
+    "actively": [[56,1]],
+    "actor": [[220,1]],
+    "actual": [[8,1],[228,1],[262,1]],
+    "actualprice": [[231,2]],
+    "actualrepay": [[262,4]],
+    "add": [[52,1],[142,1],[193,1],[206,1],[207,1]],
+    "addcollateralposition": [[193,1]],
+    "addid": [[200,4]],
+    "adding": [[102,1],[137,3],[193,3],[267,3]],
+    "additional": [[52,1],[208,1]],
+    "address": [[64,1],[74,2],[100,1],[101,2],[102,1],[105,1],[109,1],[111,2],[127,2],[175,2],[179,1],[180,1],[193,1],[194,1],[202,1],[205,1],[211,1],[218,1],[235,2],[247,1],[253,2],[255,1],[260,1],[263,1],[270,2]],
+    "adjusted": [[188,1]],
+    "adjustedsqrtk": [[191,2]],
+    "adjustment": [[105,1],[190,1],[191,1]],
+    "aegis": [[0,2],[1,1],[2,1],[3,1],[4,1],[5,1],[6,1],[7,1],[8,1],[9,1],[10,1],[11,1],[12,1],[13,1],[14,1],[15,1],[16,1],[17,1],[18,1],[19,1],[20,2],[21,1],[22,1],[23,1],[24,1],[25,1],[26,5],[27,2],[28,2],[29,1],[30,1],[31,1],[32,1],[33,1],[34,1],[35,1],[36,1],[37,1],[38,1],[39,1],[40,2],[41,1],[42,1],[43,1],[44,1],[45,1],[46,1],[47,1],[48,1],[49,1],[50,1],[51,1],[52,1],[53,1],[54,1],[55,1],[56,1],[57,1],[58,1],[59,1],[60,2],[61,1],[62,1],[63,2],[64,2],[65,1],[66,1],[67,1],[68,2],[69,2],[70,2],[71,1],[72,1],[73,1],[74,1],[75,1],[76,3],[77,1],[78,1],[79,1],[96,2],[97,3],[98,2],[99,2],[100,2],[101,2],[102,1],[103,1],[104,2],[105,1],[106,1],[107,2],[108,2],[109,1],[110,1],[111,1],[112,1],[113,1],[134,1],[150,1],[168,2],[169,1],[170,1],[171,1],[172,1],[173,1],[174,1],[175,1],[176,1],[177,1],[178,1],[179,1],[180,1],[181,1],[182,1],[183,1],[184,1],[185,1],[186,1],[187,1],[188,1],[204,1],[237,1],[257,1]],
+    "aegisengine": [[82,1],[182,1]],
+    "aegishook": [[96,1],[100,1],[101,1],[102,1],[111,2]],
+    "affect": [[4,1],[10,1],[101,1],[140,1]],
+    "affecting": [[52,1],[53,1],[54,1]],
+    "after": [[75,1],[89,1],[97,1],[98,1],[111,1],[135,2],[146,1],[164,2],[173,4],[175,1],[183,1],[209,1],[252,3],[261,1],[263,1]],
+    "afterdonate": [[99,1]],
+    "afterinitialize": [[99,1]],
+    "aftermodifyliquidity": [[99,1],[108,1]],
+    "afterswap": [[99,1],[101,2],[104,1],[110,1],[181,1],[205,2]],
+    "against": [[44,1]],
+    "aggregate": [[42,1]],
+    "aggregated": [[2,1]],
+    "aggregation": [[268,3]],
+    "agnostic": [[0,1]],
+    "air": [[164,1]],
+    "algebra": [[16,1]],
+    "algorithm": [[47,4],[188,2],[189,1],[190,1],[191,2],[192,2],[193,1],[194,1],[195,1],[196,1],[197,1],[198,1],[199,1],[200,1],[201,1],[202,1],[203,1]],
+    "align": [[251,1]],
+    "all": [[16,1],[18,1],[47,1],[49,1],[62,1],[144,1],[176,1],[190,1],[222,1],[227,1],[239,1],[252,1],[264,1],[266,1],[268,1]],
+    "allow": [[4,1],[164,1]],
+    "allowed": [[27,1],[48,1],[49,1],[239,1],[264,1]],
+    "already": [[175,1],[181,1]],
+    "alway": [[32,1],[38,1],[157,1]],
+    "among": [[150,1]],
+    "amount": [[5,1],[9,4],[10,1],[11,4],[12,4],[29,3],[32,4],[33,2],[34,2],[35,2],[38,1],[41,2],[55,1],[125,3],[137,8],[138,5],[146,1],[147,4],[151,1],[152,4],[153,6],[155,4],[157,1],[159,6],[163,1],[164,4],[173,7],[178,6],[179,5],[195,1],[215,1],[218,1],[227,1],[246,1]],
+    "amount0": [[11,1],[12,1],[15,1],[64,1],[66,5],[106,1],[122,2],[195,3],[196,4],[211,3],[241,1],[242,2],[243,4],[249,1],[253,1]],
+    "amount1": [[11,1],[12,1],[15,1],[64,1],[66,5],[106,1],[122,2],[195,3],[196,4],[211,3],[241,1],[242,2],[243,4],[249,1],[253,1]],
+    "amountdown": [[158,1]],
+    "amountl": [[270,4]],
+    "amountup": [[158,1]],
+    "amplified": [[56,1]],
+    "annualizedfee": [[214,2]],
+    "any": [[45,1],[183,1],[258,1]],
+    "anything": [[89,1]],
+    "anyway": [[68,1]],
+    "apply": [[101,1],[107,1],[191,1],[197,1]],
+    "applyborrowfee": [[206,1]],
+    "applyconcentrationfactor": [[191,1],[192,1]],
+    "applyfee": [[152,2]],
+    "applying": [[29,3]],
+    "applyliquidationfee": [[208,1]],
+    "applypip": [[29,1]],
+    "applysessionrule": [[107,1]],
+    "approache": [[55,1]],
+    "architecture": [[168,1],[187,1]],
+    "arithmetic": [[118,1]],
+    "array": [[123,4],[125,1]],
+    "aspect": [[34,1]],
+    "assembly": [[73,6]],
+    "assemblyscript": [[114,2],[115,2],[116,2],[117,3],[118,1],[119,1],[120,1],[121,1],[122,1],[123,1],[124,1],[125,1],[126,1],[127,1],[128,1],[129,1],[130,1],[131,1],[132,1],[133,1]],
+    "assert": [[126,3],[147,2]],
+    "asserteq": [[142,2],[143,1],[144,1],[183,1]],
+    "assertgt": [[112,1]],
+    "assertle": [[164,1],[165,1]],
+    "asserttrue": [[163,1]],
+    "assessdiversification": [[198,1]],
+    "assesspoolcorrelation": [[197,1]],
+    "asset": [[136,1],[145,1]],
+    "assume": [[93,1]],
+    "assuming": [[75,1]],
+    "asymmetry": [[162,3]],
+    "async": [[233,1],[234,1]],
+    "attached": [[42,2]],
+    "attack": [[45,1],[182,2],[231,3]],
+    "attackcount": [[182,3]],
+    "attacker": [[44,1],[182,2]],
+    "attempt": [[94,1],[182,1]],
+    "auction": [[230,12]],
+    "auctionstarted": [[235,1]],
+    "audit": [[89,1],[146,1]],
+    "augment": [[96,1]],
+    "authorization": [[185,1]],
+    "auto": [[69,1],[239,1]],
+    "automatic": [[69,3],[116,1]],
+    "automatically": [[87,1],[93,1],[176,1],[209,1]],
+    "available": [[80,1],[83,1],[84,1],[98,3]],
+    "avoid": [[31,1],[110,1],[156,1],[180,1]],
+    "avoiding": [[20,1]],
+    "await": [[233,6],[234,2]],
+    "aware": [[107,3]],
+    "b": [[2,2],[3,1],[6,2],[7,2],[8,1],[17,1],[43,2],[49,1],[76,2],[118,5],[158,4],[162,1]],
+    "back": [[108,1],[194,1]],
+    "backrunning": [[232,3]],
+    "bad": [[44,1],[76,1],[140,1],[148,1],[213,1],[222,1],[227,1]],
+    "baddebt": [[148,2],[227,2]],
+    "balance": [[42,1],[89,1],[119,3],[126,3],[160,2],[173,3],[179,1],[183,1],[251,1],[252,1]],
+    "balancedelta": [[101,1],[106,1],[205,1]],
+    "balanceof": [[127,2],[183,1]],
+    "base": [[105,1],[203,1],[216,3],[217,1]],
+    "based": [[44,1],[79,1],[176,1],[177,3],[205,1],[216,3]],
+    "basefee": [[105,2]],
+    "basic": [[41,3],[61,1],[62,1],[97,1],[98,1],[99,1],[233,3]],
+    "basis": [[26,1],[48,3]],
+    "batching": [[244,3]],
+    "become": [[136,1],[145,1]],
+    "before": [[18,2],[80,1],[97,1],[98,1],[111,1],[135,2],[146,1],[153,1],[164,2],[166,1],[173,1],[209,1],[233,1],[242,1]],
+    "beforedonate": [[99,1]],
+    "beforeinitialize": [[99,1],[100,2]],
+    "beforemodifyliquidity": [[99,1],[102,2]],
+    "beforeswap": [[99,1],[101,2],[107,1],[109,1],[171,1],[180,2]],
+    "beforeswapdelta": [[101,1],[180,1]],
+    "beforeswapdeltalibrary": [[101,1]],
+    "begin": [[82,1]],
+    "behavior": [[112,3],[135,3]],
+    "below": [[222,1]],
+    "benefit": [[68,1],[69,1],[70,1],[176,1],[198,1]],
+    "best": [[131,1],[132,1],[153,1]],
+    "better": [[184,1],[199,1]],
+    "between": [[75,1],[223,1],[237,1]],
+    "bidauction": [[230,1]],
+    "bigdecimal": [[122,4]],
+    "bigint": [[118,5],[119,1],[125,2],[126,3],[127,1],[130,1],[132,1],[234,1]],
+    "biginttoid": [[130,1]],
+    "bit": [[117,7]],
+    "block": [[207,2],[230,1],[232,2],[241,1],[248,5],[259,1]],
+    "bonus": [[198,2]],
+    "book": [[0,1]],
+    "booked": [[2,1]],
+    "bool": [[36,1],[37,1],[46,1],[64,1],[74,1],[201,1],[202,1],[223,1],[226,1],[250,1],[253,1]],
+    "boolean": [[234,1]],
+    "bootstrap": [[3,1]],
+    "borrow": [[0,1],[7,3],[10,1],[14,3],[16,3],[18,1],[44,1],[103,1],[104,1],[134,2],[135,2],[136,1],[137,5],[139,1],[141,2],[142,3],[143,1],[145,1],[146,1],[147,1],[148,1],[178,1],[206,5],[213,1],[219,1],[245,3],[246,1],[258,1],[261,5],[269,1]],
+    "borrowamount": [[141,6],[143,6],[218,1]],
+    "borrowamount0": [[14,1]],
+    "borrowamount1": [[14,1]],
+    "borrowamountl": [[206,3],[261,4]],
+    "borrowed": [[36,2],[172,1],[261,1],[270,1]],
+    "borrower": [[2,1],[40,1],[142,2],[261,1]],
+    "borrowexecuted": [[147,1]],
+    "borrowfee": [[214,1]],
+    "borrowfeecollected": [[206,1],[218,1]],
+    "borrowing": [[54,3]],
+    "borrowl": [[14,1],[148,1]],
+    "bot": [[233,4],[234,1]],
+    "both": [[16,1],[38,1],[45,1],[118,1],[186,1]],
+    "bound": [[40,1],[41,1],[143,2],[164,2]],
+    "boundary": [[38,1],[55,3],[163,3]],
+    "bounded": [[27,1],[28,1]],
+    "bounty": [[27,1],[48,1]],
+    "bps": [[26,2],[27,10],[48,7],[49,1],[50,1],[51,1]],
+    "bridge": [[7,1]],
+    "btcusd": [[161,3]],
+    "bug": [[114,1],[120,1],[121,1],[122,1],[123,1],[124,1],[137,1],[138,1],[139,1],[140,1],[141,1],[150,1],[152,1],[153,1],[154,1],[156,1]],
+    "building": [[166,1]],
+    "burn": [[1,1],[6,2],[7,1],[16,1],[80,1],[82,1],[83,1],[159,1]],
+    "burned": [[157,1]],
+    "burning": [[157,1]],
+    "but": [[57,1],[114,1],[141,1],[175,1],[181,1],[186,1],[250,1]],
+    "byte": [[64,1],[85,2],[91,1],[92,1],[101,2],[102,1],[103,1],[104,1],[120,7],[130,3],[180,1],[205,1],[244,1],[245,1],[249,1],[266,4]],
+    "bytes32": [[197,2],[218,1],[232,4]],
+    "bytes4": [[100,1],[101,2],[102,1],[180,1],[185,1],[205,1]],
+    "bytestostring": [[130,1]],
+    "c": [[42,4],[43,2],[49,1],[158,5]],
+    "cache": [[72,1]],
+    "calculate": [[6,1],[14,3],[15,3],[29,1],[54,2],[106,1],[189,1],[190,1],[191,1],[192,1],[194,1],[200,1],[205,1],[207,1],[224,1],[227,1],[260,1],[262,1],[263,1]],
+    "calculated": [[58,1]],
+    "calculatedeviation": [[231,1]],
+    "calculatedynamicfee": [[101,1]],
+    "calculateexpectedfee": [[143,1]],
+    "calculatefee": [[35,1],[163,1],[180,1]],
+    "calculatefeeshare": [[106,2]],
+    "calculateinterest": [[139,2],[154,2]],
+    "calculateliquidationreward": [[227,1],[229,1]],
+    "calculatemaxpeel": [[225,1]],
+    "calculatepeelcollateral": [[224,1]],
+    "calculatepeelreward": [[224,1]],
+    "calculatesafecollateral": [[191,1]],
+    "calculateshare": [[153,3]],
+    "calculatesqrtk": [[191,1],[193,1],[194,1],[195,1],[200,2],[202,1]],
+    "calculateswapfee": [[205,1]],
+    "calculatetotalowed": [[262,1]],
+    "calculateutilizationfee": [[105,1]],
+    "calculation": [[18,1],[35,3],[39,1],[43,3],[46,3],[57,1],[88,1],[141,3],[151,1],[157,1],[195,3],[204,1],[229,3],[265,3]],
+    "call": [[67,1],[71,1],[72,1],[75,1],[77,1],[82,1],[83,1],[84,2],[90,4],[92,1],[108,1],[110,3],[127,3],[169,1],[171,1],[173,5],[174,1],[176,1],[179,1],[180,1],[181,2],[182,1],[183,1],[221,1],[222,1],[225,1],[240,1]],
+    "callback": [[79,1],[80,1],[83,2],[89,1],[92,1],[94,2],[96,1],[108,3],[109,3],[168,2],[169,4],[170,6],[171,4],[172,5],[173,1],[174,4],[175,6],[176,1],[177,1],[178,1],[179,1],[180,1],[181,4],[182,1],[183,1],[184,5],[185,4],[186,1],[187,2],[240,1]],
+    "calldata": [[85,2],[91,1],[92,1],[100,1],[101,6],[102,3],[104,1],[105,1],[106,1],[180,3],[200,2],[205,3],[217,1],[244,2],[249,1],[250,1],[266,2],[267,1]],
+    "called": [[4,1],[109,1],[110,1]],
+    "caller": [[254,1],[259,1],[269,1]],
+    "calling": [[181,1]],
+    "can": [[23,1],[50,1],[56,1],[70,1],[74,1],[77,1],[80,1],[83,1],[84,1],[110,1],[149,1],[155,1],[165,1],[167,1],[177,1],[215,1],[257,1],[258,1]],
+    "cancel": [[16,1]],
+    "canliquidate": [[226,1],[227,1],[230,1],[233,1]],
+    "cannot": [[72,1],[81,1],[224,1],[227,1],[230,1]],
+    "canonical": [[0,1],[2,1]],
+    "canpeel": [[223,1],[224,1],[233,1]],
+    "cap": [[6,1],[16,1],[22,1],[27,2],[48,2],[261,2]],
+    "capacity": [[102,1]],
+    "capital": [[57,2]],
+    "capture": [[98,1],[101,1],[105,1],[106,1]],
+    "captured": [[112,1],[205,1]],
+    "captureswapfee": [[101,1],[106,1]],
+    "care": [[181,1]],
+    "careful": [[150,1]],
+    "carefully": [[75,1]],
+    "carried": [[4,1]],
+    "carry": [[257,1]],
+    "case": [[34,1],[55,1],[56,1],[151,1]],
+    "cast": [[75,1]],
+    "catch": [[249,2],[250,1]],
+    "cause": [[110,1],[114,1],[254,1],[269,1]],
+    "chain": [[58,1],[184,1]],
+    "change": [[0,1],[9,1],[10,1],[18,1],[68,1],[134,2],[137,1],[138,1],[143,1],[144,1],[146,1],[148,2],[251,1],[252,1]],
+    "changetype": [[125,1]],
+    "changing": [[110,1]],
+    "chargeborrowfee": [[141,2]],
+    "cheaper": [[176,1]],
+    "check": [[36,3],[37,3],[38,2],[94,2],[101,1],[102,2],[121,3],[124,1],[142,1],[143,1],[144,1],[146,1],[166,6],[173,2],[174,1],[178,4],[194,1],[231,1],[233,2],[234,3],[240,1],[261,2],[263,1]],
+    "checkcollateralafterremoval": [[102,1]],
+    "checklist": [[18,3],[166,3]],
+    "checkmarketcapacity": [[102,1]],
+    "checkswapimpact": [[101,1]],
+    "claim": [[6,3],[245,1]],
+    "claimwithdrawal": [[179,1]],
+    "class": [[233,1]],
+    "clean": [[70,1],[249,1],[252,1]],
+    "cleanup": [[69,3]],
+    "clear": [[69,2],[93,1],[176,1],[227,1],[239,1],[242,1]],
+    "cleared": [[62,1],[68,1],[87,1],[252,1]],
+    "clearing": [[242,1]],
+    "clearsession": [[249,3]],
+    "clearstore": [[126,2]],
+    "cleartransientstorage": [[86,1]],
+    "close": [[258,1],[269,1]],
+    "closed": [[222,1]],
+    "closure": [[222,1]],
+    "coercion": [[116,3]],
+    "cold": [[61,2]],
+    "collateral": [[16,1],[19,1],[37,3],[40,4],[41,1],[42,5],[43,2],[44,3],[45,1],[46,5],[47,2],[48,1],[49,2],[50,2],[51,2],[52,4],[53,4],[54,1],[55,1],[56,1],[57,1],[58,1],[59,4],[102,1],[157,2],[188,2],[189,1],[190,1],[191,1],[192,1],[193,5],[194,5],[195,1],[196,1],[197,1],[198,1],[199,1],[200,1],[201,1],[202,1],[203,2],[221,2],[222,1],[223,1],[224,2],[227,1],[228,2],[230,1],[236,4],[245,3],[257,1],[258,1],[260,4],[261,2],[263,5],[265,3],[267,3],[269,1],[271,1]],
+    "collateraladded": [[193,1]],
+    "collateraldeposited": [[260,1],[270,1]],
+    "collateralfloormath": [[42,1],[43,1]],
+    "collateralinfo": [[46,1]],
+    "collateralize": [[188,1]],
+    "collaterall": [[208,3],[224,2],[227,5],[229,2],[235,1],[259,1],[260,1],[261,1],[263,2],[264,1],[265,2]],
+    "collateralremoved": [[194,1]],
+    "collateralsold": [[235,1]],
+    "collateraltosell": [[224,4]],
+    "collateralvalue": [[37,3],[201,3]],
+    "collateralwithdrawn": [[263,1],[270,1]],
+    "collect": [[4,1]],
+    "collision": [[75,1],[76,1]],
+    "combine": [[132,1]],
+    "commit": [[232,6]],
+    "commitliquidation": [[232,1]],
+    "commitment": [[232,5]],
+    "committed": [[252,1]],
+    "common": [[14,1],[15,1],[19,1],[22,3],[35,1],[36,1],[37,1],[39,1],[75,3],[90,1],[91,1],[114,1],[117,1],[120,1],[121,1],[122,1],[123,1],[124,1],[134,1],[135,1],[136,1],[137,2],[138,2],[139,2],[140,2],[141,2],[142,1],[143,1],[144,1],[145,1],[146,1],[147,1],[148,1],[149,1],[150,1],[152,1],[153,1],[154,1],[155,1],[156,1],[184,1],[185,1],[186,1],[254,3],[269,3]],
+    "comparable": [[120,1]],
+    "compare": [[47,1],[61,1],[120,1],[189,1],[190,1]],
+    "comparison": [[34,3],[120,3]],
+    "compile": [[114,1]],
+    "complete": [[80,1],[239,1],[240,3]],
+    "completion": [[240,1]],
+    "concentrated": [[13,1],[56,1],[197,1]],
+    "concentration": [[47,1],[191,1],[192,3],[199,1]],
+    "concentrationfactor": [[192,5]],
+    "concept": [[19,3],[39,3],[59,3],[78,3],[95,3],[113,3],[133,4],[149,4],[167,5],[187,5],[203,4],[219,5],[236,4],[256,5],[271,5]],
+    "condition": [[264,1]],
+    "configuration": [[100,1]],
+    "confusing": [[139,3]],
+    "confusion": [[75,1]],
+    "conservation": [[251,1]],
+    "conservative": [[7,1],[8,1],[41,1]],
+    "consider": [[32,1]],
+    "consideration": [[32,1],[33,1],[57,1],[58,1],[76,1],[77,1],[92,1],[93,1],[109,1],[110,1],[168,1],[180,1],[181,1],[231,1],[232,1]],
+    "consistency": [[93,3],[251,2]],
+    "consistent": [[118,1],[132,3]],
+    "const": [[233,2],[234,2]],
+    "constant": [[22,1],[26,3],[27,9],[28,2],[45,1],[48,4],[63,4],[75,1],[76,4],[134,1],[225,1]],
+    "construction": [[16,1]],
+    "context": [[237,1],[238,1],[239,1],[240,1],[241,1],[242,1],[243,1],[244,1],[245,1],[246,1],[247,1],[248,1],[249,1],[250,1],[251,1],[252,1],[253,1],[254,1],[255,1],[256,1]],
+    "continue": [[250,1]],
+    "continueonerror": [[250,3]],
+    "continuous": [[207,1]],
+    "contract": [[77,6],[79,1],[96,1],[124,1],[127,3],[181,1],[182,1],[185,1]],
+    "control": [[86,1]],
+    "conversion": [[116,1],[118,1],[130,3],[156,3]],
+    "convert": [[120,1],[122,1],[211,1]],
+    "converted": [[4,1]],
+    "converting": [[11,3],[12,3],[30,3]],
+    "copy": [[123,1]],
+    "core": [[2,3],[97,1],[191,3],[203,1],[236,1],[237,1],[257,1],[258,1],[259,2],[260,2],[261,2],[262,2],[263,2],[264,1],[265,1],[266,1],[267,1],[268,1],[269,1],[270,1],[271,1]],
+    "correct": [[116,1],[118,2],[119,1],[120,1],[121,1],[122,1],[123,1],[124,1],[135,3],[137,1],[138,1],[139,1],[140,1],[141,2],[152,1],[153,1],[154,1],[156,1],[269,1]],
+    "correctly": [[183,1]],
+    "correctness": [[150,1]],
+    "correlated": [[197,1]],
+    "correlation": [[197,2],[198,1]],
+    "correlationdiscount": [[197,2]],
+    "correspond": [[1,1]],
+    "cost": [[34,1],[45,1],[61,1]],
+    "could": [[92,1],[169,1]],
+    "count": [[4,1],[197,2]],
+    "counting": [[140,3]],
+    "countuniquepool": [[198,1]],
+    "covered": [[140,1]],
+    "covering": [[140,1]],
+    "crashe": [[121,1]],
+    "create": [[16,1],[123,1],[126,1],[129,1],[258,1],[259,3]],
+    "created": [[164,1]],
+    "createdat": [[259,1]],
+    "createdepositevent": [[125,1],[126,1]],
+    "createmockedfunction": [[127,2]],
+    "createpositionid": [[132,1]],
+    "createvault": [[259,1]],
+    "creating": [[125,3],[168,1]],
+    "credit": [[7,1]],
+    "critical": [[79,1],[115,1],[116,1],[117,1],[118,1],[119,1],[128,1],[168,1],[204,1]],
+    "cross": [[72,3],[77,4],[161,1],[186,3],[198,3]],
+    "current": [[44,1],[46,1],[94,1],[107,1],[195,1]],
+    "current0": [[66,2],[243,2]],
+    "current1": [[66,2],[243,2]],
+    "currentequity": [[144,2]],
+    "currentprice": [[230,2]],
+    "currentsession": [[103,1]],
+    "currentsqrtk": [[46,2],[52,1],[53,1],[54,1]],
+    "currentsqrtprice": [[14,1],[15,1]],
+    "currenttick": [[196,4],[202,3]],
+    "dangerous": [[160,1],[161,1],[162,1],[174,1]],
+    "data": [[58,1],[62,3],[64,4],[69,1],[71,1],[72,2],[75,1],[77,1],[85,4],[90,3],[91,2],[92,1],[103,4],[104,5],[240,1],[244,2],[245,3],[249,2],[266,2]],
+    "debt": [[7,1],[9,3],[43,1],[44,1],[47,1],[54,1],[136,1],[137,1],[138,1],[139,1],[140,11],[141,1],[146,1],[148,1],[178,1],[189,1],[190,1],[207,2],[213,1],[221,2],[222,2],[224,1],[225,1],[227,2],[228,1],[257,1],[261,1],[262,1],[269,1]],
+    "debtbefore": [[147,2]],
+    "debtl": [[140,2],[194,1],[200,1],[201,1],[224,2],[225,2],[227,7],[259,1],[261,2],[262,2],[263,1],[264,1],[265,3]],
+    "debtprincipallwad": [[134,1],[135,4],[137,2],[138,2],[139,1],[140,3],[141,1],[147,3],[148,1]],
+    "debtrepaid": [[224,4],[235,1]],
+    "debtvalue": [[37,3],[201,4]],
+    "debugging": [[18,3],[38,3],[74,1],[75,1],[94,3],[128,1],[129,1],[130,1],[145,1],[146,4],[147,1],[166,3],[253,1],[254,1]],
+    "decimal": [[30,1],[161,1]],
+    "decode": [[104,1],[244,1],[245,2],[266,1]],
+    "decoding": [[104,3]],
+    "decrease": [[8,1],[55,1],[56,1],[138,1],[213,1]],
+    "decreased": [[145,1]],
+    "decreasing": [[53,3]],
+    "default": [[32,1],[158,1]],
+    "deferred": [[91,3]],
+    "defi": [[150,1]],
+    "definition": [[1,3],[21,3],[22,1],[41,3],[63,1],[239,3]],
+    "delegated": [[16,1]],
+    "delete": [[230,1]],
+    "delta": [[63,1],[64,2],[66,9],[88,1],[101,4],[104,1],[106,4],[180,1],[205,2],[240,1],[241,2],[242,5],[243,7],[249,2],[251,2],[252,1],[253,2],[254,1]],
+    "delta0": [[242,2],[253,2]],
+    "delta1": [[242,2],[253,2]],
+    "denominator": [[20,1],[27,1],[29,1],[31,2],[32,5],[35,1],[36,1],[37,2],[38,1],[152,5],[154,1],[164,1],[166,1],[192,2],[201,1],[206,1],[207,1],[208,2],[210,1],[214,1],[216,1],[217,1],[225,1],[229,1],[265,2]],
+    "dependency": [[45,1],[58,1]],
+    "deploy": [[111,1]],
+    "deploycodeto": [[111,1]],
+    "deposit": [[5,3],[16,3],[52,1],[120,3],[125,2],[126,1],[148,1],[159,4],[186,1],[217,1],[245,2],[258,1],[260,3],[264,2],[269,1]],
+    "depositcollateral": [[245,1],[260,1],[267,1]],
+    "depositl": [[148,1]],
+    "depositmultiplecollateral": [[267,1]],
+    "depositnft": [[175,2]],
+    "derived": [[131,3]],
+    "derivedfrom": [[131,1]],
+    "description": [[2,1],[48,1],[117,1],[239,1]],
+    "detail": [[46,1],[47,1],[95,1],[202,3]],
+    "development": [[114,1],[115,1],[116,1],[117,1],[118,1],[119,1],[120,1],[121,1],[122,1],[123,1],[124,1],[125,1],[126,1],[127,1],[128,1],[129,1],[130,1],[131,1],[132,1],[133,1]],
+    "deviation": [[231,4]],
+    "diff": [[118,1]],
+    "difference": [[114,1],[115,1],[116,1],[117,1],[118,1],[119,1]],
+    "different": [[117,3],[198,1],[254,1]],
+    "differently": [[162,1]],
+    "dilute": [[136,1]],
+    "direct": [[80,1],[83,1],[210,1]],
+    "direction": [[18,1],[32,1],[157,1],[166,1]],
+    "directly": [[1,1],[74,1],[81,1],[120,1]],
+    "discount": [[197,1],[230,1]],
+    "distinction": [[219,1]],
+    "distribute": [[106,1],[205,1]],
+    "distributed": [[204,1],[215,3]],
+    "distributefee": [[106,1]],
+    "distributeprotocolfee": [[210,1]],
+    "distributeresidue": [[215,1]],
+    "distribution": [[106,3],[113,1],[204,1],[205,1],[206,1],[207,1],[208,1],[209,3],[210,2],[211,2],[212,1],[213,1],[214,1],[215,2],[216,1],[217,1],[218,1],[219,1]],
+    "div": [[118,1],[122,2]],
+    "diversification": [[198,4]],
+    "diversificationbonus": [[198,3]],
+    "divide": [[31,1],[38,1],[153,1],[166,1]],
+    "division": [[18,1],[122,1],[153,1],[162,3]],
+    "divisor": [[215,3]],
+    "doesn": [[0,1],[71,1],[115,1],[121,1],[123,2],[136,1],[251,1]],
+    "domain": [[34,1]],
+    "don": [[4,1],[10,1],[16,1],[77,1],[93,1],[136,1],[181,1],[185,1]],
+    "donate": [[98,1]],
+    "donation": [[16,1]],
+    "dosomething": [[174,2]],
+    "double": [[140,3]],
+    "down": [[32,1],[33,1],[157,2],[158,2],[159,2],[239,1]],
+    "drop": [[145,1]],
+    "duration": [[60,1],[230,2]],
+    "during": [[87,1],[92,1],[110,1],[140,3],[174,4],[246,3],[251,3]],
+    "dutch": [[230,4]],
+    "dynamic": [[101,1],[105,4],[216,1],[217,5]],
+    "dynamicadjustment": [[105,2]],
+    "dynamicfee": [[101,2],[217,2]],
+    "e": [[2,1],[3,1],[5,1],[6,3],[7,1],[8,1],[16,1],[17,2],[206,1],[208,2]],
+    "each": [[3,1],[42,1],[47,1],[70,1],[83,1],[84,1],[146,1],[160,1],[190,1],[197,1],[257,1]],
+    "early": [[232,1]],
+    "earned": [[17,1]],
+    "economic": [[57,1]],
+    "economically": [[220,1]],
+    "edge": [[38,1],[55,2],[56,1]],
+    "eff": [[8,3]],
+    "effect": [[56,3],[173,2],[178,4]],
+    "effective": [[8,1]],
+    "efficiency": [[25,1],[68,3]],
+    "eip": [[60,2],[61,2],[62,2],[63,1],[64,1],[65,1],[66,1],[67,1],[68,1],[69,1],[70,1],[71,1],[72,1],[73,1],[74,1],[75,1],[76,1],[77,1],[78,1],[87,1],[95,1]],
+    "eligibility": [[233,2]],
+    "else": [[102,1],[107,1],[140,1],[192,2],[196,2],[198,1],[201,1],[216,1],[227,1],[245,1],[250,1]],
+    "emit": [[147,1],[193,1],[194,1],[206,1],[207,1],[211,1],[224,1],[227,1],[240,1],[241,1],[242,1],[259,1],[260,1],[261,1],[262,1],[263,1]],
+    "empty": [[129,1],[264,1]],
+    "enable": [[10,1],[188,1]],
+    "enabled": [[101,1]],
+    "encode": [[85,1],[90,1],[103,1],[244,1],[266,1]],
+    "encodepacked": [[232,1]],
+    "encoding": [[103,3]],
+    "end": [[62,1],[68,1],[70,1],[71,1],[82,1],[86,3],[87,1],[176,1],[242,3]],
+    "ended": [[238,1],[239,1]],
+    "endprice": [[230,2],[235,1]],
+    "endsession": [[65,1],[85,1],[86,1],[174,2],[240,1],[242,1],[244,1],[266,1]],
+    "enforce": [[6,1],[16,1]],
+    "enforced": [[16,1]],
+    "engine": [[107,1],[108,6],[142,6],[143,4],[144,2],[163,1],[182,3],[183,2]],
+    "ensure": [[38,1],[40,1]],
+    "enter": [[92,1],[94,1],[169,1],[171,1],[172,1]],
+    "entire": [[71,1]],
+    "entirely": [[0,1],[196,2]],
+    "entity": [[119,3],[126,4],[129,1],[131,2],[133,1]],
+    "entrancy": [[88,1]],
+    "enum": [[245,1]],
+    "equal": [[120,1],[146,1]],
+    "equity": [[0,1],[2,1],[4,3],[7,1],[8,1],[10,1],[16,2],[18,1],[19,2],[134,2],[135,1],[136,5],[137,5],[138,5],[139,3],[140,4],[141,3],[142,3],[143,2],[144,3],[145,4],[146,3],[147,1],[148,1],[149,2],[167,2],[206,1],[207,2],[210,1],[213,1],[219,2],[261,1],[262,1]],
+    "equityafter": [[142,4],[143,2]],
+    "equitybefore": [[142,4],[143,2],[147,2]],
+    "equityl": [[261,1],[262,1]],
+    "equitylwad": [[15,1],[134,2],[135,4],[137,1],[138,1],[139,1],[140,2],[141,3],[142,4],[143,2],[144,1],[147,3],[148,1],[206,1],[207,1],[209,4],[210,1],[212,2],[214,1]],
+    "equityneutrality": [[142,2],[143,1]],
+    "equityneutralityhold": [[144,1]],
+    "erc": [[2,1],[84,1],[170,3],[257,1]],
+    "error": [[39,2],[116,2],[119,1],[120,1],[124,1],[128,3],[129,1],[141,3],[149,2],[150,2],[151,1],[152,2],[153,2],[154,2],[155,2],[156,5],[157,1],[158,1],[159,1],[160,5],[161,1],[162,1],[163,2],[164,2],[165,2],[166,2],[167,1],[249,2],[250,1],[254,1],[269,2]],
+    "estimategascost": [[234,1]],
+    "estimatereward": [[234,1]],
+    "ethbtc": [[161,2]],
+    "ethereum": [[125,4],[127,2]],
+    "ethusd": [[161,3]],
+    "evaluateraw": [[42,1]],
+    "evaluation": [[188,1]],
+    "evenly": [[215,1]],
+    "event": [[118,3],[120,3],[121,6],[124,6],[125,8],[126,2],[133,1],[218,8],[235,6],[240,1],[255,7],[270,9]],
+    "eventparam": [[125,2]],
+    "every": [[4,1],[237,1]],
+    "exact": [[5,1],[16,1],[124,1]],
+    "example": [[29,1],[99,1],[159,3]],
+    "exceed": [[45,1],[165,1]],
+    "exceeded": [[261,1]],
+    "except": [[213,1]],
+    "excess": [[221,1]],
+    "excessutil": [[216,2]],
+    "execute": [[82,1],[91,1],[97,1],[126,1],[200,1],[224,1],[240,1],[246,1],[266,1]],
+    "executeaction": [[85,1],[244,1],[245,1],[250,2],[266,1]],
+    "executebatch": [[244,1]],
+    "executebatchwithcontinue": [[250,1]],
+    "executeborrow": [[147,1]],
+    "executeliquidation": [[232,1],[233,1]],
+    "executeoperation": [[164,1]],
+    "executepeel": [[233,1]],
+    "executepoolop": [[91,1]],
+    "executequeuedaction": [[91,1]],
+    "executerebalance": [[200,1]],
+    "executesession": [[82,1],[249,1]],
+    "executevaultaction": [[85,1],[266,1]],
+    "executewithcallback": [[174,2]],
+    "executing": [[220,1]],
+    "execution": [[78,2],[79,2],[80,1],[81,2],[82,4],[83,1],[84,1],[85,2],[86,1],[87,1],[88,1],[89,1],[90,1],[91,1],[92,1],[93,1],[94,1],[95,1],[113,2],[187,2],[237,2],[238,1],[239,1],[240,2],[241,1],[242,1],[243,1],[244,1],[245,1],[246,1],[247,1],[248,1],[249,1],[250,4],[251,1],[252,1],[253,1],[254,1],[255,1],[256,3]],
+    "exist": [[65,1],[115,1],[121,1],[241,1],[254,1]],
+    "existent": [[124,1]],
+    "existing": [[52,1]],
+    "existingparam": [[124,1]],
+    "exit": [[94,1]],
+    "expected": [[118,1],[136,1]],
+    "expectedfee": [[142,1],[147,1]],
+    "expectedfeeincrease": [[143,2]],
+    "expectedprice": [[231,2]],
+    "expectrevert": [[182,1]],
+    "expensive": [[184,1]],
+    "explicit": [[117,1],[162,1],[209,1]],
+    "explicitly": [[163,1]],
+    "exponentiation": [[160,1]],
+    "export": [[121,2]],
+    "expose": [[74,1]],
+    "extensively": [[60,1]],
+    "external": [[40,1],[58,1],[71,1],[74,1],[77,1],[81,1],[83,1],[84,1],[85,2],[90,5],[91,2],[92,2],[100,1],[101,2],[102,1],[104,1],[105,1],[107,1],[108,1],[109,1],[110,4],[159,2],[169,1],[171,1],[173,7],[174,3],[175,2],[177,1],[178,1],[179,3],[180,2],[181,4],[182,2],[185,1],[186,2],[193,1],[194,1],[200,1],[201,1],[202,1],[205,1],[217,1],[220,1],[224,1],[227,1],[230,2],[232,2],[244,2],[249,1],[250,1],[253,1],[259,1],[260,1],[261,1],[262,1],[263,1],[266,2],[267,1],[268,1]],
+    "externalcontract": [[90,1],[110,1],[174,2]],
+    "externaloracle": [[180,1]],
+    "extraction": [[157,1]],
+    "f": [[17,1]],
+    "f32": [[117,1]],
+    "f64": [[117,1]],
+    "factor": [[13,1],[43,1],[192,4]],
+    "fail": [[254,1]],
+    "failed": [[249,1],[250,1]],
+    "failure": [[249,3]],
+    "fair": [[136,1]],
+    "false": [[99,2],[184,1]],
+    "favor": [[18,1],[32,1],[157,1],[159,2],[165,1],[166,1]],
+    "favorable": [[157,3],[221,1]],
+    "fee": [[4,7],[16,1],[17,5],[20,1],[27,5],[28,5],[29,2],[32,1],[33,3],[34,1],[35,3],[39,3],[98,1],[101,2],[105,6],[106,5],[112,1],[113,3],[133,2],[139,1],[141,11],[142,1],[143,1],[144,1],[146,1],[148,3],[149,2],[151,1],[155,6],[157,1],[163,3],[180,4],[204,4],[205,9],[206,8],[207,2],[208,8],[209,6],[210,3],[211,2],[212,1],[213,2],[214,4],[215,9],[216,2],[217,8],[218,2],[219,4]],
+    "fee0": [[106,3],[218,1]],
+    "fee1": [[106,3],[218,1]],
+    "feeamount": [[210,3]],
+    "feed": [[40,1]],
+    "feedown": [[32,1]],
+    "feel": [[206,5],[209,2]],
+    "feepip": [[32,4],[33,1],[35,2],[152,4],[155,3]],
+    "feeresidue": [[215,2]],
+    "feesync": [[4,3],[16,1]],
+    "feeup": [[32,2]],
+    "feewad": [[33,2],[155,2]],
+    "fewer": [[157,1]],
+    "field": [[131,4]],
+    "fieldequal": [[126,1]],
+    "financial": [[25,1]],
+    "first": [[40,1],[84,1],[120,1],[153,1],[173,1],[175,1],[269,1]],
+    "fix": [[160,1],[161,1],[162,1]],
+    "flag": [[99,4],[111,3]],
+    "flash": [[57,3],[172,4],[231,3]],
+    "float": [[117,2]],
+    "floor": [[5,1],[8,2],[16,1],[17,1],[19,2],[40,3],[41,2],[42,2],[43,2],[44,1],[45,1],[46,1],[47,1],[48,1],[49,1],[50,1],[51,1],[52,1],[53,1],[54,1],[55,1],[56,1],[57,1],[58,1],[59,1],[188,1],[203,2],[236,2],[271,2]],
+    "flow": [[4,1],[5,1],[6,1],[7,1],[8,1],[59,2],[82,3],[95,1],[200,3],[203,3],[204,1],[220,1],[221,1],[222,1],[223,1],[224,1],[225,1],[226,1],[227,1],[228,1],[229,1],[230,1],[231,1],[232,1],[233,1],[234,1],[235,1],[236,2],[240,1],[257,1],[258,1],[259,1],[260,1],[261,1],[262,1],[263,1],[264,1],[265,1],[266,1],[267,1],[268,1],[269,1],[270,1],[271,3]],
+    "fluctuate": [[9,3]],
+    "force": [[222,1]],
+    "forced": [[51,1]],
+    "forgot": [[254,1]],
+    "formatting": [[118,1],[132,3]],
+    "formula": [[3,3],[41,1],[42,1],[43,1],[191,3],[203,1],[212,3]],
+    "forward": [[4,1]],
+    "found": [[121,1],[129,1]],
+    "foundation": [[11,1],[12,1],[13,1],[149,1]],
+    "foundry": [[74,3],[111,3],[182,3]],
+    "free": [[0,1],[40,1]],
+    "frequently": [[68,1]],
+    "fromaddress": [[127,1]],
+    "fromi32": [[126,3],[127,1]],
+    "frompip": [[30,1]],
+    "fromstring": [[127,1]],
+    "fromunsignedbigint": [[125,2],[127,1]],
+    "fromutf8": [[120,1]],
+    "full": [[0,1],[1,1],[2,1],[5,1],[45,1],[95,1],[222,3],[226,1],[227,2],[269,1]],
+    "fullmath": [[31,1],[32,3],[35,1],[36,1],[153,2],[154,1],[156,2],[158,3],[159,2],[161,1],[166,1],[192,1],[201,1],[206,1],[207,1],[208,2],[210,1],[212,1],[214,1],[216,2],[217,1],[225,1],[229,1],[265,1]],
+    "fully": [[140,1],[197,1],[222,1]],
+    "function": [[29,1],[30,2],[31,2],[35,1],[36,1],[37,1],[65,2],[66,2],[73,2],[74,2],[84,1],[85,2],[86,1],[90,1],[91,2],[92,1],[100,1],[101,2],[102,1],[104,1],[105,1],[106,1],[107,1],[108,1],[109,1],[110,1],[111,1],[112,1],[121,2],[125,1],[129,1],[130,2],[132,1],[137,2],[138,2],[139,2],[140,2],[141,2],[142,2],[143,1],[144,1],[147,1],[152,2],[153,3],[154,2],[156,2],[159,2],[162,1],[163,1],[164,1],[165,1],[173,2],[174,2],[175,2],[176,1],[177,1],[178,1],[179,2],[180,1],[181,1],[182,2],[183,1],[185,1],[186,6],[191,1],[192,1],[193,1],[194,1],[195,1],[196,1],[197,1],[198,1],[200,1],[201,2],[202,2],[205,1],[206,1],[207,1],[208,1],[209,1],[210,1],[211,1],[212,1],[214,2],[215,1],[216,1],[217,1],[223,1],[224,1],[225,1],[226,1],[227,1],[229,1],[230,2],[231,1],[232,2],[234,1],[241,1],[242,1],[243,1],[244,2],[245,1],[246,1],[249,2],[250,1],[253,1],[259,1],[260,1],[261,1],[262,1],[263,1],[265,1],[266,2],[267,1],[268,1]],
+    "fund": [[172,1]],
+    "fundamental": [[134,1]],
+    "future": [[72,1]],
+    "fuzz": [[143,3],[164,3]],
+    "g": [[17,1],[206,1],[208,2]],
+    "gas": [[25,1],[34,1],[61,5],[68,4],[181,1],[228,2]],
+    "gascost": [[234,2]],
+    "generate": [[204,1]],
+    "geometric": [[41,1]],
+    "get": [[107,1],[157,2],[195,1],[198,1],[201,3],[202,3],[208,2],[242,2]],
+    "getaccumulateddelta": [[66,1]],
+    "getaccumulatedfee": [[214,1]],
+    "getactivevault": [[233,1]],
+    "getamount0forliquidity": [[196,1]],
+    "getamount1forliquidity": [[196,1]],
+    "getamountsforliquidity": [[5,1],[196,1]],
+    "getamountsfroml": [[12,1],[15,1],[211,1]],
+    "getauctionprice": [[230,1]],
+    "getcollateralratio": [[223,1],[226,1],[265,1]],
+    "getcurrentapy": [[214,1]],
+    "getcurrentsession": [[107,1]],
+    "getdata": [[90,1]],
+    "getdebtsqrtk": [[201,1]],
+    "getfee": [[105,1],[217,1]],
+    "getinterestrate": [[207,1],[216,1]],
+    "getlfromamount": [[11,1],[14,1]],
+    "getoracleprice": [[230,2]],
+    "getpoolkey": [[197,1]],
+    "getposition": [[191,1]],
+    "getpositionamount": [[195,1],[196,1]],
+    "getpositiondetail": [[202,1]],
+    "getpositionl": [[260,1],[263,1],[268,1]],
+    "getpositionsqrtk": [[268,1]],
+    "getprice": [[110,1],[156,2],[180,1]],
+    "getsessioninfo": [[253,1]],
+    "getsessionstate": [[74,1]],
+    "getshareprice": [[212,1]],
+    "getutilization": [[216,1],[217,1]],
+    "getvaultcollateraldetail": [[268,1]],
+    "getvaulthealth": [[201,1]],
+    "global": [[7,1],[8,1]],
+    "go": [[81,1],[139,1],[140,1]],
+    "goe": [[208,1],[210,1],[227,1]],
+    "gone": [[75,1]],
+    "good": [[76,1]],
+    "gotcha": [[19,1],[39,1],[78,1],[95,1],[219,1]],
+    "graph": [[114,2],[115,1],[116,1],[117,1],[118,1],[119,1],[120,1],[121,1],[122,1],[123,1],[124,1],[125,1],[126,1],[127,1],[128,2],[129,1],[130,1],[131,1],[132,1],[133,1]],
+    "graphprotocol": [[128,1]],
+    "graphql": [[131,1]],
+    "group": [[197,1]],
+    "guard": [[63,1],[65,3],[67,3],[70,1],[88,1],[92,4],[174,2],[176,4],[177,3],[181,1],[184,3],[186,1],[187,2],[246,1],[247,1],[248,4]],
+    "h": [[51,1]],
+    "handle": [[81,1]],
+    "handledeposit": [[126,1]],
+    "handlefeeresidue": [[215,1]],
+    "handler": [[114,1],[126,1]],
+    "handletransfer": [[121,2]],
+    "handling": [[118,3],[196,3],[203,1],[215,3],[236,1],[249,1],[250,1],[269,1]],
+    "happen": [[18,1],[83,1],[84,1],[175,1],[237,1]],
+    "hard": [[27,2],[48,2],[51,4]],
+    "has": [[44,1],[56,1],[114,1],[186,1],[189,1],[190,1]],
+    "have": [[192,1]],
+    "health": [[201,3],[220,1],[264,3]],
+    "healthfactor": [[201,4]],
+    "healthy": [[49,3],[221,1],[264,1]],
+    "help": [[184,1]],
+    "helper": [[130,3]],
+    "here": [[97,2],[169,1],[180,1],[181,1]],
+    "hex": [[118,1]],
+    "higher": [[9,1],[25,1],[34,2],[160,1],[192,2],[217,2]],
+    "hold": [[251,3],[252,3],[257,1]],
+    "holder": [[16,1],[204,1],[209,3]],
+    "hook": [[28,5],[83,2],[96,3],[97,7],[98,6],[99,7],[100,1],[101,4],[102,4],[103,5],[104,6],[105,4],[106,2],[107,4],[108,2],[109,1],[110,6],[111,6],[112,6],[113,1],[133,2],[171,5],[180,4],[181,4],[205,1]],
+    "hookaddress": [[111,3]],
+    "hookcapturesfee": [[112,1]],
+    "hookdata": [[101,2],[102,1],[103,3],[104,4],[108,1],[112,1],[180,1]],
+    "hookdelta": [[101,2]],
+    "hookfeeppm": [[28,1]],
+    "hour": [[230,1]],
+    "i32": [[116,1],[117,2],[132,1]],
+    "i64": [[117,2]],
+    "iaegisengine": [[108,1]],
+    "id": [[16,1],[118,6],[119,3],[121,3],[123,2],[129,4],[131,4],[132,4],[233,4]],
+    "identifier": [[88,1]],
+    "identify": [[94,1]],
+    "idle": [[42,1]],
+    "idle0": [[42,1]],
+    "idle1": [[42,1]],
+    "idlebalance": [[42,1]],
+    "if": [[44,1],[71,1],[94,1],[101,2],[102,1],[104,1],[107,1],[115,2],[118,1],[119,2],[120,3],[121,2],[129,1],[140,2],[181,1],[182,1],[192,2],[194,1],[196,2],[198,2],[201,1],[207,1],[212,1],[215,2],[216,1],[227,1],[233,2],[245,2],[250,2],[265,1]],
+    "ignoring": [[186,3]],
+    "il": [[56,1]],
+    "immediate": [[208,1],[211,1]],
+    "impact": [[214,3]],
+    "impermanent": [[56,3]],
+    "implement": [[96,1]],
+    "implementation": [[46,1],[47,1],[100,1],[101,1],[102,1],[158,3],[180,3],[187,1],[224,3],[227,3],[233,1],[234,1],[241,1],[242,1],[243,1]],
+    "implicit": [[116,3]],
+    "import": [[125,1],[126,1],[127,1],[128,1]],
+    "important": [[114,1]],
+    "improved": [[221,1]],
+    "incentive": [[51,1],[228,1],[229,1]],
+    "incentivize": [[217,1]],
+    "incentivized": [[220,1]],
+    "include": [[118,1],[262,1]],
+    "incorrectly": [[145,1]],
+    "increase": [[4,1],[52,1],[137,1],[139,1],[141,3],[144,1],[146,1],[149,1],[209,3],[210,1],[213,1],[216,2]],
+    "increased": [[145,1]],
+    "increasing": [[52,3],[199,1]],
+    "independence": [[58,3]],
+    "independent": [[41,1]],
+    "index": [[132,2]],
+    "indexed": [[218,2],[235,5],[255,5],[270,8]],
+    "inflate": [[44,1]],
+    "inflated": [[44,1]],
+    "info": [[128,1],[242,1],[253,3]],
+    "initial": [[3,1],[126,1]],
+    "initialbalance": [[126,2]],
+    "initialequity": [[144,1]],
+    "initialization": [[100,3]],
+    "initialize": [[98,1],[100,1],[241,1],[259,1]],
+    "initializemarket": [[100,1]],
+    "initializing": [[239,1]],
+    "initially": [[212,1]],
+    "initiatewithdrawal": [[179,1]],
+    "inline": [[73,1]],
+    "input": [[166,1],[240,1]],
+    "inrange": [[202,2]],
+    "insolvent": [[145,1]],
+    "instead": [[118,1],[152,1],[179,1]],
+    "insufficient": [[173,1],[261,1]],
+    "insufficientcollateral": [[269,1]],
+    "int128": [[101,2],[106,2],[205,2]],
+    "int24": [[192,1],[196,1],[202,3]],
+    "int256": [[64,2],[66,10],[106,2],[162,2],[242,4],[243,6],[253,4]],
+    "integer": [[117,4],[162,3]],
+    "integrate": [[96,1]],
+    "integration": [[96,1],[97,1],[98,1],[99,1],[100,1],[101,1],[102,1],[103,1],[104,1],[105,1],[106,1],[107,2],[108,2],[109,1],[110,1],[111,1],[112,1],[113,1],[266,3]],
+    "interaction": [[79,1],[81,1],[173,2],[178,4]],
+    "intercept": [[96,1],[97,2]],
+    "interest": [[2,2],[16,2],[17,7],[18,1],[27,1],[43,1],[139,9],[148,2],[151,1],[207,5],[216,3],[218,1],[262,1]],
+    "interestaccrued": [[207,1],[218,1]],
+    "interestfee": [[214,1]],
+    "interestrate": [[207,2]],
+    "interference": [[77,1]],
+    "intermediate": [[33,1],[155,1]],
+    "internal": [[1,1],[13,1],[29,1],[30,2],[31,2],[35,1],[36,1],[37,1],[65,2],[66,2],[73,2],[86,1],[106,1],[137,2],[138,2],[139,2],[140,2],[141,2],[147,1],[152,2],[153,3],[154,2],[156,2],[192,1],[195,1],[196,1],[197,1],[198,1],[206,1],[207,1],[208,1],[209,1],[210,1],[211,1],[215,1],[216,1],[225,1],[229,1],[231,1],[241,1],[242,1],[243,1],[245,1],[246,1],[249,1]],
+    "interval": [[233,1]],
+    "into": [[132,1]],
+    "invariant": [[16,3],[40,1],[45,3],[134,4],[142,3],[144,4],[147,1],[165,4],[183,4],[213,3],[251,1],[252,1]],
+    "ipool": [[202,1]],
+    "ipoolmanager": [[101,2],[102,1],[180,1],[205,1]],
+    "iscollateralized": [[178,1]],
+    "iscollateralsufficient": [[37,1],[261,1],[263,1]],
+    "isliquidatable": [[201,2]],
+    "isolation": [[76,3]],
+    "isprofitable": [[234,1]],
+    "issafe": [[46,1],[194,1],[200,1]],
+    "issue": [[18,1],[20,1],[75,3],[254,4]],
+    "issued": [[157,1]],
+    "isutilizationsafe": [[36,1],[261,1]],
+    "item": [[91,1]],
+    "iteration": [[160,1]],
+    "k": [[7,3],[8,2],[16,1],[19,2],[40,3],[41,2],[42,2],[43,2],[44,2],[45,6],[46,2],[47,3],[48,1],[49,1],[50,1],[51,1],[52,2],[53,2],[54,2],[55,2],[56,2],[57,2],[58,1],[59,1],[189,1],[190,2],[191,1],[195,4],[203,2],[236,2],[271,2]],
+    "keccak256": [[76,2],[232,1]],
+    "keeper": [[27,2],[48,1],[50,1],[51,1],[59,2],[203,2],[204,1],[208,2],[211,7],[220,2],[221,3],[222,4],[223,1],[224,2],[225,1],[226,1],[227,2],[228,2],[229,2],[230,1],[231,1],[232,1],[233,2],[234,2],[235,3],[236,1],[271,2]],
+    "keeperbot": [[233,1]],
+    "keeperreward": [[208,2]],
+    "keeperrewarded": [[211,1]],
+    "key": [[1,1],[2,1],[3,1],[13,3],[48,3],[100,3],[101,6],[102,3],[103,1],[105,3],[106,2],[108,1],[112,2],[180,2],[205,2],[217,1]],
+    "know": [[136,1]],
+    "l": [[0,4],[1,2],[2,8],[3,6],[4,5],[5,3],[6,10],[7,12],[8,9],[9,2],[10,8],[11,6],[12,6],[13,2],[14,4],[15,1],[16,5],[17,5],[18,2],[19,2],[39,2],[49,1],[50,1],[59,2],[149,2],[151,1],[167,2],[211,1],[219,2],[260,1],[271,2]],
+    "language": [[114,1]],
+    "large": [[31,1],[44,1],[230,1],[232,1]],
+    "last": [[173,1]],
+    "lastaccrualtime": [[207,2]],
+    "layout": [[63,1],[64,1]],
+    "leading": [[118,1]],
+    "leaking": [[145,1]],
+    "least": [[163,1]],
+    "ledger": [[0,1]],
+    "legitimate": [[149,1]],
+    "lender": [[0,1],[2,1],[101,1],[106,1],[134,1],[136,2],[137,1],[138,1],[145,1],[204,1],[205,1],[206,1],[207,1],[209,3],[210,2]],
+    "lendershare": [[210,2]],
+    "length": [[118,1],[183,1],[191,1],[197,1],[200,2],[244,1],[250,1],[267,1],[268,1]],
+    "less": [[157,1],[165,1]],
+    "let": [[115,2],[116,5],[117,3],[118,8],[119,2],[120,1],[121,3],[122,2],[123,3],[124,2],[125,1],[126,4],[129,1],[179,1]],
+    "level": [[150,1],[151,3],[154,3]],
+    "liability": [[136,1],[145,1]],
+    "lifecycle": [[78,2],[85,1],[86,1],[95,2],[97,3],[113,2],[187,2],[237,1],[238,1],[239,1],[240,4],[241,1],[242,1],[243,1],[244,1],[245,1],[246,1],[247,1],[248,1],[249,1],[250,1],[251,1],[252,1],[253,1],[254,1],[255,1],[256,1],[258,3],[271,2]],
+    "lifetime": [[62,3]],
+    "like": [[114,1]],
+    "limit": [[181,1],[225,3]],
+    "limitation": [[71,1],[72,1],[73,1]],
+    "linear": [[216,1]],
+    "liq": [[27,1]],
+    "liquidatable": [[50,3],[264,1]],
+    "liquidate": [[140,2],[222,1],[226,3],[227,2],[230,1],[234,1],[264,1]],
+    "liquidated": [[50,1],[208,1],[227,1],[235,1]],
+    "liquidation": [[27,2],[48,1],[51,4],[55,1],[59,1],[140,3],[146,1],[201,1],[203,1],[208,3],[220,2],[221,4],[222,4],[223,3],[224,1],[225,2],[226,3],[227,6],[228,2],[229,2],[230,4],[231,1],[232,2],[233,2],[234,1],[235,1],[236,1],[271,1]],
+    "liquidator": [[270,1]],
+    "liquidity": [[0,3],[1,3],[2,2],[3,1],[4,1],[5,2],[6,2],[7,1],[8,2],[9,1],[10,2],[11,1],[12,1],[13,3],[14,1],[15,1],[16,1],[17,1],[18,1],[19,1],[52,1],[53,1],[56,1],[59,1],[80,1],[83,2],[98,1],[102,6],[167,1],[202,3],[257,1],[271,1]],
+    "liquiditydelta": [[102,1],[108,1]],
+    "liquidityminted": [[8,2]],
+    "list": [[193,1],[194,1]],
+    "lmath": [[11,1],[12,1],[14,1],[15,1],[211,1]],
+    "load": [[119,2],[121,2],[123,2],[129,1]],
+    "loading": [[119,3]],
+    "loan": [[57,3],[172,4],[231,3]],
+    "locked": [[79,2],[80,5],[81,1],[82,1],[83,1],[84,1],[85,1],[86,1],[87,1],[88,1],[89,1],[90,1],[91,1],[92,1],[93,1],[94,1],[95,1],[113,1],[184,3],[237,1],[256,1]],
+    "log": [[89,1],[94,1],[121,1],[128,4],[129,1]],
+    "logging": [[128,3],[147,3]],
+    "logic": [[97,1],[104,1]],
+    "logical": [[76,1]],
+    "lose": [[23,1],[38,1],[118,1],[122,1],[145,1],[153,1],[160,1],[161,1]],
+    "loss": [[33,4],[56,3],[140,1],[161,3],[227,1]],
+    "lower": [[9,1],[34,2],[41,1],[192,1]],
+    "lp": [[188,1],[189,1],[190,1]],
+    "ltv": [[27,4],[43,4],[48,3],[49,2],[50,2],[51,2]],
+    "m": [[2,2],[3,1],[6,2],[7,1],[8,2],[16,1],[17,1],[43,2],[49,1]],
+    "maintain": [[16,1],[40,1],[53,1],[150,1],[220,1]],
+    "maintained": [[0,1],[18,1]],
+    "maintaining": [[188,1]],
+    "maintenance": [[211,1]],
+    "make": [[90,1]],
+    "malicious": [[70,1],[94,1],[170,2]],
+    "manage": [[188,1],[237,1]],
+    "management": [[59,2],[60,1],[78,1],[113,1],[188,1],[189,1],[190,1],[191,1],[192,1],[193,1],[194,1],[195,1],[196,1],[197,1],[198,1],[199,1],[200,1],[201,1],[202,1],[203,1],[236,2]],
+    "managing": [[59,1],[237,1],[238,1],[239,1],[240,1],[241,1],[242,1],[243,1],[244,1],[245,1],[246,1],[247,1],[248,1],[249,1],[250,1],[251,1],[252,1],[253,1],[254,1],[255,1],[256,1]],
+    "manipulate": [[44,1],[45,1]],
+    "manipulated": [[231,1]],
+    "manipulation": [[44,3],[45,2],[57,1],[58,1]],
+    "manually": [[69,1]],
+    "many": [[3,1]],
+    "mapping": [[179,1],[197,1],[232,1]],
+    "margin": [[234,1]],
+    "market": [[27,1],[48,1],[100,1],[101,1],[102,1],[269,1]],
+    "marketstate": [[206,1],[207,1],[209,1],[210,1],[212,1],[214,1]],
+    "match": [[136,1]],
+    "matche": [[124,1]],
+    "matchstick": [[125,2],[126,2],[127,2]],
+    "math": [[155,1],[162,1],[195,1]],
+    "mathematical": [[11,1],[12,1],[13,1],[29,1],[30,1],[31,1]],
+    "matter": [[135,1],[136,1]],
+    "max": [[1,1],[5,1],[27,7],[28,1],[36,1],[48,2],[49,1],[50,1],[155,1],[164,1],[201,1],[216,1],[217,1],[225,2],[231,1],[265,1]],
+    "maxexcess": [[216,2]],
+    "maximum": [[48,2],[51,1],[225,1]],
+    "may": [[55,1],[262,1]],
+    "md": [[19,4],[39,3],[59,3],[78,3],[95,3],[113,3],[133,3],[149,3],[167,3],[187,3],[203,3],[219,3],[236,3],[256,3],[271,4]],
+    "mean": [[41,1]],
+    "meaningful": [[163,1]],
+    "measure": [[10,1]],
+    "mechanic": [[212,1],[213,1],[214,1]],
+    "mechanism": [[204,1]],
+    "medium": [[192,1]],
+    "memory": [[103,1],[104,1],[107,1],[191,2],[192,1],[195,1],[196,1],[197,1],[198,1],[201,1],[202,1],[230,1],[244,1],[245,1],[249,1],[265,1],[266,1],[268,1]],
+    "method": [[118,1]],
+    "mev": [[231,1],[232,1]],
+    "micro": [[27,2]],
+    "might": [[142,1],[184,2]],
+    "million": [[20,2],[21,1],[22,1],[23,1],[24,1],[25,1],[26,1],[27,1],[28,4],[29,1],[30,1],[31,1],[32,1],[33,1],[34,1],[35,1],[36,1],[37,1],[38,1],[39,1]],
+    "min": [[1,1],[5,1],[6,2],[8,1],[42,4],[43,2],[49,1],[155,1],[215,1]],
+    "minimalamount": [[163,1]],
+    "minimize": [[230,1]],
+    "minimum": [[33,1],[46,1],[155,1]],
+    "minratiopip": [[37,3]],
+    "mint": [[1,1],[4,1],[5,2],[8,1],[16,2],[17,2],[80,1],[82,1],[83,1],[159,1],[259,2]],
+    "mintable": [[4,2]],
+    "minted": [[8,1],[159,1]],
+    "mintfullrange": [[4,1]],
+    "minting": [[157,1]],
+    "minttotreasury": [[210,1]],
+    "minus": [[118,1]],
+    "mismatch": [[254,1]],
+    "missing": [[121,3]],
+    "mistake": [[39,1],[117,1],[184,1],[185,1],[186,1]],
+    "mixing": [[154,3]],
+    "mock": [[125,3]],
+    "mocking": [[127,3]],
+    "model": [[79,1]],
+    "modeling": [[133,1]],
+    "modifier": [[65,1],[67,1],[109,1],[176,1],[177,2],[184,1],[246,1],[247,1],[248,1]],
+    "modifyliquidity": [[98,1]],
+    "modifyliquidityparam": [[102,1]],
+    "money": [[145,1]],
+    "monitor": [[56,1],[199,1]],
+    "monotone": [[16,1]],
+    "more": [[9,2],[54,3],[56,1],[157,3],[269,1]],
+    "most": [[26,1],[150,1]],
+    "move": [[9,1],[16,1],[55,1]],
+    "movement": [[56,1]],
+    "moving": [[45,1],[199,1]],
+    "msg": [[65,1],[85,1],[109,1],[159,3],[173,5],[175,2],[178,3],[179,5],[185,5],[193,1],[194,2],[200,1],[224,2],[227,2],[230,2],[232,1],[241,2],[247,1],[259,3],[260,2],[261,2],[262,1],[263,2]],
+    "much": [[4,1],[224,1]],
+    "muldiv": [[31,2],[32,1],[35,1],[36,1],[153,1],[154,1],[156,1],[158,1],[159,2],[161,1],[192,1],[201,1],[206,1],[207,1],[208,2],[210,1],[212,1],[214,1],[216,2],[217,1],[225,1],[229,1],[265,1]],
+    "muldivup": [[32,1],[158,1]],
+    "mulpip": [[31,1]],
+    "multi": [[47,3],[188,1],[189,2],[190,5],[191,1],[192,1],[193,1],[194,1],[195,1],[196,1],[197,1],[198,1],[199,1],[200,1],[201,1],[202,1],[203,1],[244,1],[245,1],[267,1],[268,1]],
+    "multiple": [[47,1],[68,1],[132,1],[150,1],[188,2],[197,1],[204,1],[267,3]],
+    "multiplication": [[18,1],[25,1],[31,3],[153,1]],
+    "multiplier": [[2,1],[43,1]],
+    "multiply": [[31,1],[153,1],[166,1]],
+    "must": [[53,1],[80,1],[81,1],[84,1],[134,1],[251,3],[252,3]],
+    "mutation": [[123,3]],
+    "mutator": [[4,1]],
+    "n": [[190,1]],
+    "name": [[124,1],[151,1]],
+    "narrower": [[192,1]],
+    "natural": [[70,1]],
+    "near": [[55,3]],
+    "need": [[69,1],[73,1],[166,1]],
+    "needed": [[32,1],[89,1],[157,1],[209,1],[269,1]],
+    "negative": [[162,1]],
+    "neutral": [[0,1],[10,4],[16,1]],
+    "neutrality": [[7,1],[8,1],[18,1],[19,2],[134,1],[135,1],[136,4],[137,1],[138,1],[139,1],[140,1],[141,1],[142,1],[143,1],[144,1],[145,1],[146,1],[147,1],[148,1],[149,2],[167,2],[207,1],[213,1],[219,2],[261,1],[262,1]],
+    "never": [[17,1],[165,1],[213,1]],
+    "new": [[54,2],[119,1],[125,3],[126,1],[129,1],[182,1],[194,1],[200,1],[206,1],[239,1]],
+    "newbalance": [[119,2]],
+    "newdebtl": [[261,4]],
+    "newmockevent": [[125,2]],
+    "newposition": [[123,2]],
+    "newprice": [[218,1]],
+    "newsqrtk": [[200,4]],
+    "newsqrtkfloor": [[54,1]],
+    "newtotalsqrtk": [[194,3]],
+    "next": [[75,1],[233,1]],
+    "nextvaultid": [[259,1]],
+    "nft": [[1,1],[2,1],[42,2],[47,4],[48,2],[52,1],[53,1],[84,1],[170,2],[175,5],[185,1],[188,1],[189,1],[190,1],[191,1],[192,1],[193,1],[194,1],[195,1],[196,1],[197,1],[198,1],[199,1],[200,1],[201,1],[202,1],[203,1],[257,1],[259,1],[260,1],[269,1]],
+    "nftposition": [[42,1]],
+    "no": [[16,1],[18,1],[45,2],[58,1],[65,1],[69,3],[71,3],[72,3],[115,3],[116,3],[164,1],[177,1],[179,1],[209,1],[232,1],[239,1],[241,1],[243,1],[246,1],[252,1],[254,1],[269,1]],
+    "nodebt": [[269,1]],
+    "non": [[16,1],[124,1]],
+    "none": [[238,1],[239,2]],
+    "nonexistent": [[124,1]],
+    "nonreentrant": [[184,1],[186,1]],
+    "nonreentranttransient": [[67,1],[176,1]],
+    "noreentrantstatecorruption": [[183,1]],
+    "normal": [[81,1],[145,1]],
+    "normalize": [[154,1]],
+    "not": [[5,1],[10,1],[25,3],[57,1],[85,1],[89,3],[109,1],[117,1],[120,1],[121,1],[129,1],[134,1],[139,2],[140,1],[155,1],[162,1],[184,2],[185,1],[194,1],[200,1],[207,1],[247,1],[260,1],[261,1],[263,1]],
+    "note": [[83,1],[84,1]],
+    "notvaultowner": [[269,1]],
+    "novaluecreation": [[165,1]],
+    "novalueleak": [[164,1]],
+    "now": [[85,1],[155,1]],
+    "null": [[115,4],[119,5],[121,4],[129,4]],
+    "nullable": [[115,1]],
+    "num": [[116,5]],
+    "number": [[31,1],[117,5],[232,2],[241,1],[248,1]],
+    "occur": [[0,1],[266,1]],
+    "off": [[4,1]],
+    "oldprice": [[218,1]],
+    "one": [[55,1],[186,1],[206,1],[251,1]],
+    "onerc721received": [[170,2],[175,1],[185,1]],
+    "onliquiditymodified": [[108,1]],
+    "only": [[4,1],[16,1],[17,1],[60,1],[87,2],[110,1],[118,1],[134,1],[137,1],[138,1],[141,2],[142,1],[143,1],[144,1],[146,1],[148,1],[177,1],[179,1],[180,2],[186,1],[239,2],[246,3],[247,3],[251,1]],
+    "onlyduringsession": [[65,1],[177,1],[246,2]],
+    "onlyoutsidesession": [[177,2]],
+    "onlypoolmanager": [[109,2],[180,1],[181,1]],
+    "onlysessionowner": [[247,1]],
+    "opcode": [[61,1]],
+    "operand": [[38,1]],
+    "operate": [[168,1]],
+    "operation": [[14,1],[15,1],[18,1],[19,2],[29,1],[30,1],[31,1],[48,1],[49,1],[52,1],[53,1],[54,1],[61,4],[64,1],[68,2],[80,1],[81,2],[82,1],[83,4],[84,4],[91,4],[92,1],[96,1],[97,3],[102,1],[110,1],[133,2],[134,1],[144,1],[145,1],[146,1],[148,4],[153,3],[157,1],[166,1],[169,1],[171,1],[180,1],[193,1],[194,1],[203,2],[211,1],[220,1],[221,1],[222,1],[223,1],[224,1],[225,1],[228,1],[234,3],[236,2],[237,1],[239,1],[240,1],[244,3],[254,1],[256,3],[257,1],[258,2],[259,2],[260,2],[261,2],[262,2],[263,2],[264,1],[265,1],[266,2],[267,1],[268,1],[269,1],[270,1],[271,2]],
+    "operator": [[118,1]],
+    "opportunity": [[199,1],[233,1]],
+    "ops": [[64,1],[84,1],[239,1]],
+    "optimal": [[216,6]],
+    "oracle": [[0,1],[40,1],[45,2],[58,5],[110,1],[161,3]],
+    "order": [[153,3],[166,1]],
+    "orphaned": [[69,1]],
+    "other": [[77,1],[245,1]],
+    "out": [[84,1],[165,2],[196,3],[199,1]],
+    "outside": [[16,1],[177,1]],
+    "outstanding": [[207,1]],
+    "over": [[144,1],[225,1]],
+    "overflow": [[20,1],[25,1],[31,1],[34,1],[153,1],[156,2],[166,1]],
+    "overkill": [[25,1]],
+    "override": [[100,1],[101,2],[102,1],[180,1],[181,1]],
+    "overstatement": [[16,1]],
+    "overview": [[0,3],[20,3],[40,3],[60,3],[79,3],[96,3],[114,3],[150,3],[168,3],[188,3],[204,3],[220,3],[237,3],[257,3]],
+    "owner": [[63,1],[64,1],[65,2],[74,3],[85,2],[121,2],[140,1],[194,1],[200,1],[227,1],[241,1],[242,1],[247,5],[249,1],[251,2],[253,3],[254,1],[255,1],[259,1],[260,1],[261,1],[263,1],[269,1],[270,1]],
+    "ownerof": [[194,1],[200,1],[227,1],[260,1],[261,1],[263,1]],
+    "ownership": [[1,1]],
+    "pad": [[118,1]],
+    "padding": [[118,1]],
+    "padstart": [[118,1],[130,1]],
+    "param": [[101,4],[102,4],[103,1],[107,2],[108,1],[112,1],[118,3],[120,3],[121,4],[124,2],[180,2],[205,2]],
+    "parameter": [[26,1],[27,3],[124,5],[125,3]],
+    "part": [[20,2],[21,1],[22,1],[23,1],[24,1],[25,1],[26,1],[27,1],[28,4],[29,1],[30,1],[31,1],[32,1],[33,1],[34,1],[35,1],[36,1],[37,1],[38,1],[39,1]],
+    "partial": [[250,3]],
+    "path": [[146,1]],
+    "pattern": [[19,1],[35,1],[36,1],[37,1],[39,1],[59,2],[65,1],[66,1],[67,1],[78,2],[79,1],[81,1],[90,1],[91,1],[95,2],[103,1],[104,1],[113,2],[125,1],[126,1],[127,1],[129,3],[133,2],[147,3],[149,1],[160,1],[161,1],[162,1],[168,1],[173,1],[174,1],[175,1],[176,1],[177,1],[178,1],[179,4],[187,1]],
+    "payable": [[182,1]],
+    "payment": [[230,1]],
+    "peel": [[27,2],[48,2],[220,2],[221,5],[222,1],[223,5],[224,7],[225,8],[226,1],[227,1],[228,2],[229,1],[230,1],[231,1],[232,1],[233,2],[234,2],[235,1],[236,1]],
+    "peelable": [[223,1]],
+    "peelamountl": [[224,2]],
+    "peeled": [[224,1],[235,1]],
+    "peelormicroliquidate": [[50,1]],
+    "penalty": [[197,1],[208,1]],
+    "pending": [[64,1],[180,1],[252,1]],
+    "pendingwithdrawal": [[179,4]],
+    "per": [[1,1],[3,1],[16,1],[17,1],[19,1],[20,2],[21,1],[22,1],[23,1],[24,1],[25,1],[26,1],[27,1],[28,4],[29,1],[30,1],[31,1],[32,1],[33,1],[34,1],[35,1],[36,1],[37,1],[38,1],[39,1],[40,1],[42,3],[43,1],[48,2],[68,2],[76,1],[77,1],[207,1],[225,1],[251,1]],
+    "percent": [[23,1],[30,2]],
+    "percentage": [[18,1],[19,1],[20,1],[22,1],[23,4],[25,1],[30,2],[34,1],[151,1]],
+    "perform": [[112,1],[142,2]],
+    "permission": [[99,1],[240,1]],
+    "persist": [[60,1],[70,1],[93,1],[123,2]],
+    "persistence": [[71,3],[75,1]],
+    "persistent": [[89,1],[251,1],[252,1]],
+    "phase": [[78,2],[79,2],[80,5],[81,6],[82,5],[83,5],[84,6],[85,12],[86,9],[87,4],[88,1],[89,1],[90,3],[91,4],[92,5],[93,3],[94,4],[95,1],[113,2],[187,2],[237,2],[240,3],[256,2],[266,3]],
+    "pip": [[18,1],[19,2],[20,2],[21,3],[22,3],[23,2],[24,10],[25,3],[26,1],[27,1],[28,1],[29,6],[30,10],[31,7],[32,6],[33,1],[34,5],[35,2],[36,3],[37,3],[38,2],[39,1],[141,2],[150,2],[151,2],[152,3],[153,1],[154,3],[155,4],[156,1],[157,1],[158,1],[159,1],[160,2],[161,1],[162,1],[163,1],[164,2],[165,1],[166,2],[167,4],[192,2],[201,2],[206,2],[207,1],[208,4],[210,2],[214,1],[216,1],[217,1],[219,2],[223,2],[225,1],[226,1],[229,2],[265,2]],
+    "plus": [[118,1]],
+    "pm": [[79,1],[80,4],[81,4],[82,1],[83,1],[84,1],[85,1],[86,1],[87,1],[88,1],[89,1],[90,1],[91,1],[92,1],[93,1],[94,1],[95,1],[109,1],[110,1],[113,1],[169,1],[171,1],[181,1],[184,1],[237,2],[252,1],[256,1]],
+    "point": [[26,1],[48,3]],
+    "pollution": [[69,1]],
+    "pool": [[4,1],[7,1],[8,1],[9,1],[10,1],[80,1],[81,1],[83,1],[84,1],[91,1],[96,1],[97,1],[100,4],[196,1],[197,6],[198,4],[202,4]],
+    "poolcount": [[197,2]],
+    "poolid": [[218,1]],
+    "poolkey": [[100,1],[101,2],[102,1],[105,1],[106,1],[180,1],[197,2],[205,1],[217,1]],
+    "poolmanager": [[79,2],[80,1],[81,1],[82,1],[83,2],[85,1],[90,1],[97,2],[103,1],[109,2],[112,1],[169,3],[240,1],[242,1],[244,1],[266,1]],
+    "poolpolicymanager": [[28,1]],
+    "portion": [[221,1]],
+    "pos": [[191,3],[192,3],[195,2],[196,6],[202,5]],
+    "position": [[10,1],[13,1],[41,1],[42,1],[45,1],[47,4],[48,1],[49,1],[50,1],[52,1],[53,1],[55,4],[56,1],[101,1],[123,6],[131,3],[170,1],[188,2],[189,6],[190,6],[191,2],[192,2],[193,3],[194,3],[195,4],[196,8],[197,4],[198,1],[199,1],[202,5],[208,1],[230,1],[257,2],[260,2],[267,4],[268,5]],
+    "positionid": [[191,3],[193,5],[194,5],[195,2],[197,3],[198,2],[202,3],[260,4],[263,4],[267,3],[268,5],[270,2]],
+    "positionl": [[260,3],[263,3]],
+    "positionmanager": [[193,1],[194,1],[195,1],[202,1],[260,1],[263,1]],
+    "positive": [[162,1]],
+    "ppm": [[28,7]],
+    "practice": [[131,1],[132,1]],
+    "prank": [[142,2]],
+    "precision": [[2,1],[18,1],[19,1],[20,2],[23,4],[25,1],[32,1],[33,5],[34,1],[38,1],[39,3],[122,5],[149,2],[150,3],[151,4],[152,1],[153,2],[154,4],[155,2],[156,1],[157,1],[158,1],[159,1],[160,3],[161,5],[162,1],[163,2],[164,2],[165,2],[166,1],[167,3],[219,1]],
+    "predictable": [[136,1]],
+    "prefix": [[118,1]],
+    "premium": [[230,1]],
+    "preparation": [[240,1]],
+    "prepare": [[81,1],[84,1],[240,1]],
+    "prevent": [[157,1],[225,1]],
+    "previous": [[72,1]],
+    "price": [[0,1],[3,5],[9,1],[10,4],[16,1],[40,2],[41,1],[44,5],[45,4],[55,4],[56,1],[58,1],[110,1],[136,1],[145,2],[151,1],[156,3],[161,3],[199,1],[204,1],[209,2],[212,4],[213,4],[214,1],[231,3]],
+    "primitive": [[237,1]],
+    "principal": [[2,1],[8,1],[16,1],[43,1],[139,4],[207,1]],
+    "principalwad": [[154,4]],
+    "problem": [[9,3],[23,3],[44,3],[155,1]],
+    "proceed": [[140,7],[227,5],[235,1]],
+    "process": [[33,1],[59,1],[91,1],[155,1],[271,1]],
+    "processborrowswap": [[104,1]],
+    "processing": [[107,1],[128,1]],
+    "processqueue": [[91,1]],
+    "processstandardswap": [[107,1]],
+    "processwithexternalcall": [[90,1]],
+    "product": [[118,1]],
+    "profit": [[45,1]],
+    "profitability": [[234,3]],
+    "progress": [[64,1],[239,1]],
+    "projectannualfee": [[214,1]],
+    "promise": [[234,1]],
+    "property": [[1,1],[2,1],[3,1]],
+    "proportional": [[16,1]],
+    "proportionally": [[5,1],[45,1]],
+    "prot": [[17,1]],
+    "protect": [[136,3],[184,1]],
+    "protection": [[67,3],[70,1],[78,1],[176,1],[177,1],[178,1],[179,1],[231,1],[232,3],[241,1]],
+    "protocol": [[16,1],[17,1],[18,1],[27,5],[32,1],[44,1],[106,1],[136,1],[145,1],[150,1],[157,5],[159,2],[165,1],[166,1],[172,1],[193,1],[204,2],[205,1],[206,1],[207,1],[208,4],[209,1],[210,8],[211,1],[212,1],[213,1],[214,1],[215,1],[216,1],[217,1],[218,1],[219,1],[220,1],[228,2]],
+    "protocolfee": [[208,3]],
+    "protocolfeewithdrawn": [[218,1]],
+    "protocolshare": [[210,3]],
+    "provide": [[0,1],[20,1],[60,1]],
+    "providing": [[41,1]],
+    "public": [[4,1],[111,1],[112,1],[142,2],[143,1],[144,1],[163,1],[164,1],[165,1],[179,1],[182,1],[183,1],[191,1],[212,1],[214,2],[223,1],[226,1],[232,1],[265,1]],
+    "pull": [[5,1],[16,1],[179,4]],
+    "pure": [[29,1],[30,2],[31,2],[35,1],[36,1],[37,1],[192,1],[225,1],[229,1]],
+    "purpose": [[64,1]],
+    "push": [[123,2],[125,2],[175,2],[193,1]],
+    "pushing": [[179,1]],
+    "queue": [[91,1]],
+    "queued": [[64,1],[91,1]],
+    "queuepostsessionaction": [[91,1]],
+    "quirk": [[114,1],[115,1],[116,1],[117,1],[118,1],[119,1],[120,1],[121,1],[122,1],[123,1],[124,1],[125,1],[126,1],[127,1],[128,1],[129,1],[130,1],[131,1],[132,1],[133,1]],
+    "quote": [[5,1]],
+    "quotient": [[118,1]],
+    "r": [[7,3],[8,3],[16,1]],
+    "r0": [[4,1]],
+    "r1": [[4,1]],
+    "rake": [[16,1]],
+    "range": [[0,1],[1,1],[2,1],[5,1],[45,1],[192,5],[196,4],[199,1]],
+    "rate": [[17,1],[29,4],[141,2],[151,1],[160,1],[161,1],[164,4],[216,5],[217,1],[219,1]],
+    "ratepip": [[29,2],[154,4]],
+    "ratio": [[20,1],[34,1],[37,3],[122,2],[151,1],[221,2],[222,1],[223,5],[225,2],[226,2],[261,1],[263,1],[264,3],[265,4]],
+    "rationale": [[157,1]],
+    "raw": [[9,1]],
+    "ray": [[150,1],[151,1]],
+    "re": [[88,1],[92,1],[169,1],[171,1],[172,1]],
+    "read": [[61,1],[62,1],[72,1],[74,1],[77,1],[84,1],[87,1],[110,1],[180,1]],
+    "reading": [[75,1]],
+    "real": [[7,3],[8,1]],
+    "reason": [[16,1],[249,2],[255,1],[269,3]],
+    "reassign": [[123,1]],
+    "rebalance": [[199,3]],
+    "rebalancecollateral": [[200,1]],
+    "rebalancing": [[199,1],[200,4]],
+    "rebate": [[228,1]],
+    "receive": [[182,1]],
+    "record": [[8,1],[241,1]],
+    "recordbaddebt": [[227,1]],
+    "recorded": [[222,1]],
+    "reduce": [[269,1]],
+    "reduced": [[221,1]],
+    "reentrancy": [[63,1],[67,6],[70,3],[78,2],[83,1],[92,7],[94,1],[95,2],[110,4],[168,2],[169,2],[170,2],[171,2],[172,2],[173,1],[174,5],[175,1],[176,7],[177,1],[178,1],[179,1],[180,1],[181,2],[182,5],[183,2],[184,1],[185,1],[186,4],[187,1],[241,1],[254,1]],
+    "reentrancyattacker": [[182,3]],
+    "reentrancyguard": [[176,1],[182,1]],
+    "reentrancyprotection": [[182,1]],
+    "reentrant": [[67,1],[92,1],[174,1],[176,1],[182,1],[184,1]],
+    "reentry": [[182,1]],
+    "reference": [[0,1],[40,1],[148,3]],
+    "refund": [[16,1]],
+    "regular": [[61,1],[107,1],[118,1]],
+    "related": [[19,3],[39,3],[59,3],[78,3],[95,3],[113,3],[133,3],[149,3],[167,3],[187,3],[203,3],[219,3],[236,3],[256,3],[271,3]],
+    "relationship": [[13,3]],
+    "relying": [[40,1]],
+    "remain": [[134,1]],
+    "remainder": [[140,1],[227,2]],
+    "remaining": [[227,1],[263,1]],
+    "remainingl": [[263,3]],
+    "remove": [[53,1],[194,1],[221,1]],
+    "removecollateralposition": [[194,1]],
+    "removefromlist": [[194,1]],
+    "removeid": [[200,4]],
+    "removing": [[102,1],[194,3]],
+    "repaid": [[8,1],[222,1],[228,1],[262,1],[270,1]],
+    "repay": [[0,1],[8,3],[10,1],[16,3],[18,1],[134,2],[135,2],[138,5],[142,3],[143,1],[146,1],[148,1],[213,1],[227,1],[245,1],[258,1],[262,4],[264,2],[269,2]],
+    "repayamount": [[143,4]],
+    "repayamountl": [[262,3]],
+    "repayer": [[262,1]],
+    "repayl": [[148,1]],
+    "repayment": [[227,1],[262,1]],
+    "repeat": [[258,1]],
+    "represent": [[1,1],[3,1],[23,1]],
+    "representing": [[20,1],[257,1]],
+    "request": [[5,1]],
+    "require": [[45,1],[57,1],[65,2],[67,1],[85,1],[92,1],[109,1],[173,1],[174,1],[176,1],[177,2],[178,2],[181,1],[184,1],[194,2],[200,2],[224,1],[227,1],[230,1],[231,1],[232,2],[241,1],[243,1],[246,1],[247,1],[248,1],[260,1],[261,3],[263,2]],
+    "required": [[5,1],[14,3],[46,1],[73,3],[269,1]],
+    "requirement": [[40,1],[41,1],[42,1],[43,1],[44,1],[45,1],[46,1],[47,2],[48,1],[49,1],[50,1],[51,1],[52,1],[53,1],[54,1],[55,1],[56,1],[57,2],[58,1],[59,1],[102,1],[157,1],[189,1],[190,1],[236,1],[271,1]],
+    "research": [[0,1],[16,1],[19,1],[40,1]],
+    "reserve": [[228,2]],
+    "reset": [[70,1]],
+    "residual": [[4,2]],
+    "residue": [[215,7]],
+    "resistance": [[57,3]],
+    "resistant": [[58,1]],
+    "resolution": [[269,1]],
+    "result": [[52,1],[154,1],[166,1],[240,1]],
+    "resume": [[86,1]],
+    "return": [[29,2],[30,4],[31,4],[35,2],[36,2],[37,2],[44,1],[66,2],[71,1],[73,1],[74,1],[82,2],[86,1],[89,1],[97,1],[100,2],[101,4],[102,2],[105,2],[106,3],[118,1],[119,3],[121,1],[125,1],[127,1],[129,1],[130,2],[132,1],[136,1],[152,4],[153,6],[154,4],[156,4],[159,2],[180,2],[181,1],[185,1],[191,1],[192,2],[195,2],[196,1],[197,1],[198,1],[201,1],[202,1],[205,2],[206,2],[207,1],[208,1],[212,3],[214,4],[216,3],[217,2],[221,1],[223,2],[225,2],[226,2],[229,2],[234,1],[240,2],[253,1],[259,1],[265,3],[268,1]],
+    "returned": [[159,1]],
+    "returning": [[80,1]],
+    "reveal": [[232,1]],
+    "revealliquidation": [[232,1]],
+    "revenue": [[204,2],[205,1],[206,1],[207,1],[208,1],[209,1],[210,1],[211,1],[212,1],[213,1],[214,1],[215,1],[216,1],[217,1],[218,1],[219,1]],
+    "revert": [[71,1],[249,2],[254,3],[269,3]],
+    "reward": [[27,2],[48,1],[208,2],[211,1],[220,1],[224,3],[227,3],[228,4],[229,4],[234,2],[245,1]],
+    "rewarded": [[222,1]],
+    "rewardkeeper": [[211,1]],
+    "rewardl": [[211,2]],
+    "risk": [[25,1],[34,1],[44,3],[47,1],[76,1],[78,2],[83,1],[95,2],[156,1],[166,1],[168,1],[169,1],[170,1],[171,1],[172,1],[173,1],[174,1],[175,1],[176,1],[177,1],[178,1],[179,1],[180,1],[181,1],[182,1],[183,1],[184,1],[185,1],[186,1],[187,1],[190,1],[191,1],[192,5],[197,2],[198,1],[199,1]],
+    "risky": [[92,1],[110,1],[180,1]],
+    "round": [[32,2],[155,1],[157,2],[158,2],[159,2],[162,3]],
+    "rounded": [[16,1]],
+    "rounding": [[18,1],[32,4],[149,1],[150,2],[151,1],[152,1],[153,1],[154,1],[155,1],[156,1],[157,5],[158,2],[159,2],[160,4],[161,1],[162,2],[163,1],[164,2],[165,2],[166,2],[167,2]],
+    "router": [[82,1],[97,1],[103,1],[169,1]],
+    "rule": [[107,1],[157,1],[158,1],[159,1]],
+    "run": [[233,1]],
+    "running": [[64,2]],
+    "runtime": [[124,1]],
+    "s": [[1,1],[5,1],[13,1],[41,1],[47,1],[72,1],[77,1],[79,1],[106,2],[114,1],[139,1],[157,1],[168,1],[193,1],[210,1],[215,1]],
+    "safe": [[31,3],[47,1],[49,1],[77,1],[79,1],[84,1],[90,3],[109,1],[110,1],[148,3],[168,1],[173,1],[174,1],[175,1],[177,1],[180,5],[188,2],[189,1],[190,4],[191,2],[192,2],[193,1],[194,2],[195,1],[196,1],[197,1],[198,1],[199,1],[200,2],[201,1],[202,1],[203,1],[246,1]],
+    "safeloadvault": [[129,1]],
+    "safemulpip": [[31,1]],
+    "safer": [[181,1]],
+    "safetransferfrom": [[175,2],[193,1],[194,1]],
+    "safety": [[70,3],[77,3],[129,3],[153,1],[168,1],[169,1],[170,1],[171,1],[172,1],[173,1],[174,1],[175,1],[176,1],[177,1],[178,1],[179,1],[180,1],[181,4],[182,1],[183,1],[184,1],[185,1],[186,1],[187,1],[188,1]],
+    "same": [[10,2],[62,1],[118,1],[176,1],[197,4],[248,3]],
+    "sameblock": [[248,1]],
+    "saturate": [[1,1]],
+    "save": [[68,1],[119,1],[121,2],[123,2],[126,1]],
+    "scale": [[24,3],[28,3],[33,2],[38,1],[155,1]],
+    "scaling": [[156,1]],
+    "scan": [[233,3]],
+    "schema": [[131,2],[132,1]],
+    "scoped": [[60,1]],
+    "second": [[207,1]],
+    "secret": [[232,2]],
+    "security": [[57,2],[58,1],[76,1],[77,1],[92,1],[93,1],[95,1],[109,1],[110,1],[168,1]],
+    "seem": [[9,2]],
+    "selector": [[100,1],[101,2],[102,1],[180,1],[205,1]],
+    "sell": [[224,1],[227,1]],
+    "sellallcollateral": [[227,1]],
+    "sellcollateral": [[140,2]],
+    "selling": [[221,1]],
+    "sender": [[65,1],[85,1],[100,1],[101,2],[102,1],[105,1],[109,1],[159,3],[173,5],[175,3],[178,3],[179,5],[180,1],[185,5],[193,1],[194,2],[200,1],[224,2],[227,2],[230,2],[232,1],[241,2],[247,1],[259,3],[260,2],[261,2],[262,1],[263,2]],
+    "sensitive": [[56,1]],
+    "separately": [[146,1]],
+    "separation": [[16,1]],
+    "sequence": [[183,1]],
+    "sequential": [[76,1]],
+    "session": [[60,1],[63,5],[64,4],[65,11],[68,2],[69,1],[74,2],[76,2],[78,3],[83,1],[85,4],[86,4],[87,2],[88,1],[95,3],[107,10],[113,3],[174,4],[177,9],[187,3],[237,3],[238,4],[239,4],[240,3],[241,12],[242,9],[243,3],[244,2],[245,2],[246,8],[247,7],[248,2],[249,8],[250,1],[251,8],[252,6],[253,8],[254,5],[255,1],[256,3],[266,5],[271,3]],
+    "sessiondata": [[87,1]],
+    "sessionended": [[242,1],[255,1]],
+    "sessionfailed": [[255,1]],
+    "sessionid": [[103,1]],
+    "sessionstartblock": [[241,1],[248,1]],
+    "sessionstarted": [[241,1],[255,1]],
+    "settle": [[242,1]],
+    "settlebalance": [[86,1]],
+    "settled": [[252,1]],
+    "settledelta": [[242,1]],
+    "settlement": [[239,1],[251,1],[254,1]],
+    "settling": [[238,1],[239,1]],
+    "setup": [[84,1],[85,1],[98,1],[111,4],[126,1],[239,1]],
+    "share": [[2,1],[3,6],[5,1],[6,1],[10,1],[15,1],[16,1],[77,1],[106,1],[136,1],[145,2],[153,6],[157,4],[159,7],[186,1],[204,1],[209,2],[210,4],[212,4],[213,4],[214,1]],
+    "shareprice": [[3,1],[209,2],[212,1]],
+    "sharepriceupdated": [[218,1]],
+    "should": [[139,1],[141,1],[143,1],[144,1],[163,1],[165,1],[183,1]],
+    "shouldn": [[140,1],[141,1]],
+    "signature": [[124,1]],
+    "signed": [[117,2],[162,1]],
+    "significant": [[215,1]],
+    "significantly": [[56,1]],
+    "simple": [[2,1],[17,1],[23,1]],
+    "simplified": [[63,1]],
+    "single": [[189,4],[190,1],[251,1]],
+    "skip": [[250,1]],
+    "sl": [[204,1],[209,3]],
+    "slate": [[70,1]],
+    "sleep": [[233,1]],
+    "slippage": [[230,1]],
+    "sload": [[61,1]],
+    "slot": [[61,2],[63,8],[64,1],[65,6],[66,6],[67,3],[69,1],[73,4],[74,2],[75,2],[76,10],[87,2],[174,3],[176,3],[177,3],[180,1],[241,6],[242,8],[243,5],[246,1],[247,1],[249,5],[252,1],[253,5]],
+    "slot0": [[196,1],[202,1]],
+    "slota": [[76,1]],
+    "slotb": [[76,1]],
+    "small": [[33,1],[38,1],[155,1],[166,1],[215,1],[221,1]],
+    "smallest": [[163,1]],
+    "socialize": [[140,1],[227,1]],
+    "soft": [[221,3]],
+    "sol": [[27,1],[28,1],[111,1]],
+    "sold": [[221,1],[222,1]],
+    "solidity": [[11,1],[12,1],[14,1],[15,1],[17,1],[27,1],[28,1],[29,1],[30,1],[31,1],[32,1],[33,1],[35,1],[36,1],[37,1],[42,1],[46,1],[47,1],[63,1],[65,1],[66,1],[67,1],[73,2],[74,1],[76,1],[85,1],[86,1],[87,1],[90,1],[91,1],[92,1],[99,1],[100,1],[101,1],[102,1],[103,1],[104,1],[105,1],[106,1],[107,1],[108,1],[109,1],[110,1],[111,1],[112,1],[137,2],[138,2],[139,2],[140,2],[141,2],[142,1],[143,1],[144,1],[147,1],[152,2],[153,3],[154,2],[155,2],[156,2],[158,1],[159,1],[160,1],[161,2],[162,1],[163,1],[164,1],[165,1],[173,2],[174,2],[175,2],[176,1],[177,1],[178,1],[179,1],[180,1],[181,1],[182,1],[183,1],[184,1],[185,1],[186,1],[191,1],[192,1],[193,1],[194,1],[195,1],[196,1],[197,1],[198,1],[200,1],[201,1],[202,1],[205,1],[206,1],[207,1],[208,1],[209,1],[210,1],[211,1],[212,1],[214,1],[215,1],[216,1],[217,1],[218,1],[223,1],[224,1],[225,1],[226,1],[227,1],[229,1],[230,1],[231,1],[232,1],[235,1],[241,1],[242,1],[243,1],[244,1],[245,1],[246,1],[247,1],[248,1],[249,1],[250,1],[253,1],[255,1],[259,1],[260,1],[261,1],[262,1],[263,1],[265,1],[266,1],[267,1],[268,1],[270,1]],
+    "solution": [[10,3],[24,3],[33,1],[45,3],[155,4]],
+    "solvency": [[16,1],[40,1],[136,1]],
+    "source": [[133,1],[205,1],[206,1],[207,1],[208,1],[228,1]],
+    "specific": [[96,1],[104,1],[180,1],[181,1]],
+    "spike": [[145,1]],
+    "split": [[210,1]],
+    "spot": [[57,1]],
+    "sqrt": [[8,1],[19,2],[40,2],[41,2],[42,1],[43,1],[44,2],[45,5],[46,2],[47,3],[48,1],[49,1],[50,1],[51,1],[52,2],[53,2],[54,2],[55,2],[56,2],[57,2],[58,1],[59,1],[151,1],[156,3],[189,1],[190,2],[191,1],[195,6],[203,2],[236,2],[271,2]],
+    "sqrtk": [[47,1],[191,2],[192,2],[193,3],[194,3],[202,2]],
+    "sqrtkfloor": [[46,2],[53,1],[54,1]],
+    "sqrtpricex96": [[11,1],[12,1],[100,1],[156,6]],
+    "sstore": [[61,1],[184,1]],
+    "stability": [[136,1]],
+    "standard": [[20,1],[107,1],[167,1]],
+    "start": [[62,1],[85,3],[177,1],[239,1],[241,4],[254,2],[266,1]],
+    "startauction": [[230,1]],
+    "started": [[64,1]],
+    "starting": [[238,1],[239,1]],
+    "startprice": [[230,2],[235,1]],
+    "startsession": [[65,1],[85,1],[174,2],[177,1],[240,1],[241,1],[244,1],[266,1]],
+    "starttime": [[230,2]],
+    "state": [[18,1],[49,1],[50,1],[51,1],[58,1],[60,1],[68,2],[69,1],[70,1],[75,1],[77,1],[82,1],[83,1],[84,1],[89,1],[93,5],[100,1],[101,1],[110,1],[126,3],[128,2],[173,6],[175,3],[179,1],[181,2],[186,1],[194,1],[200,1],[221,1],[224,1],[237,1],[238,3],[239,5],[241,1],[251,2],[252,1],[256,1],[259,1],[264,5],[265,1]],
+    "statement": [[16,1]],
+    "static": [[40,2]],
+    "steep": [[216,1]],
+    "step": [[146,3]],
+    "still": [[86,1],[181,1],[194,1],[200,1]],
+    "storage": [[60,3],[61,2],[62,1],[63,2],[64,2],[65,1],[66,1],[67,1],[68,1],[69,2],[70,1],[71,1],[72,1],[73,1],[74,3],[75,2],[76,1],[77,2],[78,2],[80,1],[83,1],[87,4],[88,1],[89,1],[93,1],[94,1],[95,2],[107,1],[176,1],[180,1],[184,4],[187,2],[224,1],[227,1],[242,1],[249,1],[252,1],[256,3],[261,1],[262,1],[263,1]],
+    "store": [[72,1],[88,3],[89,3]],
+    "stored": [[1,1],[64,3]],
+    "str": [[116,3]],
+    "strategy": [[150,1]],
+    "string": [[115,2],[120,5],[129,1],[130,2],[132,1],[249,1],[255,1]],
+    "struct": [[46,1],[230,1],[245,1]],
+    "structure": [[228,3],[233,3]],
+    "stuck": [[254,1]],
+    "sub": [[23,1]],
+    "subgraph": [[114,1],[133,1]],
+    "subtle": [[114,1]],
+    "subtracting": [[138,3]],
+    "success": [[249,1]],
+    "sufficient": [[20,1],[25,1],[40,1]],
+    "sum": [[47,2],[118,2],[183,4],[190,1],[268,1]],
+    "sumborrow": [[165,1]],
+    "sumdeposit": [[165,1]],
+    "summed": [[188,1],[190,1]],
+    "sumrepay": [[165,1]],
+    "sumwithdrawal": [[165,1]],
+    "supply": [[2,1]],
+    "survive": [[71,1]],
+    "swap": [[4,1],[16,1],[17,1],[44,1],[80,1],[82,1],[83,1],[84,1],[98,1],[101,4],[103,1],[107,1],[111,2],[112,2],[148,1],[205,5],[217,4],[224,1]],
+    "swapcollateralfordebt": [[224,1]],
+    "swapfee": [[214,1]],
+    "swapfeecollected": [[218,1]],
+    "swapparam": [[101,2],[180,1],[205,1]],
+    "symptom": [[145,3],[254,1]],
+    "sync": [[4,3]],
+    "system": [[96,1]],
+    "t": [[0,1],[2,1],[3,3],[4,1],[5,2],[6,2],[10,1],[16,1],[17,1],[23,1],[70,1],[71,1],[74,1],[75,1],[77,2],[93,1],[115,1],[121,1],[123,2],[136,2],[140,1],[141,1],[181,1],[185,1],[215,1],[251,1]],
+    "taken": [[106,1]],
+    "target": [[5,1],[16,1],[223,2]],
+    "temporarily": [[44,1]],
+    "temporary": [[60,1],[88,1]],
+    "term": [[221,1]],
+    "test": [[38,1],[74,4],[94,1],[112,1],[126,2],[142,5],[143,3],[144,3],[163,2],[182,4],[183,3]],
+    "testfuzz": [[143,1],[164,1]],
+    "testing": [[111,1],[112,4],[125,1],[126,4],[127,1],[163,4],[164,4],[165,4],[182,1],[183,1]],
+    "than": [[176,1]],
+    "their": [[136,1]],
+    "then": [[31,1],[153,1],[175,1]],
+    "there": [[75,1]],
+    "they": [[0,1],[71,1],[220,1]],
+    "thin": [[164,1]],
+    "threshold": [[27,2],[48,1],[192,2],[201,1],[223,2],[226,1]],
+    "through": [[57,1],[81,1],[96,1],[204,1],[220,1]],
+    "throughout": [[0,1],[20,1]],
+    "throw": [[129,1]],
+    "tick": [[1,2],[17,1],[192,1],[196,1],[202,1]],
+    "ticklower": [[11,1],[12,1],[15,1],[192,1],[196,1],[202,4]],
+    "tickrange": [[192,3]],
+    "tickspacing": [[13,1]],
+    "tickupper": [[11,1],[12,1],[15,1],[192,1],[196,1],[202,4]],
+    "time": [[118,1],[206,1],[251,1]],
+    "timeelapsed": [[207,3]],
+    "timestamp": [[207,2],[230,1],[259,1]],
+    "tiny": [[163,2]],
+    "tip": [[38,3],[94,3],[128,1],[129,1],[130,1]],
+    "tload": [[61,1],[62,1],[65,2],[66,4],[67,1],[73,2],[74,2],[87,1],[92,1],[174,1],[176,1],[177,2],[241,1],[242,3],[243,3],[246,1],[247,1],[253,5]],
+    "tobigdecimal": [[122,2]],
+    "tohex": [[118,1]],
+    "tohexstring": [[118,2],[130,2]],
+    "token": [[4,2],[5,3],[6,1],[7,1],[8,2],[9,6],[10,1],[11,1],[12,1],[15,3],[29,2],[33,1],[34,1],[41,2],[42,1],[44,1],[45,1],[55,1],[64,2],[83,1],[121,11],[151,1],[173,2],[178,1],[179,2],[211,2],[224,1],[261,1],[262,1]],
+    "token0": [[196,1],[211,1]],
+    "token1": [[196,1],[211,1]],
+    "tokenid": [[121,2],[175,6]],
+    "too": [[232,1]],
+    "top": [[4,1]],
+    "topip": [[30,1]],
+    "tostring": [[116,1],[120,1],[121,2],[126,2],[128,1],[132,2]],
+    "total": [[36,2],[47,1],[54,1],[64,2],[153,6]],
+    "totalasset": [[159,2]],
+    "totaldebt": [[178,1]],
+    "totaldebtl": [[207,1]],
+    "totalfee": [[144,2]],
+    "totalin": [[165,2]],
+    "totall": [[268,2]],
+    "totalout": [[165,2]],
+    "totalowed": [[262,4]],
+    "totalshare": [[15,1],[159,2],[209,2],[212,3]],
+    "totalsqrtk": [[47,1],[191,2],[193,1],[194,2],[200,1],[201,1],[268,2]],
+    "totalsupply": [[183,1]],
+    "totalvalue": [[164,2]],
+    "toward": [[162,2]],
+    "trace": [[94,1]],
+    "track": [[144,1],[146,1]],
+    "tracking": [[98,1],[133,1],[214,3]],
+    "transaction": [[60,1],[62,3],[70,2],[71,2],[72,5],[75,1],[176,2]],
+    "transfer": [[6,1],[83,1],[84,1],[121,2],[159,1],[170,2],[173,2],[175,4],[178,1],[179,1],[193,1],[194,1],[200,1],[210,1],[211,3],[230,2],[260,1],[261,1],[262,1],[263,1]],
+    "transferborrowedtoken": [[261,1]],
+    "transfercollateral": [[230,1]],
+    "transferfrom": [[260,1],[263,1]],
+    "transferpayment": [[230,1]],
+    "transferremainder": [[227,1]],
+    "transferrepaymenttoken": [[262,1]],
+    "transferreward": [[224,1],[227,1]],
+    "transfertoowner": [[140,1]],
+    "transfertotreasury": [[208,1]],
+    "transient": [[60,2],[61,3],[62,2],[63,2],[64,2],[65,1],[66,1],[67,1],[68,2],[69,1],[70,1],[71,1],[72,2],[73,1],[74,3],[75,2],[76,1],[77,4],[78,2],[80,1],[83,1],[87,4],[88,1],[89,1],[92,1],[93,1],[94,1],[95,2],[107,1],[174,2],[176,3],[180,1],[184,1],[187,2],[242,1],[249,1],[251,1],[252,1],[256,2]],
+    "transiently": [[88,3],[89,3]],
+    "transition": [[85,1],[90,1],[93,1],[94,1],[237,1],[264,1],[265,1]],
+    "treasury": [[204,1],[208,1],[210,4]],
+    "trigger": [[55,1],[175,1]],
+    "true": [[99,6],[184,1],[233,1]],
+    "truncate": [[155,1]],
+    "truncating": [[166,1]],
+    "truncation": [[38,1],[155,3]],
+    "trust": [[181,1]],
+    "trusting": [[185,3]],
+    "try": [[249,1],[250,1]],
+    "trying": [[269,1]],
+    "ts": [[128,1]],
+    "tstore": [[61,1],[62,1],[65,4],[66,2],[67,2],[73,2],[87,1],[92,2],[174,2],[176,2],[177,1],[180,1],[241,5],[242,5],[243,2],[249,5]],
+    "twap": [[57,1]],
+    "two": [[78,2],[79,2],[80,2],[81,2],[82,1],[83,1],[84,1],[85,1],[86,1],[87,1],[88,1],[89,1],[90,1],[91,1],[92,1],[93,1],[94,1],[95,1],[113,2],[187,2],[256,2]],
+    "type": [[75,2],[115,1],[116,3],[117,5],[118,1],[130,3],[131,2],[164,1],[201,1],[245,3],[265,1]],
+    "typescript": [[114,2],[115,3],[116,3],[117,2],[118,2],[119,2],[120,2],[121,2],[122,2],[123,2],[124,2],[125,1],[126,1],[127,1],[128,1],[129,1],[130,1],[132,1],[233,1],[234,1]],
+    "typical": [[34,1]],
+    "u": [[16,1],[17,1]],
+    "u32": [[117,1]],
+    "u64": [[117,1]],
+    "uint128": [[1,1],[164,1],[202,1]],
+    "uint160": [[65,1],[74,1],[100,1],[111,1],[156,2],[241,1],[247,1],[253,1]],
+    "uint24": [[101,2],[105,3],[180,2],[217,3]],
+    "uint256": [[1,1],[2,2],[27,7],[28,1],[29,3],[30,4],[31,6],[32,4],[33,2],[35,3],[36,3],[37,3],[46,2],[63,4],[65,1],[66,2],[73,4],[76,4],[90,1],[110,1],[127,1],[137,2],[138,2],[139,2],[140,6],[141,4],[142,4],[143,5],[144,2],[147,3],[152,6],[153,12],[154,6],[155,5],[156,6],[158,4],[159,4],[160,1],[161,4],[163,2],[164,4],[165,2],[173,2],[175,2],[178,1],[179,3],[180,1],[182,1],[183,2],[191,5],[192,3],[193,3],[194,4],[195,4],[196,2],[197,4],[198,3],[200,6],[201,5],[202,2],[206,2],[207,3],[208,3],[209,1],[210,3],[211,3],[212,1],[214,5],[215,4],[216,4],[217,1],[218,8],[223,2],[224,5],[225,3],[226,2],[227,7],[229,2],[230,8],[231,3],[232,2],[235,9],[241,2],[242,1],[243,2],[244,4],[245,2],[246,1],[250,2],[253,1],[255,4],[259,1],[260,3],[261,3],[262,4],[263,4],[265,3],[266,3],[267,3],[268,5],[270,12]],
+    "unaffected": [[213,1]],
+    "unchanged": [[7,1],[8,1],[16,1],[135,2],[142,2],[261,1],[262,1]],
+    "undefined": [[115,6]],
+    "undercollateralize": [[194,1],[263,1]],
+    "undercollateralized": [[178,1],[222,1]],
+    "understanding": [[79,1],[168,1],[204,1]],
+    "unexpected": [[128,1]],
+    "unexpectedly": [[145,1]],
+    "unique": [[75,1],[76,2],[168,1]],
+    "uniquepool": [[198,3]],
+    "uniswap": [[0,1],[1,2],[13,1],[79,1],[96,2],[97,1],[98,1],[99,1],[100,1],[101,1],[102,1],[103,1],[104,1],[105,1],[106,1],[107,1],[108,1],[109,1],[110,1],[111,1],[112,1],[113,1],[151,1],[168,1],[188,1],[205,1],[257,1],[260,1]],
+    "unit": [[0,6],[1,3],[2,3],[3,2],[4,2],[5,2],[6,3],[7,2],[8,2],[9,2],[10,8],[11,5],[12,5],[13,2],[14,4],[15,1],[16,1],[17,2],[18,2],[19,2],[39,2],[43,1],[59,3],[149,2],[151,1],[154,1],[167,2],[211,1],[219,3],[260,1],[271,2]],
+    "unlike": [[58,1]],
+    "unlock": [[81,1],[82,1],[84,1],[85,1],[90,1],[94,1],[97,1],[169,1],[240,1],[244,1],[266,1]],
+    "unlockcallback": [[82,1],[85,1],[91,1],[92,1],[169,1],[244,1],[249,1],[266,1]],
+    "unlocked": [[79,2],[80,1],[81,5],[82,1],[83,1],[84,1],[85,1],[86,1],[87,1],[88,1],[89,1],[90,1],[91,1],[92,1],[93,1],[94,1],[95,1],[113,1],[237,1],[256,1]],
+    "unsafe": [[200,1]],
+    "unsigned": [[117,2]],
+    "until": [[4,2],[215,1]],
+    "up": [[32,1],[33,1],[42,1],[155,2],[157,3],[158,2],[166,1],[216,1],[249,1]],
+    "update": [[7,1],[8,1],[82,1],[101,1],[110,1],[126,1],[173,6],[175,2],[179,1],[193,1],[194,1],[224,1],[260,1],[261,1],[262,1],[263,1]],
+    "updated": [[175,1],[181,1],[252,1]],
+    "updatemarketafterswap": [[101,1]],
+    "usage": [[65,1],[66,1],[67,1],[87,3],[88,1],[89,1]],
+    "use": [[18,2],[19,1],[26,1],[28,1],[31,1],[33,1],[34,1],[38,1],[39,1],[57,1],[60,1],[72,1],[74,1],[75,1],[76,1],[79,1],[92,1],[98,1],[104,1],[115,1],[118,2],[124,1],[128,3],[131,3],[150,1],[151,1],[153,1],[156,1],[160,1],[181,1],[184,1],[185,1],[188,1],[230,1],[232,1],[269,1]],
+    "used": [[0,1],[8,3],[20,1],[78,1]],
+    "user": [[5,1],[6,2],[16,1],[82,2],[89,1],[97,2],[134,1],[157,1],[169,1],[179,1],[183,2],[185,1],[188,1],[240,1],[257,2],[258,1],[259,1],[260,1],[261,1],[262,1],[263,1],[264,1],[265,1],[266,1],[267,1],[268,1],[269,1],[270,1],[271,1]],
+    "useraddress": [[127,1]],
+    "uservault": [[103,1]],
+    "using": [[9,1],[20,1],[32,1],[152,1],[158,1],[166,1],[184,3]],
+    "utilization": [[6,1],[16,1],[22,1],[27,3],[36,4],[48,2],[216,11],[217,3],[261,2]],
+    "utilizationexceeded": [[269,1]],
+    "utilizationpip": [[36,2]],
+    "v": [[43,2],[49,1]],
+    "v4": [[1,1],[79,1],[96,2],[97,2],[98,2],[99,2],[100,1],[101,1],[102,1],[103,1],[104,1],[105,1],[106,1],[107,1],[108,1],[109,1],[110,1],[111,1],[112,1],[113,1],[133,2],[168,1],[188,1],[205,1],[257,1],[260,1]],
+    "valid": [[87,1]],
+    "validate": [[93,1],[100,1],[102,1],[240,1]],
+    "validatepoolkey": [[100,1]],
+    "validateprice": [[231,1]],
+    "validation": [[84,1],[85,1],[109,3],[142,1],[143,1],[144,1]],
+    "valuation": [[195,1],[196,1]],
+    "value": [[9,1],[10,1],[22,4],[38,1],[44,3],[45,1],[46,1],[48,1],[57,1],[73,4],[74,1],[94,1],[115,4],[116,3],[124,2],[125,2],[127,2],[130,2],[132,1],[151,1],[157,1],[164,1],[181,1],[190,2],[193,1],[194,1]],
+    "variable": [[2,4],[76,1]],
+    "vary": [[27,2],[48,1]],
+    "vault": [[7,2],[16,1],[19,4],[40,1],[42,5],[43,1],[48,2],[119,12],[123,9],[126,6],[128,1],[129,8],[131,4],[133,2],[140,3],[170,1],[189,1],[190,1],[193,2],[194,3],[200,2],[201,8],[203,3],[221,2],[222,3],[224,8],[227,10],[233,7],[236,3],[237,1],[239,1],[240,1],[241,1],[242,2],[249,1],[251,1],[253,1],[256,2],[257,3],[258,6],[259,7],[260,5],[261,8],[262,6],[263,9],[264,4],[265,7],[266,2],[267,2],[268,2],[269,1],[270,1],[271,1]],
+    "vaultcollateral": [[175,2]],
+    "vaultcreated": [[259,1],[270,1]],
+    "vaultid": [[103,1],[104,1],[125,3],[126,4],[128,1],[132,2],[140,6],[142,2],[143,2],[175,2],[193,4],[194,7],[200,5],[201,2],[223,2],[224,4],[226,2],[227,6],[230,10],[232,3],[234,2],[235,3],[241,3],[242,2],[244,4],[250,1],[253,2],[255,4],[259,5],[260,4],[261,4],[262,3],[263,4],[265,2],[266,5],[267,2],[268,2],[270,6]],
+    "vaultliquidated": [[270,1]],
+    "vaultnotempty": [[269,1]],
+    "vaultposition": [[193,1],[194,1],[268,1]],
+    "vector": [[45,1],[169,1],[170,1],[171,1],[172,1]],
+    "verify": [[38,1],[54,1],[94,1],[112,1],[146,1],[147,1],[200,1],[241,1]],
+    "via": [[44,1],[50,1],[83,4],[205,1]],
+    "view": [[66,1],[73,1],[74,1],[84,1],[105,1],[191,1],[195,1],[196,1],[197,1],[198,1],[201,2],[202,2],[212,1],[214,2],[216,1],[217,1],[223,1],[226,1],[253,4],[265,1],[268,1]],
+    "violate": [[149,1],[167,1]],
+    "violation": [[19,1],[134,1],[135,1],[136,1],[137,2],[138,2],[139,2],[140,2],[141,2],[142,1],[143,1],[144,1],[145,2],[146,2],[147,2],[148,1],[149,1]],
+    "vm": [[142,2],[182,1]],
+    "void": [[121,2]],
+    "volume": [[205,1]],
+    "vs": [[34,3],[79,2],[80,1],[81,1],[82,1],[83,1],[84,1],[85,1],[86,1],[87,1],[88,1],[89,1],[90,1],[91,1],[92,1],[93,1],[94,1],[95,1],[189,1],[190,1],[219,1]],
+    "vulnerable": [[173,3],[174,2],[175,3],[186,1]],
+    "wad": [[2,2],[18,1],[25,4],[33,2],[34,4],[39,1],[150,2],[151,2],[152,2],[153,1],[154,3],[155,3],[156,1],[157,1],[158,1],[159,1],[160,1],[161,1],[162,1],[163,1],[164,1],[165,1],[166,2],[167,2],[212,3]],
+    "wait": [[233,1],[269,1]],
+    "warning": [[121,1],[128,1],[221,1],[264,1]],
+    "watch": [[38,1]],
+    "webassembly": [[114,1]],
+    "wei": [[163,1],[164,1]],
+    "weird": [[154,1]],
+    "while": [[20,1],[188,1],[233,1]],
+    "who": [[64,1],[220,1]],
+    "wide": [[192,1]],
+    "wider": [[192,1]],
+    "winding": [[239,1]],
+    "witharg": [[127,1]],
+    "withdraw": [[53,1],[148,1],[159,4],[173,2],[182,2],[186,1],[245,1],[258,1],[263,3]],
+    "withdrawal": [[6,3],[15,3],[16,2],[157,1],[263,1]],
+    "withdrawcollateral": [[263,1]],
+    "withdrawl": [[6,1],[148,1]],
+    "within": [[45,1],[80,1],[94,1],[107,1],[168,1],[184,1],[237,1],[246,1],[256,1],[266,1]],
+    "without": [[40,1]],
+    "won": [[75,1]],
+    "work": [[116,1],[118,1],[176,1]],
+    "worth": [[3,1],[9,2]],
+    "would": [[194,1],[263,1]],
+    "wrapper": [[74,1]],
+    "write": [[61,1],[62,1],[87,1]],
+    "written": [[114,1]],
+    "wrong": [[118,2],[119,1],[120,1],[121,1],[122,1],[123,1],[124,1],[137,1],[138,1],[139,1],[140,1],[141,2],[152,4],[153,1],[154,1],[156,2],[161,1],[248,1],[254,1]],
+    "x": [[8,1],[41,2],[117,2]],
+    "x96": [[151,1]],
+    "y": [[8,1],[41,2],[117,1]],
+    "yaml": [[131,1]],
+    "year": [[207,1]],
+    "yield": [[136,1],[199,1]],
+    "you": [[166,1]],
+    "zero": [[55,1],[101,1],[118,1],[119,1],[155,4],[162,2],[166,1],[178,1],[180,1],[269,1]],
+    "zone": [[221,1]],
+    "ū": [[6,1],[16,1]],
+    "δb": [[8,1]],
+    "δe": [[17,3]],
+    "δl": [[4,1],[5,4],[16,2]],
+    "δm": [[17,3]],
+    "δt": [[5,1],[6,3],[17,1]],
+    "δx": [[4,2]],
+    "δy": [[4,2]],
+    "θ": [[49,1],[50,1],[51,1]],
+  },
+};
+
+/**
+ * Rank the sections of every knowledge doc against a query, best first
+ */
+export function searchKnowledge(
+  query: string,
+  options?: SearchOptions
+): SearchHit[] {
+  return searchSections(searchIndex, query, options);
+}
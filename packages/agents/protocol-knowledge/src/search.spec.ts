@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { searchKnowledge } from './search-index.js';
+import {
+  buildSearchIndex,
+  searchSections,
+  tokenize,
+  type SectionInput,
+} from './search.js';
+
+function section(
+  name: string,
+  heading: string | null,
+  text: string,
+  category = 'concepts',
+): SectionInput {
+  return {
+    name,
+    category,
+    title: name,
+    heading,
+    anchor: heading?.toLowerCase().replace(/\s+/g, '-') ?? null,
+    parents: [name],
+    text,
+  };
+}
+
+describe('tokenize', () => {
+  it('drops stop words, keeps single letters and stems plurals', () => {
+    assert.deepEqual(tokenize('What are the sqrt-K floors for queries?'), [
+      'sqrt',
+      'k',
+      'floor',
+      'query',
+    ]);
+    assert.deepEqual(tokenize('status bonus basis'), [
+      'status',
+      'bonus',
+      'basis',
+    ]);
+  });
+});
+
+describe('searchSections', () => {
+  const index = buildSearchIndex([
+    section('l-units', 'Overview', 'L-units measure liquidity.'),
+    section('l-units', 'Grouping Heading', '  '),
+    section(
+      'fee-accrual',
+      'Rounding',
+      'Fees round down.\nAlways round shares down when minting.',
+      'patterns',
+    ),
+    section(
+      'precision-errors',
+      'Scaling',
+      'Multiply before you divide to avoid rounding loss.',
+      'gotchas',
+    ),
+  ]);
+
+  it('leaves out sections without text of their own', () => {
+    assert.deepEqual(
+      index.sections.map((item) => item.heading),
+      ['Overview', 'Rounding', 'Scaling'],
+    );
+  });
+
+  it('ranks a heading match above a match in the text', () => {
+    const hits = searchSections(index, 'rounding');
+
+    assert.deepEqual(
+      hits.map((hit) => [hit.name, hit.anchor, hit.filePath]),
+      [
+        ['fee-accrual', 'rounding', './patterns/fee-accrual.md'],
+        ['precision-errors', 'scaling', './gotchas/precision-errors.md'],
+      ],
+    );
+    assert.ok(hits[0].score > hits[1].score);
+  });
+
+  it('picks the line matching the most query terms as the snippet', () => {
+    const [hit] = searchSections(index, 'round shares');
+
+    assert.equal(hit.snippet, 'Always round shares down when minting.');
+  });
+
+  it('filters by category and limits the hits', () => {
+    assert.deepEqual(
+      searchSections(index, 'rounding', { category: 'gotchas' }).map(
+        (hit) => hit.name,
+      ),
+      ['precision-errors'],
+    );
+    assert.equal(searchSections(index, 'rounding', { limit: 1 }).length, 1);
+    assert.deepEqual(searchSections(index, 'oracle'), []);
+  });
+});
+
+describe('searchKnowledge', () => {
+  it('finds the doc a question is about in the generated index', () => {
+    const [hit] = searchKnowledge('sqrt(K) floor collateral requirement');
+
+    assert.equal(hit.name, 'sqrt-k-floor');
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * BM25 ranking over the sections of the knowledge docs. The index is built
+ * once at generate-index time (see search-index.ts); queries only tokenize the
+ * query and walk the postings of its terms.
+ */
+
+// One heading and the text under it, as handed to buildSearchIndex
+export interface SectionInput {
+  name: string; // Doc name, e.g. 'sqrt-k-floor'
+  category: string;
+  title: string; // Doc title from the frontmatter
+  heading: string | null; // Null for text before the first heading
+  anchor: string | null;
+  parents: string[]; // Enclosing headings, outermost first
+  text: string;
+}
+
+export interface SearchSection extends SectionInput {
+  // Weighted token count, the BM25 document length
+  length: number;
+}
+
+export interface SearchIndex {
+  sections: SearchSection[];
+  // Term -> [section index, weighted term frequency] pairs
+  postings: Record<string, [number, number][]>;
+  averageLength: number;
+}
+
+export interface SearchOptions {
+  limit?: number; // Default 5
+  category?: string; // Only search concepts, patterns or gotchas
+}
+
+export interface SearchHit {
+  name: string;
+  category: string;
+  title: string;
+  heading: string | null;
+  anchor: string | null;
+  parents: string[];
+  // Relative to the package's src/, e.g. './concepts/sqrt-k-floor.md'
+  filePath: string;
+  score: number;
+  // The line of the section that matches the most query terms
+  snippet: string;
+}
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// A term in a heading says more about the section than one in its text
+const HEADING_WEIGHT = 3;
+const CONTEXT_WEIGHT = 1; // Doc title and enclosing headings
+
+const SNIPPET_LENGTH = 160;
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'do',
+  'does',
+  'for',
+  'from',
+  'how',
+  'i',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'was',
+  'what',
+  'when',
+  'where',
+  'which',
+  'why',
+  'with',
+]);
+
+// Plural and singular forms should match: "floors" -> "floor", "queries" -> "query"
+function stem(term: string): string {
+  if (term.length > 4 && term.endsWith('ies')) {
+    return `${term.slice(0, -3)}y`;
+  }
+  if (term.length > 3 && term.endsWith('s') && !/(ss|us|is)$/.test(term)) {
+    return term.slice(0, -1);
+  }
+  return term;
+}
+
+/**
+ * Lowercased words and numbers without stop words. Single letters are kept,
+ * since formulas use them ("sqrt-K", "E_L").
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter((term) => !STOP_WORDS.has(term))
+    .map(stem);
+}
+
+function addTerms(
+  counts: Map<string, number>,
+  text: string,
+  weight: number,
+): number {
+  const terms = tokenize(text);
+  for (const term of terms) {
+    counts.set(term, (counts.get(term) ?? 0) + weight);
+  }
+  return terms.length * weight;
+}
+
+/**
+ * Index the given sections. Headings without text of their own only group
+ * their subsections, so they are searched through those instead.
+ */
+export function buildSearchIndex(inputs: SectionInput[]): SearchIndex {
+  const sections: SearchSection[] = [];
+  const postings: Record<string, [number, number][]> = {};
+
+  for (const input of inputs.filter((item) => item.text.trim() !== '')) {
+    const counts = new Map<string, number>();
+    // The doc title is usually the outermost heading as well; count it once
+    const context = Array.from(new Set([input.title, ...input.parents]));
+    const length =
+      addTerms(counts, input.heading ?? '', HEADING_WEIGHT) +
+      addTerms(counts, context.join(' '), CONTEXT_WEIGHT) +
+      addTerms(counts, input.text, 1);
+    for (const [term, count] of counts) {
+      (postings[term] ??= []).push([sections.length, count]);
+    }
+    sections.push({ ...input, length });
+  }
+
+  const totalLength = sections.reduce(
+    (sum, section) => sum + section.length,
+    0,
+  );
+  return {
+    sections,
+    postings,
+    averageLength: sections.length > 0 ? totalLength / sections.length : 0,
+  };
+}
+
+// Markdown markup that would only clutter a one-line snippet
+function plainText(line: string): string {
+  return line
+    .replace(/^\s*(?:[-*+>]|\d+\.)\s+/, '')
+    .replace(/[`*]+/g, '')
+    .replace(/\|/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function makeSnippet(text: string, terms: string[]): string {
+  const lines = text
+    .split('\n')
+    .filter((line) => !/^\s*(```|~~~)/.test(line))
+    .map(plainText)
+    .filter((line) => line !== '');
+
+  let best = lines[0] ?? '';
+  let bestMatches = 0;
+  for (const line of lines) {
+    const lineTerms = new Set(tokenize(line));
+    const matches = terms.filter((term) => lineTerms.has(term)).length;
+    if (matches > bestMatches) {
+      best = line;
+      bestMatches = matches;
+    }
+  }
+  if (best.length <= SNIPPET_LENGTH) {
+    return best;
+  }
+
+  // Center long lines on the first matching word
+  const lower = best.toLowerCase();
+  const position = Math.max(
+    0,
+    Math.min(
+      ...terms.map((term) => lower.indexOf(term)).filter((found) => found >= 0),
+      best.length,
+    ) -
+      SNIPPET_LENGTH / 4,
+  );
+  const start = position > 0 ? best.lastIndexOf(' ', position) + 1 : 0;
+  const end = start + SNIPPET_LENGTH;
+  return `${start > 0 ? '…' : ''}${best.slice(start, end).trim()}${end < best.length ? '…' : ''}`;
+}
+
+/**
+ * Rank the sections of an index against a query, best first. Sections that
+ * contain none of the query terms are left out.
+ */
+export function searchSections(
+  index: SearchIndex,
+  query: string,
+  options: SearchOptions = {},
+): SearchHit[] {
+  const { limit = 5, category } = options;
+  const terms = Array.from(new Set(tokenize(query)));
+  const total = index.sections.length;
+
+  const scores = new Map<number, number>();
+  for (const term of terms) {
+    const postings = index.postings[term] ?? [];
+    const idf = Math.log(
+      1 + (total - postings.length + 0.5) / (postings.length + 0.5),
+    );
+    for (const [sectionIndex, frequency] of postings) {
+      const { length } = index.sections[sectionIndex];
+      const norm = K1 * (1 - B + (B * length) / (index.averageLength || 1));
+      const score = (idf * frequency * (K1 + 1)) / (frequency + norm);
+      scores.set(sectionIndex, (scores.get(sectionIndex) ?? 0) + score);
+    }
+  }
+
+  return Array.from(scores)
+    .filter(
+      ([sectionIndex]) =>
+        !category || index.sections[sectionIndex].category === category,
+    )
+    .sort(([a, scoreA], [b, scoreB]) => scoreB - scoreA || a - b)
+    .slice(0, limit)
+    .map(([sectionIndex, score]) => {
+      const section = index.sections[sectionIndex];
+      return {
+        name: section.name,
+        category: section.category,
+        title: section.title,
+        heading: section.heading,
+        anchor: section.anchor,
+        parents: section.parents,
+        filePath: `./${section.category}/${section.name}.md`,
+        score: Math.round(score * 1000) / 1000,
+        snippet: makeSnippet(section.text, terms),
+      };
+    });
+}
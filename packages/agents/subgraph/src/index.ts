@@ -2,13 +2,30 @@
 // Generated by @solo-labs/utils generate-index
 // To regenerate, run: npx nx run @solo-labs/agents-subgraph:generate-index
 
+export interface ToolSpec {
+  raw: string;
+  tool: string;
+  specifier: string | null;
+  subagentType: string | null;
+}
+
+export interface ContentEntry {
+  description: string;
+  filePath: string;
+  argumentHint: string | null;
+  allowedTools: readonly ToolSpec[] | null;
+  model: string | null;
+  subagents: readonly string[];
+  knowledge: readonly string[];
+  package: string;
+  bytes: number;
+  extra: Readonly<Record<string, unknown>>;
+}
+
 type CommandName = 'assemblyscript-expert' | 'subgraph-developer';
 
 export type Commands = {
-  [key in CommandName]: {
-    description: string;
-    filePath: string;
-  };
+  [key in CommandName]: ContentEntry;
 };
 
 export const commands: Commands = {
@@ -16,10 +33,88 @@ export const commands: Commands = {
     description:
       'Specialist in AssemblyScript for The Graph subgraph development with performance optimization',
     filePath: './assemblyscript-expert.md',
+    argumentHint: null,
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*.ts)',
+        tool: 'Write',
+        specifier: '*.ts',
+        subagentType: null,
+      },
+    ],
+    model: null,
+    subagents: [],
+    knowledge: ['assemblyscript-quirks'],
+    package: 'subgraph',
+    bytes: 9493,
+    extra: {},
   },
   'subgraph-developer': {
     description:
       'Expert in The Graph Protocol subgraph development for AEGIS Protocol indexing',
     filePath: './subgraph-developer.md',
+    argumentHint: null,
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*.yaml)',
+        tool: 'Write',
+        specifier: '*.yaml',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*.ts)',
+        tool: 'Write',
+        specifier: '*.ts',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*.graphql)',
+        tool: 'Write',
+        specifier: '*.graphql',
+        subagentType: null,
+      },
+    ],
+    model: null,
+    subagents: [],
+    knowledge: ['assemblyscript-quirks', 'vault-operations', 'fee-accrual'],
+    package: 'subgraph',
+    bytes: 8811,
+    extra: {},
   },
 } as const;
@@ -6,78 +6,224 @@
  * Usage:
  *   npx @solo-labs/ai-toolkit-nx-claude init [options]
  *   solo-labs-nx-claude init [options]
+ *   solo-labs-nx-claude update [options]
+ *   solo-labs-nx-claude uninstall [options]
+ *   solo-labs-nx-claude status [--json]
+ *   solo-labs-nx-claude doctor [--fix]
+ *   solo-labs-nx-claude audit [--global|--local] [--json]
+ *   solo-labs-nx-claude knowledge search <words> [--limit=N] [--json]
+ *   solo-labs-nx-claude export-plugins [--outputDir=<dir>]
+ *   solo-labs-nx-claude mcp
  *
  * Options:
  *   --installMode <default|custom>     Installation mode
+ *   --profile <a,b>                    Install named profiles (see src/profiles.json)
  *   --installationType <global|local>  Where to install
  *   --dry                              Preview without making changes
  *   --force                            Overwrite existing files
  *   --nonInteractive                   Run without prompts
  */
 
+import type { Tree } from '@nx/devkit';
 import { initGenerator } from './generators/init/generator';
+import { uninstallGenerator } from './generators/uninstall/generator';
+import { statusGenerator } from './generators/status/generator';
+import { doctorGenerator } from './generators/doctor/generator';
+import { updateGenerator } from './generators/update/generator';
+import { auditGenerator } from './generators/audit/generator';
+import { knowledgeSearchGenerator } from './generators/knowledge-search/generator';
+import { exportPluginsGenerator } from './generators/export-plugins/generator';
+import { createKnowledgeServer, serveStdio } from '@solo-labs/knowledge-mcp';
+import { loadProfiles } from './utils/profile-utils';
+import { getKnowledgeDir } from './utils/content-utils';
+import { getToolkitVersion } from './utils/manifest-utils';
 
-async function main() {
-  const args = process.argv.slice(2);
-  const command = args[0];
-
-  if (command === 'init' || !command) {
-    // Parse CLI arguments into options
-    const options: Record<string, any> = {};
-
-    for (let i = 1; i < args.length; i++) {
-      const arg = args[i];
-      if (arg.startsWith('--')) {
-        const [key, value] = arg.slice(2).split('=');
-        if (value !== undefined) {
-          // Handle --key=value format
-          options[key] = value === 'true' ? true : value === 'false' ? false : value;
-        } else if (args[i + 1] && !args[i + 1].startsWith('--')) {
-          // Handle --key value format
-          const nextValue = args[i + 1];
-          options[key] = nextValue === 'true' ? true : nextValue === 'false' ? false : nextValue;
-          i++;
-        } else {
-          // Handle boolean flags
-          options[key] = true;
-        }
+type Generator = (tree: Tree, options: any) => Promise<void>;
+
+const generators: Record<string, Generator> = {
+  init: initGenerator,
+  uninstall: uninstallGenerator,
+  status: statusGenerator,
+  list: statusGenerator,
+  doctor: doctorGenerator,
+  update: updateGenerator,
+  audit: auditGenerator,
+  'export-plugins': exportPluginsGenerator,
+};
+
+// Parse CLI arguments into options
+function parseOptions(args: string[]): Record<string, any> {
+  const options: Record<string, any> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith('--')) {
+      const [key, value] = arg.slice(2).split('=');
+      if (value !== undefined) {
+        // Handle --key=value format
+        options[key] = value === 'true' ? true : value === 'false' ? false : value;
+      } else if (args[i + 1] && !args[i + 1].startsWith('--')) {
+        // Handle --key value format
+        const nextValue = args[i + 1];
+        options[key] = nextValue === 'true' ? true : nextValue === 'false' ? false : nextValue;
+        i++;
+      } else {
+        // Handle boolean flags
+        options[key] = true;
       }
     }
+  }
 
-    // Use flushChanges to write the tree to disk
-    const { flushChanges, FsTree } = await import('nx/src/generators/tree.js');
-    const tree = new FsTree(process.cwd(), false);
+  return options;
+}
 
-    try {
-      await initGenerator(tree, options);
+// knowledge search <words...> [options]: the words outside options form the query
+function parseSearchArgs(args: string[]): Record<string, any> {
+  const words: string[] = [];
+  const optionArgs: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      words.push(arg);
+      continue;
+    }
+    optionArgs.push(arg);
+    // --json is the only flag without a value; others may take theirs as the next argument
+    if (!arg.includes('=') && arg !== '--json' && args[i + 1] && !args[i + 1].startsWith('--')) {
+      optionArgs.push(args[++i]);
+    }
+  }
+  return { ...parseOptions(optionArgs), query: words.join(' ') };
+}
 
-      // Apply changes to the file system
-      flushChanges(process.cwd(), tree.listChanges());
+async function runGenerator(generator: Generator, options: Record<string, any>) {
+  // Use flushChanges to write the tree to disk
+  const { flushChanges, FsTree } = await import('nx/src/generators/tree.js');
+  const tree = new FsTree(process.cwd(), false);
 
-      process.exit(0);
-    } catch (error: any) {
-      console.error('Error:', error.message);
+  try {
+    await generator(tree, options);
+
+    // Apply changes to the file system
+    flushChanges(process.cwd(), tree.listChanges());
+
+    process.exit(0);
+  } catch (error: any) {
+    console.error('Error:', error.message);
+    process.exit(1);
+  }
+}
+
+// stdout carries MCP messages only, so the server bypasses the generator output
+async function runMcpServer() {
+  const server = createKnowledgeServer({
+    knowledgeDir: getKnowledgeDir(process.cwd()),
+    version: getToolkitVersion(),
+  });
+  await serveStdio(server);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args[0] ?? 'init';
+
+  if (generators[command]) {
+    await runGenerator(generators[command], parseOptions(args.slice(1)));
+  } else if (command === 'knowledge') {
+    if (args[1] !== 'search') {
+      console.error('Usage: solo-labs-nx-claude knowledge search <words> [options]');
       process.exit(1);
     }
+    await runGenerator(knowledgeSearchGenerator, parseSearchArgs(args.slice(2)));
+  } else if (command === 'mcp') {
+    await runMcpServer();
   } else if (command === '--help' || command === '-h') {
     console.log(`
 Solo Labs AI Toolkit for Claude Code
 
 Usage:
   solo-labs-nx-claude init [options]
+  solo-labs-nx-claude update [options]
+  solo-labs-nx-claude uninstall [options]
+  solo-labs-nx-claude status [--json]
+  solo-labs-nx-claude doctor [--fix]
+  solo-labs-nx-claude audit [options]
+  solo-labs-nx-claude knowledge search <words> [options]
+  solo-labs-nx-claude export-plugins [--outputDir=<dir>] [--dry]
+  solo-labs-nx-claude mcp
   npx @solo-labs/ai-toolkit-nx-claude init [options]
 
 Commands:
-  init    Install Solo Labs agents and commands for Claude Code
+  init         Install Solo Labs agents and commands for Claude Code
+  update       Upgrade installed files, merging in local edits
+  uninstall    Remove agents and commands recorded in manifest.json
+  status       Show what is installed globally and locally (alias: list)
+  doctor       Diagnose a broken installation and optionally fix it
+  audit        Report the tools each command and agent may use, with a risk rating
+  knowledge    Search the AEGIS protocol knowledge docs (knowledge search <words>)
+  export-plugins  Write every content package as a Claude Code plugin, plus a marketplace
+  mcp          Serve the AEGIS protocol knowledge as an MCP server over stdio
 
 Options:
   --installMode <default|custom>     Installation mode (default: default)
+  --profile <a,b>                    Install named profiles: ${Object.keys(loadProfiles()).join(', ')}
   --installationType <global|local>  Where to install (default: global)
   --dry                              Preview without making changes
-  --force                            Overwrite existing files
+  --force                            Overwrite existing files (edited files are merged)
+  --conflictStyle <rej|markers>      How unmergeable edits are reported (default: rej)
+  --no-deps                          Don't add agents the selected commands delegate to
+  --installKnowledge <required|all|none>  Knowledge docs to install (default: required)
+  --lock                             Record the installed files in claude-toolkit.lock.json
+  --frozen                           Install exactly the locked files; fail if content changed
+  --skills[=<a,b>]                   Install Agent Skills into skills/ (all, or the named ones)
+  --hooks=<a,b>                      Merge these hooks into settings.json (none by default)
+  --configurePermissions             Pre-approve the installed components' tools in settings.json
+  --registerMcp                      Register the knowledge MCP server (.mcp.json or ~/.claude.json)
   --nonInteractive                   Run without prompts
   --help, -h                         Show this help message
 
+  init reads .claude-toolkit.json from the current directory when present;
+  options passed here override its values. Components denied by the install
+  policy ($SOLO_LABS_TOOLKIT_POLICY or ~/.config/solo-labs-ai-toolkit/policy.json)
+  are never installed.
+
+Update options:
+  --global, --local                  Which installation to update
+  --installNew                       Also install newly recommended components
+  --conflictStyle <rej|markers>      Write <file>.rej or conflict markers on conflicts
+  --dry                              Show the per-file summary without writing
+
+Uninstall options:
+  --global, --local                  Which installation to clean up
+  --commands=<a,b>                   Only remove these commands
+  --agents=<a,b>                     Only remove these agents
+  --hooks=<a,b>                      Only remove these hooks from settings.json
+  --dry                              Preview without deleting anything
+  --force                            Also remove files modified since install
+
+Status options:
+  --json                             Print the report as JSON
+
+Doctor options:
+  --global, --local                  Which installation to check
+  --fix                              Apply the suggested fixes
+
+Audit options:
+  --profile=<a,b>                    Audit the components of these profiles
+  --commands=<a,b>, --agents=<a,b>   Audit these components (default: everything bundled)
+  --global, --local                  Audit the files installed there instead
+  --json                             Print the report as JSON
+
+Knowledge search options:
+  --limit=<n>                        Maximum number of results (default: 5)
+  --category=<concepts|patterns|gotchas>  Only search one category
+  --json                             Print the results as JSON
+
+Export plugins options:
+  --outputDir=<dir>                  Marketplace directory, replaced on every export
+                                     (default: dist/claude-plugins)
+  --dry                              List the plugins without writing them
+
 Examples:
   # Default installation (recommended)
   solo-labs-nx-claude init
@@ -87,6 +233,36 @@ Examples:
 
   # Global installation without prompts
   solo-labs-nx-claude init --installationType=global --nonInteractive
+
+  # Onboard a contracts engineer who also reviews PRs
+  solo-labs-nx-claude init --profile=contracts,reviewer
+
+  # Load L-unit accounting on demand instead of as an agent
+  solo-labs-nx-claude init --installationType=local --skills=l-unit-accountant
+
+  # Preview upgrading the global installation
+  solo-labs-nx-claude update --global --dry
+
+  # Remove a local installation
+  solo-labs-nx-claude uninstall --local
+
+  # Machine-readable install report
+  solo-labs-nx-claude status --json
+
+  # Diagnose and repair the global installation
+  solo-labs-nx-claude doctor --global --fix
+
+  # Check which default components can run shell commands
+  solo-labs-nx-claude audit --profile=default
+
+  # Find where a protocol rule is documented
+  solo-labs-nx-claude knowledge search "sqrt-K floor"
+
+  # Publish the content as a Claude Code plugin marketplace
+  solo-labs-nx-claude export-plugins --outputDir=dist/claude-plugins
+
+  # Let Claude Code in this project query protocol knowledge
+  solo-labs-nx-claude init --installationType=local --registerMcp
     `);
     process.exit(0);
   } else {
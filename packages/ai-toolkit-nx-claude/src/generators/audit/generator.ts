@@ -0,0 +1,167 @@
+import type { Tree } from '@nx/devkit';
+import { logger } from '@nx/devkit';
+import * as path from 'path';
+import * as fs from 'fs';
+import type { AuditGeneratorSchema } from './schema';
+import {
+  loadAvailableContent,
+  parseNameList,
+  type ContentItem,
+  type ContentType,
+} from '../../utils/content-utils';
+import { resolveInstallLocation } from '../../utils/manifest-utils';
+import { resolveProfiles } from '../../utils/profile-utils';
+import {
+  CAPABILITY_LABELS,
+  auditFile,
+  describeCapabilities,
+  summarizeRisk,
+  type Capability,
+  type PermissionAudit,
+  type RiskLevel,
+} from '../../utils/permission-utils';
+
+const COLUMNS = ['NAME', 'RISK', 'PERMISSIONS'];
+
+const RISK_ORDER: RiskLevel[] = ['high', 'medium', 'low'];
+
+// Installed .md files under commands/ and agents/ of a .claude directory
+function auditInstalled(targetDir: string): PermissionAudit[] {
+  const audits: PermissionAudit[] = [];
+  for (const type of ['commands', 'agents'] as const) {
+    const dir = path.join(targetDir, type);
+    if (!fs.existsSync(dir)) {
+      continue;
+    }
+    for (const file of fs
+      .readdirSync(dir)
+      .filter((f) => f.endsWith('.md'))
+      .sort()) {
+      audits.push(auditFile(type, file.replace(/\.md$/, ''), path.join(dir, file)));
+    }
+  }
+  return audits;
+}
+
+function auditSelection(
+  selection: Record<ContentType, string[]>,
+  availableContent: Record<ContentType, Record<string, ContentItem>>
+): PermissionAudit[] {
+  return (['commands', 'agents'] as const).flatMap((type) =>
+    selection[type].map((name) => auditFile(type, name, availableContent[type][name].filePath))
+  );
+}
+
+function printTable(title: string, audits: PermissionAudit[]) {
+  if (audits.length === 0) {
+    return;
+  }
+  const sorted = [...audits].sort(
+    (a, b) =>
+      RISK_ORDER.indexOf(a.risk) - RISK_ORDER.indexOf(b.risk) || a.name.localeCompare(b.name)
+  );
+  const rows = sorted.map((audit) => [audit.name, audit.risk, describeCapabilities(audit)]);
+  const widths = COLUMNS.map((column, index) =>
+    Math.max(column.length, ...rows.map((row) => row[index].length))
+  );
+  const format = (row: string[]) =>
+    `  ${row.map((cell, index) => cell.padEnd(widths[index])).join('  ')}`.trimEnd();
+
+  logger.info(`\n${title}`);
+  logger.info(format(COLUMNS));
+  rows.forEach((row) => logger.info(format(row)));
+}
+
+export async function auditGenerator(tree: Tree, options: AuditGeneratorSchema) {
+  if (options.global && options.local) {
+    throw new Error('Use either --global or --local, not both');
+  }
+
+  const workspaceRoot = process.cwd();
+  let audits: PermissionAudit[];
+  let subject: string;
+
+  if (options.global || options.local) {
+    const { targetDir } = resolveInstallLocation(
+      options.global ? 'global' : 'local',
+      workspaceRoot
+    );
+    if (!fs.existsSync(targetDir)) {
+      logger.warn(`⚠️  ${targetDir} does not exist - nothing to audit.`);
+      return;
+    }
+    audits = auditInstalled(targetDir);
+    subject = `files installed in ${targetDir}`;
+  } else {
+    const availableContent = {
+      commands: loadAvailableContent('commands', workspaceRoot),
+      agents: loadAvailableContent('agents', workspaceRoot),
+    };
+    const available = {
+      commands: Object.keys(availableContent.commands).sort(),
+      agents: Object.keys(availableContent.agents).sort(),
+    };
+
+    // --profile, --commands and --agents combine; without any of them everything is audited
+    const profiles = parseNameList(options.profile) ?? [];
+    const named = {
+      commands: parseNameList(options.commands) ?? [],
+      agents: parseNameList(options.agents) ?? [],
+    };
+    for (const type of ['commands', 'agents'] as const) {
+      const unknown = named[type].filter((name) => !available[type].includes(name));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown ${type}: ${unknown.join(', ')}`);
+      }
+    }
+    const isSelection = profiles.length + named.commands.length + named.agents.length > 0;
+    const fromProfiles = resolveProfiles(profiles, available);
+    const selection = isSelection
+      ? {
+          commands: Array.from(new Set([...fromProfiles.commands, ...named.commands])),
+          agents: Array.from(new Set([...fromProfiles.agents, ...named.agents])),
+        }
+      : available;
+
+    audits = auditSelection(selection, availableContent);
+    subject = isSelection ? 'the selected components' : 'every component this toolkit ships';
+  }
+
+  if (options.json) {
+    // Raw stdout so the output can be piped straight into jq
+    process.stdout.write(`${JSON.stringify(audits, null, 2)}\n`);
+    return;
+  }
+
+  logger.info(`🔐 Permissions audit of ${subject}`);
+  printTable(
+    '📝 Commands',
+    audits.filter((audit) => audit.type === 'commands')
+  );
+  printTable(
+    '🤖 Agents',
+    audits.filter((audit) => audit.type === 'agents')
+  );
+
+  logger.info('');
+  logger.info(`  ${audits.length} components: ${summarizeRisk(audits)}`);
+  const withCapability = (Object.keys(CAPABILITY_LABELS) as Capability[])
+    .map((capability) => ({
+      label: CAPABILITY_LABELS[capability],
+      count: audits.filter((audit) => audit.capabilities.includes(capability)).length,
+    }))
+    .filter(({ count }) => count > 0);
+  logger.info(`  ${withCapability.map(({ label, count }) => `${count} ${label}`).join(', ')}`);
+
+  const undeclared = audits.filter((audit) => !audit.declared).length;
+  if (undeclared > 0) {
+    logger.info(
+      `  ${undeclared} declare no allowed-tools/tools and inherit every tool of the session.`
+    );
+  }
+  if (audits.some((audit) => audit.delegatesTo.length > 0)) {
+    logger.info('  Delegated work runs with the permissions of the agent it is delegated to.');
+  }
+}
+
+export default auditGenerator;
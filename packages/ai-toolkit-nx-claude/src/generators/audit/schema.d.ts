@@ -0,0 +1,9 @@
+export interface AuditGeneratorSchema {
+  // Comma-separated profile names from profiles.json, e.g. "contracts,reviewer"
+  profile?: string;
+  commands?: string[];
+  agents?: string[];
+  global?: boolean;
+  local?: boolean;
+  json?: boolean;
+}
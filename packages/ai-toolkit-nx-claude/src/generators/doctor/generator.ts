@@ -0,0 +1,396 @@
+import type { Tree } from '@nx/devkit';
+import { logger, writeJson } from '@nx/devkit';
+import * as path from 'path';
+import * as fs from 'fs';
+import type { DoctorGeneratorSchema } from './schema';
+import {
+  applyLocationShorthands,
+  getExplicitlyProvidedOptions,
+  promptForMissingOptions,
+} from '../../utils/prompt-utils';
+import {
+  FrontmatterError,
+  getSubagentReferences,
+  parseFrontmatter,
+  type ParsedMarkdown,
+} from '@solo-labs/utils';
+import {
+  loadAvailableContent,
+  readContentFile,
+  type ContentItem,
+  type ContentType,
+} from '../../utils/content-utils';
+import {
+  MANIFEST_FILENAME,
+  createManifest,
+  findManifestEntry,
+  getToolkitVersion,
+  hashContent,
+  readManifest,
+  removeManifestEntries,
+  resolveInstallLocation,
+  upsertManifestEntries,
+  type Manifest,
+} from '../../utils/manifest-utils';
+import { deleteCachedOriginal, writeCachedOriginal } from '../../utils/merge-utils';
+
+type Severity = 'error' | 'warning' | 'info';
+
+interface FixContext {
+  tree: Tree;
+  relativeTargetDir: string;
+  manifest: Manifest;
+}
+
+interface DoctorFinding {
+  severity: Severity;
+  // File the finding is about, relative to the .claude directory
+  path: string;
+  message: string;
+  fix?: {
+    description: string;
+    // Applies the fix to the tree and returns the updated manifest
+    apply: (context: FixContext) => Manifest;
+  };
+}
+
+interface InstalledFile {
+  type: ContentType;
+  name: string;
+  relativeFilePath: string;
+  content: string;
+  // null when the file has no frontmatter block
+  parsed: ParsedMarkdown | null;
+  frontmatterError: FrontmatterError | null;
+}
+
+const SEVERITY_LABELS: Record<Severity, string> = {
+  error: '❌ error  ',
+  warning: '⚠️  warning',
+  info: 'ℹ️  info   ',
+};
+
+function listInstalledFiles(targetDir: string): InstalledFile[] {
+  const files: InstalledFile[] = [];
+  for (const type of ['commands', 'agents'] as const) {
+    const dir = path.join(targetDir, type);
+    if (!fs.existsSync(dir)) {
+      continue;
+    }
+    for (const file of fs
+      .readdirSync(dir)
+      .filter((f) => f.endsWith('.md'))
+      .sort()) {
+      const content = fs.readFileSync(path.join(dir, file), 'utf-8');
+      let parsed: ParsedMarkdown | null = null;
+      let frontmatterError: FrontmatterError | null = null;
+      try {
+        parsed = parseFrontmatter(content);
+      } catch (error) {
+        if (!(error instanceof FrontmatterError)) {
+          throw error;
+        }
+        frontmatterError = error;
+      }
+      files.push({
+        type,
+        name: file.replace(/\.md$/, ''),
+        relativeFilePath: path.join(type, file),
+        content,
+        parsed,
+        frontmatterError,
+      });
+    }
+  }
+  return files;
+}
+
+// Record a file in the manifest; its hash is only trusted when it matches the bundle
+function trackFile(
+  context: FixContext,
+  type: ContentType,
+  name: string,
+  content: string,
+  contentItem: ContentItem
+): Manifest {
+  const relativeFilePath = path.join(type, `${name}.md`);
+  const bundledContent = readContentFile(contentItem);
+  const matchesBundle = content === bundledContent;
+  if (matchesBundle) {
+    writeCachedOriginal(context.tree, context.relativeTargetDir, relativeFilePath, content);
+  }
+
+  return upsertManifestEntries(context.manifest, [
+    {
+      path: relativeFilePath,
+      type,
+      name,
+      sha256: matchesBundle ? hashContent(content) : null,
+      package: contentItem.package,
+      toolkitVersion: matchesBundle ? getToolkitVersion() : null,
+      installedAt: new Date().toISOString(),
+    },
+  ]);
+}
+
+function checkManifestEntries(targetDir: string, manifest: Manifest): DoctorFinding[] {
+  return manifest.files
+    .filter((entry) => !fs.existsSync(path.join(targetDir, entry.path)))
+    .map((entry) => ({
+      severity: 'warning',
+      path: entry.path,
+      message: `listed in ${MANIFEST_FILENAME} but the file is missing`,
+      fix: {
+        description: `remove ${entry.path} from ${MANIFEST_FILENAME}`,
+        apply: (context) => {
+          deleteCachedOriginal(context.tree, context.relativeTargetDir, entry.path);
+          return removeManifestEntries(context.manifest, [entry.path]);
+        },
+      },
+    }));
+}
+
+function checkUntrackedFiles(
+  installedFiles: InstalledFile[],
+  manifest: Manifest,
+  availableContent: Record<ContentType, Record<string, ContentItem>>
+): DoctorFinding[] {
+  const findings: DoctorFinding[] = [];
+
+  for (const file of installedFiles) {
+    if (findManifestEntry(manifest, file.relativeFilePath)) {
+      continue;
+    }
+
+    const contentItem = availableContent[file.type][file.name];
+    if (!contentItem) {
+      findings.push({
+        severity: 'info',
+        path: file.relativeFilePath,
+        message: 'not managed by the toolkit (personal file)',
+      });
+      continue;
+    }
+
+    findings.push({
+      severity: 'warning',
+      path: file.relativeFilePath,
+      message: `toolkit ${file.type.slice(0, -1)} not recorded in ${MANIFEST_FILENAME}, so update and uninstall ignore it`,
+      fix: {
+        description: `record ${file.relativeFilePath} in ${MANIFEST_FILENAME}`,
+        apply: (context) => trackFile(context, file.type, file.name, file.content, contentItem),
+      },
+    });
+  }
+
+  return findings;
+}
+
+function checkFrontmatter(installedFiles: InstalledFile[]): DoctorFinding[] {
+  const findings: DoctorFinding[] = [];
+
+  for (const file of installedFiles) {
+    if (file.frontmatterError) {
+      const { line, message } = file.frontmatterError;
+      findings.push({
+        severity: 'error',
+        path: file.relativeFilePath,
+        message: `unparseable frontmatter (${line ? `line ${line}: ` : ''}${message})`,
+      });
+      continue;
+    }
+    if (!file.parsed) {
+      findings.push({
+        severity: 'warning',
+        path: file.relativeFilePath,
+        message: 'no YAML frontmatter block',
+      });
+      continue;
+    }
+    if (!file.parsed.frontmatter.description) {
+      findings.push({
+        severity: file.type === 'agents' ? 'error' : 'warning',
+        path: file.relativeFilePath,
+        message: 'frontmatter has no description',
+      });
+    }
+  }
+
+  return findings;
+}
+
+function checkSubagentReferences(
+  installedFiles: InstalledFile[],
+  reachableAgents: Set<string>,
+  availableAgents: Record<string, ContentItem>
+): DoctorFinding[] {
+  // Missing agent -> commands that delegate to it
+  const missing = new Map<string, string[]>();
+  for (const file of installedFiles.filter((f) => f.type === 'commands')) {
+    const agentNames = file.parsed ? getSubagentReferences(file.parsed.frontmatter) : [];
+    for (const agentName of agentNames) {
+      if (!reachableAgents.has(agentName)) {
+        missing.set(agentName, [...(missing.get(agentName) ?? []), file.name]);
+      }
+    }
+  }
+
+  return Array.from(missing, ([agentName, commandNames]) => {
+    const contentItem = availableAgents[agentName];
+    const relativeFilePath = path.join('agents', `${agentName}.md`);
+    const finding: DoctorFinding = {
+      severity: 'error',
+      path: relativeFilePath,
+      message: `agent "${agentName}" is not installed but is used by: ${commandNames.join(', ')}`,
+    };
+    if (contentItem) {
+      finding.fix = {
+        description: `install agent ${agentName}`,
+        apply: (context) => {
+          const content = readContentFile(contentItem);
+          context.tree.write(path.join(context.relativeTargetDir, relativeFilePath), content);
+          return trackFile(context, 'agents', agentName, content, contentItem);
+        },
+      };
+    }
+    return finding;
+  });
+}
+
+function checkDuplicates(
+  installedFiles: InstalledFile[],
+  otherFiles: InstalledFile[],
+  otherLabel: string
+): DoctorFinding[] {
+  const others = new Map(otherFiles.map((file) => [file.relativeFilePath, file]));
+
+  return installedFiles
+    .filter((file) => others.has(file.relativeFilePath))
+    .map((file) => {
+      const identical = others.get(file.relativeFilePath)?.content === file.content;
+      return {
+        severity: identical ? 'info' : 'warning',
+        path: file.relativeFilePath,
+        message: identical
+          ? `identical copy also installed ${otherLabel}`
+          : `a different version is also installed ${otherLabel}; the local copy wins inside this workspace`,
+      };
+    });
+}
+
+export async function doctorGenerator(tree: Tree, options: DoctorGeneratorSchema) {
+  const explicitlyProvided = getExplicitlyProvidedOptions();
+  const initialOptions = applyLocationShorthands(options, explicitlyProvided);
+
+  // When bundled, __dirname points to dist root, so schema is in generators/doctor/
+  const schemaPath = path.join(__dirname, 'generators', 'doctor', 'schema.json');
+  const normalizedOptions = await promptForMissingOptions(
+    initialOptions,
+    schemaPath,
+    {},
+    explicitlyProvided
+  );
+
+  const workspaceRoot = process.cwd();
+  const isGlobal = normalizedOptions.installationType === 'global';
+  const { targetDir, relativeTargetDir } = resolveInstallLocation(
+    normalizedOptions.installationType,
+    workspaceRoot
+  );
+  const otherDir = resolveInstallLocation(isGlobal ? 'local' : 'global', workspaceRoot).targetDir;
+
+  if (!fs.existsSync(targetDir)) {
+    logger.warn(`⚠️  ${targetDir} does not exist - nothing to check.`);
+    return;
+  }
+
+  const availableContent = {
+    commands: loadAvailableContent('commands', workspaceRoot),
+    agents: loadAvailableContent('agents', workspaceRoot),
+  };
+  const installedFiles = listInstalledFiles(targetDir);
+  const otherFiles = otherDir === targetDir ? [] : listInstalledFiles(otherDir);
+  const findings: DoctorFinding[] = [];
+
+  let manifest: Manifest | null = null;
+  try {
+    manifest = readManifest(targetDir);
+  } catch (error) {
+    findings.push({
+      severity: 'error',
+      path: MANIFEST_FILENAME,
+      message: error instanceof Error ? error.message : String(error),
+      fix: {
+        description: `move it to ${MANIFEST_FILENAME}.bak and start a new one`,
+        apply: (context) => {
+          const relativeManifestPath = path.join(context.relativeTargetDir, MANIFEST_FILENAME);
+          context.tree.rename(relativeManifestPath, `${relativeManifestPath}.bak`);
+          return createManifest();
+        },
+      },
+    });
+  }
+
+  // An unreadable manifest tracks nothing, so every toolkit file is reported as untracked
+  const trackedManifest = manifest ?? createManifest();
+  findings.push(
+    ...checkManifestEntries(targetDir, trackedManifest),
+    ...checkUntrackedFiles(installedFiles, trackedManifest, availableContent),
+    ...checkFrontmatter(installedFiles),
+    // Claude Code also loads global agents inside a project, but not the other way round
+    ...checkSubagentReferences(
+      installedFiles,
+      new Set(
+        [...installedFiles, ...(isGlobal ? [] : otherFiles)]
+          .filter((file) => file.type === 'agents')
+          .map((file) => file.name)
+      ),
+      availableContent.agents
+    ),
+    ...checkDuplicates(installedFiles, otherFiles, isGlobal ? 'locally' : 'globally')
+  );
+
+  logger.info(`🩺 Checking ${targetDir}\n`);
+  if (findings.length === 0) {
+    logger.info('✅ No problems found.');
+    return;
+  }
+
+  for (const finding of findings) {
+    logger.info(`  ${SEVERITY_LABELS[finding.severity]}  ${finding.path}: ${finding.message}`);
+    if (finding.fix) {
+      logger.info(`               fix: ${finding.fix.description}`);
+    }
+  }
+
+  const count = (severity: Severity) =>
+    findings.filter((finding) => finding.severity === severity).length;
+  const fixable = findings.filter((finding) => finding.fix);
+  logger.info('');
+  logger.info(
+    `  ${count('error')} errors, ${count('warning')} warnings, ${count('info')} info` +
+      (fixable.length > 0 ? ` (${fixable.length} fixable)` : '')
+  );
+
+  if (fixable.length === 0) {
+    return;
+  }
+  if (!normalizedOptions.fix) {
+    logger.info('  Run again with --fix to apply the suggested fixes.');
+    return;
+  }
+
+  logger.info('\n🔧 Applying fixes:');
+  const context: FixContext = { tree, relativeTargetDir, manifest: trackedManifest };
+  for (const { fix } of fixable) {
+    if (fix) {
+      context.manifest = fix.apply(context);
+      logger.info(`  ✓ ${fix.description}`);
+    }
+  }
+
+  writeJson(tree, path.join(relativeTargetDir, MANIFEST_FILENAME), context.manifest);
+  logger.info(`\n✅ Applied ${fixable.length} fixes. Run doctor again to confirm.`);
+}
+
+export default doctorGenerator;
@@ -0,0 +1,7 @@
+export interface DoctorGeneratorSchema {
+  installationType?: 'global' | 'local';
+  global?: boolean;
+  local?: boolean;
+  fix?: boolean;
+  nonInteractive?: boolean;
+}
@@ -0,0 +1,74 @@
+import type { Tree } from '@nx/devkit';
+import { logger } from '@nx/devkit';
+import * as path from 'path';
+import type { ExportPluginsGeneratorSchema } from './schema';
+import {
+  buildMarketplace,
+  buildPlugins,
+  getPluginDir,
+  MARKETPLACE_NAME,
+  PLUGIN_METADATA_DIR,
+} from '../../utils/plugin-utils';
+
+const toJson = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
+
+function listFiles(tree: Tree, dir: string): string[] {
+  return tree
+    .children(dir)
+    .map((child) => path.join(dir, child))
+    .flatMap((child) => (tree.isFile(child) ? [child] : listFiles(tree, child)));
+}
+
+export async function exportPluginsGenerator(tree: Tree, options: ExportPluginsGeneratorSchema) {
+  const workspaceRoot = process.cwd();
+  const outputDir = path.relative(
+    workspaceRoot,
+    path.resolve(workspaceRoot, options.outputDir ?? 'dist/claude-plugins')
+  );
+  if (outputDir === '' || outputDir.startsWith('..') || path.isAbsolute(outputDir)) {
+    throw new Error(`--outputDir must be a directory inside ${workspaceRoot}`);
+  }
+
+  // The output is replaced on every export, so never replace a directory we did not write
+  const marketplacePath = path.join(outputDir, PLUGIN_METADATA_DIR, 'marketplace.json');
+  if (tree.children(outputDir).length > 0 && !tree.exists(marketplacePath)) {
+    throw new Error(
+      `${outputDir} exists and is not an exported marketplace; choose another --outputDir`
+    );
+  }
+
+  const plugins = buildPlugins(workspaceRoot);
+  if (plugins.length === 0) {
+    throw new Error('No content found to export');
+  }
+  const marketplace = buildMarketplace(plugins);
+
+  logger.info(
+    `📦 ${options.dry ? 'Would export' : 'Exporting'} ${plugins.length} Claude Code plugins to ${outputDir}/`
+  );
+  for (const plugin of plugins) {
+    logger.info(`   ${plugin.manifest.name}: ${plugin.manifest.description}`);
+  }
+
+  if (options.dry) {
+    return;
+  }
+
+  // File by file: writes into a deleted directory would bring its old files back
+  listFiles(tree, outputDir).forEach((filePath) => tree.delete(filePath));
+  tree.write(marketplacePath, toJson(marketplace));
+  for (const plugin of plugins) {
+    const pluginDir = path.join(outputDir, getPluginDir(plugin.manifest.name));
+    tree.write(path.join(pluginDir, PLUGIN_METADATA_DIR, 'plugin.json'), toJson(plugin.manifest));
+    for (const [relativePath, content] of Object.entries(plugin.files)) {
+      tree.write(path.join(pluginDir, relativePath), content);
+    }
+  }
+
+  logger.info('');
+  logger.info(`✅ Wrote ${marketplacePath}`);
+  logger.info(`   In Claude Code: /plugin marketplace add ./${outputDir}`);
+  logger.info(`   then /plugin install ${plugins[0].manifest.name}@${MARKETPLACE_NAME}`);
+}
+
+export default exportPluginsGenerator;
@@ -0,0 +1,5 @@
+export interface ExportPluginsGeneratorSchema {
+  // Relative to the workspace root; replaced on every export
+  outputDir?: string;
+  dry?: boolean;
+}
@@ -1,186 +1,137 @@
 import type { Tree } from '@nx/devkit';
-import { formatFiles, logger, writeJson } from '@nx/devkit';
+import { logger, writeJson } from '@nx/devkit';
 import * as path from 'path';
 import * as fs from 'fs';
-import * as os from 'os';
 import { prompt } from 'enquirer';
 import type { InitGeneratorSchema } from './schema';
-import { promptForMissingOptions } from '../../utils/prompt-utils';
-
-interface ContentItem {
-  description: string;
-  filePath: string;
-}
-
-// Recommended default commands for Solo Labs
-const DEFAULT_COMMANDS = [
-  'explore',
-  'explore-aegis',
-  'plan',
-  'review-plan',
-  'execute-plan',
-  'validate-invariants',
-  'debug-l-units',
-  'debug-collateral',
-  'gen-foundry-tests',
-];
-
-// Recommended default agents for Solo Labs
-const DEFAULT_AGENTS = [
-  'aegis-architect',
-  'l-unit-accountant',
-  'context-loader',
-  'planner',
-  'plan-reviewer',
-  'foundry-test-writer',
-  'security-analyzer',
-  'code-explainer',
-];
-
-interface Manifest {
-  version: string;
-  installedAt: string;
-  commands: string[];
-  agents: string[];
-  files: string[];
-}
-
-function normalizeStringArray(value: unknown): string[] {
-  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
-}
-
-function uniqueStrings(items: string[]): string[] {
-  return Array.from(new Set(items));
-}
-
-// Dynamically load available commands and agents from filesystem
-function loadAvailableContent(
-  type: 'commands' | 'agents',
-  workspaceRoot: string
-): Record<string, ContentItem> {
-  const result: Record<string, ContentItem> = {};
-
-  // First check for bundled content (when running as standalone package)
-  const bundledContentDir = path.join(__dirname, '..', '..', 'content', type);
-  if (fs.existsSync(bundledContentDir)) {
-    const contentSubDirs = fs.readdirSync(bundledContentDir).filter((item) => {
-      const itemPath = path.join(bundledContentDir, item);
-      return fs.statSync(itemPath).isDirectory();
-    });
-
-    for (const subDir of contentSubDirs) {
-      const subDirPath = path.join(bundledContentDir, subDir);
-      const files = fs.readdirSync(subDirPath).filter((f) => f.endsWith('.md'));
-
-      for (const file of files) {
-        const name = file.replace('.md', '');
-        const filePath = path.join(subDirPath, file);
-        const content = fs.readFileSync(filePath, 'utf-8');
-
-        // Extract description from frontmatter
-        const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
-        let description = '';
-        if (frontmatterMatch) {
-          const descMatch = frontmatterMatch[1].match(/description:\s*(.+)/);
-          if (descMatch) {
-            description = descMatch[1].trim();
-          }
-        }
-
-        result[name] = { description, filePath };
-      }
-    }
-  }
-
-  // Fall back to workspace lookup if bundled content not found or empty
-  if (Object.keys(result).length === 0) {
-    const baseDir = path.join(workspaceRoot, `packages/${type}`);
-    if (fs.existsSync(baseDir)) {
-      const subDirs = fs.readdirSync(baseDir).filter((item) => {
-        const itemPath = path.join(baseDir, item);
-        return fs.statSync(itemPath).isDirectory();
-      });
-
-      for (const subDir of subDirs) {
-        const srcPath = path.join(baseDir, subDir, 'src');
-        if (!fs.existsSync(srcPath)) continue;
-
-        const files = fs.readdirSync(srcPath).filter((f) => f.endsWith('.md'));
-
-        for (const file of files) {
-          const name = file.replace('.md', '');
-          const filePath = path.join(srcPath, file);
-          const content = fs.readFileSync(filePath, 'utf-8');
-
-          // Extract description from frontmatter
-          const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
-          let description = '';
-          if (frontmatterMatch) {
-            const descMatch = frontmatterMatch[1].match(/description:\s*(.+)/);
-            if (descMatch) {
-              description = descMatch[1].trim();
-            }
-          }
-
-          result[name] = { description, filePath };
-        }
-      }
-    }
-  }
-
-  return result;
-}
-
-function checkExistingFiles(
-  targetDir: string,
-  subDir: 'commands' | 'agents',
-  items: string[]
-): Set<string> {
-  const existing = new Set<string>();
-  const dir = path.join(targetDir, subDir);
-
-  for (const item of items) {
-    const filePath = path.join(dir, `${item}.md`);
-    if (fs.existsSync(filePath)) {
-      existing.add(item);
-    }
-  }
-
-  return existing;
-}
-
-function getExplicitlyProvidedOptions(): Map<string, any> {
-  const provided = new Map<string, any>();
-  const args = process.argv.slice(2);
-
-  for (const arg of args) {
-    if (arg.startsWith('--')) {
-      const [key, value] = arg.slice(2).split('=');
-      if (key) {
-        provided.set(key, value ?? true);
-      }
-    }
-  }
-
-  return provided;
-}
+import { getExplicitlyProvidedOptions, promptForMissingOptions } from '../../utils/prompt-utils';
+import {
+  KNOWLEDGE_INSTALL_DIR,
+  checkExistingFiles,
+  getInstallPath,
+  loadAvailableContent,
+  loadAvailableHooks,
+  loadAvailableKnowledge,
+  loadAvailableSkills,
+  groupSkillFiles,
+  getSkillName,
+  parseNameList,
+  readContentFile,
+  SKILL_FILENAME,
+  type ContentItem,
+  type InstallableType,
+} from '../../utils/content-utils';
+import {
+  MANIFEST_FILENAME,
+  createManifest,
+  findManifestEntry,
+  getToolkitVersion,
+  hashContent,
+  readManifest,
+  resolveInstallLocation,
+  uniqueStrings,
+  upsertManifestEntries,
+  type Manifest,
+  type ManifestFileEntry,
+  type ManifestHookEntry,
+} from '../../utils/manifest-utils';
+import { inspectInstalledFile } from '../../utils/install-state';
+import {
+  formatLineDiff,
+  mergeLocalEdits,
+  mergeOutcomeUpdatesFile,
+  writeCachedOriginal,
+  writeMergeOutcome,
+} from '../../utils/merge-utils';
+import {
+  formatComponentName,
+  resolveAgentDependencies,
+  resolveKnowledgeDependencies,
+  resolveSkillDependencies,
+} from '../../utils/dependency-utils';
+import { DEFAULT_PROFILE, loadProfiles, resolveProfiles } from '../../utils/profile-utils';
+import {
+  describeDetection,
+  detectProject,
+  getRecommendedSelection,
+} from '../../utils/project-detection';
+import {
+  CONFIG_FILENAME,
+  ToolkitConfigError,
+  applyConfigSelection,
+  findUnknownConfigNames,
+  getConfigProfiles,
+  readToolkitConfig,
+} from '../../utils/config-utils';
+import {
+  LOCKFILE_FILENAME,
+  createLock,
+  findLockMismatches,
+  getLockedNames,
+  readLock,
+} from '../../utils/lock-utils';
+import {
+  filterBlockedNames,
+  getBlockedItems,
+  loadPolicy,
+  reportBlockedByPolicy,
+  type PolicyType,
+} from '../../utils/policy-utils';
+import {
+  auditFile,
+  describeCapabilities,
+  getPermissionRules,
+  summarizeRisk,
+} from '../../utils/permission-utils';
+import {
+  SETTINGS_FILENAME,
+  addHooks,
+  addPermissionRules,
+  readHookDefinition,
+  readSettings,
+  serializeSettings,
+  type SettingsChange,
+} from '../../utils/settings-utils';
+import {
+  MCP_SERVER_NAME,
+  addMcpServer,
+  getMcpConfigPath,
+  getMcpServerConfig,
+  readMcpConfig,
+  serializeMcpServers,
+} from '../../utils/mcp-utils';
+
+// Recommended default commands and agents for Solo Labs (the "default" profile)
+export const DEFAULT_COMMANDS = loadProfiles()[DEFAULT_PROFILE].commands as string[];
+export const DEFAULT_AGENTS = loadProfiles()[DEFAULT_PROFILE].agents as string[];
 
 export async function initGenerator(tree: Tree, options: InitGeneratorSchema) {
   const explicitlyProvided = getExplicitlyProvidedOptions();
 
   // Define directory paths
-  const homeDir = os.homedir();
-  const globalDir = path.join(homeDir, '.claude');
-  const localDir = path.join(process.cwd(), '.claude');
   const workspaceRoot = process.cwd();
+  const globalDir = resolveInstallLocation('global', workspaceRoot).targetDir;
+  const localDir = resolveInstallLocation('local', workspaceRoot).targetDir;
 
   // Dynamically load available commands and agents
   const commandsContent = loadAvailableContent('commands', workspaceRoot);
   const agentsContent = loadAvailableContent('agents', workspaceRoot);
+  const knowledgeContent = loadAvailableKnowledge(workspaceRoot);
+  const hooksContent = loadAvailableHooks(workspaceRoot);
+  const skillsContent = loadAvailableSkills(workspaceRoot);
+  const skillFiles = groupSkillFiles(skillsContent);
+  // Skills are selected, described and checked against the policy through their SKILL.md
+  const skillItems = Object.fromEntries(
+    Array.from(skillFiles.keys()).map((skill) => [
+      skill,
+      skillsContent[`${skill}/${SKILL_FILENAME}`],
+    ])
+  );
 
   // Get available commands and agents
   const availableCommands = Object.keys(commandsContent);
   const availableAgents = Object.keys(agentsContent);
+  const available = { commands: availableCommands, agents: availableAgents };
 
   // Extract descriptions
   const commandDescriptions = Object.fromEntries(
@@ -196,6 +147,135 @@ export async function initGenerator(tree: Tree, options: InitGeneratorSchema) {
   const localExistingCommands = checkExistingFiles(localDir, 'commands', availableCommands);
   const localExistingAgents = checkExistingFiles(localDir, 'agents', availableAgents);
 
+  // The organization policy applies in every mode, --force and --frozen included
+  const policyFile = loadPolicy();
+  const blocked: Record<PolicyType, Map<string, string>> = {
+    commands: getBlockedItems(policyFile?.policy ?? null, 'commands', commandsContent),
+    agents: getBlockedItems(policyFile?.policy ?? null, 'agents', agentsContent),
+    knowledge: getBlockedItems(policyFile?.policy ?? null, 'knowledge', knowledgeContent),
+    skills: getBlockedItems(policyFile?.policy ?? null, 'skills', skillItems),
+    hooks: getBlockedItems(policyFile?.policy ?? null, 'hooks', hooksContent),
+  };
+  if (policyFile) {
+    logger.info(`🛡️  Install policy: ${policyFile.filePath}`);
+  }
+  // "/deploy" or "infrastructure-agent" -> why the policy blocks it
+  const blockedByPolicy = new Map<string, string>();
+  const enforcePolicy = (type: PolicyType, names: string[]) =>
+    filterBlockedNames(blocked[type], type, names, blockedByPolicy);
+
+  // Hooks run shell commands without asking, so only those named with --hooks are installed
+  const requestedHooks = parseNameList(options.hooks) ?? [];
+  const unknownHooks = requestedHooks.filter((name) => !hooksContent[name]);
+  if (unknownHooks.length > 0) {
+    throw new Error(
+      `Unknown hooks: ${unknownHooks.join(', ')}. Available: ${Object.keys(hooksContent).sort().join(', ')}`
+    );
+  }
+  const selectedHooks = enforcePolicy('hooks', requestedHooks);
+
+  // Skills are opt-in too: --skills installs all of them, --skills=<a,b> the named ones
+  const requestedSkills =
+    options.skills === true ? Array.from(skillFiles.keys()) : (parseNameList(options.skills) ?? []);
+  const unknownSkills = requestedSkills.filter((name) => !skillFiles.has(name));
+  if (unknownSkills.length > 0) {
+    throw new Error(
+      `Unknown skills: ${unknownSkills.join(', ')}. Available: ${Array.from(skillFiles.keys()).join(', ')}`
+    );
+  }
+
+  // Local installs are tailored to the project; global ones keep the toolkit defaults
+  const detection = detectProject(workspaceRoot);
+  const detectedProject = describeDetection(detection);
+  const recommended = getRecommendedSelection(detection, available);
+
+  // --frozen installs exactly the files an earlier --lock recorded, or nothing at all
+  const lock = options.frozen ? readLock(workspaceRoot) : null;
+  if (options.frozen) {
+    if (options.lock) {
+      throw new Error('Use either --lock or --frozen, not both');
+    }
+    if (
+      ['profile', 'commands', 'agents', 'skills'].some((key) => explicitlyProvided.has(key)) ||
+      options.installMode === 'custom'
+    ) {
+      throw new Error(
+        '--frozen installs the locked selection; it cannot be combined with --profile, --commands, --agents, --skills or --installMode=custom'
+      );
+    }
+    if (!lock) {
+      throw new Error(`--frozen needs ${LOCKFILE_FILENAME}; create it with "init --lock"`);
+    }
+    const mismatches = findLockMismatches(lock, {
+      commands: commandsContent,
+      agents: agentsContent,
+      knowledge: knowledgeContent,
+      skills: skillsContent,
+    });
+    if (mismatches.length > 0) {
+      const fix =
+        lock.toolkitVersion === getToolkitVersion()
+          ? 'Re-run "init --lock" to accept the new content.'
+          : `Install with toolkit ${lock.toolkitVersion} (this is ${getToolkitVersion()}), or re-run "init --lock" to accept the new content.`;
+      throw new Error(
+        `Bundled content differs from ${LOCKFILE_FILENAME}:\n${mismatches.map((line) => `  - ${line}`).join('\n')}\n${fix}`
+      );
+    }
+    options = { ...options, installMode: 'default', installationType: lock.installationType };
+    explicitlyProvided.set('installMode', 'default');
+    explicitlyProvided.set('installationType', lock.installationType);
+  }
+  const lockedNames = lock ? getLockedNames(lock) : null;
+
+  // .claude-toolkit.json reproduces the team's setup; options passed on the CLI override it
+  const teamConfig = readToolkitConfig(workspaceRoot);
+  const configProvided = new Set<string>();
+  if (teamConfig) {
+    const { config, filePath } = teamConfig;
+    const problems = findUnknownConfigNames(config, available);
+    if (problems.length > 0) {
+      throw new ToolkitConfigError(filePath, problems);
+    }
+    const toolkitVersion = getToolkitVersion();
+    if (config.toolkitVersion && config.toolkitVersion !== toolkitVersion) {
+      throw new Error(
+        `${path.basename(filePath)} pins toolkit ${config.toolkitVersion}, but this is ${toolkitVersion}. Run: npx @solo-labs/ai-toolkit-nx-claude@${config.toolkitVersion} init`
+      );
+    }
+
+    // Without a profile the file still describes a default-mode install
+    const fromConfig: Partial<InitGeneratorSchema> = {
+      profile: getConfigProfiles(config).join(',') || DEFAULT_PROFILE,
+      installationType: config.installationType,
+      installKnowledge: config.installKnowledge,
+    };
+    if (explicitlyProvided.has('installMode')) {
+      delete fromConfig.profile;
+    }
+    for (const [key, value] of Object.entries(fromConfig)) {
+      if (value !== undefined && !explicitlyProvided.has(key)) {
+        options = { ...options, [key]: value };
+        explicitlyProvided.set(key, value);
+        configProvided.add(key);
+      }
+    }
+    logger.info(`📄 Using ${path.relative(workspaceRoot, filePath)}`);
+  }
+
+  // --profile picks a fixed selection, so it implies default mode
+  const requestedProfiles = parseNameList(options.profile) ?? [];
+  if (requestedProfiles.length > 0) {
+    if (options.installMode === 'custom') {
+      throw new Error(
+        '--profile installs a fixed selection; it cannot be combined with --installMode=custom'
+      );
+    }
+    // Fail on unknown names before prompting
+    resolveProfiles(requestedProfiles, available);
+    options = { ...options, installMode: 'default' };
+    explicitlyProvided.set('installMode', 'default');
+  }
+
   // Handle prompting via schema-driven system
   // When bundled, __dirname points to dist root, so schema is in generators/init/
   const schemaPath = path.join(__dirname, 'generators', 'init', 'schema.json');
@@ -216,6 +296,14 @@ export async function initGenerator(tree: Tree, options: InitGeneratorSchema) {
         localExistingAgents,
         defaultCommands: DEFAULT_COMMANDS,
         defaultAgents: DEFAULT_AGENTS,
+        recommendedCommands: recommended?.commands,
+        recommendedAgents: recommended?.agents,
+        detectedProject,
+        blockedCommands: blocked.commands,
+        blockedAgents: blocked.agents,
+        profiles: Object.entries(loadProfiles())
+          .filter(([name]) => name !== DEFAULT_PROFILE)
+          .map(([name, profile]) => ({ name, description: profile.description })),
       },
       explicitlyProvided
     );
@@ -227,6 +315,10 @@ export async function initGenerator(tree: Tree, options: InitGeneratorSchema) {
     throw error;
   }
 
+  // The standalone CLI passes --commands/--agents as comma-separated strings
+  normalizedOptions.commands = parseNameList(normalizedOptions.commands);
+  normalizedOptions.agents = parseNameList(normalizedOptions.agents);
+
   // Apply defaults for "default" mode
   const installMode = normalizedOptions.installMode;
   if (installMode === 'default') {
@@ -237,14 +329,33 @@ export async function initGenerator(tree: Tree, options: InitGeneratorSchema) {
     if (!normalizedOptions.installationType) {
       normalizedOptions.installationType = 'global';
     }
-    normalizedOptions.commands = DEFAULT_COMMANDS.filter((c) => availableCommands.includes(c));
-    normalizedOptions.agents = DEFAULT_AGENTS.filter((a) => availableAgents.includes(a));
+    // Profiles win over project detection, which wins over the toolkit defaults
+    const profileNames = parseNameList(normalizedOptions.profile) ?? [];
+    const tailored = normalizedOptions.installationType === 'local' ? recommended : null;
+    let selection =
+      lockedNames ??
+      (profileNames.length > 0
+        ? resolveProfiles(profileNames, available)
+        : (tailored ?? resolveProfiles([DEFAULT_PROFILE], available)));
+    if (teamConfig && !lockedNames) {
+      selection = applyConfigSelection(selection, teamConfig.config);
+    }
+    normalizedOptions.commands = selection.commands;
+    normalizedOptions.agents = selection.agents;
     normalizedOptions.installCommands = true;
     normalizedOptions.installAgents = true;
-    normalizedOptions.dry = false;
+    // --dry still previews the default installation
+    normalizedOptions.dry = normalizedOptions.dry === true;
 
     const locationLabel = normalizedOptions.installationType === 'global' ? 'Global (~/.claude)' : 'Local (./.claude)';
     logger.info(`📍 Location: ${locationLabel}`);
+    if (lock) {
+      logger.info(`🔒 Frozen: ${LOCKFILE_FILENAME} (toolkit ${lock.toolkitVersion})`);
+    } else if (profileNames.length > 0) {
+      logger.info(`🧩 Profiles: ${profileNames.join(', ')}`);
+    } else if (tailored) {
+      logger.info(`🔎 Detected: ${detectedProject.join(', ')}`);
+    }
     logger.info(`📝 Commands: ${normalizedOptions.commands.length} pre-selected`);
     logger.info(`🤖 Agents: ${normalizedOptions.agents.length} pre-selected\n`);
   }
@@ -266,15 +377,16 @@ export async function initGenerator(tree: Tree, options: InitGeneratorSchema) {
   if (normalizedOptions.installAgents === false) {
     normalizedOptions.agents = [];
   }
+  normalizedOptions.commands = enforcePolicy('commands', normalizedOptions.commands || []);
+  normalizedOptions.agents = enforcePolicy('agents', normalizedOptions.agents || []);
 
   // Determine target directory
   const isGlobalInstall = normalizedOptions.installationType === 'global';
 
-  const targetDir = isGlobalInstall
-    ? path.join(homeDir, '.claude')
-    : path.join(workspaceRoot, '.claude');
-
-  const relativeTargetDir = isGlobalInstall ? path.relative(workspaceRoot, targetDir) : '.claude';
+  const { targetDir, relativeTargetDir } = resolveInstallLocation(
+    normalizedOptions.installationType,
+    workspaceRoot
+  );
 
   // Handle dry-run mode
   const isDryRun = normalizedOptions.dry === true;
@@ -286,11 +398,135 @@ export async function initGenerator(tree: Tree, options: InitGeneratorSchema) {
     opts['non-interactive'] ||
     opts['no-interactive'];
 
+  // Pull in agents that the selected components delegate to via Task(subagent_type:X)
+  // A frozen selection already contains the agents it needed when it was locked
+  const skipDependencies = lock || opts.deps === false || opts.noDeps || opts['no-deps'];
+  const dependencies = resolveAgentDependencies(
+    { commands: normalizedOptions.commands || [], agents: normalizedOptions.agents || [] },
+    { commands: commandsContent, agents: agentsContent },
+    isGlobalInstall
+      ? globalExistingAgents
+      : new Set([...localExistingAgents, ...globalExistingAgents])
+  );
+  let pulledInAgents = new Map<string, string[]>();
+
+  // Agents the team config excludes are never pulled back in, just like ones the policy blocks
+  const excludedAgents = new Set(
+    teamConfig && !lockedNames ? (teamConfig.config.agents?.exclude ?? []) : []
+  );
+  dependencies.added.forEach((requiredBy, agentName) => {
+    if (excludedAgents.has(agentName)) {
+      logger.warn(
+        `⚠️  Agent "${agentName}" (required by ${requiredBy.join(', ')}) is excluded by ${CONFIG_FILENAME}`
+      );
+      dependencies.added.delete(agentName);
+    }
+  });
+
+  if (dependencies.added.size > 0) {
+    let accepted = !skipDependencies;
+    if (accepted && installMode === 'custom' && !isNonInteractive && !isDryRun) {
+      logger.info('\n🔗 The selected components delegate to agents you did not select:');
+      dependencies.added.forEach((requiredBy, agentName) => {
+        logger.info(`   ${agentName} (required by ${requiredBy.join(', ')})`);
+      });
+      const { confirmed } = await prompt<{ confirmed: boolean }>({
+        type: 'confirm',
+        name: 'confirmed',
+        message: 'Install these agents too?',
+        initial: true,
+      });
+      accepted = confirmed;
+    }
+
+    if (accepted) {
+      const allowedAgents = enforcePolicy('agents', Array.from(dependencies.added.keys()));
+      pulledInAgents = new Map(allowedAgents.map((name) => [name, dependencies.added.get(name)!]));
+      dependencies.added.forEach((requiredBy, agentName) => {
+        if (!pulledInAgents.has(agentName)) {
+          logger.warn(
+            `⚠️  Agent "${agentName}" (required by ${requiredBy.join(', ')}) is blocked by policy`
+          );
+        }
+      });
+      normalizedOptions.agents = [...(normalizedOptions.agents || []), ...allowedAgents];
+    } else {
+      logger.warn(
+        `⚠️  Skipping ${dependencies.added.size} required agents: ${Array.from(dependencies.added.keys()).join(', ')}`
+      );
+      logger.warn('   Commands that delegate to them will fail until they are installed.');
+    }
+  }
+  dependencies.unavailable.forEach((requiredBy, agentName) => {
+    logger.warn(
+      `⚠️  Agent "${agentName}" (used by ${requiredBy.join(', ')}) is not shipped by this toolkit`
+    );
+  });
+
+  // Knowledge docs declared by the final agent selection via "knowledge:" in their frontmatter
+  const knowledgeMode = normalizedOptions.installKnowledge ?? 'required';
+  const knowledgeDependencies = resolveKnowledgeDependencies(
+    normalizedOptions.agents || [],
+    agentsContent,
+    knowledgeContent
+  );
+  const selectedKnowledge = enforcePolicy(
+    'knowledge',
+    lockedNames
+      ? lockedNames.knowledge
+      : knowledgeMode === 'all'
+        ? Object.keys(knowledgeContent)
+        : knowledgeMode === 'required'
+          ? Array.from(knowledgeDependencies.required.keys())
+          : []
+  );
+  if (knowledgeMode !== 'none') {
+    knowledgeDependencies.unavailable.forEach((requiredBy, docName) => {
+      logger.warn(
+        `⚠️  Knowledge doc "${docName}" (declared by ${requiredBy.join(', ')}) is not shipped by this toolkit`
+      );
+    });
+  }
+
+  // Skills the selected skills link to, e.g. the knowledge skill behind an agent skill
+  const skillDependencies = resolveSkillDependencies(requestedSkills, skillsContent);
+  if (skillDependencies.added.size > 0 && skipDependencies && !lock) {
+    logger.warn(
+      `⚠️  Skipping ${skillDependencies.added.size} linked skills: ${Array.from(skillDependencies.added.keys()).join(', ')}`
+    );
+    logger.warn('   Links from the selected skills into them will not resolve.');
+  }
+  skillDependencies.unavailable.forEach((requiredBy, skillName) => {
+    logger.warn(
+      `⚠️  Skill "${skillName}" (linked from ${requiredBy.join(', ')}) is not shipped by this toolkit`
+    );
+  });
+  const selectedSkills = enforcePolicy(
+    'skills',
+    lockedNames
+      ? uniqueStrings(lockedNames.skills.map(getSkillName))
+      : [
+          ...requestedSkills,
+          ...(skipDependencies ? [] : Array.from(skillDependencies.added.keys())),
+        ]
+  );
+  const pulledInSkills = new Map(
+    Array.from(skillDependencies.added).filter(
+      ([skillName]) => !skipDependencies && selectedSkills.includes(skillName)
+    )
+  );
+  // Every file of a selected skill is installed and tracked on its own
+  const selectedSkillFiles = lockedNames
+    ? lockedNames.skills.filter((key) => selectedSkills.includes(getSkillName(key)))
+    : selectedSkills.flatMap((skill) => skillFiles.get(skill) ?? []);
+
+  // A global location chosen in the team config needs no confirmation
   if (
     isGlobalInstall &&
     !isDryRun &&
     !normalizedOptions.force &&
-    !isNonInteractive
+    !isNonInteractive &&
+    !configProvided.has('installationType')
   ) {
     const commandCount = (normalizedOptions.commands || []).length;
     const agentCount = (normalizedOptions.agents || []).length;
@@ -299,10 +535,16 @@ export async function initGenerator(tree: Tree, options: InitGeneratorSchema) {
     logger.info(`📍 Installing to ~/.claude (global - available in all projects)`);
     logger.info('');
     logger.info(`   ✓ Tiny footprint (~650KB of markdown files)`);
-    logger.info(`   ✓ Easy to remove: rm -rf ~/.claude/{agents,commands,manifest.json}`);
+    logger.info(`   ✓ Easy to remove: solo-labs-nx-claude uninstall --global`);
     logger.info(`   ✓ Won't touch any project files or dependencies`);
     logger.info('');
     logger.info(`   ${commandCount} commands and ${agentCount} agents will be installed.`);
+    if (selectedKnowledge.length > 0) {
+      logger.info(`   ${selectedKnowledge.length} knowledge docs go to ${KNOWLEDGE_INSTALL_DIR}/.`);
+    }
+    if (selectedSkills.length > 0) {
+      logger.info(`   ${selectedSkills.length} skills go to skills/.`);
+    }
     logger.info('');
 
     const { confirmed } = await prompt<{ confirmed: boolean }>({
@@ -329,75 +571,125 @@ export async function initGenerator(tree: Tree, options: InitGeneratorSchema) {
   // Collect installed items
   const installedCommands: string[] = [];
   const installedAgents: string[] = [];
+  const installedKnowledge: string[] = [];
+  const installedSkillFiles: string[] = [];
   const installedFiles: string[] = [];
+  const installedEntries: ManifestFileEntry[] = [];
+  const installTimestamp = new Date().toISOString();
+  const toolkitVersion = getToolkitVersion();
   const skippedExistingFiles: string[] = [];
   const overwrittenFiles: string[] = [];
 
-  // Install selected commands
-  const commandsToInstall = normalizedOptions.commands || [];
-
-  for (const commandName of commandsToInstall) {
-    const contentItem = commandsContent[commandName];
-    const destPath = path.join(targetDir, 'commands', `${commandName}.md`);
-    const relativeDestPath = path.join(relativeTargetDir, 'commands', `${commandName}.md`);
-    const relativeFilePath = path.relative(targetDir, destPath);
-
-    try {
-      if (contentItem && fs.existsSync(contentItem.filePath)) {
-        const destExists = fs.existsSync(destPath);
-        if (destExists && !forceOverwrite) {
-          skippedExistingFiles.push(relativeFilePath);
-          continue;
-        }
-
-        const content = fs.readFileSync(contentItem.filePath, 'utf-8');
-        if (!isDryRun) {
-          tree.write(relativeDestPath, content);
-        }
-        if (destExists) {
-          overwrittenFiles.push(relativeFilePath);
-        }
-        installedCommands.push(commandName);
-        installedFiles.push(relativeFilePath);
-      } else {
-        logger.warn(`Command file not found: ${commandName}`);
-      }
-    } catch (error) {
-      logger.warn(`Error reading command ${commandName}: ${error}`);
-    }
+  // Previously installed entries provide the merge base for files edited since install
+  let existingManifest: Manifest | null = null;
+  let manifestUnreadable = false;
+  try {
+    existingManifest = readManifest(targetDir);
+  } catch (error) {
+    manifestUnreadable = true;
+    logger.warn(`⚠️  Failed to read existing manifest.json (will rewrite): ${error}`);
+    logger.warn(
+      '   The old file is kept as manifest.json.bak; run "solo-labs-nx-claude doctor --fix" afterwards to re-track previously installed files.'
+    );
   }
+  const conflictStyle = normalizedOptions.conflictStyle ?? 'rej';
+  const mergedFiles: string[] = [];
+  const conflictedFiles: string[] = [];
+
+  // Install selected commands, agents, knowledge docs and skill files
+  const selections: Array<[InstallableType, string[], Record<string, ContentItem>]> = [
+    ['commands', normalizedOptions.commands || [], commandsContent],
+    ['agents', normalizedOptions.agents || [], agentsContent],
+    ['knowledge', selectedKnowledge, knowledgeContent],
+    ['skills', selectedSkillFiles, skillsContent],
+  ];
+  const labels: Record<InstallableType, string> = {
+    commands: 'Command',
+    agents: 'Agent',
+    knowledge: 'Knowledge doc',
+    skills: 'Skill file',
+  };
+  const installedNames: Record<InstallableType, string[]> = {
+    commands: installedCommands,
+    agents: installedAgents,
+    knowledge: installedKnowledge,
+    skills: installedSkillFiles,
+  };
 
-  // Install selected agents
-  const agentsToInstall = normalizedOptions.agents || [];
-
-  for (const agentName of agentsToInstall) {
-    const contentItem = agentsContent[agentName];
-    const destPath = path.join(targetDir, 'agents', `${agentName}.md`);
-    const relativeDestPath = path.join(relativeTargetDir, 'agents', `${agentName}.md`);
-    const relativeFilePath = path.relative(targetDir, destPath);
+  for (const [type, names, availableContent] of selections) {
+    const label = labels[type];
+
+    for (const name of names) {
+      const contentItem = availableContent[name];
+      const relativeFilePath = getInstallPath(type, name, contentItem);
+      const destPath = path.join(targetDir, relativeFilePath);
+      const relativeDestPath = path.join(relativeTargetDir, relativeFilePath);
+
+      try {
+        if (contentItem && fs.existsSync(contentItem.filePath)) {
+          const destExists = fs.existsSync(destPath);
+          if (destExists && !forceOverwrite) {
+            skippedExistingFiles.push(relativeFilePath);
+            continue;
+          }
 
-    try {
-      if (contentItem && fs.existsSync(contentItem.filePath)) {
-        const destExists = fs.existsSync(destPath);
-        if (destExists && !forceOverwrite) {
-          skippedExistingFiles.push(relativeFilePath);
-          continue;
-        }
+          const content = readContentFile(contentItem);
+          const entry: ManifestFileEntry = {
+            path: relativeFilePath,
+            type,
+            name,
+            sha256: hashContent(content),
+            package: contentItem.package,
+            toolkitVersion,
+            installedAt: installTimestamp,
+          };
+
+          // Files edited since install are merged with the new content instead of replaced
+          const previousEntry = existingManifest
+            ? findManifestEntry(existingManifest, relativeFilePath)
+            : undefined;
+          const outcome =
+            destExists &&
+            previousEntry &&
+            inspectInstalledFile(targetDir, previousEntry, contentItem).modified
+              ? mergeLocalEdits(
+                  targetDir,
+                  previousEntry,
+                  fs.readFileSync(destPath, 'utf-8'),
+                  content
+                )
+              : null;
+
+          if (outcome && outcome.status !== 'no-base') {
+            (outcome.status === 'merged' ? mergedFiles : conflictedFiles).push(relativeFilePath);
+            if (!isDryRun) {
+              writeMergeOutcome(tree, relativeDestPath, outcome, conflictStyle);
+            }
+            if (!mergeOutcomeUpdatesFile(outcome, conflictStyle)) {
+              // The previous entry and cached original stay the merge base for the next attempt
+              continue;
+            }
+          } else {
+            if (!isDryRun) {
+              tree.write(relativeDestPath, content);
+            }
+            if (destExists) {
+              overwrittenFiles.push(relativeFilePath);
+            }
+          }
 
-        const content = fs.readFileSync(contentItem.filePath, 'utf-8');
-        if (!isDryRun) {
-          tree.write(relativeDestPath, content);
-        }
-        if (destExists) {
-          overwrittenFiles.push(relativeFilePath);
+          if (!isDryRun) {
+            writeCachedOriginal(tree, relativeTargetDir, relativeFilePath, content);
+          }
+          installedNames[type].push(name);
+          installedFiles.push(relativeFilePath);
+          installedEntries.push(entry);
+        } else {
+          logger.warn(`${label} file not found: ${name}`);
         }
-        installedAgents.push(agentName);
-        installedFiles.push(relativeFilePath);
-      } else {
-        logger.warn(`Agent file not found: ${agentName}`);
+      } catch (error) {
+        logger.warn(`Error reading ${label.toLowerCase()} ${name}: ${error}`);
       }
-    } catch (error) {
-      logger.warn(`Error reading agent ${agentName}: ${error}`);
     }
   }
 
@@ -410,8 +702,22 @@ export async function initGenerator(tree: Tree, options: InitGeneratorSchema) {
         : `Local (${targetDir})`
     }`
   );
+  if (!isGlobalInstall) {
+    logger.info(
+      `  Project: ${detectedProject.length > 0 ? detectedProject.join(', ') : 'no Foundry, subgraph or frontend markers found'}`
+    );
+  }
   logger.info(`  Commands: ${installedCommands.length} to install`);
   logger.info(`  Agents: ${installedAgents.length} to install`);
+  if (knowledgeMode !== 'none') {
+    logger.info(`  Knowledge: ${installedKnowledge.length} docs to install`);
+  }
+  const installedSkills = uniqueStrings(installedSkillFiles.map(getSkillName));
+  if (selectedSkills.length > 0) {
+    logger.info(
+      `  Skills: ${installedSkills.length} to install (${installedSkillFiles.length} files)`
+    );
+  }
 
   if (skippedExistingFiles.length > 0) {
     logger.info(`  Skipped: ${skippedExistingFiles.length} existing files (use --force to overwrite)`);
@@ -419,6 +725,106 @@ export async function initGenerator(tree: Tree, options: InitGeneratorSchema) {
   if (overwrittenFiles.length > 0) {
     logger.info(`  Overwriting: ${overwrittenFiles.length} existing files`);
   }
+  if (mergedFiles.length > 0) {
+    logger.info(`  Merging: ${mergedFiles.length} locally edited files`);
+  }
+  if (pulledInAgents.size > 0) {
+    logger.info(`  Dependencies: ${pulledInAgents.size} agents pulled in by the selection`);
+    pulledInAgents.forEach((requiredBy, agentName) => {
+      logger.info(`    + ${agentName} (required by ${requiredBy.join(', ')})`);
+    });
+  }
+  if (pulledInSkills.size > 0) {
+    logger.info(`  Dependencies: ${pulledInSkills.size} skills linked from the selection`);
+    pulledInSkills.forEach((requiredBy, skillName) => {
+      logger.info(`    + ${skillName} (linked from ${requiredBy.join(', ')})`);
+    });
+  }
+  if (conflictedFiles.length > 0) {
+    logger.info(`  Conflicts: ${conflictedFiles.length} locally edited files could not be merged`);
+  }
+  if (blockedByPolicy.size > 0) {
+    logger.info(`  Blocked: ${blockedByPolicy.size} components blocked by policy`);
+  }
+
+  // Risk summary of what the selected components may do (see "solo-labs-nx-claude audit")
+  const permissionAudits = [
+    ...(normalizedOptions.commands || [])
+      .filter((name) => commandsContent[name])
+      .map((name) => auditFile('commands', name, commandsContent[name].filePath)),
+    ...(normalizedOptions.agents || [])
+      .filter((name) => agentsContent[name])
+      .map((name) => auditFile('agents', name, agentsContent[name].filePath)),
+  ];
+  if (permissionAudits.length > 0) {
+    logger.info(`  Permissions: ${summarizeRisk(permissionAudits)}`);
+    permissionAudits
+      .filter((audit) => audit.risk === 'high')
+      .forEach((audit) => {
+        logger.info(
+          `    ! ${formatComponentName(audit.type, audit.name)}: ${describeCapabilities(audit)}`
+        );
+      });
+  }
+
+  // settings.json changes: --hooks adds hook groups, --configurePermissions pre-approves the
+  // declared tools so Claude Code stops prompting for them
+  let hookChange: SettingsChange | null = null;
+  let permissionChange: SettingsChange | null = null;
+  if (selectedHooks.length > 0 || normalizedOptions.configurePermissions) {
+    let settings = readSettings(targetDir);
+    if (selectedHooks.length > 0) {
+      const hooks = selectedHooks.map((name) =>
+        readHookDefinition(name, hooksContent[name].filePath)
+      );
+      const previous = (existingManifest?.hooks ?? []).filter((entry) =>
+        selectedHooks.includes(entry.name)
+      );
+      hookChange = addHooks(settings, hooks, previous);
+      settings = hookChange.after;
+      const { added } = hookChange;
+      logger.info(`  Hooks: ${added.length} to add to ${SETTINGS_FILENAME}`);
+      hooks.forEach((hook) => {
+        const matcher = hook.group.matcher ? ` ${hook.group.matcher}` : '';
+        const state = added.includes(hook.name) ? '' : ' - already installed';
+        logger.info(`    + ${hook.name} (${hook.event}${matcher})${state}`);
+      });
+    }
+    if (normalizedOptions.configurePermissions) {
+      const { rules, withheld, unknown } = getPermissionRules(permissionAudits);
+      permissionChange = addPermissionRules(settings, rules);
+      logger.info(
+        `  Settings: ${permissionChange.added.length} permission rules to add to ${SETTINGS_FILENAME}`
+      );
+      if (withheld.length > 0) {
+        logger.info(`    Still prompts for: ${withheld.join(', ')}`);
+      }
+      if (unknown.length > 0) {
+        logger.info(`    Not added (not a Claude Code tool): ${unknown.join(', ')}`);
+      }
+    }
+  }
+  const settingsBefore = hookChange?.before ?? permissionChange?.before;
+  const settingsAfter = permissionChange?.after ?? hookChange?.after;
+
+  // --registerMcp points Claude Code at the knowledge server ("solo-labs-nx-claude mcp")
+  const mcpConfigPath = getMcpConfigPath(normalizedOptions.installationType, workspaceRoot);
+  const mcpServerConfig = getMcpServerConfig(normalizedOptions.installationType);
+  const mcpChange = normalizedOptions.registerMcp
+    ? addMcpServer(readMcpConfig(mcpConfigPath), mcpServerConfig)
+    : null;
+  if (mcpChange) {
+    logger.info(
+      mcpChange.added.length > 0
+        ? `  MCP server: ${MCP_SERVER_NAME} to register in ${mcpConfigPath}`
+        : `  MCP server: ${MCP_SERVER_NAME} - already registered`
+    );
+  }
+
+  // --lock records the whole selection, including files that were already installed
+  const newLock = normalizedOptions.lock
+    ? createLock(normalizedOptions.installationType ?? 'global', selections)
+    : null;
 
   if (isDryRun) {
     logger.info('\n📋 Would install:');
@@ -431,35 +837,99 @@ export async function initGenerator(tree: Tree, options: InitGeneratorSchema) {
         logger.info(`  - ${file}`);
       });
     }
+    if (conflictedFiles.length > 0) {
+      logger.info('\n⚠️ Would conflict:');
+      conflictedFiles.forEach((file) => {
+        logger.info(`  - ${file}`);
+      });
+    }
+    if (blockedByPolicy.size > 0) {
+      logger.info('\n🚫 Blocked by policy:');
+      blockedByPolicy.forEach((reason, name) => {
+        logger.info(`  - ${name} (${reason})`);
+      });
+    }
+    if (newLock) {
+      logger.info(`\n🔒 Would lock ${newLock.files.length} files in ${LOCKFILE_FILENAME}`);
+    }
+    if (settingsBefore && settingsAfter) {
+      logger.info(`\n⚙️  Would update ${path.join(targetDir, SETTINGS_FILENAME)}:`);
+      if (settingsAfter === settingsBefore) {
+        logger.info('  (no changes)');
+      }
+      formatLineDiff(serializeSettings(settingsBefore), serializeSettings(settingsAfter)).forEach(
+        (line) => {
+          logger.info(`  ${line}`);
+        }
+      );
+    }
+    if (mcpChange && mcpChange.after !== mcpChange.before) {
+      logger.info(`\n🔌 Would update ${mcpConfigPath}:`);
+      formatLineDiff(
+        serializeMcpServers(mcpChange.before),
+        serializeMcpServers(mcpChange.after)
+      ).forEach((line) => {
+        logger.info(`  ${line}`);
+      });
+    }
     return;
   }
 
   // Merge with existing manifest if present (avoid losing prior installs)
-  const manifestPath = path.join(targetDir, 'manifest.json');
-  let existingManifest: Partial<Manifest> | null = null;
-  if (fs.existsSync(manifestPath)) {
-    try {
-      existingManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as Partial<Manifest>;
-    } catch (error) {
-      logger.warn(`⚠️  Failed to read existing manifest.json (will rewrite): ${error}`);
-    }
+  let manifest = upsertManifestEntries(existingManifest ?? createManifest(), installedEntries);
+
+  if (settingsAfter && settingsAfter !== settingsBefore) {
+    writeJson(tree, path.join(relativeTargetDir, SETTINGS_FILENAME), settingsAfter);
+  }
+  // Only rules that were not already allowed are recorded, so uninstall never removes the user's
+  if (permissionChange && permissionChange.added.length > 0) {
+    manifest = {
+      ...manifest,
+      permissions: uniqueStrings([...manifest.permissions, ...permissionChange.added]),
+    };
+  }
+  // Hooks are recorded with the group as written; a changed definition replaces the old record
+  const addedHookNames = hookChange?.added ?? [];
+  if (addedHookNames.length > 0) {
+    const installedAt = new Date().toISOString();
+    const addedHooks: ManifestHookEntry[] = addedHookNames.map((name) => ({
+      ...readHookDefinition(name, hooksContent[name].filePath),
+      toolkitVersion: getToolkitVersion(),
+      installedAt,
+    }));
+    manifest = {
+      ...manifest,
+      hooks: [
+        ...manifest.hooks.filter((entry) => !addedHookNames.includes(entry.name)),
+        ...addedHooks,
+      ],
+    };
   }
 
-  const manifest: Manifest = {
-    version: '1.0.0',
-    installedAt: new Date().toISOString(),
-    commands: uniqueStrings([
-      ...normalizeStringArray(existingManifest?.commands),
-      ...installedCommands,
-    ]),
-    agents: uniqueStrings([...normalizeStringArray(existingManifest?.agents), ...installedAgents]),
-    files: uniqueStrings([...normalizeStringArray(existingManifest?.files), ...installedFiles]),
-  };
+  // Recorded only when init wrote the entry, so uninstall never removes one the user added
+  if (mcpChange && mcpChange.added.length > 0) {
+    writeJson(tree, path.relative(workspaceRoot, mcpConfigPath), mcpChange.after);
+    manifest = {
+      ...manifest,
+      mcpServer: {
+        name: MCP_SERVER_NAME,
+        configPath: mcpConfigPath,
+        config: mcpServerConfig,
+        toolkitVersion: getToolkitVersion(),
+        installedAt: new Date().toISOString(),
+      },
+    };
+  }
 
-  const relativeManifestPath = path.join(relativeTargetDir, 'manifest.json');
+  const relativeManifestPath = path.join(relativeTargetDir, MANIFEST_FILENAME);
+  if (manifestUnreadable) {
+    tree.rename(relativeManifestPath, `${relativeManifestPath}.bak`);
+  }
+  // Markdown is written verbatim (no formatFiles) so installed files match the bundled sources
   writeJson(tree, relativeManifestPath, manifest);
-
-  await formatFiles(tree);
+  if (newLock) {
+    writeJson(tree, LOCKFILE_FILENAME, newLock);
+  }
 
   logger.info('✅ Solo Labs Claude Code configuration installed successfully!');
   logger.info(`📁 Location: ${targetDir}`);
@@ -472,6 +942,37 @@ export async function initGenerator(tree: Tree, options: InitGeneratorSchema) {
   if (installedAgents.length > 0) {
     logger.info(`   Agents: ${installedAgents.join(', ')}`);
   }
+  if (installedKnowledge.length > 0) {
+    logger.info(`   Knowledge (${KNOWLEDGE_INSTALL_DIR}/): ${installedKnowledge.join(', ')}`);
+  }
+  if (installedSkills.length > 0) {
+    logger.info(`   Skills (skills/): ${installedSkills.join(', ')}`);
+  }
+  if (newLock) {
+    logger.info(`   Locked: ${newLock.files.length} files in ${LOCKFILE_FILENAME} (commit it)`);
+  }
+  if (addedHookNames.length > 0) {
+    logger.info(`   Hooks (${SETTINGS_FILENAME}): ${addedHookNames.join(', ')}`);
+  }
+  if (permissionChange && permissionChange.added.length > 0) {
+    logger.info(
+      `   Permissions: ${permissionChange.added.length} rules added to ${SETTINGS_FILENAME} (removed again by uninstall)`
+    );
+  }
+  if (mcpChange && mcpChange.added.length > 0) {
+    logger.info(`   MCP server: ${MCP_SERVER_NAME} in ${mcpConfigPath}`);
+  }
+  reportBlockedByPolicy(blockedByPolicy);
+  if (conflictedFiles.length > 0) {
+    logger.warn('\n⚠️  Some of your edits conflict with the new toolkit content:');
+    conflictedFiles.forEach((file) => {
+      logger.warn(
+        conflictStyle === 'markers'
+          ? `   ${file} (resolve the conflict markers)`
+          : `   ${file} (left unchanged; merge result in ${file}.rej)`
+      );
+    });
+  }
 
   // Post-install success path
   logger.info('\n🎯 Try it now:');
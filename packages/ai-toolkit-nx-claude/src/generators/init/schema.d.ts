@@ -1,5 +1,7 @@
 export interface InitGeneratorSchema {
   installMode?: 'default' | 'custom';
+  // Comma-separated profile names from profiles.json, e.g. "contracts,reviewer"
+  profile?: string;
   installationType?: 'global' | 'local';
   confirmLocalPath?: boolean;
   installCommands?: boolean;
@@ -8,7 +10,20 @@ export interface InitGeneratorSchema {
   agentSelectionMode?: 'all' | 'specific';
   commands?: string[];
   agents?: string[];
+  installKnowledge?: 'required' | 'all' | 'none';
   dry?: boolean;
+  deps?: boolean;
+  // Write claude-toolkit.lock.json / install exactly what it records
+  lock?: boolean;
+  frozen?: boolean;
+  // Agent Skills from @solo-labs/skills; true (a bare --skills) installs all of them
+  skills?: string[] | boolean;
+  // Hooks from @solo-labs/hooks to merge into settings.json
+  hooks?: string[];
+  // Add the installed components' allowed-tools to settings.json permissions.allow
+  configurePermissions?: boolean;
+  registerMcp?: boolean;
   nonInteractive?: boolean;
   force?: boolean;
+  conflictStyle?: 'rej' | 'markers';
 }
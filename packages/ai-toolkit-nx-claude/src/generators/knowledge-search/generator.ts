@@ -0,0 +1,65 @@
+import type { Tree } from '@nx/devkit';
+import { logger } from '@nx/devkit';
+import { knowledge, searchKnowledge, type SearchHit } from '@solo-labs/protocol-knowledge';
+import type { KnowledgeSearchGeneratorSchema } from './schema';
+
+const CATEGORIES = Object.keys(knowledge);
+
+// "Sqrt(K) Floor › Basic Definition", without repeating the doc title
+function describeHit(hit: SearchHit): string {
+  const trail = [hit.title, ...hit.parents.filter((parent) => parent !== hit.title)];
+  if (hit.heading && hit.heading !== hit.title) {
+    trail.push(hit.heading);
+  }
+  return trail.join(' › ');
+}
+
+function parseLimit(limit: number | string | undefined): number {
+  const value = Number(limit ?? 5);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`--limit must be a positive integer, got "${limit}"`);
+  }
+  return value;
+}
+
+export async function knowledgeSearchGenerator(
+  tree: Tree,
+  options: KnowledgeSearchGeneratorSchema
+) {
+  const query = String(options.query ?? '').trim();
+  if (query === '') {
+    throw new Error('Missing search query. Usage: solo-labs-nx-claude knowledge search <words>');
+  }
+  if (options.category && !CATEGORIES.includes(options.category)) {
+    throw new Error(
+      `Unknown category: ${options.category} (expected one of ${CATEGORIES.join(', ')})`
+    );
+  }
+
+  const hits = searchKnowledge(query, {
+    limit: parseLimit(options.limit),
+    category: options.category,
+  });
+
+  if (options.json) {
+    // Raw stdout so the output can be piped straight into jq
+    process.stdout.write(`${JSON.stringify(hits, null, 2)}\n`);
+    return;
+  }
+
+  if (hits.length === 0) {
+    logger.info(`🔎 No matches for "${query}"`);
+    return;
+  }
+
+  logger.info(`🔎 ${hits.length} ${hits.length === 1 ? 'result' : 'results'} for "${query}"`);
+  hits.forEach((hit, index) => {
+    const location = `${hit.filePath.replace(/^\.\//, '')}${hit.anchor ? `#${hit.anchor}` : ''}`;
+    logger.info('');
+    logger.info(`  ${index + 1}. ${describeHit(hit)}`);
+    logger.info(`     ${location}`);
+    logger.info(`     ${hit.snippet}`);
+  });
+}
+
+export default knowledgeSearchGenerator;
@@ -0,0 +1,8 @@
+export interface KnowledgeSearchGeneratorSchema {
+  query: string;
+  // Strings when passed on the command line
+  limit?: number | string;
+  // concepts, patterns or gotchas
+  category?: string;
+  json?: boolean;
+}
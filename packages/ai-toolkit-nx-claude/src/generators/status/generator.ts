@@ -0,0 +1,135 @@
+import type { Tree } from '@nx/devkit';
+import { logger } from '@nx/devkit';
+import type { StatusGeneratorSchema } from './schema';
+import { loadAvailableContent, type ContentType } from '../../utils/content-utils';
+import {
+  collectInstallStatus,
+  type ContentStatus,
+  type InstallScope,
+  type ScopeStatus,
+  type ScopeSummary,
+} from '../../utils/install-state';
+import { auditFile, summarizeRisk, type PermissionAudit } from '../../utils/permission-utils';
+
+const COLUMNS = ['NAME', 'GLOBAL', 'LOCAL', 'MODIFIED', 'OUTDATED', 'SHADOWED', 'RISK'];
+
+function installedLabel(status: ScopeStatus): string {
+  if (!status.installed) {
+    return '-';
+  }
+  return status.tracked ? '✓' : 'untracked';
+}
+
+// Lists the locations where a flag is set, e.g. "global,local"
+function scopesWhere(item: ContentStatus, flag: 'modified' | 'outdated'): string {
+  const scopes = (['global', 'local'] as InstallScope[]).filter(
+    (scope) => item[scope][flag] === true
+  );
+  return scopes.length > 0 ? scopes.join(',') : '-';
+}
+
+function describeLocation(label: string, summary: ScopeSummary): string {
+  if (summary.error) {
+    return `  ${label} ${summary.targetDir} (unreadable manifest: ${summary.error})`;
+  }
+  if (!summary.hasManifest) {
+    return `  ${label} ${summary.targetDir} (no manifest)`;
+  }
+  const skills = summary.skills.length > 0 ? `, skills: ${summary.skills.join(', ')}` : '';
+  const hooks = summary.hooks.length > 0 ? `, hooks: ${summary.hooks.join(', ')}` : '';
+  const mcp = summary.mcpServer ? `, MCP server: ${summary.mcpServer}` : '';
+  return `  ${label} ${summary.targetDir} (toolkit ${summary.toolkitVersion}${skills}${hooks}${mcp})`;
+}
+
+function printTable(title: string, items: ContentStatus[], audits: Map<string, PermissionAudit>) {
+  const rows = items.map((item) => [
+    item.name,
+    installedLabel(item.global),
+    installedLabel(item.local),
+    scopesWhere(item, 'modified'),
+    scopesWhere(item, 'outdated'),
+    item.shadowed ? 'yes' : '-',
+    audits.get(`${item.type}/${item.name}`)?.risk ?? '-',
+  ]);
+  const widths = COLUMNS.map((column, index) =>
+    Math.max(column.length, ...rows.map((row) => row[index].length))
+  );
+  const format = (row: string[]) =>
+    `  ${row.map((cell, index) => cell.padEnd(widths[index])).join('  ')}`.trimEnd();
+
+  logger.info(`\n${title}`);
+  logger.info(format(COLUMNS));
+  rows.forEach((row) => logger.info(format(row)));
+}
+
+export async function statusGenerator(tree: Tree, options: StatusGeneratorSchema) {
+  const workspaceRoot = process.cwd();
+  const availableContent = {
+    commands: loadAvailableContent('commands', workspaceRoot),
+    agents: loadAvailableContent('agents', workspaceRoot),
+  };
+  const report = collectInstallStatus(workspaceRoot, availableContent);
+
+  // Risk rating of the bundled version of each component
+  const audits = new Map(
+    report.items.map((item) => [
+      `${item.type}/${item.name}`,
+      auditFile(item.type, item.name, availableContent[item.type][item.name].filePath),
+    ])
+  );
+
+  if (options.json) {
+    // Raw stdout so the output can be piped straight into jq
+    const items = report.items.map((item) => ({
+      ...item,
+      risk: audits.get(`${item.type}/${item.name}`)?.risk ?? null,
+    }));
+    process.stdout.write(`${JSON.stringify({ ...report, items }, null, 2)}\n`);
+    return;
+  }
+
+  logger.info(`📋 Solo Labs toolkit status (bundled version ${report.toolkitVersion})`);
+  logger.info(describeLocation('Global:', report.locations.global));
+  logger.info(describeLocation('Local: ', report.locations.local));
+
+  const byType = (type: ContentType) => report.items.filter((item) => item.type === type);
+  printTable('📝 Commands', byType('commands'), audits);
+  printTable('🤖 Agents', byType('agents'), audits);
+
+  const count = (predicate: (item: ContentStatus) => boolean) =>
+    report.items.filter(predicate).length;
+  const outdated = count((item) => item.global.outdated === true || item.local.outdated === true);
+  const shadowed = count((item) => item.shadowed);
+
+  logger.info('');
+  logger.info(
+    `  ${count((item) => item.global.installed)} installed globally, ` +
+      `${count((item) => item.local.installed)} locally, ` +
+      `${count((item) => item.global.modified === true || item.local.modified === true)} modified, ` +
+      `${outdated} outdated, ${shadowed} shadowed`
+  );
+  const installed = report.items.filter((item) => item.global.installed || item.local.installed);
+  if (installed.length > 0) {
+    logger.info(
+      `  Installed permissions: ${summarizeRisk(
+        installed.map((item) => audits.get(`${item.type}/${item.name}`)!)
+      )} (details: "solo-labs-nx-claude audit --global" or "--local")`
+    );
+  }
+  for (const item of report.items) {
+    const reason = item.global.unreadable ?? item.local.unreadable;
+    if (reason) {
+      logger.warn(
+        `  ⚠️  Bundled ${item.type}/${item.name} is unreadable, outdated unknown: ${reason}`
+      );
+    }
+  }
+  if (outdated > 0) {
+    logger.info('  Run "solo-labs-nx-claude update" to upgrade outdated files.');
+  }
+  if (shadowed > 0) {
+    logger.info('  Shadowed global files are hidden by the local copy in this workspace.');
+  }
+}
+
+export default statusGenerator;
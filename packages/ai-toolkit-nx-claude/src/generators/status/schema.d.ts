@@ -0,0 +1,3 @@
+export interface StatusGeneratorSchema {
+  json?: boolean;
+}
@@ -0,0 +1,374 @@
+import type { Tree } from '@nx/devkit';
+import { logger, writeJson } from '@nx/devkit';
+import * as path from 'path';
+import * as fs from 'fs';
+import { prompt } from 'enquirer';
+import type { UninstallGeneratorSchema } from './schema';
+import {
+  applyLocationShorthands,
+  getExplicitlyProvidedOptions,
+  promptForMissingOptions,
+} from '../../utils/prompt-utils';
+import {
+  loadAvailableContent,
+  loadAvailableKnowledge,
+  loadAvailableSkills,
+  parseNameList,
+  type ContentType,
+  type InstallableType,
+} from '../../utils/content-utils';
+import {
+  MANIFEST_FILENAME,
+  findManifestEntry,
+  isManifestEmpty,
+  readManifest,
+  removeManifestEntries,
+  resolveInstallLocation,
+  type Manifest,
+} from '../../utils/manifest-utils';
+import { inspectInstalledFile } from '../../utils/install-state';
+import {
+  ORIGINALS_CACHE_DIRNAME,
+  deleteCachedOriginal,
+  formatLineDiff,
+} from '../../utils/merge-utils';
+import { auditFile, getPermissionRules } from '../../utils/permission-utils';
+import {
+  SETTINGS_FILENAME,
+  readSettings,
+  removeHooks,
+  removePermissionRules,
+  serializeSettings,
+  type SettingsChange,
+} from '../../utils/settings-utils';
+import { readMcpConfig, removeMcpServer, serializeMcpServers } from '../../utils/mcp-utils';
+
+interface RemovalCandidate {
+  type: InstallableType;
+  name: string;
+  relativeFilePath: string;
+}
+
+function selectCandidates(
+  type: ContentType,
+  installed: string[],
+  requested: string[] | undefined
+): RemovalCandidate[] {
+  const names = requested ?? installed;
+
+  for (const name of names) {
+    if (!installed.includes(name)) {
+      logger.warn(`⚠️  ${type.slice(0, -1)} "${name}" is not listed in the manifest - skipping`);
+    }
+  }
+
+  return names
+    .filter((name) => installed.includes(name))
+    .map((name) => ({ type, name, relativeFilePath: path.join(type, `${name}.md`) }));
+}
+
+// Recorded permission rules still declared by a command or agent that stays installed
+function findPermissionsStillNeeded(
+  manifest: Manifest,
+  targetDir: string,
+  removedPaths: string[]
+): Set<string> {
+  const remaining = manifest.files.filter(
+    (entry) =>
+      (entry.type === 'commands' || entry.type === 'agents') &&
+      !removedPaths.includes(entry.path) &&
+      fs.existsSync(path.join(targetDir, entry.path))
+  );
+  const { rules } = getPermissionRules(
+    remaining.map((entry) =>
+      auditFile(entry.type as ContentType, entry.name, path.join(targetDir, entry.path))
+    )
+  );
+  return new Set(rules.filter((rule) => manifest.permissions.includes(rule)));
+}
+
+export async function uninstallGenerator(tree: Tree, options: UninstallGeneratorSchema) {
+  const explicitlyProvided = getExplicitlyProvidedOptions();
+  const initialOptions = applyLocationShorthands(options, explicitlyProvided);
+
+  // When bundled, __dirname points to dist root, so schema is in generators/uninstall/
+  const schemaPath = path.join(__dirname, 'generators', 'uninstall', 'schema.json');
+  const normalizedOptions = await promptForMissingOptions(
+    initialOptions,
+    schemaPath,
+    {},
+    explicitlyProvided
+  );
+
+  const workspaceRoot = process.cwd();
+  const { targetDir, relativeTargetDir } = resolveInstallLocation(
+    normalizedOptions.installationType,
+    workspaceRoot
+  );
+
+  const manifest = readManifest(targetDir);
+  if (!manifest) {
+    logger.warn(`⚠️  No ${MANIFEST_FILENAME} found in ${targetDir} - nothing to uninstall.`);
+    logger.info('   Only files recorded by "init" are removed; nothing else is touched.');
+    return;
+  }
+
+  const isDryRun = normalizedOptions.dry === true;
+  const forceRemoval = normalizedOptions.force === true;
+  const opts = normalizedOptions as Record<string, unknown>;
+  const isNonInteractive = opts.nonInteractive || opts['non-interactive'] || opts['no-interactive'];
+
+  const requestedCommands = parseNameList(normalizedOptions.commands);
+  const requestedAgents = parseNameList(normalizedOptions.agents);
+  const requestedHooks = parseNameList(normalizedOptions.hooks);
+  // Selecting only one type leaves the others untouched
+  const partialSelection =
+    requestedCommands !== undefined ||
+    requestedAgents !== undefined ||
+    requestedHooks !== undefined;
+
+  const recordedHooks = manifest.hooks.map((entry) => entry.name);
+  for (const name of requestedHooks ?? []) {
+    if (!recordedHooks.includes(name)) {
+      logger.warn(`⚠️  hook "${name}" is not listed in the manifest - skipping`);
+    }
+  }
+  const hooksToRemove = manifest.hooks.filter(
+    (entry) => !partialSelection || (requestedHooks ?? []).includes(entry.name)
+  );
+
+  const candidates = [
+    ...selectCandidates(
+      'commands',
+      manifest.commands,
+      partialSelection ? (requestedCommands ?? []) : undefined
+    ),
+    ...selectCandidates(
+      'agents',
+      manifest.agents,
+      partialSelection ? (requestedAgents ?? []) : undefined
+    ),
+    // Knowledge docs and skills cannot be selected individually; they go with a full uninstall
+    ...(partialSelection
+      ? []
+      : manifest.files.filter((entry) => entry.type === 'knowledge' || entry.type === 'skills')
+    ).map((entry) => ({ type: entry.type, name: entry.name, relativeFilePath: entry.path })),
+  ];
+
+  // Used to verify files whose manifest entry predates content hashes
+  const availableContent = {
+    commands: loadAvailableContent('commands', workspaceRoot),
+    agents: loadAvailableContent('agents', workspaceRoot),
+    knowledge: loadAvailableKnowledge(workspaceRoot),
+    skills: loadAvailableSkills(workspaceRoot),
+  };
+
+  const toRemove: RemovalCandidate[] = [];
+  const alreadyMissing: RemovalCandidate[] = [];
+  const modified: RemovalCandidate[] = [];
+
+  for (const candidate of candidates) {
+    const absolutePath = path.join(targetDir, candidate.relativeFilePath);
+    if (!fs.existsSync(absolutePath)) {
+      alreadyMissing.push(candidate);
+      continue;
+    }
+
+    const entry = findManifestEntry(manifest, candidate.relativeFilePath);
+    const state = entry
+      ? inspectInstalledFile(targetDir, entry, availableContent[candidate.type][candidate.name])
+      : null;
+    // Manifests migrated from schema v1 carry no hashes; fall back to the bundled original
+    const isUnchanged =
+      state !== null &&
+      (state.modified === false ||
+        (state.modified === null && state.currentHash === state.bundledHash));
+
+    if (isUnchanged || forceRemoval) {
+      toRemove.push(candidate);
+    } else {
+      modified.push(candidate);
+    }
+  }
+
+  // Permission rules init --configurePermissions added go once nothing installed declares them
+  const prunedPaths = [...toRemove, ...alreadyMissing].map(
+    (candidate) => candidate.relativeFilePath
+  );
+  const stillNeeded = findPermissionsStillNeeded(manifest, targetDir, prunedPaths);
+  const unneededPermissions = manifest.permissions.filter((rule) => !stillNeeded.has(rule));
+
+  let hookChange: SettingsChange | null = null;
+  let permissionChange: SettingsChange | null = null;
+  if (hooksToRemove.length > 0 || unneededPermissions.length > 0) {
+    const settings = readSettings(targetDir);
+    hookChange = removeHooks(settings, hooksToRemove);
+    permissionChange = removePermissionRules(hookChange.after, unneededPermissions);
+  }
+  // Hooks and rules the user already removed from settings.json are simply forgotten
+  const settingsBefore = hookChange?.before;
+  const settingsAfter = permissionChange?.after;
+  const settingsChanged = !!settingsAfter && settingsAfter !== settingsBefore;
+
+  // The MCP server registered by init --registerMcp goes with a full uninstall
+  const mcpEntry = partialSelection ? null : manifest.mcpServer;
+  const mcpChange = mcpEntry
+    ? removeMcpServer(readMcpConfig(mcpEntry.configPath), mcpEntry.config)
+    : null;
+
+  logger.info('🧹 Uninstall Plan:');
+  logger.info(
+    `  Location: ${
+      normalizedOptions.installationType === 'global'
+        ? `Global (${targetDir})`
+        : `Local (${targetDir})`
+    }`
+  );
+  logger.info(`  Files: ${toRemove.length} to remove`);
+  if (alreadyMissing.length > 0) {
+    logger.info(
+      `  Missing: ${alreadyMissing.length} files already deleted (manifest will be pruned)`
+    );
+  }
+  if (modified.length > 0) {
+    logger.info(`  Kept: ${modified.length} modified files (use --force to remove)`);
+  }
+  if (hookChange && hookChange.removed.length > 0) {
+    logger.info(`  Hooks: ${hookChange.removed.length} to remove from ${SETTINGS_FILENAME}`);
+  }
+  if (permissionChange && permissionChange.removed.length > 0) {
+    logger.info(
+      `  Settings: ${permissionChange.removed.length} permission rules to remove from ${SETTINGS_FILENAME}`
+    );
+  }
+  if (mcpEntry && mcpChange && mcpChange.removed.length > 0) {
+    logger.info(`  MCP server: ${mcpEntry.name} to remove from ${mcpEntry.configPath}`);
+  }
+
+  if (isDryRun) {
+    logger.info('🔍 DRY RUN MODE - No files will be modified');
+    logger.info('\n📋 Would remove:');
+    toRemove.forEach((candidate) => {
+      logger.info(`  - ${candidate.relativeFilePath}`);
+    });
+    if (modified.length > 0) {
+      logger.info('\n✋ Kept (modified since install):');
+      modified.forEach((candidate) => {
+        logger.info(`  - ${candidate.relativeFilePath}`);
+      });
+    }
+    if (settingsChanged) {
+      logger.info(`\n⚙️  Would update ${path.join(targetDir, SETTINGS_FILENAME)}:`);
+      formatLineDiff(serializeSettings(settingsBefore!), serializeSettings(settingsAfter!)).forEach(
+        (line) => {
+          logger.info(`  ${line}`);
+        }
+      );
+    }
+    if (mcpEntry && mcpChange && mcpChange.removed.length > 0) {
+      logger.info(`\n🔌 Would update ${mcpEntry.configPath}:`);
+      formatLineDiff(
+        serializeMcpServers(mcpChange.before),
+        serializeMcpServers(mcpChange.after)
+      ).forEach((line) => {
+        logger.info(`  ${line}`);
+      });
+    }
+    return;
+  }
+
+  if (
+    toRemove.length === 0 &&
+    alreadyMissing.length === 0 &&
+    hooksToRemove.length === 0 &&
+    unneededPermissions.length === 0 &&
+    !mcpEntry
+  ) {
+    logger.info('\nNothing to remove.');
+    return;
+  }
+
+  if (toRemove.length > 0 && !forceRemoval && !isNonInteractive) {
+    const { confirmed } = await prompt<{ confirmed: boolean }>({
+      type: 'confirm',
+      name: 'confirmed',
+      message: `Remove ${toRemove.length} files from ${targetDir}?`,
+      initial: false,
+    });
+
+    if (!confirmed) {
+      logger.warn('❌ Uninstall cancelled.');
+      return;
+    }
+  }
+
+  for (const candidate of toRemove) {
+    const relativeDestPath = path.join(relativeTargetDir, candidate.relativeFilePath);
+    tree.delete(relativeDestPath);
+    // Leftover merge results written by update or init --force
+    if (tree.exists(`${relativeDestPath}.rej`)) {
+      tree.delete(`${relativeDestPath}.rej`);
+    }
+  }
+
+  // Prune every entry that no longer exists on disk
+  const remainingManifest = {
+    ...removeManifestEntries(manifest, prunedPaths),
+    permissions: manifest.permissions.filter((rule) => stillNeeded.has(rule)),
+    hooks: manifest.hooks.filter((entry) => !hooksToRemove.includes(entry)),
+    // An entry the user already removed or edited is simply forgotten
+    mcpServer: mcpEntry ? null : manifest.mcpServer,
+  };
+  for (const relativeFilePath of prunedPaths) {
+    deleteCachedOriginal(tree, relativeTargetDir, relativeFilePath);
+  }
+
+  if (settingsChanged) {
+    const relativeSettingsPath = path.join(relativeTargetDir, SETTINGS_FILENAME);
+    if (Object.keys(settingsAfter!).length === 0) {
+      tree.delete(relativeSettingsPath);
+    } else {
+      writeJson(tree, relativeSettingsPath, settingsAfter);
+    }
+  }
+  if (mcpEntry && mcpChange && mcpChange.removed.length > 0) {
+    const relativeMcpPath = path.relative(workspaceRoot, mcpEntry.configPath);
+    if (Object.keys(mcpChange.after).length === 0) {
+      tree.delete(relativeMcpPath);
+    } else {
+      writeJson(tree, relativeMcpPath, mcpChange.after);
+    }
+  }
+
+  const relativeManifestPath = path.join(relativeTargetDir, MANIFEST_FILENAME);
+  if (isManifestEmpty(remainingManifest)) {
+    tree.delete(relativeManifestPath);
+    tree.delete(path.join(relativeTargetDir, ORIGINALS_CACHE_DIRNAME));
+  } else {
+    writeJson(tree, relativeManifestPath, remainingManifest);
+  }
+
+  logger.info('\n✅ Uninstall complete!');
+  if (toRemove.length > 0) {
+    logger.info(`   Removed: ${toRemove.map((candidate) => candidate.name).join(', ')}`);
+  }
+  if (modified.length > 0) {
+    logger.info(`   Kept (modified): ${modified.map((candidate) => candidate.name).join(', ')}`);
+  }
+  if (hookChange && hookChange.removed.length > 0) {
+    logger.info(`   Hooks: removed ${hookChange.removed.join(', ')} from ${SETTINGS_FILENAME}`);
+  }
+  if (permissionChange && permissionChange.removed.length > 0) {
+    logger.info(
+      `   Permissions: removed ${permissionChange.removed.join(', ')} from ${SETTINGS_FILENAME}`
+    );
+  }
+  if (mcpEntry && mcpChange && mcpChange.removed.length > 0) {
+    logger.info(`   MCP server: removed ${mcpEntry.name} from ${mcpEntry.configPath}`);
+  }
+  if (isManifestEmpty(remainingManifest)) {
+    logger.info(`   Removed ${MANIFEST_FILENAME} (no toolkit files left)`);
+  }
+}
+
+export default uninstallGenerator;
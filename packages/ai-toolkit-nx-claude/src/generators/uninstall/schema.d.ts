@@ -0,0 +1,11 @@
+export interface UninstallGeneratorSchema {
+  installationType?: 'global' | 'local';
+  global?: boolean;
+  local?: boolean;
+  commands?: string[];
+  agents?: string[];
+  hooks?: string[];
+  dry?: boolean;
+  nonInteractive?: boolean;
+  force?: boolean;
+}
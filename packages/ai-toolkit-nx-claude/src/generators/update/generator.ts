@@ -0,0 +1,364 @@
+import type { Tree } from '@nx/devkit';
+import { logger, writeJson } from '@nx/devkit';
+import * as path from 'path';
+import * as fs from 'fs';
+import type { UpdateGeneratorSchema } from './schema';
+import {
+  applyLocationShorthands,
+  getExplicitlyProvidedOptions,
+  promptForMissingOptions,
+} from '../../utils/prompt-utils';
+import {
+  getInstallPath,
+  getSkillName,
+  loadAvailableContent,
+  loadAvailableKnowledge,
+  loadAvailableSkills,
+  readContentFile,
+  SKILL_FILENAME,
+  type ContentItem,
+  type ContentType,
+  type InstallableType,
+} from '../../utils/content-utils';
+import {
+  MANIFEST_FILENAME,
+  getToolkitVersion,
+  hashContent,
+  readManifest,
+  resolveInstallLocation,
+  upsertManifestEntries,
+  type ManifestFileEntry,
+} from '../../utils/manifest-utils';
+import { inspectInstalledFile } from '../../utils/install-state';
+import {
+  mergeLocalEdits,
+  mergeOutcomeUpdatesFile,
+  writeCachedOriginal,
+  writeMergeOutcome,
+} from '../../utils/merge-utils';
+import {
+  filterBlockedNames,
+  getBlockedItems,
+  loadPolicy,
+  reportBlockedByPolicy,
+} from '../../utils/policy-utils';
+import { DEFAULT_AGENTS, DEFAULT_COMMANDS } from '../init/generator';
+
+type UpdateStatus =
+  | 'updated'
+  | 'merged'
+  | 'unchanged'
+  | 'conflicted'
+  | 'added'
+  | 'missing'
+  | 'removed-upstream'
+  | 'unreadable'
+  | 'skipped';
+
+interface UpdateResult {
+  path: string;
+  status: UpdateStatus;
+  reason?: string;
+}
+
+const STATUS_LABELS: Record<UpdateStatus, string> = {
+  updated: '⬆️  updated',
+  merged: '🔀 merged',
+  unchanged: '✓  unchanged',
+  conflicted: '⚠️  conflicted',
+  added: '✨ added',
+  missing: '❓ missing',
+  'removed-upstream': '🗑️  removed upstream',
+  unreadable: '🚫 unreadable',
+  skipped: '⏭️  skipped',
+};
+
+function createEntry(
+  type: InstallableType,
+  name: string,
+  contentItem: ContentItem,
+  content: string,
+  installedAt: string
+): ManifestFileEntry {
+  return {
+    path: getInstallPath(type, name, contentItem),
+    type,
+    name,
+    sha256: hashContent(content),
+    package: contentItem.package,
+    toolkitVersion: getToolkitVersion(),
+    installedAt,
+  };
+}
+
+export async function updateGenerator(tree: Tree, options: UpdateGeneratorSchema) {
+  const explicitlyProvided = getExplicitlyProvidedOptions();
+  const initialOptions = applyLocationShorthands(options, explicitlyProvided);
+
+  // When bundled, __dirname points to dist root, so schema is in generators/update/
+  const schemaPath = path.join(__dirname, 'generators', 'update', 'schema.json');
+  const normalizedOptions = await promptForMissingOptions(
+    initialOptions,
+    schemaPath,
+    {},
+    explicitlyProvided
+  );
+
+  const workspaceRoot = process.cwd();
+  const { targetDir, relativeTargetDir } = resolveInstallLocation(
+    normalizedOptions.installationType,
+    workspaceRoot
+  );
+
+  const manifest = readManifest(targetDir);
+  if (!manifest) {
+    logger.warn(`⚠️  No ${MANIFEST_FILENAME} found in ${targetDir} - nothing to update.`);
+    logger.info('   Run "init" first to install the toolkit.');
+    return;
+  }
+
+  const isDryRun = normalizedOptions.dry === true;
+  const conflictStyle = normalizedOptions.conflictStyle ?? 'rej';
+  const availableContent = {
+    commands: loadAvailableContent('commands', workspaceRoot),
+    agents: loadAvailableContent('agents', workspaceRoot),
+    knowledge: loadAvailableKnowledge(workspaceRoot),
+    skills: loadAvailableSkills(workspaceRoot),
+  };
+
+  // Files added by update are held to the install policy just like init's
+  const policyFile = loadPolicy();
+  if (policyFile) {
+    logger.info(`🛡️  Install policy: ${policyFile.filePath}`);
+  }
+  const blockedByPolicy = new Map<string, string>();
+  const enforcePolicy = (
+    type: InstallableType,
+    names: string[],
+    content: Record<string, ContentItem>
+  ) =>
+    filterBlockedNames(
+      getBlockedItems(policyFile?.policy ?? null, type, content),
+      type,
+      names,
+      blockedByPolicy
+    );
+
+  const now = new Date().toISOString();
+  const results: UpdateResult[] = [];
+  const refreshedEntries: ManifestFileEntry[] = [];
+
+  for (const entry of manifest.files) {
+    const contentItem = availableContent[entry.type][entry.name];
+    const state = inspectInstalledFile(targetDir, entry, contentItem);
+
+    if (state.unreadable) {
+      results.push({ path: entry.path, status: 'unreadable', reason: state.unreadable });
+      continue;
+    }
+    if (!contentItem || !state.bundledHash) {
+      results.push({ path: entry.path, status: 'removed-upstream' });
+      continue;
+    }
+    if (!state.exists) {
+      results.push({
+        path: entry.path,
+        status: 'missing',
+        reason: 'deleted locally; run init to reinstall',
+      });
+      continue;
+    }
+
+    const bundledContent = readContentFile(contentItem);
+
+    if (state.currentHash === state.bundledHash) {
+      // Already identical to the bundle; only refresh provenance when it is stale
+      if (entry.sha256 !== state.bundledHash) {
+        if (!isDryRun) {
+          writeCachedOriginal(tree, relativeTargetDir, entry.path, bundledContent);
+        }
+        refreshedEntries.push(
+          createEntry(entry.type, entry.name, contentItem, bundledContent, now)
+        );
+      }
+      results.push({ path: entry.path, status: 'unchanged' });
+      continue;
+    }
+
+    if (state.outdated === false) {
+      results.push({
+        path: entry.path,
+        status: 'unchanged',
+        reason: state.modified ? 'modified locally' : undefined,
+      });
+      continue;
+    }
+
+    const relativeDestPath = path.join(relativeTargetDir, entry.path);
+
+    if (state.modified === false) {
+      if (!isDryRun) {
+        tree.write(relativeDestPath, bundledContent);
+        writeCachedOriginal(tree, relativeTargetDir, entry.path, bundledContent);
+      }
+      refreshedEntries.push(createEntry(entry.type, entry.name, contentItem, bundledContent, now));
+      results.push({
+        path: entry.path,
+        status: 'updated',
+        reason:
+          entry.toolkitVersion && entry.toolkitVersion !== getToolkitVersion()
+            ? `${entry.toolkitVersion} → ${getToolkitVersion()}`
+            : undefined,
+      });
+      continue;
+    }
+
+    const outcome =
+      state.modified === true
+        ? mergeLocalEdits(
+            targetDir,
+            entry,
+            fs.readFileSync(path.join(targetDir, entry.path), 'utf-8'),
+            bundledContent
+          )
+        : null;
+
+    if (!outcome || outcome.status === 'no-base') {
+      results.push({
+        path: entry.path,
+        status: 'conflicted',
+        reason:
+          state.modified === null
+            ? 'installed before content hashes were recorded'
+            : 'modified locally and no original to merge against; left untouched',
+      });
+      continue;
+    }
+
+    if (!isDryRun) {
+      writeMergeOutcome(tree, relativeDestPath, outcome, conflictStyle);
+    }
+    if (mergeOutcomeUpdatesFile(outcome, conflictStyle)) {
+      // The new bundled content becomes the merge base for the next update
+      if (!isDryRun) {
+        writeCachedOriginal(tree, relativeTargetDir, entry.path, bundledContent);
+      }
+      refreshedEntries.push(createEntry(entry.type, entry.name, contentItem, bundledContent, now));
+    }
+
+    if (outcome.status === 'merged') {
+      results.push({ path: entry.path, status: 'merged', reason: 'your edits were kept' });
+    } else {
+      results.push({
+        path: entry.path,
+        status: 'conflicted',
+        reason:
+          conflictStyle === 'markers'
+            ? `${outcome.conflicts} conflict(s) marked in the file`
+            : `${outcome.conflicts} conflict(s); left untouched, merge result in ${entry.path}.rej`,
+      });
+    }
+  }
+
+  const tracked = new Set(manifest.files.map((entry) => path.normalize(entry.path)));
+  const installNewFile = (type: InstallableType, name: string, contentItem: ContentItem) => {
+    const relativeFilePath = getInstallPath(type, name, contentItem);
+    if (tracked.has(relativeFilePath)) {
+      return;
+    }
+    if (fs.existsSync(path.join(targetDir, relativeFilePath))) {
+      results.push({
+        path: relativeFilePath,
+        status: 'skipped',
+        reason: 'a file not installed by the toolkit already exists',
+      });
+      return;
+    }
+
+    const content = readContentFile(contentItem);
+    if (!isDryRun) {
+      tree.write(path.join(relativeTargetDir, relativeFilePath), content);
+      writeCachedOriginal(tree, relativeTargetDir, relativeFilePath, content);
+    }
+    refreshedEntries.push(createEntry(type, name, contentItem, content, now));
+    results.push({ path: relativeFilePath, status: 'added' });
+  };
+
+  // Skills are installed whole, so files added to an installed skill come along
+  const skillItems = Object.fromEntries(
+    Object.entries(availableContent.skills)
+      .filter(([name]) => name === `${getSkillName(name)}/${SKILL_FILENAME}`)
+      .map(([name, contentItem]) => [getSkillName(name), contentItem])
+  );
+  const installedSkills = new Set(
+    enforcePolicy(
+      'skills',
+      Array.from(
+        new Set(
+          manifest.files
+            .filter((entry) => entry.type === 'skills')
+            .map((entry) => getSkillName(entry.name))
+        )
+      ),
+      skillItems
+    )
+  );
+  for (const [name, contentItem] of Object.entries(availableContent.skills)) {
+    if (installedSkills.has(getSkillName(name))) {
+      installNewFile('skills', name, contentItem);
+    }
+  }
+
+  if (normalizedOptions.installNew) {
+    const defaults: Array<[ContentType, string[]]> = [
+      ['commands', DEFAULT_COMMANDS],
+      ['agents', DEFAULT_AGENTS],
+    ];
+
+    for (const [type, names] of defaults) {
+      for (const name of enforcePolicy(type, names, availableContent[type])) {
+        const contentItem = availableContent[type][name];
+        if (contentItem) {
+          installNewFile(type, name, contentItem);
+        }
+      }
+    }
+  }
+
+  const count = (status: UpdateStatus) =>
+    results.filter((result) => result.status === status).length;
+
+  if (isDryRun) {
+    logger.info('🔍 DRY RUN MODE - No files will be modified\n');
+  }
+  logger.info(`🔄 Update Summary (${targetDir}):`);
+  for (const result of results) {
+    const reason = result.reason ? ` (${result.reason})` : '';
+    logger.info(`  ${STATUS_LABELS[result.status]}  ${result.path}${reason}`);
+  }
+  logger.info('');
+  logger.info(
+    `  ${count('updated')} updated, ${count('merged')} merged, ${count('unchanged')} unchanged, ${count('conflicted')} conflicted` +
+      (normalizedOptions.installNew || count('added') > 0 ? `, ${count('added')} added` : '')
+  );
+
+  reportBlockedByPolicy(blockedByPolicy);
+
+  if (count('conflicted') > 0) {
+    logger.info('  Conflicted files need a manual merge (see the .rej file or conflict markers).');
+    logger.info('  To take the bundled version instead, delete the file and re-run "init".');
+  }
+
+  if (isDryRun || refreshedEntries.length === 0) {
+    return;
+  }
+
+  writeJson(
+    tree,
+    path.join(relativeTargetDir, MANIFEST_FILENAME),
+    upsertManifestEntries(manifest, refreshedEntries)
+  );
+  logger.info('\n✅ Update complete!');
+}
+
+export default updateGenerator;
@@ -0,0 +1,9 @@
+export interface UpdateGeneratorSchema {
+  installationType?: 'global' | 'local';
+  global?: boolean;
+  local?: boolean;
+  installNew?: boolean;
+  conflictStyle?: 'rej' | 'markers';
+  dry?: boolean;
+  nonInteractive?: boolean;
+}
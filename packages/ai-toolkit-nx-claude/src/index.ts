@@ -2,3 +2,13 @@
 
 export { initGenerator } from './generators/init/generator';
 export type { InitGeneratorSchema } from './generators/init/schema';
+export { uninstallGenerator } from './generators/uninstall/generator';
+export type { UninstallGeneratorSchema } from './generators/uninstall/schema';
+export { updateGenerator } from './generators/update/generator';
+export type { UpdateGeneratorSchema } from './generators/update/schema';
+export { statusGenerator } from './generators/status/generator';
+export type { StatusGeneratorSchema } from './generators/status/schema';
+export { doctorGenerator } from './generators/doctor/generator';
+export type { DoctorGeneratorSchema } from './generators/doctor/schema';
+export { auditGenerator } from './generators/audit/generator';
+export type { AuditGeneratorSchema } from './generators/audit/schema';
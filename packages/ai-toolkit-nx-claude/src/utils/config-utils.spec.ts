@@ -0,0 +1,140 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import {
+  CONFIG_FILENAME,
+  CONFIG_SCHEMA_FILENAME,
+  ToolkitConfigError,
+  applyConfigSelection,
+  findUnknownConfigNames,
+  getConfigProfiles,
+  readToolkitConfig,
+  validateAgainstSchema,
+} from './config-utils';
+
+describe('validateAgainstSchema', () => {
+  const validate = (value: unknown) => validateAgainstSchema(value, CONFIG_SCHEMA_FILENAME);
+
+  it('accepts a complete config', () => {
+    assert.deepEqual(
+      validate({
+        $schema: './toolkit-config.schema.json',
+        profile: ['contracts', 'reviewer'],
+        commands: { include: ['deploy'] },
+        agents: { exclude: ['context-loader'] },
+        toolkitVersion: '0.1.0-beta.2',
+        installationType: 'local',
+        installKnowledge: 'required',
+      }),
+      []
+    );
+  });
+
+  it('reports wrong types with their location', () => {
+    assert.deepEqual(validate({ profile: 3, agents: { exclude: ['planner', 7] } }), [
+      'profile must be string or array, got number',
+      'agents.exclude[1] must be string, got number',
+    ]);
+  });
+
+  it('reports values outside an enum or pattern', () => {
+    assert.deepEqual(validate({ installationType: 'project', toolkitVersion: 'latest' }), [
+      'installationType must be one of "global", "local", got "project"',
+      String.raw`toolkitVersion must match ^\d+\.\d+\.\d+(-[0-9A-Za-z.-]+)?$ (Toolkit version the team installs with, e.g. "0.1.0"), got "latest"`,
+    ]);
+  });
+
+  it('reports unknown keys, also inside a $ref', () => {
+    assert.deepEqual(validate({ profiles: 'default', commands: { only: ['plan'] } }), [
+      'unknown key "profiles" (expected profile, commands, agents, toolkitVersion, installationType, installKnowledge)',
+      'unknown key "commands.only" (expected include, exclude)',
+    ]);
+  });
+
+  it('needs a JSON object at the top', () => {
+    assert.deepEqual(validate(['plan']), ['the file must contain a JSON object, got array']);
+  });
+});
+
+describe('readToolkitConfig', () => {
+  let projectRoot: string;
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'config-utils-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('returns null without a config file', () => {
+    assert.equal(readToolkitConfig(projectRoot), null);
+  });
+
+  it('reads a valid config', () => {
+    const filePath = path.join(projectRoot, CONFIG_FILENAME);
+    fs.writeFileSync(filePath, JSON.stringify({ profile: 'contracts' }));
+
+    assert.deepEqual(readToolkitConfig(projectRoot), {
+      config: { profile: 'contracts' },
+      filePath,
+    });
+  });
+
+  it('lists every problem in one error', () => {
+    fs.writeFileSync(
+      path.join(projectRoot, CONFIG_FILENAME),
+      JSON.stringify({ installKnowledge: 'some', extra: true })
+    );
+
+    assert.throws(
+      () => readToolkitConfig(projectRoot),
+      (error: unknown) =>
+        error instanceof ToolkitConfigError &&
+        error.problems.length === 2 &&
+        error.message.startsWith(`${CONFIG_FILENAME} is invalid:\n  - `)
+    );
+  });
+
+  it('reports a file that is not JSON', () => {
+    fs.writeFileSync(path.join(projectRoot, CONFIG_FILENAME), '{ "profile": ');
+
+    assert.throws(() => readToolkitConfig(projectRoot), /not valid JSON/);
+  });
+});
+
+describe('config selection', () => {
+  it('reads one or several profiles', () => {
+    assert.deepEqual(getConfigProfiles({}), []);
+    assert.deepEqual(getConfigProfiles({ profile: 'contracts' }), ['contracts']);
+    assert.deepEqual(getConfigProfiles({ profile: ['contracts', 'reviewer'] }), [
+      'contracts',
+      'reviewer',
+    ]);
+  });
+
+  it('adds included names and drops excluded ones, exclude winning', () => {
+    const selection = { commands: ['plan', 'explore'], agents: ['planner', 'context-loader'] };
+
+    assert.deepEqual(
+      applyConfigSelection(selection, {
+        commands: { include: ['deploy', 'plan'], exclude: ['deploy'] },
+        agents: { exclude: ['context-loader'] },
+      }),
+      { commands: ['plan', 'explore'], agents: ['planner'] }
+    );
+  });
+
+  it('reports profiles and names the toolkit does not ship', () => {
+    const problems = findUnknownConfigNames(
+      { profile: ['default', 'no-such-profile'], agents: { include: ['planner', 'ghost'] } },
+      { commands: ['plan'], agents: ['planner'] }
+    );
+
+    assert.equal(problems.length, 2);
+    assert.match(problems[0], /^profile lists unknown profiles: no-such-profile \(available: /);
+    assert.equal(problems[1], 'agents.include lists agents this toolkit does not ship: ghost');
+  });
+});
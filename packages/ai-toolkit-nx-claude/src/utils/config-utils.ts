@@ -0,0 +1,215 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { findToolkitFile, type ContentType } from './content-utils';
+import { loadProfiles } from './profile-utils';
+
+export const CONFIG_FILENAME = '.claude-toolkit.json';
+export const CONFIG_SCHEMA_FILENAME = 'toolkit-config.schema.json';
+
+export interface ConfigSelection {
+  include?: string[];
+  exclude?: string[];
+}
+
+// A team's installer settings, checked into the repo root as .claude-toolkit.json
+export interface ToolkitConfig {
+  profile?: string | string[];
+  commands?: ConfigSelection;
+  agents?: ConfigSelection;
+  toolkitVersion?: string;
+  installationType?: 'global' | 'local';
+  installKnowledge?: 'required' | 'all' | 'none';
+}
+
+// The subset of JSON Schema that toolkit-config.schema.json uses
+interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  enum?: unknown[];
+  pattern?: string;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean;
+  definitions?: Record<string, JsonSchema>;
+  $ref?: string;
+}
+
+export class ToolkitConfigError extends Error {
+  constructor(
+    readonly filePath: string,
+    readonly problems: string[]
+  ) {
+    super(
+      `${path.basename(filePath)} is invalid:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`
+    );
+    this.name = 'ToolkitConfigError';
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return value === null ? 'null' : typeof value;
+}
+
+function validateValue(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema,
+  location: string,
+  problems: string[]
+): void {
+  if (schema.$ref) {
+    const name = schema.$ref.replace('#/definitions/', '');
+    const target = root.definitions?.[name];
+    if (!target) {
+      throw new Error(`Unresolved $ref "${schema.$ref}" in a toolkit schema`);
+    }
+    validateValue(value, target, root, location, problems);
+    return;
+  }
+
+  const types = typeof schema.type === 'string' ? [schema.type] : (schema.type ?? []);
+  if (types.length > 0 && !types.includes(typeOf(value))) {
+    problems.push(`${location} must be ${types.join(' or ')}, got ${typeOf(value)}`);
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    problems.push(
+      `${location} must be one of ${schema.enum.map((item) => JSON.stringify(item)).join(', ')}, got ${JSON.stringify(value)}`
+    );
+  }
+  if (schema.pattern && typeof value === 'string' && !new RegExp(schema.pattern).test(value)) {
+    problems.push(
+      `${location} must match ${schema.pattern}${schema.description ? ` (${schema.description})` : ''}, got ${JSON.stringify(value)}`
+    );
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) =>
+      validateValue(item, schema.items as JsonSchema, root, `${location}[${index}]`, problems)
+    );
+  }
+
+  if (typeOf(value) === 'object' && schema.properties) {
+    const properties = schema.properties;
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+      const childLocation = location === '' ? key : `${location}.${key}`;
+      if (properties[key]) {
+        validateValue(item, properties[key], root, childLocation, problems);
+      } else if (schema.additionalProperties === false) {
+        problems.push(
+          `unknown key "${childLocation}" (expected ${Object.keys(properties)
+            .filter((name) => name !== '$schema')
+            .join(', ')})`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Check a parsed settings file against a schema shipped with the toolkit
+ * (e.g. toolkit-config.schema.json). Returns one message per problem, e.g.
+ * 'agents.exclude[1] must be string, got number'.
+ */
+export function validateAgainstSchema(value: unknown, schemaFilename: string): string[] {
+  const schemaPath = findToolkitFile(schemaFilename);
+  if (!schemaPath) {
+    throw new Error(`${schemaFilename} not found next to the toolkit`);
+  }
+  const schema = JSON.parse(fs.readFileSync(schemaPath, 'utf-8')) as JsonSchema;
+
+  const problems: string[] = [];
+  if (typeOf(value) !== 'object') {
+    problems.push(`the file must contain a JSON object, got ${typeOf(value)}`);
+  } else {
+    validateValue(value, schema, schema, '', problems);
+  }
+  return problems;
+}
+
+// Parse a settings file and validate it; throws a ToolkitConfigError listing every problem
+export function readValidatedJson(filePath: string, schemaFilename: string): unknown {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new ToolkitConfigError(filePath, [`not valid JSON: ${error.message}`]);
+  }
+
+  const problems = validateAgainstSchema(parsed, schemaFilename);
+  if (problems.length > 0) {
+    throw new ToolkitConfigError(filePath, problems);
+  }
+  return parsed;
+}
+
+/**
+ * Read and validate .claude-toolkit.json from the project root. Returns null
+ * when the project has none; throws a ToolkitConfigError listing every problem.
+ */
+export function readToolkitConfig(
+  projectRoot: string
+): { config: ToolkitConfig; filePath: string } | null {
+  const filePath = path.join(projectRoot, CONFIG_FILENAME);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  const config = readValidatedJson(filePath, CONFIG_SCHEMA_FILENAME) as ToolkitConfig;
+  return { config, filePath };
+}
+
+// Profile names from the config's "profile" key, which takes a name or a list
+export function getConfigProfiles(config: ToolkitConfig): string[] {
+  if (config.profile === undefined) {
+    return [];
+  }
+  return Array.isArray(config.profile) ? config.profile : [config.profile];
+}
+
+/**
+ * Profiles and include/exclude names the toolkit does not ship, as config problems.
+ * Checked separately from the schema because they depend on the bundled content.
+ */
+export function findUnknownConfigNames(
+  config: ToolkitConfig,
+  available: Record<ContentType, string[]>
+): string[] {
+  const problems: string[] = [];
+  const profiles = Object.keys(loadProfiles());
+  const unknownProfiles = getConfigProfiles(config).filter((name) => !profiles.includes(name));
+  if (unknownProfiles.length > 0) {
+    problems.push(
+      `profile lists unknown profiles: ${unknownProfiles.join(', ')} (available: ${profiles.join(', ')})`
+    );
+  }
+  for (const type of ['commands', 'agents'] as ContentType[]) {
+    for (const key of ['include', 'exclude'] as const) {
+      const unknown = (config[type]?.[key] ?? []).filter((name) => !available[type].includes(name));
+      if (unknown.length > 0) {
+        problems.push(
+          `${type}.${key} lists ${type} this toolkit does not ship: ${unknown.join(', ')}`
+        );
+      }
+    }
+  }
+  return problems;
+}
+
+// Apply the config's include/exclude lists to a selection; exclude wins
+export function applyConfigSelection(
+  selection: Record<ContentType, string[]>,
+  config: ToolkitConfig
+): Record<ContentType, string[]> {
+  const adjust = (type: ContentType) => {
+    const exclude = new Set(config[type]?.exclude ?? []);
+    return Array.from(new Set([...selection[type], ...(config[type]?.include ?? [])])).filter(
+      (name) => !exclude.has(name)
+    );
+  };
+  return { commands: adjust('commands'), agents: adjust('agents') };
+}
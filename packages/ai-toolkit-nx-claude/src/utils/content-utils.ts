@@ -0,0 +1,347 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { logger } from '@nx/devkit';
+import { expandIncludes, FrontmatterError, parseFrontmatter } from '@solo-labs/utils';
+
+export interface ContentItem {
+  description: string;
+  filePath: string;
+  // Content package the file comes from (agnostic, frontend, subgraph)
+  package: string;
+  // Knowledge docs only: concepts, patterns or gotchas
+  category?: string;
+  // Skill files only: the skill folder the file belongs to
+  skill?: string;
+  // Where the file's <!-- include: root/... --> directives resolve
+  includeRoots: Record<string, string>;
+}
+
+export type ContentType = 'commands' | 'agents';
+
+// Everything the installer can write into .claude and track in the manifest
+export type InstallableType = ContentType | 'knowledge' | 'skills';
+
+export const KNOWLEDGE_PACKAGE = 'protocol-knowledge';
+
+export const HOOKS_PACKAGE = 'hooks';
+
+export const SKILLS_PACKAGE = 'skills';
+
+// Every skill is a folder with a SKILL.md and optional supporting files
+export const SKILL_FILENAME = 'SKILL.md';
+
+// Knowledge docs keep their category folders so the links between them still resolve
+export const KNOWLEDGE_INSTALL_DIR = path.join('knowledge', 'aegis');
+
+function getWorkspaceKnowledgeDir(workspaceRoot: string): string {
+  return path.join(workspaceRoot, 'packages', 'agents', KNOWLEDGE_PACKAGE, 'src');
+}
+
+/**
+ * Find a file shipped next to the installer by walking up from the running
+ * module: src/ in the workspace, the dist root when bundled
+ */
+export function findToolkitFile(filename: string): string | null {
+  let dir = __dirname;
+  while (true) {
+    const filePath = path.join(dir, filename);
+    if (fs.existsSync(filePath)) {
+      return filePath;
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+// Description from a content file's frontmatter; malformed files are listed without one
+function readDescription(content: string, filePath: string): string {
+  try {
+    return parseFrontmatter(content, filePath)?.frontmatter.description ?? '';
+  } catch (error) {
+    if (error instanceof FrontmatterError) {
+      logger.warn(`⚠️  ${error.message}`);
+      return '';
+    }
+    throw error;
+  }
+}
+
+// content/<name> shipped with the bundled CLI; null when running from the workspace
+function findBundledContentDir(name: string): string | null {
+  return findToolkitFile(path.join('content', name));
+}
+
+// Dynamically load available commands and agents from filesystem
+export function loadAvailableContent(
+  type: ContentType,
+  workspaceRoot: string
+): Record<string, ContentItem> {
+  const result: Record<string, ContentItem> = {};
+
+  // First check for bundled content (when running as standalone package)
+  const bundledContentDir = findBundledContentDir(type);
+  if (bundledContentDir) {
+    const includeRoots = { [KNOWLEDGE_PACKAGE]: getKnowledgeDir(workspaceRoot) };
+    const contentSubDirs = fs.readdirSync(bundledContentDir).filter((item) => {
+      const itemPath = path.join(bundledContentDir, item);
+      return fs.statSync(itemPath).isDirectory();
+    });
+
+    for (const subDir of contentSubDirs) {
+      const subDirPath = path.join(bundledContentDir, subDir);
+      const files = fs.readdirSync(subDirPath).filter((f) => f.endsWith('.md'));
+
+      for (const file of files) {
+        const name = file.replace('.md', '');
+        const filePath = path.join(subDirPath, file);
+        const content = fs.readFileSync(filePath, 'utf-8');
+
+        const description = readDescription(content, filePath);
+        result[name] = { description, filePath, package: subDir, includeRoots };
+      }
+    }
+  }
+
+  // Fall back to workspace lookup if bundled content not found or empty
+  if (Object.keys(result).length === 0) {
+    const baseDir = path.join(workspaceRoot, `packages/${type}`);
+    if (fs.existsSync(baseDir)) {
+      const includeRoots = { [KNOWLEDGE_PACKAGE]: getWorkspaceKnowledgeDir(workspaceRoot) };
+      const subDirs = fs.readdirSync(baseDir).filter((item) => {
+        const itemPath = path.join(baseDir, item);
+        return fs.statSync(itemPath).isDirectory();
+      });
+
+      for (const subDir of subDirs) {
+        const srcPath = path.join(baseDir, subDir, 'src');
+        if (!fs.existsSync(srcPath)) continue;
+
+        const files = fs.readdirSync(srcPath).filter((f) => f.endsWith('.md'));
+
+        for (const file of files) {
+          const name = file.replace('.md', '');
+          const filePath = path.join(srcPath, file);
+          const content = fs.readFileSync(filePath, 'utf-8');
+
+          const description = readDescription(content, filePath);
+          result[name] = { description, filePath, package: subDir, includeRoots };
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+// Path of an installed file relative to the .claude directory
+export function getInstallPath(type: InstallableType, name: string, contentItem?: ContentItem) {
+  if (type === 'knowledge') {
+    return path.join(KNOWLEDGE_INSTALL_DIR, contentItem?.category ?? '', `${name}.md`);
+  }
+  // Skill files are named by their path in the skill, e.g. "aegis-architect/SKILL.md"
+  return type === 'skills' ? path.join(type, ...name.split('/')) : path.join(type, `${name}.md`);
+}
+
+function readKnowledgeDocs(categoriesDir: string): Record<string, ContentItem> {
+  const result: Record<string, ContentItem> = {};
+  if (!fs.existsSync(categoriesDir)) {
+    return result;
+  }
+
+  const categories = fs
+    .readdirSync(categoriesDir)
+    .filter((item) => fs.statSync(path.join(categoriesDir, item)).isDirectory());
+  for (const category of categories) {
+    const categoryDir = path.join(categoriesDir, category);
+    const files = fs.readdirSync(categoryDir).filter((f) => f.endsWith('.md'));
+
+    for (const file of files) {
+      const filePath = path.join(categoryDir, file);
+      let summary = '';
+      try {
+        const parsed = parseFrontmatter(fs.readFileSync(filePath, 'utf-8'), filePath);
+        summary = String(parsed?.frontmatter.extra.summary ?? '');
+      } catch (error) {
+        if (!(error instanceof FrontmatterError)) {
+          throw error;
+        }
+        logger.warn(`⚠️  ${error.message}`);
+      }
+      result[file.replace('.md', '')] = {
+        description: summary,
+        filePath,
+        package: KNOWLEDGE_PACKAGE,
+        category,
+        includeRoots: { [KNOWLEDGE_PACKAGE]: categoriesDir },
+      };
+    }
+  }
+
+  return result;
+}
+
+// protocol-knowledge source directory, bundled with the CLI or from the workspace
+export function getKnowledgeDir(workspaceRoot: string): string {
+  return findBundledContentDir('knowledge') ?? getWorkspaceKnowledgeDir(workspaceRoot);
+}
+
+// Load protocol-knowledge docs, bundled with the CLI or from the workspace
+export function loadAvailableKnowledge(workspaceRoot: string): Record<string, ContentItem> {
+  const bundledDir = findBundledContentDir('knowledge');
+  const bundled = bundledDir ? readKnowledgeDocs(bundledDir) : {};
+  if (Object.keys(bundled).length > 0) {
+    return bundled;
+  }
+  return readKnowledgeDocs(getWorkspaceKnowledgeDir(workspaceRoot));
+}
+
+function listMarkdownFiles(dir: string): string[] {
+  return fs.readdirSync(dir).flatMap((item) => {
+    const itemPath = path.join(dir, item);
+    if (fs.statSync(itemPath).isDirectory()) {
+      return listMarkdownFiles(itemPath).map((file) => `${item}/${file}`);
+    }
+    return item.endsWith('.md') ? [item] : [];
+  });
+}
+
+function readSkillFiles(skillsDir: string, knowledgeDir: string): Record<string, ContentItem> {
+  const result: Record<string, ContentItem> = {};
+  if (!fs.existsSync(skillsDir)) {
+    return result;
+  }
+
+  const skills = fs
+    .readdirSync(skillsDir)
+    .filter((item) => fs.existsSync(path.join(skillsDir, item, SKILL_FILENAME)));
+  for (const skill of skills) {
+    // Supporting files are include stubs that expand from protocol-knowledge
+    const includeRoots = { [KNOWLEDGE_PACKAGE]: knowledgeDir };
+    for (const file of listMarkdownFiles(path.join(skillsDir, skill))) {
+      const filePath = path.join(skillsDir, skill, file);
+      result[`${skill}/${file}`] = {
+        description:
+          file === SKILL_FILENAME
+            ? readDescription(fs.readFileSync(filePath, 'utf-8'), filePath)
+            : '',
+        filePath,
+        package: SKILLS_PACKAGE,
+        skill,
+        includeRoots,
+      };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Load Agent Skills, bundled with the CLI or from the workspace. Every file of
+ * every skill is its own item, keyed by "<skill>/<path in the skill>", so the
+ * manifest and lock track skills file by file like any other content.
+ */
+export function loadAvailableSkills(workspaceRoot: string): Record<string, ContentItem> {
+  const bundledDir = findBundledContentDir('skills');
+  const bundled = bundledDir ? readSkillFiles(bundledDir, getKnowledgeDir(workspaceRoot)) : {};
+  if (Object.keys(bundled).length > 0) {
+    return bundled;
+  }
+  return readSkillFiles(
+    path.join(workspaceRoot, 'packages', SKILLS_PACKAGE, 'src'),
+    getWorkspaceKnowledgeDir(workspaceRoot)
+  );
+}
+
+// "aegis-architect/SKILL.md" -> "aegis-architect"
+export function getSkillName(fileKey: string): string {
+  return fileKey.split('/')[0];
+}
+
+// Skill name -> the keys of its files, SKILL.md first
+export function groupSkillFiles(skillFiles: Record<string, ContentItem>): Map<string, string[]> {
+  const grouped = new Map<string, string[]>();
+  for (const key of Object.keys(skillFiles).sort()) {
+    const skill = getSkillName(key);
+    const files = grouped.get(skill) ?? [];
+    grouped.set(skill, key === `${skill}/${SKILL_FILENAME}` ? [key, ...files] : [...files, key]);
+  }
+  return grouped;
+}
+
+function readHookDefinitions(hooksDir: string): Record<string, ContentItem> {
+  const result: Record<string, ContentItem> = {};
+  if (!fs.existsSync(hooksDir)) {
+    return result;
+  }
+
+  for (const file of fs.readdirSync(hooksDir).filter((f) => f.endsWith('.json'))) {
+    const filePath = path.join(hooksDir, file);
+    let description = '';
+    try {
+      description = String(JSON.parse(fs.readFileSync(filePath, 'utf-8')).description ?? '');
+    } catch (error) {
+      logger.warn(`⚠️  Failed to read hook ${filePath}: ${error}`);
+    }
+    result[file.replace('.json', '')] = {
+      description,
+      filePath,
+      package: HOOKS_PACKAGE,
+      includeRoots: {},
+    };
+  }
+
+  return result;
+}
+
+// Load hook definitions (<name>.json), bundled with the CLI or from the workspace
+export function loadAvailableHooks(workspaceRoot: string): Record<string, ContentItem> {
+  const bundledDir = findBundledContentDir('hooks');
+  const bundled = bundledDir ? readHookDefinitions(bundledDir) : {};
+  if (Object.keys(bundled).length > 0) {
+    return bundled;
+  }
+  return readHookDefinitions(path.join(workspaceRoot, 'packages', HOOKS_PACKAGE, 'src'));
+}
+
+/**
+ * Content as it is installed: include directives are expanded so Claude Code
+ * only ever sees plain Markdown. Throws an IncludeError for unresolved includes.
+ */
+export function readContentFile(contentItem: ContentItem): string {
+  const content = fs.readFileSync(contentItem.filePath, 'utf-8');
+  return expandIncludes(content, contentItem.filePath, { roots: contentItem.includeRoots });
+}
+
+export function checkExistingFiles(
+  targetDir: string,
+  subDir: ContentType,
+  items: string[]
+): Set<string> {
+  const existing = new Set<string>();
+  const dir = path.join(targetDir, subDir);
+
+  for (const item of items) {
+    const filePath = path.join(dir, `${item}.md`);
+    if (fs.existsSync(filePath)) {
+      existing.add(item);
+    }
+  }
+
+  return existing;
+}
+
+// Accepts both array options (Nx) and comma-separated strings (standalone CLI)
+export function parseNameList(value: unknown): string[] | undefined {
+  if (value === undefined || value === null || value === true) {
+    return undefined;
+  }
+  const raw = Array.isArray(value) ? value : String(value).split(',');
+  return raw
+    .filter((item): item is string => typeof item === 'string')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
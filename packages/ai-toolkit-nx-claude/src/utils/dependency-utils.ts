@@ -0,0 +1,189 @@
+import * as fs from 'fs';
+import { FrontmatterError, getSubagentReferences, parseFrontmatter } from '@solo-labs/utils';
+import { SKILL_FILENAME, type ContentItem, type ContentType } from './content-utils';
+
+export interface AgentDependencies {
+  // Agents added to the selection -> the components that require them
+  added: Map<string, string[]>;
+  // Referenced agents this toolkit does not ship -> the components that require them
+  unavailable: Map<string, string[]>;
+}
+
+export interface KnowledgeDependencies {
+  // Knowledge docs to install -> the agents that declare them
+  required: Map<string, string[]>;
+  // Declared docs this toolkit does not ship -> the agents that declare them
+  unavailable: Map<string, string[]>;
+}
+
+export interface SkillDependencies {
+  // Skills added to the selection -> the skills that link to them
+  added: Map<string, string[]>;
+  // Linked skills this toolkit does not ship -> the skills that link to them
+  unavailable: Map<string, string[]>;
+}
+
+/**
+ * Agents a command or agent delegates to via Task(subagent_type:X) in its
+ * allowed-tools (commands) or tools (agents) frontmatter.
+ */
+export function getAgentReferences(contentItem: ContentItem): string[] {
+  if (!fs.existsSync(contentItem.filePath)) {
+    return [];
+  }
+  try {
+    const parsed = parseFrontmatter(fs.readFileSync(contentItem.filePath, 'utf-8'));
+    return parsed ? getSubagentReferences(parsed.frontmatter) : [];
+  } catch (error) {
+    // Malformed frontmatter is reported by doctor and lint-content, not here
+    if (error instanceof FrontmatterError) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+// Knowledge docs an agent declares via "knowledge: [l-units, ...]" in its frontmatter
+export function getKnowledgeReferences(contentItem: ContentItem): string[] {
+  if (!fs.existsSync(contentItem.filePath)) {
+    return [];
+  }
+  try {
+    const parsed = parseFrontmatter(fs.readFileSync(contentItem.filePath, 'utf-8'));
+    return parsed?.frontmatter.knowledge ?? [];
+  } catch (error) {
+    if (error instanceof FrontmatterError) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+// How a component is named in dependency explanations, e.g. "/plan" or "planner"
+export function formatComponentName(type: ContentType, name: string): string {
+  return type === 'commands' ? `/${name}` : name;
+}
+
+/**
+ * Walk the dependency graph from the selected commands and agents and collect
+ * every agent they need (transitively) that is neither selected nor already
+ * installed.
+ */
+export function resolveAgentDependencies(
+  selection: Record<ContentType, string[]>,
+  availableContent: Record<ContentType, Record<string, ContentItem>>,
+  installedAgents: Set<string> = new Set()
+): AgentDependencies {
+  const added = new Map<string, string[]>();
+  const unavailable = new Map<string, string[]>();
+  const satisfied = new Set([...selection.agents, ...installedAgents]);
+  const queue: Array<[ContentType, string]> = [
+    ...selection.commands.map((name): [ContentType, string] => ['commands', name]),
+    ...selection.agents.map((name): [ContentType, string] => ['agents', name]),
+  ];
+
+  const record = (target: Map<string, string[]>, agentName: string, requiredBy: string) => {
+    const requirers = target.get(agentName) ?? [];
+    if (!requirers.includes(requiredBy)) {
+      target.set(agentName, [...requirers, requiredBy]);
+    }
+  };
+
+  for (let next = queue.shift(); next; next = queue.shift()) {
+    const [type, name] = next;
+    const contentItem = availableContent[type][name];
+    if (!contentItem) {
+      continue;
+    }
+
+    for (const agentName of getAgentReferences(contentItem)) {
+      const requiredBy = formatComponentName(type, name);
+      if (added.has(agentName)) {
+        record(added, agentName, requiredBy);
+      } else if (satisfied.has(agentName)) {
+        continue;
+      } else if (availableContent.agents[agentName]) {
+        record(added, agentName, requiredBy);
+        queue.push(['agents', agentName]);
+      } else {
+        record(unavailable, agentName, requiredBy);
+      }
+    }
+  }
+
+  return { added, unavailable };
+}
+
+/**
+ * Collect the knowledge docs the given agents declare. Docs are not followed
+ * through their "related" links, so exactly the declared docs are installed.
+ */
+export function resolveKnowledgeDependencies(
+  agentNames: string[],
+  availableAgents: Record<string, ContentItem>,
+  availableKnowledge: Record<string, ContentItem>
+): KnowledgeDependencies {
+  const required = new Map<string, string[]>();
+  const unavailable = new Map<string, string[]>();
+
+  for (const agentName of agentNames) {
+    const contentItem = availableAgents[agentName];
+    if (!contentItem) {
+      continue;
+    }
+    for (const docName of getKnowledgeReferences(contentItem)) {
+      const target = availableKnowledge[docName] ? required : unavailable;
+      target.set(docName, [...(target.get(docName) ?? []), agentName]);
+    }
+  }
+
+  return { required, unavailable };
+}
+
+// Skills a SKILL.md links into, e.g. "](../aegis-protocol-knowledge/concepts/l-units.md)"
+export function getSkillReferences(contentItem: ContentItem): string[] {
+  if (!fs.existsSync(contentItem.filePath)) {
+    return [];
+  }
+  const content = fs.readFileSync(contentItem.filePath, 'utf-8');
+  const references = Array.from(content.matchAll(/\]\(\.\.\/([a-z0-9][a-z0-9-]*)\//g), (m) => m[1]);
+  return Array.from(new Set(references));
+}
+
+/**
+ * Walk the links between the selected skills and collect every skill they
+ * need (transitively) that is not selected, so installed links never dangle.
+ */
+export function resolveSkillDependencies(
+  skillNames: string[],
+  availableSkills: Record<string, ContentItem>
+): SkillDependencies {
+  const added = new Map<string, string[]>();
+  const unavailable = new Map<string, string[]>();
+  const selected = new Set(skillNames);
+  const queue = [...skillNames];
+
+  while (queue.length > 0) {
+    const skillName = queue.shift()!;
+    const contentItem = availableSkills[`${skillName}/${SKILL_FILENAME}`];
+    if (!contentItem) {
+      continue;
+    }
+    for (const reference of getSkillReferences(contentItem)) {
+      if (reference === skillName || selected.has(reference)) {
+        continue;
+      }
+      const available = Boolean(availableSkills[`${reference}/${SKILL_FILENAME}`]);
+      if (available && !added.has(reference)) {
+        queue.push(reference);
+      }
+      const target = available ? added : unavailable;
+      const requirers = target.get(reference) ?? [];
+      if (!requirers.includes(skillName)) {
+        target.set(reference, [...requirers, skillName]);
+      }
+    }
+  }
+
+  return { added, unavailable };
+}
@@ -0,0 +1,216 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { IncludeError } from '@solo-labs/utils';
+import { getSkillName, readContentFile, type ContentItem, type ContentType } from './content-utils';
+import {
+  findManifestEntry,
+  getToolkitVersion,
+  hashContent,
+  readManifest,
+  resolveInstallLocation,
+  uniqueStrings,
+  type Manifest,
+  type ManifestFileEntry,
+} from './manifest-utils';
+
+export interface InstalledFileState {
+  exists: boolean;
+  // Hash of the file currently on disk (null when missing)
+  currentHash: string | null;
+  // Hash of the content bundled with this toolkit release (null when no longer shipped)
+  bundledHash: string | null;
+  // The user edited the file after install; null when the manifest has no hash to compare with
+  modified: boolean | null;
+  // The bundled content differs from what was installed
+  outdated: boolean | null;
+  // Why the bundled content could not be read (an unresolved include); bundledHash is null then
+  unreadable: string | null;
+}
+
+/**
+ * Compare an installed file against its manifest entry and the bundled content.
+ */
+export function inspectInstalledFile(
+  targetDir: string,
+  entry: ManifestFileEntry,
+  contentItem: ContentItem | undefined
+): InstalledFileState {
+  const absolutePath = path.join(targetDir, entry.path);
+  const exists = fs.existsSync(absolutePath);
+  const currentHash = exists ? hashContent(fs.readFileSync(absolutePath)) : null;
+  let bundledHash: string | null = null;
+  let unreadable: string | null = null;
+  if (contentItem && fs.existsSync(contentItem.filePath)) {
+    try {
+      bundledHash = hashContent(readContentFile(contentItem));
+    } catch (error) {
+      // One broken include must not stop status, update or uninstall from handling the rest
+      if (!(error instanceof IncludeError)) {
+        throw error;
+      }
+      unreadable = error.message;
+    }
+  }
+
+  const modified = entry.sha256 && currentHash ? currentHash !== entry.sha256 : null;
+
+  let outdated: boolean | null = null;
+  if (bundledHash) {
+    if (entry.sha256) {
+      outdated = bundledHash !== entry.sha256;
+    } else if (currentHash) {
+      // Without an install-time hash the best signal is whether the file matches the bundle
+      outdated = bundledHash !== currentHash;
+    }
+  }
+
+  return { exists, currentHash, bundledHash, modified, outdated, unreadable };
+}
+
+export type InstallScope = 'global' | 'local';
+
+export interface ScopeStatus {
+  installed: boolean;
+  // Recorded in that location's manifest.json
+  tracked: boolean;
+  modified: boolean | null;
+  outdated: boolean | null;
+  // The bundled version could not be read, so outdated is unknown
+  unreadable: string | null;
+}
+
+export interface ContentStatus {
+  type: ContentType;
+  name: string;
+  package: string;
+  global: ScopeStatus;
+  local: ScopeStatus;
+  // A local copy hides the global one inside this workspace
+  shadowed: boolean;
+}
+
+export interface ScopeSummary {
+  targetDir: string;
+  hasManifest: boolean;
+  toolkitVersion: string | null;
+  // Agent Skills installed into that location's skills/
+  skills: string[];
+  // Hooks the toolkit merged into that location's settings.json
+  hooks: string[];
+  // MCP config the knowledge server was registered in, if any
+  mcpServer: string | null;
+  // Set when manifest.json exists but could not be read
+  error: string | null;
+}
+
+export interface InstallStatusReport {
+  toolkitVersion: string;
+  locations: Record<InstallScope, ScopeSummary>;
+  items: ContentStatus[];
+}
+
+function readScope(scope: InstallScope, workspaceRoot: string) {
+  const { targetDir } = resolveInstallLocation(scope, workspaceRoot);
+  let manifest: Manifest | null = null;
+  let error: string | null = null;
+  try {
+    manifest = readManifest(targetDir);
+  } catch (readError) {
+    error = readError instanceof Error ? readError.message : String(readError);
+  }
+
+  const summary: ScopeSummary = {
+    targetDir,
+    hasManifest: manifest !== null,
+    toolkitVersion: manifest?.toolkitVersion ?? null,
+    skills: uniqueStrings(
+      (manifest?.files ?? [])
+        .filter((entry) => entry.type === 'skills')
+        .map((entry) => getSkillName(entry.name))
+    ),
+    hooks: manifest?.hooks.map((entry) => entry.name) ?? [],
+    mcpServer: manifest?.mcpServer?.configPath ?? null,
+    error,
+  };
+  return { summary, manifest };
+}
+
+function inspectScope(
+  targetDir: string,
+  manifest: Manifest | null,
+  type: ContentType,
+  name: string,
+  contentItem: ContentItem
+): ScopeStatus {
+  const relativeFilePath = path.join(type, `${name}.md`);
+  const trackedEntry = manifest ? findManifestEntry(manifest, relativeFilePath) : undefined;
+
+  // Untracked copies are compared with the bundle directly, like pre-hash manifest entries
+  const entry: ManifestFileEntry = trackedEntry ?? {
+    path: relativeFilePath,
+    type,
+    name,
+    sha256: null,
+    package: null,
+    toolkitVersion: null,
+    installedAt: '',
+  };
+  const state = inspectInstalledFile(targetDir, entry, contentItem);
+
+  return {
+    installed: state.exists,
+    tracked: trackedEntry !== undefined,
+    modified: state.exists ? state.modified : null,
+    outdated: state.exists ? state.outdated : null,
+    unreadable: state.unreadable,
+  };
+}
+
+/**
+ * Report every available command and agent against both install locations.
+ */
+export function collectInstallStatus(
+  workspaceRoot: string,
+  availableContent: Record<ContentType, Record<string, ContentItem>>
+): InstallStatusReport {
+  const global = readScope('global', workspaceRoot);
+  const local = readScope('local', workspaceRoot);
+  // Running from the home directory makes both locations the same .claude
+  const sameLocation = global.summary.targetDir === local.summary.targetDir;
+
+  const items: ContentStatus[] = [];
+  for (const type of ['commands', 'agents'] as const) {
+    for (const name of Object.keys(availableContent[type]).sort()) {
+      const contentItem = availableContent[type][name];
+      const globalStatus = inspectScope(
+        global.summary.targetDir,
+        global.manifest,
+        type,
+        name,
+        contentItem
+      );
+      const localStatus = inspectScope(
+        local.summary.targetDir,
+        local.manifest,
+        type,
+        name,
+        contentItem
+      );
+
+      items.push({
+        type,
+        name,
+        package: contentItem.package,
+        global: globalStatus,
+        local: localStatus,
+        shadowed: !sameLocation && globalStatus.installed && localStatus.installed,
+      });
+    }
+  }
+
+  return {
+    toolkitVersion: getToolkitVersion(),
+    locations: { global: global.summary, local: local.summary },
+    items,
+  };
+}
@@ -0,0 +1,191 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { KNOWLEDGE_PACKAGE, type ContentItem, type InstallableType } from './content-utils';
+import {
+  LOCKFILE_FILENAME,
+  LOCKFILE_VERSION,
+  createLock,
+  findLockMismatches,
+  getLockedNames,
+  readLock,
+  type ToolkitLock,
+} from './lock-utils';
+import { hashContent } from './manifest-utils';
+
+describe('lock files', () => {
+  let rootDir: string;
+  let content: Record<InstallableType, Record<string, ContentItem>>;
+
+  function writeFile(relativePath: string, text: string): string {
+    const filePath = path.join(rootDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, text);
+    return filePath;
+  }
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lock-utils-'));
+    const knowledgeDir = path.join(rootDir, 'knowledge');
+    const includeRoots = { [KNOWLEDGE_PACKAGE]: knowledgeDir };
+
+    writeFile(
+      'knowledge/concepts/pips.md',
+      '---\ntitle: PIPS\n---\n\n# PIPS\n\n## Definition\n\n1e6\n'
+    );
+    content = {
+      commands: {
+        plan: {
+          description: 'Plan',
+          filePath: writeFile('commands/agnostic/plan.md', '# Plan\n'),
+          package: 'agnostic',
+          includeRoots,
+        },
+      },
+      agents: {
+        'l-unit-accountant': {
+          description: 'L-units',
+          filePath: writeFile(
+            'agents/agnostic/l-unit-accountant.md',
+            '# Accountant\n\n<!-- include: protocol-knowledge/concepts/pips.md#definition -->\n'
+          ),
+          package: 'agnostic',
+          includeRoots,
+        },
+      },
+      knowledge: {
+        pips: {
+          description: 'PIPS',
+          filePath: path.join(knowledgeDir, 'concepts', 'pips.md'),
+          package: KNOWLEDGE_PACKAGE,
+          category: 'concepts',
+          includeRoots,
+        },
+      },
+      skills: {},
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  function lockAll(): ToolkitLock {
+    return createLock('local', [
+      ['commands', ['plan', 'not-shipped'], content.commands],
+      ['agents', ['l-unit-accountant'], content.agents],
+      ['knowledge', ['pips'], content.knowledge],
+    ]);
+  }
+
+  describe('createLock', () => {
+    it('records each available file with a / path, sorted by path', () => {
+      const lock = lockAll();
+
+      assert.equal(lock.lockfileVersion, LOCKFILE_VERSION);
+      assert.equal(lock.installationType, 'local');
+      assert.deepEqual(
+        lock.files.map((entry) => [entry.path, entry.type, entry.name, entry.package]),
+        [
+          ['agents/l-unit-accountant.md', 'agents', 'l-unit-accountant', 'agnostic'],
+          ['commands/plan.md', 'commands', 'plan', 'agnostic'],
+          ['knowledge/aegis/concepts/pips.md', 'knowledge', 'pips', KNOWLEDGE_PACKAGE],
+        ]
+      );
+    });
+
+    it('hashes the content as installed, with includes expanded', () => {
+      const agent = lockAll().files.find((entry) => entry.name === 'l-unit-accountant');
+
+      assert.equal(agent?.sha256, hashContent('# Accountant\n\n1e6\n'));
+    });
+  });
+
+  describe('readLock', () => {
+    const write = (lock: unknown) =>
+      fs.writeFileSync(path.join(rootDir, LOCKFILE_FILENAME), JSON.stringify(lock));
+
+    it('returns null without a lockfile', () => {
+      assert.equal(readLock(rootDir), null);
+    });
+
+    it('reads back a lock it wrote', () => {
+      const lock = lockAll();
+      write(lock);
+
+      assert.deepEqual(readLock(rootDir), lock);
+    });
+
+    it('rejects a lock from a newer toolkit', () => {
+      write({ ...lockAll(), lockfileVersion: LOCKFILE_VERSION + 1, toolkitVersion: '9.0.0' });
+
+      assert.throws(
+        () => readLock(rootDir),
+        /only understands up to v1\. Install with toolkit 9\.0\.0/
+      );
+    });
+
+    it('rejects entries of an unknown type', () => {
+      const lock = lockAll();
+      write({ ...lock, files: [...lock.files, { ...lock.files[0], type: 'hooks' }] });
+
+      assert.throws(() => readLock(rootDir), /has an invalid file entry/);
+    });
+
+    it('rejects a file that is not JSON', () => {
+      fs.writeFileSync(path.join(rootDir, LOCKFILE_FILENAME), '{');
+
+      assert.throws(() => readLock(rootDir), new RegExp(`Failed to parse ${LOCKFILE_FILENAME}`));
+    });
+  });
+
+  describe('getLockedNames', () => {
+    it('groups locked names by type', () => {
+      assert.deepEqual(getLockedNames(lockAll()), {
+        commands: ['plan'],
+        agents: ['l-unit-accountant'],
+        knowledge: ['pips'],
+        skills: [],
+      });
+    });
+  });
+
+  describe('findLockMismatches', () => {
+    it('finds nothing when the content is unchanged', () => {
+      assert.deepEqual(findLockMismatches(lockAll(), content), []);
+    });
+
+    it('reports a file whose content changed, including through an include', () => {
+      const lock = lockAll();
+      writeFile('knowledge/concepts/pips.md', '# PIPS\n\n## Definition\n\n1,000,000\n');
+
+      assert.deepEqual(
+        findLockMismatches(lock, content).map((line) => line.replace(/ \(locked .*\)$/, '')),
+        [
+          'agents/l-unit-accountant.md content differs',
+          'knowledge/aegis/concepts/pips.md content differs',
+        ]
+      );
+    });
+
+    it('reports a locked file this toolkit no longer ships', () => {
+      const lock = lockAll();
+      delete content.commands.plan;
+
+      assert.deepEqual(findLockMismatches(lock, content), [
+        'commands/plan.md is not shipped by this toolkit',
+      ]);
+    });
+
+    it('reports a file that now installs somewhere else', () => {
+      const lock = lockAll();
+      content.knowledge.pips = { ...content.knowledge.pips, category: 'gotchas' };
+
+      assert.deepEqual(findLockMismatches(lock, content), [
+        'knowledge/aegis/concepts/pips.md now installs to knowledge/aegis/gotchas/pips.md',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import {
+  getInstallPath,
+  readContentFile,
+  type ContentItem,
+  type InstallableType,
+} from './content-utils';
+import { getToolkitVersion, hashContent } from './manifest-utils';
+
+export const LOCKFILE_FILENAME = 'claude-toolkit.lock.json';
+
+// Bump when the lockfile shape changes
+export const LOCKFILE_VERSION = 1;
+
+const LOCKED_TYPES: InstallableType[] = ['commands', 'agents', 'knowledge', 'skills'];
+
+export interface LockFileEntry {
+  // Path relative to the .claude directory with / separators, e.g. "agents/planner.md"
+  path: string;
+  type: InstallableType;
+  name: string;
+  package: string;
+  // SHA-256 of the content as installed (includes expanded)
+  sha256: string;
+}
+
+/**
+ * The exact set of files a team installs, committed next to the code. Unlike
+ * manifest.json it has no timestamps, so re-locking an unchanged set is a no-op.
+ */
+export interface ToolkitLock {
+  lockfileVersion: number;
+  toolkitVersion: string;
+  installationType: 'global' | 'local';
+  files: LockFileEntry[];
+}
+
+// Install path with / separators, so a lock written on Windows matches one written elsewhere
+function getLockPath(type: InstallableType, name: string, contentItem: ContentItem): string {
+  return getInstallPath(type, name, contentItem).split(path.sep).join('/');
+}
+
+export function createLock(
+  installationType: 'global' | 'local',
+  selections: Array<[InstallableType, string[], Record<string, ContentItem>]>
+): ToolkitLock {
+  const files: LockFileEntry[] = [];
+  for (const [type, names, availableContent] of selections) {
+    for (const name of names) {
+      const contentItem = availableContent[name];
+      if (!contentItem) {
+        continue;
+      }
+      files.push({
+        path: getLockPath(type, name, contentItem),
+        type,
+        name,
+        package: contentItem.package,
+        sha256: hashContent(readContentFile(contentItem)),
+      });
+    }
+  }
+
+  files.sort((a, b) => a.path.localeCompare(b.path));
+  return {
+    lockfileVersion: LOCKFILE_VERSION,
+    toolkitVersion: getToolkitVersion(),
+    installationType,
+    files,
+  };
+}
+
+/**
+ * Read claude-toolkit.lock.json from the project root. Returns null when there
+ * is none; throws when it cannot be parsed, has an entry of an unknown type, or
+ * was written by a newer toolkit.
+ */
+export function readLock(projectRoot: string): ToolkitLock | null {
+  const lockPath = path.join(projectRoot, LOCKFILE_FILENAME);
+  if (!fs.existsSync(lockPath)) {
+    return null;
+  }
+
+  let raw: Partial<ToolkitLock>;
+  try {
+    raw = JSON.parse(fs.readFileSync(lockPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to parse ${LOCKFILE_FILENAME}: ${error}`);
+  }
+  if (typeof raw.lockfileVersion !== 'number' || !Array.isArray(raw.files)) {
+    throw new Error(`${LOCKFILE_FILENAME} is missing lockfileVersion or files`);
+  }
+  if (raw.lockfileVersion > LOCKFILE_VERSION) {
+    throw new Error(
+      `${LOCKFILE_FILENAME} uses lockfile v${raw.lockfileVersion}, but this toolkit only understands up to v${LOCKFILE_VERSION}. Install with toolkit ${raw.toolkitVersion}.`
+    );
+  }
+  const invalid = raw.files.find(
+    (entry) =>
+      !entry ||
+      !LOCKED_TYPES.includes(entry.type) ||
+      typeof entry.name !== 'string' ||
+      typeof entry.path !== 'string' ||
+      typeof entry.sha256 !== 'string'
+  );
+  if (invalid !== undefined) {
+    throw new Error(
+      `${LOCKFILE_FILENAME} has an invalid file entry: ${JSON.stringify(invalid)} (type must be one of ${LOCKED_TYPES.join(', ')})`
+    );
+  }
+  return raw as ToolkitLock;
+}
+
+// Names per type recorded in a lock, in lockfile order
+export function getLockedNames(lock: ToolkitLock): Record<InstallableType, string[]> {
+  const names: Record<InstallableType, string[]> = {
+    commands: [],
+    agents: [],
+    knowledge: [],
+    skills: [],
+  };
+  for (const entry of lock.files) {
+    names[entry.type].push(entry.name);
+  }
+  return names;
+}
+
+/**
+ * Compare a lock against the content this toolkit would install. Returns one
+ * line per locked file that is missing or whose content hash changed.
+ */
+export function findLockMismatches(
+  lock: ToolkitLock,
+  content: Record<InstallableType, Record<string, ContentItem>>
+): string[] {
+  const mismatches: string[] = [];
+  for (const entry of lock.files) {
+    const contentItem = content[entry.type]?.[entry.name];
+    if (!contentItem || !fs.existsSync(contentItem.filePath)) {
+      mismatches.push(`${entry.path} is not shipped by this toolkit`);
+      continue;
+    }
+    const installPath = getLockPath(entry.type, entry.name, contentItem);
+    if (installPath !== entry.path) {
+      mismatches.push(`${entry.path} now installs to ${installPath}`);
+      continue;
+    }
+    const sha256 = hashContent(readContentFile(contentItem));
+    if (sha256 !== entry.sha256) {
+      mismatches.push(
+        `${entry.path} content differs (locked ${entry.sha256.slice(0, 12)}, bundled ${sha256.slice(0, 12)})`
+      );
+    }
+  }
+  return mismatches;
+}
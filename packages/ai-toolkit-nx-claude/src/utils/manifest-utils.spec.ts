@@ -0,0 +1,208 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import {
+  MANIFEST_FILENAME,
+  MANIFEST_SCHEMA_VERSION,
+  createManifest,
+  migrateManifest,
+  readManifest,
+  removeManifestEntries,
+  upsertManifestEntries,
+  type ManifestFileEntry,
+} from './manifest-utils';
+
+const installedAt = '2025-06-01T12:00:00.000Z';
+
+const hook = {
+  name: 'format-on-save',
+  event: 'PostToolUse',
+  group: { matcher: 'Edit|Write', hooks: [{ type: 'command', command: 'prettier --write' }] },
+  toolkitVersion: '0.1.0',
+  installedAt,
+};
+
+const mcpServer = {
+  name: 'solo-labs-knowledge',
+  configPath: '/repo/.mcp.json',
+  config: {
+    command: 'npx',
+    args: ['--no-install', '@solo-labs/ai-toolkit-nx-claude@0.1.0', 'mcp'],
+  },
+  toolkitVersion: '0.1.0',
+  installedAt,
+};
+
+function fileEntry(entryPath: string, type: ManifestFileEntry['type'], name: string) {
+  return {
+    path: entryPath,
+    type,
+    name,
+    sha256: 'a'.repeat(64),
+    package: 'agnostic',
+    toolkitVersion: '0.1.0',
+    installedAt,
+  };
+}
+
+describe('migrateManifest', () => {
+  it('upgrades a v1 manifest with a flat file list', () => {
+    const manifest = migrateManifest({
+      version: '1.0.0',
+      installedAt,
+      commands: ['plan'],
+      agents: ['planner'],
+      files: ['commands/plan.md', 'agents/planner.md', 'notes.txt'],
+    });
+
+    assert.deepEqual(manifest, {
+      schemaVersion: MANIFEST_SCHEMA_VERSION,
+      toolkitVersion: 'unknown',
+      installedAt,
+      updatedAt: installedAt,
+      commands: ['plan'],
+      agents: ['planner'],
+      files: [
+        {
+          path: 'commands/plan.md',
+          type: 'commands',
+          name: 'plan',
+          sha256: null,
+          package: null,
+          toolkitVersion: null,
+          installedAt,
+        },
+        {
+          path: 'agents/planner.md',
+          type: 'agents',
+          name: 'planner',
+          sha256: null,
+          package: null,
+          toolkitVersion: null,
+          installedAt,
+        },
+      ],
+      permissions: [],
+      hooks: [],
+      mcpServer: null,
+    });
+  });
+
+  it('keeps v2 file entries and adds the later sections empty', () => {
+    const entry = fileEntry('agents/planner.md', 'agents', 'planner');
+    const manifest = migrateManifest({
+      schemaVersion: 2,
+      toolkitVersion: '0.1.0',
+      installedAt,
+      updatedAt: installedAt,
+      commands: [],
+      agents: ['planner'],
+      files: [entry],
+    });
+
+    assert.deepEqual(manifest.files, [entry]);
+    assert.equal(manifest.toolkitVersion, '0.1.0');
+    assert.deepEqual([manifest.permissions, manifest.hooks, manifest.mcpServer], [[], [], null]);
+  });
+
+  it('infers a missing entry type from the path and keeps only string permissions', () => {
+    const manifest = migrateManifest({
+      schemaVersion: 3,
+      files: [{ path: 'knowledge/aegis/concepts/pips.md', name: 'pips' }],
+      permissions: ['Read', 42],
+    });
+
+    assert.equal(manifest.files[0].type, 'knowledge');
+    assert.deepEqual(manifest.permissions, ['Read']);
+  });
+
+  it('carries v3 permissions, v4 hooks and v5 MCP entries through', () => {
+    const manifest = migrateManifest({
+      schemaVersion: 5,
+      toolkitVersion: '0.1.0',
+      installedAt,
+      updatedAt: installedAt,
+      commands: [],
+      agents: [],
+      files: [],
+      permissions: ['Read', 'Bash(git log:*)'],
+      hooks: [hook, { name: 'broken' }],
+      mcpServer,
+    });
+
+    assert.deepEqual(manifest.permissions, ['Read', 'Bash(git log:*)']);
+    assert.deepEqual(manifest.hooks, [hook]);
+    assert.deepEqual(manifest.mcpServer, mcpServer);
+  });
+
+  it('drops malformed MCP entries', () => {
+    assert.equal(
+      migrateManifest({ schemaVersion: 5, mcpServer: { name: 'x', configPath: '/a' } }).mcpServer,
+      null
+    );
+  });
+
+  it('refuses a manifest from a newer toolkit', () => {
+    assert.throws(
+      () => migrateManifest({ schemaVersion: MANIFEST_SCHEMA_VERSION + 1 }),
+      new RegExp(`only understands up to v${MANIFEST_SCHEMA_VERSION}`)
+    );
+  });
+});
+
+describe('readManifest', () => {
+  let targetDir: string;
+  const write = (text: string) => fs.writeFileSync(path.join(targetDir, MANIFEST_FILENAME), text);
+
+  beforeEach(() => {
+    targetDir = fs.mkdtempSync(path.join(os.tmpdir(), 'manifest-utils-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(targetDir, { recursive: true, force: true });
+  });
+
+  it('returns null without a manifest', () => {
+    assert.equal(readManifest(targetDir), null);
+  });
+
+  it('migrates the manifest it reads', () => {
+    write(JSON.stringify({ installedAt, commands: ['plan'], files: ['commands/plan.md'] }));
+
+    const manifest = readManifest(targetDir);
+    assert.equal(manifest?.schemaVersion, MANIFEST_SCHEMA_VERSION);
+    assert.equal(manifest?.files[0].type, 'commands');
+  });
+
+  it('rejects a file that is not a JSON object', () => {
+    write('{');
+    assert.throws(
+      () => readManifest(targetDir),
+      new RegExp(`Failed to read .*${MANIFEST_FILENAME}`)
+    );
+
+    write('[]');
+    assert.throws(() => readManifest(targetDir), /expected a JSON object/);
+  });
+});
+
+describe('manifest entries', () => {
+  it('replaces entries by path and keeps the name lists in sync', () => {
+    const plan = fileEntry('commands/plan.md', 'commands', 'plan');
+    const planner = fileEntry('agents/planner.md', 'agents', 'planner');
+    const updated = { ...plan, sha256: 'b'.repeat(64) };
+
+    let manifest = upsertManifestEntries(createManifest(), [plan, planner]);
+    manifest = upsertManifestEntries(manifest, [updated]);
+
+    assert.deepEqual(manifest.commands, ['plan']);
+    assert.deepEqual(manifest.agents, ['planner']);
+    assert.deepEqual(manifest.files, [planner, updated]);
+
+    manifest = removeManifestEntries(manifest, ['agents/planner.md']);
+    assert.deepEqual(manifest.agents, []);
+    assert.deepEqual(manifest.files, [updated]);
+  });
+});
@@ -0,0 +1,350 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { createHash } from 'crypto';
+import type { ContentType, InstallableType } from './content-utils';
+import type { HookGroup, SettingsHook } from './settings-utils';
+import type { McpServerConfig } from './mcp-utils';
+
+export const MANIFEST_FILENAME = 'manifest.json';
+
+// Bump when the manifest shape changes and add a step to migrateManifest
+export const MANIFEST_SCHEMA_VERSION = 5;
+
+export const TOOLKIT_PACKAGE_NAME = '@solo-labs/ai-toolkit-nx-claude';
+
+export interface ManifestFileEntry {
+  // Path relative to the .claude directory, e.g. "agents/planner.md"
+  path: string;
+  type: InstallableType;
+  name: string;
+  // SHA-256 of the content as installed; null for entries migrated from schema v1
+  sha256: string | null;
+  // Source content package (agnostic, frontend, subgraph)
+  package: string | null;
+  toolkitVersion: string | null;
+  installedAt: string;
+}
+
+// A hook merged into settings.json; the group is kept as written so uninstall removes exactly it
+export interface ManifestHookEntry extends SettingsHook {
+  toolkitVersion: string | null;
+  installedAt: string;
+}
+
+// The knowledge MCP server registered by init --registerMcp
+export interface ManifestMcpEntry {
+  name: string;
+  // Absolute path of the .mcp.json or ~/.claude.json it was written to
+  configPath: string;
+  // The mcpServers entry as written, so uninstall leaves an edited one alone
+  config: McpServerConfig;
+  toolkitVersion: string | null;
+  installedAt: string;
+}
+
+export interface Manifest {
+  schemaVersion: number;
+  toolkitVersion: string;
+  installedAt: string;
+  updatedAt: string;
+  commands: string[];
+  agents: string[];
+  files: ManifestFileEntry[];
+  // settings.json permissions.allow rules added by init --configurePermissions
+  permissions: string[];
+  // settings.json hooks added by init --hooks
+  hooks: ManifestHookEntry[];
+  mcpServer: ManifestMcpEntry | null;
+}
+
+export interface InstallLocation {
+  // Absolute path of the .claude directory
+  targetDir: string;
+  // Same directory relative to the workspace root, as used for Tree paths
+  relativeTargetDir: string;
+}
+
+export function normalizeStringArray(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : [];
+}
+
+export function uniqueStrings(items: string[]): string[] {
+  return Array.from(new Set(items));
+}
+
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+let cachedToolkitVersion: string | undefined;
+
+// Walk up from the running module to the toolkit's package.json (works for src and dist)
+export function getToolkitVersion(): string {
+  if (cachedToolkitVersion) {
+    return cachedToolkitVersion;
+  }
+
+  let dir = __dirname;
+  while (true) {
+    const packageJsonPath = path.join(dir, 'package.json');
+    if (fs.existsSync(packageJsonPath)) {
+      try {
+        const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+        if (packageJson.name === TOOLKIT_PACKAGE_NAME && typeof packageJson.version === 'string') {
+          cachedToolkitVersion = packageJson.version as string;
+          return cachedToolkitVersion;
+        }
+      } catch {
+        // Ignore unrelated or malformed package.json files and keep walking
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      break;
+    }
+    dir = parent;
+  }
+
+  cachedToolkitVersion = '0.0.0';
+  return cachedToolkitVersion;
+}
+
+export function resolveInstallLocation(
+  installationType: 'global' | 'local' | undefined,
+  workspaceRoot: string
+): InstallLocation {
+  if (installationType === 'global') {
+    const targetDir = path.join(os.homedir(), '.claude');
+    return { targetDir, relativeTargetDir: path.relative(workspaceRoot, targetDir) };
+  }
+
+  return { targetDir: path.join(workspaceRoot, '.claude'), relativeTargetDir: '.claude' };
+}
+
+export function createManifest(): Manifest {
+  const now = new Date().toISOString();
+  return {
+    schemaVersion: MANIFEST_SCHEMA_VERSION,
+    toolkitVersion: getToolkitVersion(),
+    installedAt: now,
+    updatedAt: now,
+    commands: [],
+    agents: [],
+    files: [],
+    permissions: [],
+    hooks: [],
+    mcpServer: null,
+  };
+}
+
+function inferContentType(filePath: string): InstallableType | null {
+  const [dir] = filePath.split(/[\\/]/);
+  return dir === 'commands' || dir === 'agents' || dir === 'knowledge' || dir === 'skills'
+    ? dir
+    : null;
+}
+
+function migrateFileEntry(value: unknown, fallbackInstalledAt: string): ManifestFileEntry | null {
+  // Schema v1 stored bare relative paths
+  if (typeof value === 'string') {
+    const type = inferContentType(value);
+    if (!type) {
+      return null;
+    }
+    return {
+      path: value,
+      type,
+      name: path.basename(value, '.md'),
+      sha256: null,
+      package: null,
+      toolkitVersion: null,
+      installedAt: fallbackInstalledAt,
+    };
+  }
+
+  if (value && typeof value === 'object') {
+    const entry = value as Partial<ManifestFileEntry>;
+    const type = entry.type ?? (entry.path ? inferContentType(entry.path) : null);
+    if (typeof entry.path !== 'string' || !type) {
+      return null;
+    }
+    return {
+      path: entry.path,
+      type,
+      name: typeof entry.name === 'string' ? entry.name : path.basename(entry.path, '.md'),
+      sha256: typeof entry.sha256 === 'string' ? entry.sha256 : null,
+      package: typeof entry.package === 'string' ? entry.package : null,
+      toolkitVersion: typeof entry.toolkitVersion === 'string' ? entry.toolkitVersion : null,
+      installedAt: typeof entry.installedAt === 'string' ? entry.installedAt : fallbackInstalledAt,
+    };
+  }
+
+  return null;
+}
+
+function migrateHookEntry(value: unknown): ManifestHookEntry | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const entry = value as Partial<ManifestHookEntry>;
+  if (
+    typeof entry.name !== 'string' ||
+    typeof entry.event !== 'string' ||
+    !Array.isArray(entry.group?.hooks)
+  ) {
+    return null;
+  }
+  return {
+    name: entry.name,
+    event: entry.event,
+    group: entry.group as HookGroup,
+    toolkitVersion: typeof entry.toolkitVersion === 'string' ? entry.toolkitVersion : null,
+    installedAt: typeof entry.installedAt === 'string' ? entry.installedAt : '',
+  };
+}
+
+function migrateMcpEntry(value: unknown): ManifestMcpEntry | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const entry = value as Partial<ManifestMcpEntry>;
+  if (
+    typeof entry.name !== 'string' ||
+    typeof entry.configPath !== 'string' ||
+    typeof entry.config?.command !== 'string' ||
+    !Array.isArray(entry.config.args)
+  ) {
+    return null;
+  }
+  return {
+    name: entry.name,
+    configPath: entry.configPath,
+    config: entry.config,
+    toolkitVersion: typeof entry.toolkitVersion === 'string' ? entry.toolkitVersion : null,
+    installedAt: typeof entry.installedAt === 'string' ? entry.installedAt : '',
+  };
+}
+
+/**
+ * Upgrade a parsed manifest of any known schema version to the current shape.
+ * Schema v1 (no schemaVersion field) only recorded names and a flat file list;
+ * v2 added per-file entries, v3 the permission rules, v4 the hooks written to
+ * settings.json and v5 the registered MCP server.
+ */
+export function migrateManifest(raw: Record<string, unknown>): Manifest {
+  const schemaVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 1;
+  if (schemaVersion > MANIFEST_SCHEMA_VERSION) {
+    throw new Error(
+      `manifest.json uses schema v${schemaVersion}, but this toolkit only understands up to v${MANIFEST_SCHEMA_VERSION}. Upgrade ${TOOLKIT_PACKAGE_NAME}.`
+    );
+  }
+
+  const installedAt = typeof raw.installedAt === 'string' ? raw.installedAt : '';
+  const files = (Array.isArray(raw.files) ? raw.files : [])
+    .map((file) => migrateFileEntry(file, installedAt))
+    .filter((entry): entry is ManifestFileEntry => entry !== null);
+
+  return {
+    schemaVersion: MANIFEST_SCHEMA_VERSION,
+    // v1 wrote a hard-coded "version" that never reflected the toolkit release
+    toolkitVersion: typeof raw.toolkitVersion === 'string' ? raw.toolkitVersion : 'unknown',
+    installedAt,
+    updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : installedAt,
+    commands: normalizeStringArray(raw.commands),
+    agents: normalizeStringArray(raw.agents),
+    files,
+    permissions: normalizeStringArray(raw.permissions),
+    hooks: (Array.isArray(raw.hooks) ? raw.hooks : [])
+      .map(migrateHookEntry)
+      .filter((entry): entry is ManifestHookEntry => entry !== null),
+    mcpServer: migrateMcpEntry(raw.mcpServer),
+  };
+}
+
+/**
+ * Read manifest.json from a .claude directory, migrating older schema versions.
+ * Returns null when no manifest exists; throws when it exists but cannot be parsed.
+ */
+export function readManifest(targetDir: string): Manifest | null {
+  const manifestPath = path.join(targetDir, MANIFEST_FILENAME);
+  if (!fs.existsSync(manifestPath)) {
+    return null;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read ${manifestPath}: ${error}`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Failed to read ${manifestPath}: expected a JSON object`);
+  }
+
+  return migrateManifest(raw as Record<string, unknown>);
+}
+
+export function findManifestEntry(
+  manifest: Manifest,
+  relativeFilePath: string
+): ManifestFileEntry | undefined {
+  const normalized = path.normalize(relativeFilePath);
+  return manifest.files.find((entry) => path.normalize(entry.path) === normalized);
+}
+
+/**
+ * Add or replace entries (matched by path) and keep the name lists in sync.
+ */
+export function upsertManifestEntries(manifest: Manifest, entries: ManifestFileEntry[]): Manifest {
+  const replaced = new Set(entries.map((entry) => path.normalize(entry.path)));
+
+  return {
+    ...manifest,
+    toolkitVersion: entries.length > 0 ? getToolkitVersion() : manifest.toolkitVersion,
+    updatedAt: new Date().toISOString(),
+    commands: uniqueStrings([
+      ...manifest.commands,
+      ...entries.filter((entry) => entry.type === 'commands').map((entry) => entry.name),
+    ]),
+    agents: uniqueStrings([
+      ...manifest.agents,
+      ...entries.filter((entry) => entry.type === 'agents').map((entry) => entry.name),
+    ]),
+    files: [
+      ...manifest.files.filter((entry) => !replaced.has(path.normalize(entry.path))),
+      ...entries,
+    ],
+  };
+}
+
+/**
+ * Drop entries (matched by path) together with their names.
+ */
+export function removeManifestEntries(manifest: Manifest, relativeFilePaths: string[]): Manifest {
+  const removed = new Set(relativeFilePaths.map((file) => path.normalize(file)));
+  const wasRemoved = (type: ContentType, name: string) =>
+    removed.has(path.join(type, `${name}.md`));
+
+  return {
+    ...manifest,
+    updatedAt: new Date().toISOString(),
+    commands: manifest.commands.filter((name) => !wasRemoved('commands', name)),
+    agents: manifest.agents.filter((name) => !wasRemoved('agents', name)),
+    files: manifest.files.filter((entry) => !removed.has(path.normalize(entry.path))),
+  };
+}
+
+export function isManifestEmpty(manifest: Manifest): boolean {
+  return (
+    manifest.commands.length === 0 &&
+    manifest.agents.length === 0 &&
+    manifest.files.length === 0 &&
+    manifest.permissions.length === 0 &&
+    manifest.hooks.length === 0 &&
+    manifest.mcpServer === null
+  );
+}
@@ -0,0 +1,136 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { isDeepStrictEqual } from 'util';
+import { SERVER_NAME } from '@solo-labs/knowledge-mcp';
+import { findToolkitFile } from './content-utils';
+import { getToolkitVersion, TOOLKIT_PACKAGE_NAME } from './manifest-utils';
+import type { ClaudeSettings, SettingsChange } from './settings-utils';
+
+// Tools show up in Claude Code as mcp__solo-labs-knowledge__<tool>
+export const MCP_SERVER_NAME = SERVER_NAME;
+
+export interface McpServerConfig {
+  type: 'stdio';
+  command: string;
+  args: string[];
+}
+
+/**
+ * Where Claude Code reads MCP servers: .mcp.json at the project root for local
+ * installs (shared with the team), the user's ~/.claude.json for global ones.
+ */
+export function getMcpConfigPath(
+  installationType: 'global' | 'local' | undefined,
+  workspaceRoot: string
+): string {
+  return installationType === 'global'
+    ? path.join(os.homedir(), '.claude.json')
+    : path.join(workspaceRoot, '.mcp.json');
+}
+
+// The bundled CLI that serves "mcp", next to the running installer
+const CLI_FILENAME = 'cli-generator.cjs';
+
+/**
+ * The toolkit release as installed in node_modules, started by npx without
+ * ever fetching it, so the server works offline. Used where no absolute path
+ * can be written, e.g. in exported plugins.
+ */
+export function getPortableMcpServerConfig(): McpServerConfig {
+  return {
+    type: 'stdio',
+    command: 'npx',
+    args: ['--no-install', `${TOOLKIT_PACKAGE_NAME}@${getToolkitVersion()}`, 'mcp'],
+  };
+}
+
+/**
+ * For global installs, the CLI that is running init, started with the same
+ * Node binary: it serves the docs init installed and needs no network. Local
+ * installs write the team-shared .mcp.json, where paths on this machine would
+ * break for everyone else, so they get the portable entry. So does a run that
+ * is not from a bundle (e.g. via nx generate).
+ */
+export function getMcpServerConfig(
+  installationType: 'global' | 'local' | undefined
+): McpServerConfig {
+  const cliPath = installationType === 'global' ? findToolkitFile(CLI_FILENAME) : null;
+  if (!cliPath) {
+    return getPortableMcpServerConfig();
+  }
+  return { type: 'stdio', command: process.execPath, args: [cliPath, 'mcp'] };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Read an MCP config file. Returns an empty object when it does not exist;
+ * throws when it cannot be parsed, so it is never overwritten.
+ */
+export function readMcpConfig(configPath: string): ClaudeSettings {
+  if (!fs.existsSync(configPath)) {
+    return {};
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read ${configPath}: ${error}`);
+  }
+  if (!isObject(raw)) {
+    throw new Error(`Failed to read ${configPath}: expected a JSON object`);
+  }
+  if (raw.mcpServers !== undefined && !isObject(raw.mcpServers)) {
+    throw new Error(`Failed to read ${configPath}: "mcpServers" must be an object`);
+  }
+  return raw;
+}
+
+function getServers(config: ClaudeSettings): Record<string, unknown> {
+  return (config.mcpServers as Record<string, unknown> | undefined) ?? {};
+}
+
+/**
+ * Register the knowledge server under mcpServers. An entry of the same name is
+ * replaced, e.g. one pinned to an older toolkit release; other servers are kept.
+ */
+export function addMcpServer(config: ClaudeSettings, server: McpServerConfig): SettingsChange {
+  const servers = getServers(config);
+  if (isDeepStrictEqual(servers[MCP_SERVER_NAME], server)) {
+    return { before: config, after: config, added: [], removed: [] };
+  }
+  return {
+    before: config,
+    after: { ...config, mcpServers: { ...servers, [MCP_SERVER_NAME]: server } },
+    added: [MCP_SERVER_NAME],
+    removed: [],
+  };
+}
+
+/**
+ * Remove the entry init wrote. An entry the user edited no longer matches and is
+ * kept; an mcpServers object left empty is removed.
+ */
+export function removeMcpServer(config: ClaudeSettings, server: McpServerConfig): SettingsChange {
+  const servers = { ...getServers(config) };
+  if (!isDeepStrictEqual(servers[MCP_SERVER_NAME], server)) {
+    return { before: config, after: config, added: [], removed: [] };
+  }
+
+  delete servers[MCP_SERVER_NAME];
+  const after: ClaudeSettings = { ...config, mcpServers: servers };
+  if (Object.keys(servers).length === 0) {
+    delete after.mcpServers;
+  }
+  return { before: config, after, added: [], removed: [MCP_SERVER_NAME] };
+}
+
+// Only the mcpServers section, so previews of ~/.claude.json stay short
+export function serializeMcpServers(config: ClaudeSettings): string {
+  return config.mcpServers === undefined
+    ? ''
+    : `${JSON.stringify({ mcpServers: config.mcpServers }, null, 2)}\n`;
+}
@@ -0,0 +1,210 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { hashContent, type ManifestFileEntry } from './manifest-utils';
+import {
+  formatLineDiff,
+  getCachedOriginalPath,
+  mergeLocalEdits,
+  mergeThreeWay,
+  writeMergeOutcome,
+  type LocalEditMergeOutcome,
+} from './merge-utils';
+
+const lines = (...items: string[]) => `${items.join('\n')}\n`;
+
+function entryFor(relativePath: string, content: string): ManifestFileEntry {
+  return {
+    path: relativePath,
+    type: 'agents',
+    name: 'planner',
+    sha256: hashContent(content),
+    package: 'agnostic',
+    toolkitVersion: '0.0.0-test',
+    installedAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+describe('mergeThreeWay', () => {
+  const base = lines('one', 'two', 'three', 'four', 'five');
+
+  it('applies changes made on only one side', () => {
+    const ours = lines('one', 'TWO', 'three', 'four', 'five');
+    const theirs = lines('one', 'two', 'three', 'four', 'FIVE');
+
+    assert.deepEqual(mergeThreeWay(base, ours, theirs), {
+      content: lines('one', 'TWO', 'three', 'four', 'FIVE'),
+      conflicts: 0,
+    });
+  });
+
+  it('takes identical changes from both sides once', () => {
+    const both = lines('one', 'two', 'THREE', 'four', 'five');
+
+    assert.deepEqual(mergeThreeWay(base, both, both), { content: both, conflicts: 0 });
+  });
+
+  it('keeps lines added and removed on different sides', () => {
+    const ours = lines('zero', 'one', 'two', 'three', 'four', 'five');
+    const theirs = lines('one', 'two', 'four', 'five');
+
+    assert.equal(
+      mergeThreeWay(base, ours, theirs).content,
+      lines('zero', 'one', 'two', 'four', 'five')
+    );
+  });
+
+  it('marks overlapping changes that differ as a conflict', () => {
+    const ours = lines('one', 'two', 'mine', 'four', 'five');
+    const theirs = lines('one', 'two', 'yours', 'four', 'five');
+
+    assert.deepEqual(mergeThreeWay(base, ours, theirs, { ours: 'local', theirs: 'toolkit' }), {
+      content: lines(
+        'one',
+        'two',
+        '<<<<<<< local',
+        'mine',
+        '=======',
+        'yours',
+        '>>>>>>> toolkit',
+        'four',
+        'five'
+      ),
+      conflicts: 1,
+    });
+  });
+
+  it('counts each conflicting region', () => {
+    const ours = lines('ONE', 'two', 'three', 'four', 'five!');
+    const theirs = lines('1', 'two', 'three', 'four', '5');
+
+    assert.equal(mergeThreeWay(base, ours, theirs).conflicts, 2);
+  });
+});
+
+describe('formatLineDiff', () => {
+  it('prefixes changed lines and elides distant context', () => {
+    const before = lines('a', 'b', 'c', 'd', 'e', 'f', 'g');
+    const after = lines('a', 'b', 'c', 'd', 'e', 'F', 'g');
+
+    assert.deepEqual(formatLineDiff(before, after, 1), ['  ...', '  e', '- f', '+ F', '  g']);
+  });
+
+  it('shows a new file as added lines', () => {
+    assert.deepEqual(formatLineDiff('', lines('x', 'y')), ['+ x', '+ y']);
+  });
+});
+
+describe('mergeLocalEdits', () => {
+  let targetDir: string;
+
+  beforeEach(() => {
+    targetDir = fs.mkdtempSync(path.join(os.tmpdir(), 'merge-utils-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(targetDir, { recursive: true, force: true });
+  });
+
+  function cacheOriginal(relativePath: string, content: string) {
+    const cachedPath = getCachedOriginalPath(targetDir, relativePath);
+    fs.mkdirSync(path.dirname(cachedPath), { recursive: true });
+    fs.writeFileSync(cachedPath, content);
+  }
+
+  it('merges against the cached original', () => {
+    const original = lines('# Planner', 'step one', 'step two');
+    cacheOriginal('agents/planner.md', original);
+
+    const outcome = mergeLocalEdits(
+      targetDir,
+      entryFor('agents/planner.md', original),
+      lines('# Planner', 'step one (edited)', 'step two'),
+      lines('# Planner', 'step one', 'step two', 'step three')
+    );
+
+    assert.deepEqual(outcome, {
+      status: 'merged',
+      content: lines('# Planner', 'step one (edited)', 'step two', 'step three'),
+      conflicts: 0,
+    });
+  });
+
+  it('labels conflicts with the file path', () => {
+    const original = lines('step one');
+    cacheOriginal('agents/planner.md', original);
+
+    const outcome = mergeLocalEdits(
+      targetDir,
+      entryFor('agents/planner.md', original),
+      lines('local step'),
+      lines('toolkit step')
+    );
+
+    assert.equal(outcome.status, 'conflicted');
+    assert.match(outcome.content, /^<<<<<<< agents\/planner\.md \(your changes\)$/m);
+    assert.match(outcome.content, /^>>>>>>> agents\/planner\.md \(toolkit update\)$/m);
+  });
+
+  it('reports no base when the cached original does not match the manifest hash', () => {
+    cacheOriginal('agents/planner.md', lines('edited after caching'));
+    const current = lines('local');
+
+    assert.deepEqual(
+      mergeLocalEdits(
+        targetDir,
+        entryFor('agents/planner.md', lines('original')),
+        current,
+        lines('new')
+      ),
+      { status: 'no-base', content: current, conflicts: 0 }
+    );
+  });
+});
+
+describe('writeMergeOutcome', () => {
+  const conflicted: LocalEditMergeOutcome = {
+    status: 'conflicted',
+    content: lines('<<<<<<< a', 'x', '=======', 'y', '>>>>>>> b'),
+    conflicts: 1,
+  };
+
+  it('leaves the file alone and writes a .rej for a conflict in rej style', () => {
+    const tree = createTreeWithEmptyWorkspace();
+    tree.write('.claude/agents/planner.md', 'local');
+
+    writeMergeOutcome(tree, '.claude/agents/planner.md', conflicted, 'rej');
+
+    assert.equal(tree.read('.claude/agents/planner.md', 'utf-8'), 'local');
+    assert.equal(tree.read('.claude/agents/planner.md.rej', 'utf-8'), conflicted.content);
+  });
+
+  it('writes conflict markers into the file in markers style', () => {
+    const tree = createTreeWithEmptyWorkspace();
+    tree.write('.claude/agents/planner.md', 'local');
+
+    writeMergeOutcome(tree, '.claude/agents/planner.md', conflicted, 'markers');
+
+    assert.equal(tree.read('.claude/agents/planner.md', 'utf-8'), conflicted.content);
+    assert.equal(tree.exists('.claude/agents/planner.md.rej'), false);
+  });
+
+  it('removes a stale .rej once a merge succeeds', () => {
+    const tree = createTreeWithEmptyWorkspace();
+    tree.write('.claude/agents/planner.md', 'local');
+    tree.write('.claude/agents/planner.md.rej', 'old conflict');
+
+    writeMergeOutcome(
+      tree,
+      '.claude/agents/planner.md',
+      { status: 'merged', content: 'merged', conflicts: 0 },
+      'rej'
+    );
+
+    assert.equal(tree.read('.claude/agents/planner.md', 'utf-8'), 'merged');
+    assert.equal(tree.exists('.claude/agents/planner.md.rej'), false);
+  });
+});
@@ -0,0 +1,287 @@
+import type { Tree } from '@nx/devkit';
+import * as path from 'path';
+import * as fs from 'fs';
+import { hashContent, type ManifestFileEntry } from './manifest-utils';
+
+// Pristine copies of installed files, kept next to manifest.json as merge bases
+export const ORIGINALS_CACHE_DIRNAME = '.toolkit-cache';
+
+export type ConflictStyle = 'rej' | 'markers';
+
+export interface MergeResult {
+  content: string;
+  conflicts: number;
+}
+
+export interface MergeLabels {
+  ours: string;
+  theirs: string;
+}
+
+// A changed region: base[baseStart, baseEnd) became other[start, end)
+interface Hunk {
+  side: 'ours' | 'theirs';
+  baseStart: number;
+  baseEnd: number;
+  start: number;
+  end: number;
+}
+
+function diffHunks(base: string[], other: string[], side: Hunk['side']): Hunk[] {
+  const n = base.length;
+  const m = other.length;
+
+  // Longest common subsequence lengths of the suffixes base[i..] / other[j..]
+  const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] =
+        base[i] === other[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && base[i] === other[j]) {
+      if (current) {
+        hunks.push(current);
+        current = null;
+      }
+      i++;
+      j++;
+      continue;
+    }
+
+    current ??= { side, baseStart: i, baseEnd: i, start: j, end: j };
+    if (j < m && (i >= n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      j++;
+      current.end = j;
+    } else {
+      i++;
+      current.baseEnd = i;
+    }
+  }
+  if (current) {
+    hunks.push(current);
+  }
+
+  return hunks;
+}
+
+/**
+ * Unified-style line diff for previews: changed lines prefixed with "-" or "+",
+ * with a few unchanged lines of context around each change.
+ */
+export function formatLineDiff(before: string, after: string, context = 2): string[] {
+  const beforeLines = before === '' ? [] : before.replace(/\n$/, '').split('\n');
+  const afterLines = after === '' ? [] : after.replace(/\n$/, '').split('\n');
+  const hunks = diffHunks(beforeLines, afterLines, 'ours');
+
+  const output: string[] = [];
+  let shownUntil = 0;
+  hunks.forEach((hunk, index) => {
+    const contextStart = Math.max(shownUntil, hunk.baseStart - context);
+    if (contextStart > shownUntil) {
+      output.push('  ...');
+    }
+    output.push(...beforeLines.slice(contextStart, hunk.baseStart).map((line) => `  ${line}`));
+    output.push(...beforeLines.slice(hunk.baseStart, hunk.baseEnd).map((line) => `- ${line}`));
+    output.push(...afterLines.slice(hunk.start, hunk.end).map((line) => `+ ${line}`));
+
+    const nextStart = index + 1 < hunks.length ? hunks[index + 1].baseStart : beforeLines.length;
+    shownUntil = Math.min(hunk.baseEnd + context, nextStart);
+    output.push(...beforeLines.slice(hunk.baseEnd, shownUntil).map((line) => `  ${line}`));
+  });
+  if (hunks.length > 0 && shownUntil < beforeLines.length) {
+    output.push('  ...');
+  }
+  return output;
+}
+
+// Lines of one side that replace base[groupStart, groupEnd)
+function sideLines(
+  base: string[],
+  other: string[],
+  hunks: Hunk[],
+  groupStart: number,
+  groupEnd: number
+): string[] {
+  if (hunks.length === 0) {
+    return base.slice(groupStart, groupEnd);
+  }
+  const first = hunks[0];
+  const last = hunks[hunks.length - 1];
+  return other.slice(
+    first.start - (first.baseStart - groupStart),
+    last.end + (groupEnd - last.baseEnd)
+  );
+}
+
+/**
+ * Line-based three-way merge (diff3). Changes made on only one side are applied;
+ * overlapping changes that differ are emitted between git-style conflict markers.
+ */
+export function mergeThreeWay(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: MergeLabels = { ours: 'local', theirs: 'toolkit' }
+): MergeResult {
+  const baseLines = base.split('\n');
+  const oursLines = ours.split('\n');
+  const theirsLines = theirs.split('\n');
+
+  const hunks = [
+    ...diffHunks(baseLines, oursLines, 'ours'),
+    ...diffHunks(baseLines, theirsLines, 'theirs'),
+  ].sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let basePosition = 0;
+  let index = 0;
+
+  while (index < hunks.length) {
+    // Group hunks that overlap or touch in the base
+    const group = [hunks[index]];
+    const groupStart = hunks[index].baseStart;
+    let groupEnd = hunks[index].baseEnd;
+    index++;
+    while (index < hunks.length && hunks[index].baseStart <= groupEnd) {
+      groupEnd = Math.max(groupEnd, hunks[index].baseEnd);
+      group.push(hunks[index]);
+      index++;
+    }
+
+    output.push(...baseLines.slice(basePosition, groupStart));
+
+    const oursHunks = group.filter((hunk) => hunk.side === 'ours');
+    const theirsHunks = group.filter((hunk) => hunk.side === 'theirs');
+    const oursText = sideLines(baseLines, oursLines, oursHunks, groupStart, groupEnd);
+    const theirsText = sideLines(baseLines, theirsLines, theirsHunks, groupStart, groupEnd);
+
+    if (theirsHunks.length === 0) {
+      output.push(...oursText);
+    } else if (oursHunks.length === 0 || oursText.join('\n') === theirsText.join('\n')) {
+      output.push(...theirsText);
+    } else {
+      conflicts++;
+      output.push(
+        `<<<<<<< ${labels.ours}`,
+        ...oursText,
+        '=======',
+        ...theirsText,
+        `>>>>>>> ${labels.theirs}`
+      );
+    }
+
+    basePosition = groupEnd;
+  }
+
+  output.push(...baseLines.slice(basePosition));
+
+  return { content: output.join('\n'), conflicts };
+}
+
+export function getCachedOriginalPath(targetDir: string, relativeFilePath: string): string {
+  return path.join(targetDir, ORIGINALS_CACHE_DIRNAME, relativeFilePath);
+}
+
+/**
+ * Read the pristine copy of an installed file. Returns null when the cache is
+ * missing or no longer matches the hash recorded in the manifest.
+ */
+export function readCachedOriginal(targetDir: string, entry: ManifestFileEntry): string | null {
+  const cachedPath = getCachedOriginalPath(targetDir, entry.path);
+  if (!entry.sha256 || !fs.existsSync(cachedPath)) {
+    return null;
+  }
+
+  const content = fs.readFileSync(cachedPath, 'utf-8');
+  return hashContent(content) === entry.sha256 ? content : null;
+}
+
+export function writeCachedOriginal(
+  tree: Tree,
+  relativeTargetDir: string,
+  relativeFilePath: string,
+  content: string
+): void {
+  tree.write(getCachedOriginalPath(relativeTargetDir, relativeFilePath), content);
+}
+
+export function deleteCachedOriginal(
+  tree: Tree,
+  relativeTargetDir: string,
+  relativeFilePath: string
+): void {
+  const cachedPath = getCachedOriginalPath(relativeTargetDir, relativeFilePath);
+  if (tree.exists(cachedPath)) {
+    tree.delete(cachedPath);
+  }
+}
+
+export interface LocalEditMergeOutcome {
+  // 'no-base' when the original could not be recovered from the cache
+  status: 'merged' | 'conflicted' | 'no-base';
+  // File contents to write (merged, or merged with conflict markers)
+  content: string;
+  conflicts: number;
+}
+
+/**
+ * Merge the user's edits to an installed file into the newly bundled version,
+ * using the cached original as the common ancestor.
+ */
+export function mergeLocalEdits(
+  targetDir: string,
+  entry: ManifestFileEntry,
+  currentContent: string,
+  bundledContent: string
+): LocalEditMergeOutcome {
+  const original = readCachedOriginal(targetDir, entry);
+  if (original === null) {
+    return { status: 'no-base', content: currentContent, conflicts: 0 };
+  }
+
+  const { content, conflicts } = mergeThreeWay(original, currentContent, bundledContent, {
+    ours: `${entry.path} (your changes)`,
+    theirs: `${entry.path} (toolkit update)`,
+  });
+  return { status: conflicts > 0 ? 'conflicted' : 'merged', content, conflicts };
+}
+
+// Whether applying the outcome replaces the user's file (as opposed to writing a .rej)
+export function mergeOutcomeUpdatesFile(
+  outcome: LocalEditMergeOutcome,
+  conflictStyle: ConflictStyle
+): boolean {
+  return (
+    outcome.status === 'merged' || (outcome.status === 'conflicted' && conflictStyle === 'markers')
+  );
+}
+
+/**
+ * Apply a merge outcome to the tree. With the "rej" style a conflicted merge
+ * leaves the user's file untouched and writes the marked-up result to <file>.rej.
+ */
+export function writeMergeOutcome(
+  tree: Tree,
+  relativeDestPath: string,
+  outcome: LocalEditMergeOutcome,
+  conflictStyle: ConflictStyle
+): void {
+  const rejectPath = `${relativeDestPath}.rej`;
+  if (mergeOutcomeUpdatesFile(outcome, conflictStyle)) {
+    tree.write(relativeDestPath, outcome.content);
+    // A result from an earlier attempt is stale once the file itself is updated
+    if (tree.exists(rejectPath)) {
+      tree.delete(rejectPath);
+    }
+  } else if (outcome.status === 'conflicted') {
+    tree.write(rejectPath, outcome.content);
+  }
+}
@@ -0,0 +1,207 @@
+import * as fs from 'fs';
+import { FrontmatterError, parseFrontmatter, parseToolSpec, type ToolSpec } from '@solo-labs/utils';
+import type { ContentType } from './content-utils';
+
+export type Capability =
+  | 'all-tools'
+  | 'arbitrary-shell'
+  | 'scoped-shell'
+  | 'writes-files'
+  | 'network'
+  | 'mcp'
+  | 'other'
+  | 'delegation'
+  | 'read-only';
+
+export type RiskLevel = 'high' | 'medium' | 'low';
+
+// Ordered from most to least dangerous; reports list capabilities in this order
+export const CAPABILITY_LABELS: Record<Capability, string> = {
+  'all-tools': 'all tools',
+  'arbitrary-shell': 'arbitrary shell',
+  'scoped-shell': 'scoped shell',
+  'writes-files': 'writes files',
+  network: 'network',
+  mcp: 'MCP tools',
+  other: 'other tools',
+  delegation: 'subagent delegation',
+  'read-only': 'read-only',
+};
+
+const CAPABILITY_RISK: Record<Capability, RiskLevel> = {
+  'all-tools': 'high',
+  'arbitrary-shell': 'high',
+  'scoped-shell': 'medium',
+  'writes-files': 'medium',
+  network: 'medium',
+  mcp: 'medium',
+  other: 'medium',
+  delegation: 'low',
+  'read-only': 'low',
+};
+
+const READ_ONLY_TOOLS = [
+  'Read',
+  'Grep',
+  'Glob',
+  'LS',
+  'NotebookRead',
+  'TodoWrite',
+  'AskUserQuestion',
+];
+const WRITE_TOOLS = ['Write', 'Edit', 'MultiEdit', 'NotebookEdit'];
+const NETWORK_TOOLS = ['WebFetch', 'WebSearch'];
+
+export interface PermissionAudit {
+  type: ContentType;
+  name: string;
+  // False when the file has no allowed-tools (commands) or tools (agents): it inherits every tool
+  declared: boolean;
+  // Entries as written, e.g. "Bash(git show:*)"
+  tools: string[];
+  capabilities: Capability[];
+  risk: RiskLevel;
+  // Agents reached via Task(subagent_type:X); their own permissions apply to that work
+  delegatesTo: string[];
+}
+
+function classifyTool(spec: ToolSpec): Capability {
+  if (spec.tool === '*') {
+    return 'all-tools';
+  }
+  if (spec.tool === 'Bash') {
+    return spec.specifier === null || spec.specifier === '*' ? 'arbitrary-shell' : 'scoped-shell';
+  }
+  if (spec.tool === 'Task') {
+    return 'delegation';
+  }
+  if (spec.tool.startsWith('mcp__')) {
+    return 'mcp';
+  }
+  if (WRITE_TOOLS.includes(spec.tool)) {
+    return 'writes-files';
+  }
+  if (NETWORK_TOOLS.includes(spec.tool)) {
+    return 'network';
+  }
+  return READ_ONLY_TOOLS.includes(spec.tool) ? 'read-only' : 'other';
+}
+
+/**
+ * Classify the tools a command or agent file declares. A file that declares
+ * none inherits every tool of the session, so it is reported as "all tools".
+ */
+export function auditPermissions(
+  type: ContentType,
+  name: string,
+  content: string,
+  filePath?: string
+): PermissionAudit {
+  let tools: ToolSpec[] | undefined;
+  try {
+    tools = parseFrontmatter(content, filePath)?.frontmatter.allowedTools;
+  } catch (error) {
+    // Unparseable frontmatter grants nothing Claude Code can read, so treat it as undeclared
+    if (!(error instanceof FrontmatterError)) {
+      throw error;
+    }
+  }
+
+  const declared = tools !== undefined && tools.length > 0;
+  const found = new Set<Capability>(declared ? tools!.map(classifyTool) : ['all-tools']);
+  // "read-only" only describes components that can do nothing more than read (and delegate)
+  if (Array.from(found).some((capability) => CAPABILITY_RISK[capability] !== 'low')) {
+    found.delete('read-only');
+  }
+  const capabilities = (Object.keys(CAPABILITY_LABELS) as Capability[]).filter((capability) =>
+    found.has(capability)
+  );
+  const risks = capabilities.map((capability) => CAPABILITY_RISK[capability]);
+
+  return {
+    type,
+    name,
+    declared,
+    tools: (tools ?? []).map((spec) => spec.raw),
+    capabilities,
+    risk: risks.includes('high') ? 'high' : risks.includes('medium') ? 'medium' : 'low',
+    delegatesTo: Array.from(
+      new Set(
+        (tools ?? [])
+          .map((spec) => spec.subagentType)
+          .filter((agent): agent is string => !!agent && !agent.includes('*'))
+      )
+    ),
+  };
+}
+
+export function auditFile(type: ContentType, name: string, filePath: string): PermissionAudit {
+  return auditPermissions(type, name, fs.readFileSync(filePath, 'utf-8'), filePath);
+}
+
+// e.g. "arbitrary shell, writes files" or "all tools (none declared)"
+export function describeCapabilities(audit: PermissionAudit): string {
+  const labels = audit.capabilities.map((capability) => CAPABILITY_LABELS[capability]).join(', ');
+  return audit.declared ? labels : `${labels} (none declared)`;
+}
+
+// "2 high, 5 medium, 10 low risk"
+export function summarizeRisk(audits: PermissionAudit[]): string {
+  const count = (risk: RiskLevel) => audits.filter((audit) => audit.risk === risk).length;
+  return `${count('high')} high, ${count('medium')} medium, ${count('low')} low risk`;
+}
+
+// Grants too broad to pre-approve: every tool, unrestricted Bash, and writes or network access without a scope
+function isUnscopedGrant(spec: ToolSpec): boolean {
+  const capability = classifyTool(spec);
+  if (CAPABILITY_RISK[capability] === 'high') {
+    return true;
+  }
+  return (
+    (capability === 'writes-files' || capability === 'network') &&
+    (spec.specifier === null || spec.specifier === '*')
+  );
+}
+
+/**
+ * settings.json permissions.allow rules that pre-approve what the audited
+ * components declare. Unscoped grants ("*", unrestricted Bash, Write(*),
+ * WebFetch) are withheld so Claude Code keeps asking for them, and tools
+ * Claude Code does not know are skipped rather than granted; components that
+ * declare nothing add none.
+ */
+export function getPermissionRules(audits: PermissionAudit[]): {
+  rules: string[];
+  withheld: string[];
+  unknown: string[];
+} {
+  const rules = new Set<string>();
+  const withheld = new Set<string>();
+  const unknown = new Set<string>();
+  for (const audit of audits) {
+    for (const spec of audit.tools.map(parseToolSpec)) {
+      if (classifyTool(spec) === 'other') {
+        unknown.add(spec.raw);
+      } else if (isUnscopedGrant(spec)) {
+        withheld.add(spec.raw);
+      } else if (spec.tool === 'Task' || spec.specifier === null || spec.specifier === '*') {
+        // settings.json cannot scope Task by subagent; the subagent's own tools still apply
+        rules.add(spec.tool);
+      } else {
+        rules.add(`${spec.tool}(${spec.specifier})`);
+      }
+    }
+  }
+  // A bare rule already grants every use of the tool, e.g. "Read" covers "Read(src/**)"
+  const covered = (rule: string) => {
+    const { tool, specifier } = parseToolSpec(rule);
+    return specifier !== null && rules.has(tool);
+  };
+  return {
+    rules: Array.from(rules)
+      .filter((rule) => !covered(rule))
+      .sort(),
+    withheld: Array.from(withheld).sort(),
+    unknown: Array.from(unknown).sort(),
+  };
+}
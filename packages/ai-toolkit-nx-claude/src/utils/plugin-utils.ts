@@ -0,0 +1,173 @@
+import * as path from 'path';
+import {
+  getInstallPath,
+  groupSkillFiles,
+  KNOWLEDGE_PACKAGE,
+  loadAvailableContent,
+  loadAvailableKnowledge,
+  loadAvailableSkills,
+  readContentFile,
+  type ContentItem,
+  type InstallableType,
+} from './content-utils';
+import { getToolkitVersion } from './manifest-utils';
+import { getPortableMcpServerConfig, MCP_SERVER_NAME } from './mcp-utils';
+
+export const MARKETPLACE_NAME = 'solo-labs-ai-toolkit';
+
+// Claude Code looks for plugin.json and marketplace.json in this directory
+export const PLUGIN_METADATA_DIR = '.claude-plugin';
+
+const AUTHOR = { name: 'Solo Labs' };
+
+const LICENSE = 'MIT';
+
+export interface PluginManifest {
+  name: string;
+  version: string;
+  description: string;
+  author: { name: string };
+  license: string;
+  keywords: string[];
+}
+
+export interface MarketplaceEntry extends Omit<PluginManifest, 'license'> {
+  // Plugin directory relative to the marketplace root
+  source: string;
+}
+
+export interface Marketplace {
+  name: string;
+  owner: { name: string };
+  metadata: { description: string; version: string };
+  plugins: MarketplaceEntry[];
+}
+
+export interface ExportedPlugin {
+  // Content package the plugin is built from (agnostic, frontend, subgraph, protocol-knowledge)
+  package: string;
+  manifest: PluginManifest;
+  // Path relative to the plugin root -> file content
+  files: Record<string, string>;
+}
+
+export function getPluginName(contentPackage: string): string {
+  return `solo-labs-${contentPackage}`;
+}
+
+// Plugins are written to plugins/<name> under the marketplace root
+export function getPluginDir(pluginName: string): string {
+  return path.posix.join('plugins', pluginName);
+}
+
+function countLabel(count: number, singular: string): string {
+  return `${count} ${singular}${count === 1 ? '' : 's'}`;
+}
+
+function byPackage(items: Record<string, ContentItem>): Map<string, [string, ContentItem][]> {
+  const grouped = new Map<string, [string, ContentItem][]>();
+  for (const [name, item] of Object.entries(items).sort(([a], [b]) => a.localeCompare(b))) {
+    grouped.set(item.package, [...(grouped.get(item.package) ?? []), [name, item]]);
+  }
+  return grouped;
+}
+
+// Files are laid out like an installed .claude directory, with includes expanded
+function readFiles(type: InstallableType, items: [string, ContentItem][]): Record<string, string> {
+  return Object.fromEntries(
+    items.map(([name, item]) => [
+      getInstallPath(type, name, item).split(path.sep).join('/'),
+      readContentFile(item),
+    ])
+  );
+}
+
+/**
+ * One plugin per content package, read from the same commands, agents,
+ * knowledge docs and skills that init installs. Commands and agents of the same
+ * package (e.g. commands/agnostic and agents/agnostic) share a plugin.
+ */
+export function buildPlugins(workspaceRoot: string): ExportedPlugin[] {
+  const version = getToolkitVersion();
+  const commands = byPackage(loadAvailableContent('commands', workspaceRoot));
+  const agents = byPackage(loadAvailableContent('agents', workspaceRoot));
+  const packages = Array.from(new Set([...commands.keys(), ...agents.keys()])).sort();
+
+  const plugins = packages.map((contentPackage): ExportedPlugin => {
+    const packageCommands = commands.get(contentPackage) ?? [];
+    const packageAgents = agents.get(contentPackage) ?? [];
+    const contents = [
+      packageCommands.length > 0 ? countLabel(packageCommands.length, 'command') : null,
+      packageAgents.length > 0 ? countLabel(packageAgents.length, 'agent') : null,
+    ].filter((item): item is string => item !== null);
+
+    return {
+      package: contentPackage,
+      manifest: {
+        name: getPluginName(contentPackage),
+        version,
+        description: `${contents.join(' and ')} from the Solo Labs ${contentPackage} packages`,
+        author: AUTHOR,
+        license: LICENSE,
+        keywords: ['solo-labs', contentPackage],
+      },
+      files: {
+        ...readFiles('commands', packageCommands),
+        ...readFiles('agents', packageAgents),
+      },
+    };
+  });
+
+  // The knowledge plugin ships the docs, the skills built from them and the server that serves them
+  const knowledge = Object.entries(loadAvailableKnowledge(workspaceRoot)).sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
+  const skills = Object.entries(loadAvailableSkills(workspaceRoot)).sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
+  const skillCount = groupSkillFiles(Object.fromEntries(skills)).size;
+  if (knowledge.length > 0) {
+    // Plugins are shared, so the server is the toolkit from the project's node_modules
+    const mcpConfig = { mcpServers: { [MCP_SERVER_NAME]: getPortableMcpServerConfig() } };
+    plugins.push({
+      package: KNOWLEDGE_PACKAGE,
+      manifest: {
+        name: getPluginName(KNOWLEDGE_PACKAGE),
+        version,
+        description: `${[
+          countLabel(knowledge.length, 'AEGIS protocol knowledge doc'),
+          ...(skillCount > 0 ? [countLabel(skillCount, 'Agent Skill')] : []),
+        ].join(', ')} and the MCP server that serves them`,
+        author: AUTHOR,
+        license: LICENSE,
+        keywords: ['solo-labs', 'aegis', 'knowledge', 'skills', 'mcp'],
+      },
+      files: {
+        ...readFiles('knowledge', knowledge),
+        ...readFiles('skills', skills),
+        '.mcp.json': `${JSON.stringify(mcpConfig, null, 2)}\n`,
+      },
+    });
+  }
+
+  return plugins;
+}
+
+export function buildMarketplace(plugins: ExportedPlugin[]): Marketplace {
+  return {
+    name: MARKETPLACE_NAME,
+    owner: AUTHOR,
+    metadata: {
+      description: 'Solo Labs agents, commands and protocol knowledge for Claude Code',
+      version: getToolkitVersion(),
+    },
+    plugins: plugins.map(({ manifest }) => ({
+      name: manifest.name,
+      source: `./${getPluginDir(manifest.name)}`,
+      description: manifest.description,
+      version: manifest.version,
+      author: manifest.author,
+      keywords: manifest.keywords,
+    })),
+  };
+}
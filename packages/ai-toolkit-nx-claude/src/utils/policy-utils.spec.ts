@@ -0,0 +1,169 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ToolkitConfigError } from './config-utils';
+import type { ContentItem } from './content-utils';
+import {
+  POLICY_ENV_VAR,
+  filterBlockedNames,
+  getBlockReason,
+  getBlockedItems,
+  loadPolicy,
+  type InstallPolicy,
+} from './policy-utils';
+
+describe('install policy', () => {
+  let rootDir: string;
+  let savedPolicyPath: string | undefined;
+
+  // A command or agent file with the given frontmatter lines
+  function component(name: string, frontmatter: string[], pkg = 'agnostic'): ContentItem {
+    const filePath = path.join(rootDir, pkg, `${name}.md`);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, `---\n${frontmatter.join('\n')}\n---\n\n# ${name}\n`);
+    return { description: name, filePath, package: pkg, includeRoots: {} };
+  }
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'policy-utils-'));
+    savedPolicyPath = process.env[POLICY_ENV_VAR];
+  });
+
+  afterEach(() => {
+    if (savedPolicyPath === undefined) {
+      delete process.env[POLICY_ENV_VAR];
+    } else {
+      process.env[POLICY_ENV_VAR] = savedPolicyPath;
+    }
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('getBlockReason', () => {
+    it('matches names by glob', () => {
+      const policy: InstallPolicy = { deny: [{ name: 'infrastructure-*' }] };
+      const agent = component('infrastructure-agent', ['name: infrastructure-agent']);
+
+      assert.equal(
+        getBlockReason(policy, 'agents', 'infrastructure-agent', agent),
+        'denied: name infrastructure-*'
+      );
+      assert.equal(getBlockReason(policy, 'agents', 'planner', agent), null);
+    });
+
+    it('needs every key of a rule to match', () => {
+      const policy: InstallPolicy = {
+        deny: [{ type: 'commands', package: 'frontend', reason: 'no frontend commands' }],
+      };
+      const command = component('deploy', ['description: Deploy'], 'frontend');
+
+      assert.equal(getBlockReason(policy, 'commands', 'deploy', command), 'no frontend commands');
+      assert.equal(getBlockReason(policy, 'agents', 'deploy', command), null);
+    });
+
+    it('matches a tool rule against the declared tools', () => {
+      const policy: InstallPolicy = { deny: [{ tool: 'Bash(git push:*)' }] };
+      const scoped = component('create-pr', ['allowed-tools: Read(*), Bash(git push:*)']);
+      const unrestricted = component('deploy', ['allowed-tools: Bash(*)']);
+      const other = component('explore', ['allowed-tools: Read(*), Bash(git log:*)']);
+
+      assert.ok(getBlockReason(policy, 'commands', 'create-pr', scoped));
+      assert.ok(getBlockReason(policy, 'commands', 'deploy', unrestricted));
+      assert.equal(getBlockReason(policy, 'commands', 'explore', other), null);
+    });
+
+    it('matches any use of a tool for a rule without a specifier', () => {
+      const policy: InstallPolicy = { deny: [{ tool: 'Bash' }] };
+      const command = component('explore', ['allowed-tools: Bash(git log:*)']);
+
+      assert.ok(getBlockReason(policy, 'commands', 'explore', command));
+    });
+
+    it('treats a component without declared tools as having every tool', () => {
+      const policy: InstallPolicy = { deny: [{ tool: 'WebFetch' }] };
+      const agent = component('planner', ['name: planner']);
+
+      assert.ok(getBlockReason(policy, 'agents', 'planner', agent));
+    });
+
+    it('treats a hook as unrestricted Bash', () => {
+      const policy: InstallPolicy = { deny: [{ tool: 'Bash(rm:*)' }] };
+      const hook: ContentItem = {
+        description: 'format',
+        filePath: path.join(rootDir, 'format-on-save.json'),
+        package: 'hooks',
+        includeRoots: {},
+      };
+
+      assert.ok(getBlockReason(policy, 'hooks', 'format-on-save', hook));
+    });
+
+    it('blocks what an allow list does not match, and lets deny rules win', () => {
+      const policy: InstallPolicy = {
+        allow: [{ package: 'agnostic' }],
+        deny: [{ name: 'deploy' }],
+      };
+
+      assert.equal(getBlockReason(policy, 'commands', 'plan', component('plan', [])), null);
+      assert.equal(
+        getBlockReason(policy, 'commands', 'deploy', component('deploy', [])),
+        'denied: name deploy'
+      );
+      assert.equal(
+        getBlockReason(policy, 'agents', 'web3', component('web3', [], 'frontend')),
+        'not on the allow list'
+      );
+    });
+  });
+
+  describe('getBlockedItems and filterBlockedNames', () => {
+    it('record blocked components with their reasons', () => {
+      const policy: InstallPolicy = { deny: [{ name: 'deploy', reason: 'ask ops' }] };
+      const blocked = getBlockedItems(policy, 'commands', {
+        deploy: component('deploy', []),
+        plan: component('plan', []),
+      });
+      const blockedByPolicy = new Map<string, string>();
+
+      assert.deepEqual(
+        filterBlockedNames(blocked, 'commands', ['plan', 'deploy'], blockedByPolicy),
+        ['plan']
+      );
+      assert.deepEqual([...blockedByPolicy], [['/deploy', 'ask ops']]);
+    });
+
+    it('blocks nothing without a policy', () => {
+      assert.equal(getBlockedItems(null, 'commands', { deploy: component('deploy', []) }).size, 0);
+    });
+  });
+
+  describe('loadPolicy', () => {
+    it('reads the file named by the environment variable', () => {
+      const filePath = path.join(rootDir, 'policy.json');
+      fs.writeFileSync(filePath, JSON.stringify({ deny: [{ name: 'deploy' }] }));
+      process.env[POLICY_ENV_VAR] = filePath;
+
+      assert.deepEqual(loadPolicy(), { policy: { deny: [{ name: 'deploy' }] }, filePath });
+    });
+
+    it('fails when the environment variable names a missing file', () => {
+      process.env[POLICY_ENV_VAR] = path.join(rootDir, 'missing.json');
+
+      assert.throws(() => loadPolicy(), /does not exist/);
+    });
+
+    it('rejects a rule that matches everything', () => {
+      const filePath = path.join(rootDir, 'policy.json');
+      fs.writeFileSync(filePath, JSON.stringify({ deny: [{ reason: 'oops' }] }));
+      process.env[POLICY_ENV_VAR] = filePath;
+
+      assert.throws(
+        () => loadPolicy(),
+        (error: unknown) =>
+          error instanceof ToolkitConfigError &&
+          error.problems[0] === 'deny[0] needs at least one of name, type, package or tool'
+      );
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { logger } from '@nx/devkit';
+import { FrontmatterError, parseFrontmatter, parseToolSpec, type ToolSpec } from '@solo-labs/utils';
+import { ToolkitConfigError, readValidatedJson } from './config-utils';
+import type { ContentItem, InstallableType } from './content-utils';
+import { formatComponentName } from './dependency-utils';
+
+export const POLICY_ENV_VAR = 'SOLO_LABS_TOOLKIT_POLICY';
+export const POLICY_SCHEMA_FILENAME = 'policy.schema.json';
+
+// Hooks are not installed as files but are held to the policy all the same
+export type PolicyType = InstallableType | 'hooks';
+
+export interface PolicyRule {
+  // Component name or glob, e.g. "infrastructure-*"
+  name?: string;
+  type?: PolicyType;
+  package?: string;
+  // A tool the component may use, e.g. "Bash(*)"
+  tool?: string;
+  reason?: string;
+}
+
+// Organization rules for what the installer may write, set up by a security team per machine
+export interface InstallPolicy {
+  allow?: PolicyRule[];
+  deny?: PolicyRule[];
+}
+
+// Where the policy is read from: $SOLO_LABS_TOOLKIT_POLICY, else the user's config directory
+export function getPolicyPath(): string {
+  const configured = process.env[POLICY_ENV_VAR];
+  if (configured) {
+    return path.resolve(configured);
+  }
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(configHome, 'solo-labs-ai-toolkit', 'policy.json');
+}
+
+/**
+ * Read and validate the install policy. Returns null when none is set up; a
+ * policy named by the environment variable must exist, so a typo cannot
+ * silently turn enforcement off.
+ */
+export function loadPolicy(): { policy: InstallPolicy; filePath: string } | null {
+  const filePath = getPolicyPath();
+  if (!fs.existsSync(filePath)) {
+    if (process.env[POLICY_ENV_VAR]) {
+      throw new Error(`${POLICY_ENV_VAR} points to ${filePath}, which does not exist`);
+    }
+    return null;
+  }
+
+  const policy = readValidatedJson(filePath, POLICY_SCHEMA_FILENAME) as InstallPolicy;
+  const problems: string[] = [];
+  for (const list of ['allow', 'deny'] as const) {
+    (policy[list] ?? []).forEach((rule, index) => {
+      if (!rule.name && !rule.type && !rule.package && !rule.tool) {
+        problems.push(`${list}[${index}] needs at least one of name, type, package or tool`);
+      }
+    });
+  }
+  if (problems.length > 0) {
+    throw new ToolkitConfigError(filePath, problems);
+  }
+  return { policy, filePath };
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map((char) =>
+      char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    )
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Entries of the component's allowed-tools (commands) or tools (agents)
+ * frontmatter. A command or agent that declares none inherits every tool of
+ * the session, so it is treated as "*", as auditPermissions rates it. A hook
+ * runs its command in a shell without asking, so it counts as unrestricted Bash.
+ */
+function readTools(type: PolicyType, contentItem: ContentItem): ToolSpec[] {
+  if (type === 'hooks') {
+    return [parseToolSpec('Bash(*)')];
+  }
+  if (!fs.existsSync(contentItem.filePath)) {
+    return [];
+  }
+  let tools: ToolSpec[] = [];
+  try {
+    const parsed = parseFrontmatter(fs.readFileSync(contentItem.filePath, 'utf-8'));
+    tools = parsed?.frontmatter.allowedTools ?? [];
+  } catch (error) {
+    // Malformed frontmatter is reported by doctor and lint-content; Claude Code reads no tools
+    if (!(error instanceof FrontmatterError)) {
+      throw error;
+    }
+  }
+  const inheritsTools = type === 'commands' || type === 'agents';
+  return tools.length === 0 && inheritsTools ? [parseToolSpec('*')] : tools;
+}
+
+const isUnrestricted = (specifier: string | null) => specifier === null || specifier === '*';
+
+/**
+ * Whether a component's tools grant what a rule's tool names. "*" grants every
+ * tool, and a bare or (*) entry grants every use of that tool. A rule without
+ * parentheses ("Bash") matches any use of the tool.
+ */
+function grantsTool(tools: ToolSpec[], ruleTool: string): boolean {
+  const wanted = parseToolSpec(ruleTool);
+  return tools.some((tool) => {
+    if (tool.tool === '*') {
+      return true;
+    }
+    if (tool.tool !== wanted.tool) {
+      return false;
+    }
+    return (
+      wanted.specifier === null ||
+      isUnrestricted(tool.specifier) ||
+      tool.specifier === wanted.specifier
+    );
+  });
+}
+
+function matchesRule(
+  rule: PolicyRule,
+  type: PolicyType,
+  name: string,
+  contentItem: ContentItem
+): boolean {
+  return (
+    (!rule.name || globToRegExp(rule.name).test(name)) &&
+    (!rule.type || rule.type === type) &&
+    (!rule.package || rule.package === contentItem.package) &&
+    (!rule.tool || grantsTool(readTools(type, contentItem), rule.tool))
+  );
+}
+
+function describeRule(rule: PolicyRule): string {
+  return (['name', 'type', 'package', 'tool'] as const)
+    .filter((key) => rule[key])
+    .map((key) => `${key} ${rule[key]}`)
+    .join(', ');
+}
+
+/**
+ * Why the policy blocks a component, or null when it may be installed. Deny
+ * rules win; when allow rules exist, everything they do not match is blocked.
+ */
+export function getBlockReason(
+  policy: InstallPolicy,
+  type: PolicyType,
+  name: string,
+  contentItem: ContentItem
+): string | null {
+  const denied = (policy.deny ?? []).find((rule) => matchesRule(rule, type, name, contentItem));
+  if (denied) {
+    return denied.reason ?? `denied: ${describeRule(denied)}`;
+  }
+  if (policy.allow && !policy.allow.some((rule) => matchesRule(rule, type, name, contentItem))) {
+    return 'not on the allow list';
+  }
+  return null;
+}
+
+// Blocked components of one type -> the reason, for prompts and install plans
+export function getBlockedItems(
+  policy: InstallPolicy | null,
+  type: PolicyType,
+  availableContent: Record<string, ContentItem>
+): Map<string, string> {
+  const blocked = new Map<string, string>();
+  if (!policy) {
+    return blocked;
+  }
+  for (const [name, contentItem] of Object.entries(availableContent)) {
+    const reason = getBlockReason(policy, type, name, contentItem);
+    if (reason) {
+      blocked.set(name, reason);
+    }
+  }
+  return blocked;
+}
+
+/**
+ * Keep the names the policy allows. Blocked ones are recorded in
+ * blockedByPolicy as "/deploy" or "infrastructure-agent" -> why.
+ */
+export function filterBlockedNames(
+  blocked: Map<string, string>,
+  type: PolicyType,
+  names: string[],
+  blockedByPolicy: Map<string, string>
+): string[] {
+  return names.filter((name) => {
+    const reason = blocked.get(name);
+    if (reason) {
+      blockedByPolicy.set(type === 'commands' ? formatComponentName(type, name) : name, reason);
+    }
+    return !reason;
+  });
+}
+
+// Closing list of init and update, after everything that was written
+export function reportBlockedByPolicy(blockedByPolicy: Map<string, string>): void {
+  if (blockedByPolicy.size === 0) {
+    return;
+  }
+  logger.warn('\n🚫 Blocked by policy (not installed):');
+  blockedByPolicy.forEach((reason, name) => {
+    logger.warn(`   ${name} (${reason})`);
+  });
+}
@@ -0,0 +1,59 @@
+import * as fs from 'fs';
+import { findToolkitFile, type ContentType } from './content-utils';
+
+export const PROFILES_FILENAME = 'profiles.json';
+
+export const DEFAULT_PROFILE = 'default';
+
+export interface InstallProfile {
+  description: string;
+  // Component names, or '*' for everything the toolkit ships
+  commands: string[] | '*';
+  agents: string[] | '*';
+}
+
+let cachedProfiles: Record<string, InstallProfile> | undefined;
+
+export function loadProfiles(): Record<string, InstallProfile> {
+  if (cachedProfiles) {
+    return cachedProfiles;
+  }
+
+  const profilesPath = findToolkitFile(PROFILES_FILENAME);
+  if (!profilesPath) {
+    throw new Error(`${PROFILES_FILENAME} not found next to the toolkit`);
+  }
+  cachedProfiles = JSON.parse(fs.readFileSync(profilesPath, 'utf-8')) as Record<
+    string,
+    InstallProfile
+  >;
+  return cachedProfiles;
+}
+
+// Names a profile lists that are actually available, in profile order
+function selectFromProfile(list: string[] | '*', available: string[]): string[] {
+  return list === '*' ? available : list.filter((name) => available.includes(name));
+}
+
+/**
+ * Union of the commands and agents of one or more profiles, e.g. ['contracts', 'reviewer'].
+ * Throws for unknown profile names.
+ */
+export function resolveProfiles(
+  names: string[],
+  available: Record<ContentType, string[]>
+): Record<ContentType, string[]> {
+  const profiles = loadProfiles();
+  const unknown = names.filter((name) => !profiles[name]);
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown profile${unknown.length > 1 ? 's' : ''} ${unknown.map((name) => `"${name}"`).join(', ')}. Available profiles: ${Object.keys(profiles).join(', ')}`
+    );
+  }
+
+  const select = (type: ContentType) =>
+    Array.from(
+      new Set(names.flatMap((name) => selectFromProfile(profiles[name][type], available[type])))
+    );
+  return { commands: select('commands'), agents: select('agents') };
+}
@@ -0,0 +1,127 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import type { ContentType } from './content-utils';
+import { resolveProfiles } from './profile-utils';
+
+// Each kind doubles as the name of the install profile recommended for it
+export type ProjectKind = 'contracts' | 'subgraph' | 'frontend';
+
+export interface ProjectSignal {
+  kind: ProjectKind;
+  // Why the kind was detected, e.g. "foundry.toml" or "apps/web/package.json depends on wagmi"
+  reason: string;
+}
+
+export interface ProjectDetection {
+  kinds: ProjectKind[];
+  signals: ProjectSignal[];
+}
+
+export const PROJECT_KIND_LABELS: Record<ProjectKind, string> = {
+  contracts: 'Foundry contracts',
+  subgraph: 'Subgraph',
+  frontend: 'Frontend dapp',
+};
+
+// Dependencies that mark a package as a dapp frontend
+const FRONTEND_DEPENDENCIES = [
+  'wagmi',
+  'viem',
+  'redux',
+  '@reduxjs/toolkit',
+  'react-redux',
+  '@apollo/client',
+  'apollo-client',
+];
+
+// Where Nx workspaces keep their projects
+const NX_PROJECT_DIRS = ['apps', 'libs', 'packages'];
+
+function readDependencyNames(packageJsonPath: string): string[] {
+  try {
+    const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+    return Object.keys({
+      ...packageJson.dependencies,
+      ...packageJson.devDependencies,
+      ...packageJson.peerDependencies,
+    });
+  } catch {
+    // An unreadable package.json is simply not a signal
+    return [];
+  }
+}
+
+function detectInDirectory(projectRoot: string, dir: string): ProjectSignal[] {
+  const signals: ProjectSignal[] = [];
+  const prefix = dir === projectRoot ? '' : `${path.relative(projectRoot, dir)}/`;
+  const has = (file: string) => fs.existsSync(path.join(dir, file));
+
+  if (has('foundry.toml')) {
+    signals.push({ kind: 'contracts', reason: `${prefix}foundry.toml` });
+  }
+  if (has('subgraph.yaml') && has('schema.graphql')) {
+    signals.push({ kind: 'subgraph', reason: `${prefix}subgraph.yaml + schema.graphql` });
+  }
+  if (has('package.json')) {
+    const dependencies = readDependencyNames(path.join(dir, 'package.json'));
+    const matched = FRONTEND_DEPENDENCIES.filter((name) => dependencies.includes(name));
+    if (matched.length > 0) {
+      signals.push({
+        kind: 'frontend',
+        reason: `${prefix}package.json depends on ${matched.join(', ')}`,
+      });
+    }
+  }
+
+  return signals;
+}
+
+/**
+ * Inspect a project for Foundry, subgraph and frontend markers. In Nx
+ * workspaces the projects under apps/, libs/ and packages/ are checked too.
+ */
+export function detectProject(projectRoot: string): ProjectDetection {
+  const dirs = [projectRoot];
+  if (fs.existsSync(path.join(projectRoot, 'nx.json'))) {
+    for (const projectDir of NX_PROJECT_DIRS) {
+      const baseDir = path.join(projectRoot, projectDir);
+      if (!fs.existsSync(baseDir) || !fs.statSync(baseDir).isDirectory()) {
+        continue;
+      }
+      for (const entry of fs.readdirSync(baseDir).sort()) {
+        const dir = path.join(baseDir, entry);
+        if (fs.statSync(dir).isDirectory()) {
+          dirs.push(dir);
+        }
+      }
+    }
+  }
+
+  const signals = dirs.flatMap((dir) => detectInDirectory(projectRoot, dir));
+  const kinds = (Object.keys(PROJECT_KIND_LABELS) as ProjectKind[]).filter((kind) =>
+    signals.some((signal) => signal.kind === kind)
+  );
+  return { kinds, signals };
+}
+
+// One line per detected kind, e.g. "Subgraph (subgraph.yaml + schema.graphql)"
+export function describeDetection(detection: ProjectDetection): string[] {
+  return detection.kinds.map((kind) => {
+    const reasons = detection.signals
+      .filter((signal) => signal.kind === kind)
+      .map((signal) => signal.reason);
+    return `${PROJECT_KIND_LABELS[kind]} (${reasons.join('; ')})`;
+  });
+}
+
+/**
+ * Commands and agents to preselect for the detected project: the union of the
+ * profiles named after the detected kinds. Returns null when nothing was
+ * detected, so callers can fall back to the toolkit defaults.
+ */
+export function getRecommendedSelection(
+  detection: ProjectDetection,
+  available: Record<ContentType, string[]>
+): Record<ContentType, string[]> | null {
+  return detection.kinds.length > 0 ? resolveProfiles(detection.kinds, available) : null;
+}
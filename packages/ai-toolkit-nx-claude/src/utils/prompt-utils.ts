@@ -22,11 +22,48 @@ export interface SchemaProperty {
   'prompt-when'?: string;
 }
 
+// installMode prompt choices that select a named profile are "profile:<name>"
+const PROFILE_CHOICE_PREFIX = 'profile:';
+
 export interface Schema {
   properties: Record<string, SchemaProperty>;
   required?: string[];
 }
 
+export function getExplicitlyProvidedOptions(): Map<string, any> {
+  const provided = new Map<string, any>();
+  const args = process.argv.slice(2);
+
+  for (const arg of args) {
+    if (arg.startsWith('--')) {
+      const [key, value] = arg.slice(2).split('=');
+      if (key) {
+        provided.set(key, value ?? true);
+      }
+    }
+  }
+
+  return provided;
+}
+
+/**
+ * Map the --global / --local shorthands onto installationType and mark it as provided
+ */
+export function applyLocationShorthands<
+  T extends { installationType?: 'global' | 'local'; global?: boolean; local?: boolean },
+>(options: T, explicitlyProvidedOptions: Map<string, any>): T {
+  if (options.global && options.local) {
+    throw new Error('Use either --global or --local, not both');
+  }
+  if (!options.global && !options.local) {
+    return { ...options };
+  }
+
+  const installationType = options.global ? 'global' : 'local';
+  explicitlyProvidedOptions.set('installationType', installationType);
+  return { ...options, installationType };
+}
+
 export async function promptForMissingOptions<T extends Record<string, any>>(
   options: T,
   schemaPath: string | Schema,
@@ -41,6 +78,15 @@ export async function promptForMissingOptions<T extends Record<string, any>>(
     localExistingAgents?: Set<string>;
     defaultCommands?: string[];
     defaultAgents?: string[];
+    // Local installs only: preselected from project detection, with one line per detected kind
+    recommendedCommands?: string[];
+    recommendedAgents?: string[];
+    detectedProject?: string[];
+    // Named install profiles offered next to default/custom in the installMode prompt
+    profiles?: Array<{ name: string; description: string }>;
+    // Components the install policy blocks -> the reason, shown disabled in the multiselect
+    blockedCommands?: Map<string, string>;
+    blockedAgents?: Map<string, string>;
   } = {},
   explicitlyProvidedOptions?: Map<string, any> | Set<string>
 ): Promise<T> {
@@ -131,7 +177,18 @@ export async function promptForMissingOptions<T extends Record<string, any>>(
     }
 
     // Generate prompt based on property type
-    const promptResult = await promptForProperty(key, property, context, result);
+    let promptResult = await promptForProperty(key, property, context, result);
+
+    // Picking a profile is a default-mode install of that profile's components
+    if (
+      key === 'installMode' &&
+      typeof promptResult === 'string' &&
+      promptResult.startsWith(PROFILE_CHOICE_PREFIX)
+    ) {
+      result.profile = promptResult.slice(PROFILE_CHOICE_PREFIX.length);
+      promptResult = 'default';
+    }
+
     if (promptResult !== undefined) {
       result[key] = promptResult;
 
@@ -191,6 +248,15 @@ async function promptForProperty(
     localExistingAgents?: Set<string>;
     defaultCommands?: string[];
     defaultAgents?: string[];
+    // Local installs only: preselected from project detection, with one line per detected kind
+    recommendedCommands?: string[];
+    recommendedAgents?: string[];
+    detectedProject?: string[];
+    // Named install profiles offered next to default/custom in the installMode prompt
+    profiles?: Array<{ name: string; description: string }>;
+    // Components the install policy blocks -> the reason, shown disabled in the multiselect
+    blockedCommands?: Map<string, string>;
+    blockedAgents?: Map<string, string>;
   },
   currentValues?: Record<string, any>
 ): Promise<any> {
@@ -216,6 +282,25 @@ async function promptForProperty(
     return value;
   }
 
+  if (key === 'installMode' && context.profiles && context.profiles.length > 0) {
+    const xPrompt = typeof property['x-prompt'] === 'object' ? property['x-prompt'] : undefined;
+    const modeChoices = (
+      xPrompt?.items ?? (property.enum ?? []).map((value) => ({ value, label: value }))
+    ).map((item) => ({ name: item.value, value: item.value, message: item.label }));
+    const profileChoices = context.profiles.map((profile) => ({
+      name: `${PROFILE_CHOICE_PREFIX}${profile.name}`,
+      value: `${PROFILE_CHOICE_PREFIX}${profile.name}`,
+      message: `Profile: ${profile.name} - ${profile.description}`,
+    }));
+    const { value } = await prompt<{ value: string }>({
+      type: 'select',
+      name: 'value',
+      message: promptMessage,
+      choices: [...modeChoices, ...profileChoices],
+    } as any);
+    return value;
+  }
+
   if (promptType === 'list' && property['prompt-items']) {
     const { value } = await prompt<{ value: string }>({
       type: 'select',
@@ -258,13 +343,15 @@ async function promptForProperty(
       }
 
       return await promptMultiSelectWithAll(
-        promptMessage,
+        withDetectedProject(promptMessage, installationType, context.detectedProject),
         context.availableCommands,
         'commands',
         context.commandDescriptions,
         existingSet,
         otherLocationSet,
-        installationType
+        installationType,
+        installationType === 'local' ? context.recommendedCommands : undefined,
+        context.blockedCommands
       );
     }
 
@@ -282,13 +369,15 @@ async function promptForProperty(
       }
 
       return await promptMultiSelectWithAll(
-        promptMessage,
+        withDetectedProject(promptMessage, installationType, context.detectedProject),
         context.availableAgents,
         'agents',
         context.agentDescriptions,
         existingSet,
         otherLocationSet,
-        installationType
+        installationType,
+        installationType === 'local' ? context.recommendedAgents : undefined,
+        context.blockedAgents
       );
     }
 
@@ -308,6 +397,18 @@ async function promptForProperty(
   return undefined;
 }
 
+// Mention what project detection found so the preselection is not a surprise
+function withDetectedProject(
+  message: string,
+  installationType?: 'global' | 'local',
+  detectedProject?: string[]
+): string {
+  if (installationType !== 'local' || !detectedProject || detectedProject.length === 0) {
+    return message;
+  }
+  return `${message}\n  Detected: ${detectedProject.join(', ')}\n  Recommended items are preselected`;
+}
+
 async function promptMultiSelectWithAll(
   message: string,
   choices: string[],
@@ -315,7 +416,9 @@ async function promptMultiSelectWithAll(
   descriptions?: Record<string, string>,
   existingItems?: Set<string>,
   otherLocationItems?: Set<string>,
-  installationType?: 'global' | 'local'
+  installationType?: 'global' | 'local',
+  preselected?: string[],
+  blockedItems?: Map<string, string>
 ): Promise<string[] | undefined> {
   const displayChoices = choices.map((choice) => {
     let display = descriptions?.[choice]
@@ -337,7 +440,11 @@ async function promptMultiSelectWithAll(
       display += ` (${indicators.join(', ')})`;
     }
 
-    return display;
+    // Blocked items stay visible but cannot be selected; init drops them regardless
+    const blockReason = blockedItems?.get(choice);
+    return blockReason
+      ? { name: display, disabled: `blocked by policy: ${blockReason}` }
+      : { name: display };
   });
 
   const response = await prompt<{ selected: string[] }>({
@@ -345,7 +452,13 @@ async function promptMultiSelectWithAll(
     name: 'selected',
     message,
     choices: displayChoices,
-    initial: displayChoices.map((_, index) => index),
+    initial: displayChoices
+      .map((_, index) => index)
+      .filter(
+        (index) =>
+          !blockedItems?.has(choices[index]) &&
+          (!preselected || preselected.includes(choices[index]))
+      ),
     hint: 'Use <space> to select, <a> to toggle all, <return> to submit',
     validate: (value: string[]) => {
       if (value.length === 0) {
@@ -0,0 +1,245 @@
+import * as path from 'path';
+import * as fs from 'fs';
+
+export const SETTINGS_FILENAME = 'settings.json';
+
+export type ClaudeSettings = Record<string, unknown>;
+
+export interface HookCommand {
+  type: 'command';
+  command: string;
+  timeout?: number;
+}
+
+// One element of a settings.json hooks.<event> list
+export interface HookGroup {
+  matcher?: string;
+  hooks: HookCommand[];
+}
+
+// A hook definition from @solo-labs/hooks, placed under hooks.<event>
+export interface SettingsHook {
+  name: string;
+  event: string;
+  group: HookGroup;
+}
+
+export interface SettingsChange {
+  before: ClaudeSettings;
+  after: ClaudeSettings;
+  // Permission rules or hook names that were not in settings.json before
+  added: string[];
+  // Permission rules or hook names that were in settings.json before
+  removed: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Read settings.json from a .claude directory. Returns an empty object when the
+ * file does not exist; throws when it cannot be parsed, so it is never overwritten.
+ */
+export function readSettings(targetDir: string): ClaudeSettings {
+  const settingsPath = path.join(targetDir, SETTINGS_FILENAME);
+  if (!fs.existsSync(settingsPath)) {
+    return {};
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(settingsPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read ${settingsPath}: ${error}`);
+  }
+  if (!isObject(raw)) {
+    throw new Error(`Failed to read ${settingsPath}: expected a JSON object`);
+  }
+  if (raw.permissions !== undefined && !isObject(raw.permissions)) {
+    throw new Error(`Failed to read ${settingsPath}: "permissions" must be an object`);
+  }
+  if (raw.permissions?.allow !== undefined && !Array.isArray(raw.permissions.allow)) {
+    throw new Error(`Failed to read ${settingsPath}: "permissions.allow" must be an array`);
+  }
+  if (raw.hooks !== undefined && !isObject(raw.hooks)) {
+    throw new Error(`Failed to read ${settingsPath}: "hooks" must be an object`);
+  }
+  for (const [event, groups] of Object.entries(raw.hooks ?? {})) {
+    if (!Array.isArray(groups)) {
+      throw new Error(`Failed to read ${settingsPath}: "hooks.${event}" must be an array`);
+    }
+  }
+  return raw;
+}
+
+function getAllowList(settings: ClaudeSettings): unknown[] {
+  const permissions = settings.permissions as ClaudeSettings | undefined;
+  return (permissions?.allow as unknown[] | undefined) ?? [];
+}
+
+function withAllowList(settings: ClaudeSettings, allow: unknown[]): ClaudeSettings {
+  return {
+    ...settings,
+    permissions: { ...(settings.permissions as ClaudeSettings | undefined), allow },
+  };
+}
+
+// "Read" is already granted by "Read" or "Read(*)"; "Bash(git log:*)" also by a bare "Bash"
+function isGranted(allow: unknown[], rule: string): boolean {
+  const tool = rule.replace(/\(.*\)$/, '');
+  return allow.includes(rule) || allow.includes(tool) || allow.includes(`${tool}(*)`);
+}
+
+/**
+ * Append rules missing from permissions.allow. Existing entries, including the
+ * user's own, keep their order and are never touched.
+ */
+export function addPermissionRules(settings: ClaudeSettings, rules: string[]): SettingsChange {
+  const allow = getAllowList(settings);
+  const added = rules.filter((rule) => !isGranted(allow, rule));
+  return {
+    before: settings,
+    after: added.length > 0 ? withAllowList(settings, [...allow, ...added]) : settings,
+    added,
+    removed: [],
+  };
+}
+
+/**
+ * Drop rules from permissions.allow. An allow list (and permissions object)
+ * left empty is removed, so an install followed by an uninstall leaves no trace.
+ */
+export function removePermissionRules(settings: ClaudeSettings, rules: string[]): SettingsChange {
+  const allow = getAllowList(settings);
+  const removed = rules.filter((rule) => allow.includes(rule));
+  if (removed.length === 0) {
+    return { before: settings, after: settings, added: [], removed };
+  }
+
+  const remaining = allow.filter((rule) => typeof rule !== 'string' || !removed.includes(rule));
+  if (remaining.length > 0) {
+    return { before: settings, after: withAllowList(settings, remaining), added: [], removed };
+  }
+  const permissions = { ...(settings.permissions as ClaudeSettings) };
+  delete permissions.allow;
+  const after: ClaudeSettings = { ...settings, permissions };
+  if (Object.keys(permissions).length === 0) {
+    delete after.permissions;
+  }
+  return { before: settings, after, added: [], removed };
+}
+
+/**
+ * Read a hook definition file of @solo-labs/hooks. The index generator
+ * validates the shipped files; this only guards against a broken install.
+ */
+export function readHookDefinition(name: string, filePath: string): SettingsHook {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read hook ${name}: ${error}`);
+  }
+  if (!isObject(raw) || typeof raw.event !== 'string' || !Array.isArray(raw.hooks)) {
+    throw new Error(`Failed to read hook ${name}: ${filePath} needs "event" and "hooks"`);
+  }
+  return {
+    name,
+    event: raw.event,
+    group: {
+      ...(typeof raw.matcher === 'string' ? { matcher: raw.matcher } : {}),
+      hooks: raw.hooks as HookCommand[],
+    },
+  };
+}
+
+// Key-order independent comparison, so a reformatted settings.json still matches
+function isSameGroup(a: unknown, b: HookGroup): boolean {
+  if (!isObject(a) || !Array.isArray(a.hooks) || a.matcher !== b.matcher) {
+    return false;
+  }
+  const commands = a.hooks as unknown[];
+  return (
+    commands.length === b.hooks.length &&
+    commands.every(
+      (command, index) =>
+        isObject(command) &&
+        Object.keys(command).length === Object.keys(b.hooks[index]).length &&
+        command.type === b.hooks[index].type &&
+        command.command === b.hooks[index].command &&
+        command.timeout === b.hooks[index].timeout
+    )
+  );
+}
+
+function withoutGroups(settings: ClaudeSettings, hooks: SettingsHook[]): ClaudeSettings {
+  const events = { ...(settings.hooks as Record<string, unknown[]> | undefined) };
+  for (const hook of hooks) {
+    const remaining = (events[hook.event] ?? []).filter((group) => !isSameGroup(group, hook.group));
+    if (remaining.length > 0) {
+      events[hook.event] = remaining;
+    } else {
+      delete events[hook.event];
+    }
+  }
+  const after: ClaudeSettings = { ...settings, hooks: events };
+  if (Object.keys(events).length === 0) {
+    delete after.hooks;
+  }
+  return after;
+}
+
+const hasGroup = (settings: ClaudeSettings, hook: SettingsHook) =>
+  ((settings.hooks as Record<string, unknown[]> | undefined)?.[hook.event] ?? []).some((group) =>
+    isSameGroup(group, hook.group)
+  );
+
+/**
+ * Add hook groups under hooks.<event>. A hook whose group is already there is
+ * left alone, so installing twice is a no-op; `previous` are the groups recorded
+ * for the same hooks by an earlier install, replaced when the definition changed.
+ */
+export function addHooks(
+  settings: ClaudeSettings,
+  hooks: SettingsHook[],
+  previous: SettingsHook[] = []
+): SettingsChange {
+  const missing = hooks.filter((hook) => !hasGroup(settings, hook));
+  if (missing.length === 0) {
+    return { before: settings, after: settings, added: [], removed: [] };
+  }
+
+  const outdated = previous.filter(
+    (old) => missing.some((hook) => hook.name === old.name) && hasGroup(settings, old)
+  );
+  const base = outdated.length > 0 ? withoutGroups(settings, outdated) : settings;
+  const events = { ...(base.hooks as Record<string, unknown[]> | undefined) };
+  for (const hook of missing) {
+    events[hook.event] = [...(events[hook.event] ?? []), hook.group];
+  }
+  return {
+    before: settings,
+    after: { ...base, hooks: events },
+    added: missing.map((hook) => hook.name),
+    removed: [],
+  };
+}
+
+/**
+ * Remove the given hook groups. Groups the user edited no longer match and are
+ * kept; event lists (and the hooks object) left empty are removed.
+ */
+export function removeHooks(settings: ClaudeSettings, hooks: SettingsHook[]): SettingsChange {
+  const present = hooks.filter((hook) => hasGroup(settings, hook));
+  return {
+    before: settings,
+    after: present.length > 0 ? withoutGroups(settings, present) : settings,
+    added: [],
+    removed: present.map((hook) => hook.name),
+  };
+}
+
+// settings.json as writeJson would write it, for diff previews
+export function serializeSettings(settings: ClaudeSettings): string {
+  return Object.keys(settings).length > 0 ? `${JSON.stringify(settings, null, 2)}\n` : '';
+}
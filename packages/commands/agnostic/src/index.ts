@@ -2,6 +2,26 @@
 // Generated by @solo-labs/utils generate-index
 // To regenerate, run: npx nx run @solo-labs/commands-agnostic:generate-index
 
+export interface ToolSpec {
+  raw: string;
+  tool: string;
+  specifier: string | null;
+  subagentType: string | null;
+}
+
+export interface ContentEntry {
+  description: string;
+  filePath: string;
+  argumentHint: string | null;
+  allowedTools: readonly ToolSpec[] | null;
+  model: string | null;
+  subagents: readonly string[];
+  knowledge: readonly string[];
+  package: string;
+  bytes: number;
+  extra: Readonly<Record<string, unknown>>;
+}
+
 type CommandName =
   | 'address-pr-issues'
   | 'analyze-session'
@@ -33,146 +53,1712 @@ type CommandName =
   | 'work-through-pr-comments';
 
 export type Commands = {
-  [key in CommandName]: {
-    description: string;
-    filePath: string;
-  };
+  [key in CommandName]: ContentEntry;
 };
 
 export const commands: Commands = {
   'address-pr-issues': {
     description: 'Reviews a GitHub PR, addresses comments, and fixes CI issues',
     filePath: './address-pr-issues.md',
+    argumentHint: '<pr-number> [--owner=<owner>] [--repo=<repo>]',
+    allowedTools: [
+      {
+        raw: 'Bash(*)',
+        tool: 'Bash',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*)',
+        tool: 'Write',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Edit(*)',
+        tool: 'Edit',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'MultiEdit(*)',
+        tool: 'MultiEdit',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'WebFetch(*)',
+        tool: 'WebFetch',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'WebSearch(*)',
+        tool: 'WebSearch',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Task(*)',
+        tool: 'Task',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'mcp__github__get_pull_request(*)',
+        tool: 'mcp__github__get_pull_request',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'mcp__github__get_pull_request_files(*)',
+        tool: 'mcp__github__get_pull_request_files',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'mcp__github__get_pull_request_comments(*)',
+        tool: 'mcp__github__get_pull_request_comments',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'mcp__github__get_pull_request_reviews(*)',
+        tool: 'mcp__github__get_pull_request_reviews',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'mcp__github__get_file_contents(*)',
+        tool: 'mcp__github__get_file_contents',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'mcp__github__create_pull_request_review(*)',
+        tool: 'mcp__github__create_pull_request_review',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'mcp__github__add_issue_comment(*)',
+        tool: 'mcp__github__add_issue_comment',
+        specifier: '*',
+        subagentType: null,
+      },
+    ],
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 5642,
+    extra: {},
   },
   'analyze-session': {
     description:
       'Analyze EIP-1153 session flows, transient storage usage, and phase execution',
     filePath: './analyze-session.md',
+    argumentHint: '<operation> [--trace] [--phase <0|1|both>] [--vault <id>]',
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Task(subagent_type:aegis-architect)',
+        tool: 'Task',
+        specifier: 'subagent_type:aegis-architect',
+        subagentType: 'aegis-architect',
+      },
+      {
+        raw: 'Task(subagent_type:context-loader)',
+        tool: 'Task',
+        specifier: 'subagent_type:context-loader',
+        subagentType: 'context-loader',
+      },
+    ],
+    model: null,
+    subagents: ['aegis-architect', 'context-loader'],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 10259,
+    extra: {},
   },
   'auto-spec': {
     description:
       'Streamlined spec-driven development with multi-agent collaboration that handles review steps automatically through intelligent consensus-building',
     filePath: './auto-spec.md',
+    argumentHint: '<feature/task description> [--skip-final-review]',
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*)',
+        tool: 'Write',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'MultiEdit(*)',
+        tool: 'MultiEdit',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Edit(*)',
+        tool: 'Edit',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'LS(*)',
+        tool: 'LS',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(*)',
+        tool: 'Bash',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'WebSearch(*)',
+        tool: 'WebSearch',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'WebFetch(*)',
+        tool: 'WebFetch',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'TodoWrite(*)',
+        tool: 'TodoWrite',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'mcp__spec-workflow__*',
+        tool: 'mcp__spec-workflow__*',
+        specifier: null,
+        subagentType: null,
+      },
+      {
+        raw: 'Task(*)',
+        tool: 'Task',
+        specifier: '*',
+        subagentType: null,
+      },
+    ],
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 12001,
+    extra: {},
   },
   'create-pr': {
     description:
       'Create or update a Graphite PR with auto-generated conventional commit messages and comprehensive descriptions based on code diffs.',
     filePath: './create-pr.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 2153,
+    extra: {},
   },
   'debug-collateral': {
     description:
       'Debug sqrt(K) floor calculations, solvency checks, and collateral requirements',
     filePath: './debug-collateral.md',
+    argumentHint: '<scenario> [--vault <id>] [--simulate <params>] [--trace]',
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Task(subagent_type:l-unit-accountant)',
+        tool: 'Task',
+        specifier: 'subagent_type:l-unit-accountant',
+        subagentType: 'l-unit-accountant',
+      },
+      {
+        raw: 'Task(subagent_type:context-loader)',
+        tool: 'Task',
+        specifier: 'subagent_type:context-loader',
+        subagentType: 'context-loader',
+      },
+    ],
+    model: null,
+    subagents: ['l-unit-accountant', 'context-loader'],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 9599,
+    extra: {},
   },
   'debug-l-units': {
     description:
       'Debug L-unit accounting issues - trace flows, validate equity neutrality, check precision',
     filePath: './debug-l-units.md',
+    argumentHint: '<scenario> [--function <name>] [--trace]',
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Task(subagent_type:l-unit-accountant)',
+        tool: 'Task',
+        specifier: 'subagent_type:l-unit-accountant',
+        subagentType: 'l-unit-accountant',
+      },
+    ],
+    model: null,
+    subagents: ['l-unit-accountant'],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 3680,
+    extra: {},
   },
   deploy: {
     description:
       'Orchestrate deployment pipelines, infrastructure setup, and CI/CD configuration using specialized deployment agents.',
     filePath: './deploy.md',
+    argumentHint:
+      '<target> [--strategy blue-green|canary|rolling] [--environment dev|staging|prod] [--dry-run]',
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*)',
+        tool: 'Write',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Task(subagent_type:cicd-agent)',
+        tool: 'Task',
+        specifier: 'subagent_type:cicd-agent',
+        subagentType: 'cicd-agent',
+      },
+      {
+        raw: 'Task(subagent_type:infrastructure-agent)',
+        tool: 'Task',
+        specifier: 'subagent_type:infrastructure-agent',
+        subagentType: 'infrastructure-agent',
+      },
+      {
+        raw: 'Task(subagent_type:agent-orchestrator)',
+        tool: 'Task',
+        specifier: 'subagent_type:agent-orchestrator',
+        subagentType: 'agent-orchestrator',
+      },
+    ],
+    model: null,
+    subagents: ['cicd-agent', 'infrastructure-agent', 'agent-orchestrator'],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 9932,
+    extra: {},
   },
   'execute-plan': {
     description: 'Execute an approved implementation plan step by step',
     filePath: './execute-plan.md',
+    argumentHint: '<plan-file.md> [--step <n>] [--dry-run]',
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*)',
+        tool: 'Write',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Edit(*)',
+        tool: 'Edit',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(*)',
+        tool: 'Bash',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Task(*)',
+        tool: 'Task',
+        specifier: '*',
+        subagentType: null,
+      },
+    ],
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 2630,
+    extra: {},
   },
   'explain-file': {
     description:
       'Comprehensive code explanation using multi-agent analysis for architecture, patterns, security, and performance insights.',
     filePath: './explain-file.md',
+    argumentHint:
+      '<path|glob> [--depth overview|deep|architectural] [--focus patterns|security|performance|all]',
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(git show:*)',
+        tool: 'Bash',
+        specifier: 'git show:*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(git ls-files:*)',
+        tool: 'Bash',
+        specifier: 'git ls-files:*',
+        subagentType: null,
+      },
+      {
+        raw: 'Task(subagent_type:code-explainer)',
+        tool: 'Task',
+        specifier: 'subagent_type:code-explainer',
+        subagentType: 'code-explainer',
+      },
+      {
+        raw: 'Task(subagent_type:security-analyzer)',
+        tool: 'Task',
+        specifier: 'subagent_type:security-analyzer',
+        subagentType: 'security-analyzer',
+      },
+      {
+        raw: 'Task(subagent_type:performance-analyzer)',
+        tool: 'Task',
+        specifier: 'subagent_type:performance-analyzer',
+        subagentType: 'performance-analyzer',
+      },
+      {
+        raw: 'Task(subagent_type:context-loader)',
+        tool: 'Task',
+        specifier: 'subagent_type:context-loader',
+        subagentType: 'context-loader',
+      },
+    ],
+    model: null,
+    subagents: [
+      'code-explainer',
+      'security-analyzer',
+      'performance-analyzer',
+      'context-loader',
+    ],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 8017,
+    extra: {},
   },
   explore: {
     description:
       'Deep dive into a codebase area to build comprehensive understanding before creating and implementing a plan.',
     filePath: './explore.md',
+    argumentHint:
+      '<natural language description of what you want to understand>',
+    allowedTools: [
+      {
+        raw: 'Bash(git ls-files:*)',
+        tool: 'Bash',
+        specifier: 'git ls-files:*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(find:*)',
+        tool: 'Bash',
+        specifier: 'find:*',
+        subagentType: null,
+      },
+      {
+        raw: 'WebFetch(*)',
+        tool: 'WebFetch',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(git log:*)',
+        tool: 'Bash',
+        specifier: 'git log:*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(git show:*)',
+        tool: 'Bash',
+        specifier: 'git show:*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(npx nx graph:*)',
+        tool: 'Bash',
+        specifier: 'npx nx graph:*',
+        subagentType: null,
+      },
+    ],
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 2770,
+    extra: {},
   },
   'explore-aegis': {
     description:
       'Deep dive into AEGIS protocol architecture with domain-specific analysis',
     filePath: './explore-aegis.md',
+    argumentHint:
+      '<topic> [--repo aegis-engine|aegis-app|subgraph] [--depth overview|deep]',
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Task(subagent_type:aegis-architect)',
+        tool: 'Task',
+        specifier: 'subagent_type:aegis-architect',
+        subagentType: 'aegis-architect',
+      },
+      {
+        raw: 'Task(subagent_type:context-loader)',
+        tool: 'Task',
+        specifier: 'subagent_type:context-loader',
+        subagentType: 'context-loader',
+      },
+    ],
+    model: null,
+    subagents: ['aegis-architect', 'context-loader'],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 3765,
+    extra: {},
   },
   'fix-bug': {
     description: 'Diagnose and fix bugs through systematic debugging',
     filePath: './fix-bug.md',
+    argumentHint: '<description|issue-url> [--trace] [--apply]',
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Edit(*)',
+        tool: 'Edit',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(*)',
+        tool: 'Bash',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Task(subagent_type:debug-assistant)',
+        tool: 'Task',
+        specifier: 'subagent_type:debug-assistant',
+        subagentType: 'debug-assistant',
+      },
+      {
+        raw: 'Task(subagent_type:context-loader)',
+        tool: 'Task',
+        specifier: 'subagent_type:context-loader',
+        subagentType: 'context-loader',
+      },
+    ],
+    model: null,
+    subagents: ['debug-assistant', 'context-loader'],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 3803,
+    extra: {},
   },
   'gen-foundry-tests': {
     description:
       'Generate Foundry tests for Solidity contracts - unit, fuzz, invariant, and integration tests',
     filePath: './gen-foundry-tests.md',
+    argumentHint:
+      '<path> [--type unit|fuzz|invariant|integration|all] [--focus <function>]',
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*)',
+        tool: 'Write',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Task(subagent_type:foundry-test-writer)',
+        tool: 'Task',
+        specifier: 'subagent_type:foundry-test-writer',
+        subagentType: 'foundry-test-writer',
+      },
+      {
+        raw: 'Task(subagent_type:context-loader)',
+        tool: 'Task',
+        specifier: 'subagent_type:context-loader',
+        subagentType: 'context-loader',
+      },
+    ],
+    model: null,
+    subagents: ['foundry-test-writer', 'context-loader'],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 4674,
+    extra: {},
   },
   'gen-tests': {
     description:
       'Generate comprehensive tests for code based on framework detection',
     filePath: './gen-tests.md',
+    argumentHint:
+      '<path> [--framework jest|vitest|mocha|foundry|matchstick] [--type unit|integration|e2e]',
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*)',
+        tool: 'Write',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Task(subagent_type:test-writer)',
+        tool: 'Task',
+        specifier: 'subagent_type:test-writer',
+        subagentType: 'test-writer',
+      },
+      {
+        raw: 'Task(subagent_type:foundry-test-writer)',
+        tool: 'Task',
+        specifier: 'subagent_type:foundry-test-writer',
+        subagentType: 'foundry-test-writer',
+      },
+      {
+        raw: 'Task(subagent_type:context-loader)',
+        tool: 'Task',
+        specifier: 'subagent_type:context-loader',
+        subagentType: 'context-loader',
+      },
+    ],
+    model: null,
+    subagents: ['test-writer', 'foundry-test-writer', 'context-loader'],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 3594,
+    extra: {},
   },
   'generate-commit-message': {
     description:
       'Generate a structured git commit message based on current changes and repository patterns',
     filePath: './generate-commit-message.md',
+    argumentHint: '[scope or focus area]',
+    allowedTools: [
+      {
+        raw: 'Bash(git status:*)',
+        tool: 'Bash',
+        specifier: 'git status:*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(git diff:*)',
+        tool: 'Bash',
+        specifier: 'git diff:*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(git log:*)',
+        tool: 'Bash',
+        specifier: 'git log:*',
+        subagentType: null,
+      },
+    ],
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 2918,
+    extra: {},
   },
   'implement-spec': {
     description:
       'Orchestrate implementation of spec-workflow tasks using intelligent agent coordination, parallel execution, and quality gates.',
     filePath: './implement-spec.md',
+    argumentHint: '<spec-name> [--task task-id] [--parallel] [--dry-run]',
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Task(subagent_type:agent-orchestrator)',
+        tool: 'Task',
+        specifier: 'subagent_type:agent-orchestrator',
+        subagentType: 'agent-orchestrator',
+      },
+      {
+        raw: 'Task(subagent_type:*)',
+        tool: 'Task',
+        specifier: 'subagent_type:*',
+        subagentType: '*',
+      },
+      {
+        raw: 'mcp__spec-workflow__manage-tasks(*)',
+        tool: 'mcp__spec-workflow__manage-tasks',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'mcp__spec-workflow__get-spec-context(*)',
+        tool: 'mcp__spec-workflow__get-spec-context',
+        specifier: '*',
+        subagentType: null,
+      },
+    ],
+    model: null,
+    subagents: ['agent-orchestrator'],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 7360,
+    extra: {},
   },
   monitor: {
     description:
       'Set up comprehensive monitoring for applications with automated metrics identification, alerting, and dashboard configuration',
     filePath: './monitor.md',
+    argumentHint: 'monitor [application-type] [monitoring-platform] [options]',
+    allowedTools: [
+      {
+        raw: 'Bash(*)',
+        tool: 'Bash',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*.yml)',
+        tool: 'Write',
+        specifier: '*.yml',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*.json)',
+        tool: 'Write',
+        specifier: '*.json',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*.md)',
+        tool: 'Write',
+        specifier: '*.md',
+        subagentType: null,
+      },
+      {
+        raw: 'Edit(*)',
+        tool: 'Edit',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'LS(*)',
+        tool: 'LS',
+        specifier: '*',
+        subagentType: null,
+      },
+    ],
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 13476,
+    extra: {},
   },
   'perf-analyze': {
     description:
       'O(1) Chain-of-Thought Performance Analyzer - Systematic complexity analysis with optimization paths, bottleneck identification, and performance proofs',
     filePath: './perf-analyze.md',
+    argumentHint:
+      '<code or file path> [concerns] [--run-benchmarks] [--memory-profile] [--full-trace] [--suggest-caching] [--compare-implementations] [--typescript-diagnostics] [--flamegraph] [--pulumi-analysis] [--cloudwatch-metrics]',
+    allowedTools: [
+      {
+        raw: 'Bash(python -m cProfile*)',
+        tool: 'Bash',
+        specifier: 'python -m cProfile*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(python -m memory_profiler*)',
+        tool: 'Bash',
+        specifier: 'python -m memory_profiler*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(py-spy*)',
+        tool: 'Bash',
+        specifier: 'py-spy*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(node --prof*)',
+        tool: 'Bash',
+        specifier: 'node --prof*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(node --cpu-prof*)',
+        tool: 'Bash',
+        specifier: 'node --cpu-prof*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(node --heap-prof*)',
+        tool: 'Bash',
+        specifier: 'node --heap-prof*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(node --inspect*)',
+        tool: 'Bash',
+        specifier: 'node --inspect*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(tsc --diagnostics*)',
+        tool: 'Bash',
+        specifier: 'tsc --diagnostics*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(tsc --extendedDiagnostics*)',
+        tool: 'Bash',
+        specifier: 'tsc --extendedDiagnostics*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(0x*)',
+        tool: 'Bash',
+        specifier: '0x*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(clinic*)',
+        tool: 'Bash',
+        specifier: 'clinic*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(autocannon*)',
+        tool: 'Bash',
+        specifier: 'autocannon*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(go test -bench*)',
+        tool: 'Bash',
+        specifier: 'go test -bench*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(go test -cpuprofile*)',
+        tool: 'Bash',
+        specifier: 'go test -cpuprofile*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(pytest --profile*)',
+        tool: 'Bash',
+        specifier: 'pytest --profile*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(time *)',
+        tool: 'Bash',
+        specifier: 'time *',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(hyperfine*)',
+        tool: 'Bash',
+        specifier: 'hyperfine*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(pulumi preview*)',
+        tool: 'Bash',
+        specifier: 'pulumi preview*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(pulumi refresh*)',
+        tool: 'Bash',
+        specifier: 'pulumi refresh*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(pulumi stack graph*)',
+        tool: 'Bash',
+        specifier: 'pulumi stack graph*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(pulumi stack export*)',
+        tool: 'Bash',
+        specifier: 'pulumi stack export*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(pulumi about*)',
+        tool: 'Bash',
+        specifier: 'pulumi about*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(aws cloudwatch get-metric-statistics*)',
+        tool: 'Bash',
+        specifier: 'aws cloudwatch get-metric-statistics*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(npm run bench*)',
+        tool: 'Bash',
+        specifier: 'npm run bench*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(yarn bench*)',
+        tool: 'Bash',
+        specifier: 'yarn bench*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(pnpm bench*)',
+        tool: 'Bash',
+        specifier: 'pnpm bench*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(bun bench*)',
+        tool: 'Bash',
+        specifier: 'bun bench*',
+        subagentType: null,
+      },
+    ],
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 5826,
+    extra: {},
   },
   plan: {
     description:
       'Create clear, actionable implementation plans for any task, feature, refactor, or architectural change through collaborative multi-agent refinement',
     filePath: './plan.md',
+    argumentHint: '<task/feature description or plan file path>',
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'LS(*)',
+        tool: 'LS',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Task(*)',
+        tool: 'Task',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'WebSearch(*)',
+        tool: 'WebSearch',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'WebFetch(*)',
+        tool: 'WebFetch',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*.md)',
+        tool: 'Write',
+        specifier: '*.md',
+        subagentType: null,
+      },
+      {
+        raw: 'MultiEdit(*.md)',
+        tool: 'MultiEdit',
+        specifier: '*.md',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(git ls-files:*)',
+        tool: 'Bash',
+        specifier: 'git ls-files:*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(mkdir:*)',
+        tool: 'Bash',
+        specifier: 'mkdir:*',
+        subagentType: null,
+      },
+    ],
+    model: 'claude-sonnet-4-5-20250929',
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 17138,
+    extra: {},
   },
   refactor: {
     description: 'Identify and apply safe refactoring improvements to code',
     filePath: './refactor.md',
+    argumentHint:
+      '<path> [--goal readability|performance|duplication] [--apply]',
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Edit(*)',
+        tool: 'Edit',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*)',
+        tool: 'Write',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Task(subagent_type:refactorer)',
+        tool: 'Task',
+        specifier: 'subagent_type:refactorer',
+        subagentType: 'refactorer',
+      },
+      {
+        raw: 'Task(subagent_type:context-loader)',
+        tool: 'Task',
+        specifier: 'subagent_type:context-loader',
+        subagentType: 'context-loader',
+      },
+    ],
+    model: null,
+    subagents: ['refactorer', 'context-loader'],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 3551,
+    extra: {},
   },
   research: {
     description:
       'Research a topic using web search, documentation, and codebase analysis',
     filePath: './research.md',
+    argumentHint:
+      '<topic> [--scope web|docs|code|all] [--depth quick|thorough]',
+    allowedTools: [
+      {
+        raw: 'WebSearch(*)',
+        tool: 'WebSearch',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'WebFetch(*)',
+        tool: 'WebFetch',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Task(subagent_type:context-loader)',
+        tool: 'Task',
+        specifier: 'subagent_type:context-loader',
+        subagentType: 'context-loader',
+      },
+    ],
+    model: null,
+    subagents: ['context-loader'],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 3916,
+    extra: {},
   },
   'review-code': {
     description:
       'Review code for quality, patterns, and potential issues without a PR context',
     filePath: './review-code.md',
+    argumentHint:
+      '<path> [--focus security|performance|quality] [--depth quick|thorough]',
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Task(subagent_type:pr-reviewer)',
+        tool: 'Task',
+        specifier: 'subagent_type:pr-reviewer',
+        subagentType: 'pr-reviewer',
+      },
+      {
+        raw: 'Task(subagent_type:context-loader)',
+        tool: 'Task',
+        specifier: 'subagent_type:context-loader',
+        subagentType: 'context-loader',
+      },
+    ],
+    model: null,
+    subagents: ['pr-reviewer', 'context-loader'],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 3387,
+    extra: {},
   },
   'review-keeper-flow': {
     description:
       'Analyze peel and micro-liquidation implementations for correctness and incentives',
     filePath: './review-keeper-flow.md',
+    argumentHint: '<flow> [--vault <id>] [--simulate] [--profitability]',
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Task(subagent_type:aegis-architect)',
+        tool: 'Task',
+        specifier: 'subagent_type:aegis-architect',
+        subagentType: 'aegis-architect',
+      },
+      {
+        raw: 'Task(subagent_type:context-loader)',
+        tool: 'Task',
+        specifier: 'subagent_type:context-loader',
+        subagentType: 'context-loader',
+      },
+    ],
+    model: null,
+    subagents: ['aegis-architect', 'context-loader'],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 12825,
+    extra: {},
   },
   'review-plan': {
     description:
       'Review an implementation plan for completeness, correctness, and alignment with codebase patterns',
     filePath: './review-plan.md',
+    argumentHint: '<plan-file.md>',
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Task(subagent_type:plan-reviewer)',
+        tool: 'Task',
+        specifier: 'subagent_type:plan-reviewer',
+        subagentType: 'plan-reviewer',
+      },
+      {
+        raw: 'Task(subagent_type:context-loader)',
+        tool: 'Task',
+        specifier: 'subagent_type:context-loader',
+        subagentType: 'context-loader',
+      },
+    ],
+    model: null,
+    subagents: ['plan-reviewer', 'context-loader'],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 2083,
+    extra: {},
   },
   'review-pr': {
     description:
       'Review a pull request for code quality, correctness, and best practices',
     filePath: './review-pr.md',
+    argumentHint:
+      '<pr-number|pr-url> [--focus security|performance|correctness]',
+    allowedTools: [
+      {
+        raw: 'Bash(gh:*)',
+        tool: 'Bash',
+        specifier: 'gh:*',
+        subagentType: null,
+      },
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Task(subagent_type:pr-reviewer)',
+        tool: 'Task',
+        specifier: 'subagent_type:pr-reviewer',
+        subagentType: 'pr-reviewer',
+      },
+      {
+        raw: 'Task(subagent_type:context-loader)',
+        tool: 'Task',
+        specifier: 'subagent_type:context-loader',
+        subagentType: 'context-loader',
+      },
+    ],
+    model: null,
+    subagents: ['pr-reviewer', 'context-loader'],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 2939,
+    extra: {},
   },
   'split-stack': {
     description:
       'Automatically split a monolithic branch with many changes into a logical, reviewable stack of PRs using semantic analysis and Graphite.',
     filePath: './split-stack.md',
+    argumentHint: '[base-branch]',
+    allowedTools: [
+      {
+        raw: 'Bash(git rev-parse:*)',
+        tool: 'Bash',
+        specifier: 'git rev-parse:*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(git log:*)',
+        tool: 'Bash',
+        specifier: 'git log:*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(git diff:*)',
+        tool: 'Bash',
+        specifier: 'git diff:*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(git status:*)',
+        tool: 'Bash',
+        specifier: 'git status:*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(git check-ref-format:*)',
+        tool: 'Bash',
+        specifier: 'git check-ref-format:*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(git ls-files:*)',
+        tool: 'Bash',
+        specifier: 'git ls-files:*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(git rev-list:*)',
+        tool: 'Bash',
+        specifier: 'git rev-list:*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(git fetch:*)',
+        tool: 'Bash',
+        specifier: 'git fetch:*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(npx nx:*)',
+        tool: 'Bash',
+        specifier: 'npx nx:*',
+        subagentType: null,
+      },
+      {
+        raw: 'Bash(which:*)',
+        tool: 'Bash',
+        specifier: 'which:*',
+        subagentType: null,
+      },
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'AskUserQuestion(*)',
+        tool: 'AskUserQuestion',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Task(subagent_type:stack-splitter)',
+        tool: 'Task',
+        specifier: 'subagent_type:stack-splitter',
+        subagentType: 'stack-splitter',
+      },
+      {
+        raw: 'mcp__graphite__run_gt_cmd(*)',
+        tool: 'mcp__graphite__run_gt_cmd',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'mcp__graphite__learn_gt(*)',
+        tool: 'mcp__graphite__learn_gt',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'mcp__nx-mcp__nx_project_details(*)',
+        tool: 'mcp__nx-mcp__nx_project_details',
+        specifier: '*',
+        subagentType: null,
+      },
+    ],
+    model: null,
+    subagents: ['stack-splitter'],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 11216,
+    extra: {},
   },
   'validate-invariants': {
     description: 'Check code against AEGIS spec invariants and safety rules',
     filePath: './validate-invariants.md',
+    argumentHint: '<scope> [--spec <path>] [--code <path>] [--strict]',
+    allowedTools: [
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Task(subagent_type:aegis-architect)',
+        tool: 'Task',
+        specifier: 'subagent_type:aegis-architect',
+        subagentType: 'aegis-architect',
+      },
+      {
+        raw: 'Task(subagent_type:context-loader)',
+        tool: 'Task',
+        specifier: 'subagent_type:context-loader',
+        subagentType: 'context-loader',
+      },
+    ],
+    model: null,
+    subagents: ['aegis-architect', 'context-loader'],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 8071,
+    extra: {},
   },
   'work-through-pr-comments': {
     description:
       'Methodically work through GitHub pull request comments in a conversational workflow, analyzing each comment, presenting solution options, gathering your decisions, and implementing approved changes.',
     filePath: './work-through-pr-comments.md',
+    argumentHint: '<pr-number> OR <owner/repo> <pr-number>',
+    allowedTools: [
+      {
+        raw: 'Bash(*)',
+        tool: 'Bash',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Read(*)',
+        tool: 'Read',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Write(*)',
+        tool: 'Write',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Edit(*)',
+        tool: 'Edit',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Grep(*)',
+        tool: 'Grep',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'Glob(*)',
+        tool: 'Glob',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'AskUserQuestion(*)',
+        tool: 'AskUserQuestion',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'mcp__github__get_pull_request(*)',
+        tool: 'mcp__github__get_pull_request',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'mcp__github__get_pull_request_comments(*)',
+        tool: 'mcp__github__get_pull_request_comments',
+        specifier: '*',
+        subagentType: null,
+      },
+      {
+        raw: 'mcp__github__get_pull_request_reviews(*)',
+        tool: 'mcp__github__get_pull_request_reviews',
+        specifier: '*',
+        subagentType: null,
+      },
+    ],
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'agnostic',
+    bytes: 19261,
+    extra: {},
   },
 } as const;
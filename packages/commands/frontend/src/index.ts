@@ -2,28 +2,75 @@
 // Generated by @solo-labs/utils generate-index
 // To regenerate, run: npx nx run @solo-labs/commands-frontend:generate-index
 
+export interface ToolSpec {
+  raw: string;
+  tool: string;
+  specifier: string | null;
+  subagentType: string | null;
+}
+
+export interface ContentEntry {
+  description: string;
+  filePath: string;
+  argumentHint: string | null;
+  allowedTools: readonly ToolSpec[] | null;
+  model: string | null;
+  subagents: readonly string[];
+  knowledge: readonly string[];
+  package: string;
+  bytes: number;
+  extra: Readonly<Record<string, unknown>>;
+}
+
 type CommandName = 'analyze-vault-flow' | 'explore-redux' | 'gen-component';
 
 export type Commands = {
-  [key in CommandName]: {
-    description: string;
-    filePath: string;
-  };
+  [key in CommandName]: ContentEntry;
 };
 
 export const commands: Commands = {
   'analyze-vault-flow': {
     description: 'Trace vault interaction flows from UI to contract execution',
     filePath: './analyze-vault-flow.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'frontend',
+    bytes: 3807,
+    extra: {
+      agents: 'web3-integrator, redux-architect, vault-ui-builder',
+    },
   },
   'explore-redux': {
     description:
       'Analyze Redux store structure and vault state management patterns',
     filePath: './explore-redux.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'frontend',
+    bytes: 2384,
+    extra: {
+      agents: 'redux-architect',
+    },
   },
   'gen-component': {
     description:
       'Generate AEGIS-specific React components with L-unit display and vault integration',
     filePath: './gen-component.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'frontend',
+    bytes: 3447,
+    extra: {
+      agents: 'vault-ui-builder, web3-integrator',
+    },
   },
 } as const;
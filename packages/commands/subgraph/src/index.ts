@@ -2,13 +2,30 @@
 // Generated by @solo-labs/utils generate-index
 // To regenerate, run: npx nx run @solo-labs/commands-subgraph:generate-index
 
+export interface ToolSpec {
+  raw: string;
+  tool: string;
+  specifier: string | null;
+  subagentType: string | null;
+}
+
+export interface ContentEntry {
+  description: string;
+  filePath: string;
+  argumentHint: string | null;
+  allowedTools: readonly ToolSpec[] | null;
+  model: string | null;
+  subagents: readonly string[];
+  knowledge: readonly string[];
+  package: string;
+  bytes: number;
+  extra: Readonly<Record<string, unknown>>;
+}
+
 type CommandName = 'gen-matchstick-tests' | 'gen-subgraph-handler';
 
 export type Commands = {
-  [key in CommandName]: {
-    description: string;
-    filePath: string;
-  };
+  [key in CommandName]: ContentEntry;
 };
 
 export const commands: Commands = {
@@ -16,10 +33,30 @@ export const commands: Commands = {
     description:
       'Generate Matchstick unit tests for AEGIS subgraph event handlers',
     filePath: './gen-matchstick-tests.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'subgraph',
+    bytes: 9960,
+    extra: {
+      agents: 'assemblyscript-expert, subgraph-developer',
+    },
   },
   'gen-subgraph-handler': {
     description:
       'Generate AssemblyScript event handlers for AEGIS Protocol subgraph indexing',
     filePath: './gen-subgraph-handler.md',
+    argumentHint: null,
+    allowedTools: null,
+    model: null,
+    subagents: [],
+    knowledge: [],
+    package: 'subgraph',
+    bytes: 5685,
+    extra: {
+      agents: 'subgraph-developer, assemblyscript-expert',
+    },
   },
 } as const;
@@ -0,0 +1,15 @@
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { generateHooksIndex } from '../../utils/src/lib/generate-hooks-index.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const srcPath = join(__dirname, '..', 'src');
+
+generateHooksIndex({
+  srcPath,
+  outputPath: join(srcPath, 'index.ts'),
+  regenerateCommand: 'npx nx run @solo-labs/hooks:generate-index',
+}).catch((error) => {
+  console.error('Failed to generate index:', error);
+  process.exit(1);
+});
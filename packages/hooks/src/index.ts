@@ -0,0 +1,78 @@
+// Auto-generated file - DO NOT EDIT
+// Generated by @solo-labs/utils generate-hooks-index
+// To regenerate, run: npx nx run @solo-labs/hooks:generate-index
+
+/**
+ * @solo-labs/hooks
+ *
+ * Optional Claude Code hooks shipped with the toolkit. Each definition is one
+ * entry of the settings.json "hooks" section; "init --hooks=<names>" merges
+ * the selected ones into the target settings.json.
+ */
+
+export type HookEvent =
+  | 'PreToolUse'
+  | 'PostToolUse'
+  | 'Notification'
+  | 'UserPromptSubmit'
+  | 'Stop'
+  | 'SubagentStop'
+  | 'PreCompact'
+  | 'SessionStart'
+  | 'SessionEnd';
+
+export interface HookCommand {
+  type: 'command';
+  command: string;
+  // Seconds before Claude Code cancels the command
+  timeout?: number;
+}
+
+export interface HookDefinition {
+  description: string;
+  event: HookEvent;
+  // Tool name pattern for PreToolUse/PostToolUse, e.g. "Edit|Write"
+  matcher?: string;
+  hooks: readonly HookCommand[];
+  filePath: string;
+}
+
+export type HookName = 'commit-message-check' | 'validate-invariants-reminder';
+
+/**
+ * Every hook definition, keyed by name
+ */
+export const hooks: Record<HookName, HookDefinition> = {
+  'commit-message-check': {
+    description:
+      'Stop git commit without a message and point Claude to /generate-commit-message',
+    event: 'PreToolUse',
+    matcher: 'Bash',
+    hooks: [
+      {
+        type: 'command',
+        command:
+          "node -e \"let s='';process.stdin.on('data',d=>s+=d).on('end',()=>{const c=(JSON.parse(s).tool_input||{}).command||'';if(/\\bgit\\s+commit\\b/.test(c)&&!/\\s(-[a-zA-Z]*[mFC]|--message|--file|--no-edit|--fixup|--squash|--reuse-message)/.test(c)){console.error('git commit without a message opens an editor. Draft the message with /generate-commit-message, then commit with -m.');process.exit(2)}})\"",
+        timeout: 10,
+      },
+    ],
+    filePath: './commit-message-check.json',
+  },
+  'validate-invariants-reminder': {
+    description:
+      'After an edit to a *.sol file, remind Claude to run /validate-invariants before finishing',
+    event: 'PostToolUse',
+    matcher: 'Edit|MultiEdit|Write',
+    hooks: [
+      {
+        type: 'command',
+        command:
+          "node -e \"let s='';process.stdin.on('data',d=>s+=d).on('end',()=>{const f=(JSON.parse(s).tool_input||{}).file_path||'';if(f.endsWith('.sol')){console.error(f+' changed. Run /validate-invariants before finishing this task.');process.exit(2)}})\"",
+        timeout: 10,
+      },
+    ],
+    filePath: './validate-invariants-reminder.json',
+  },
+};
+
+export default hooks;
@@ -0,0 +1,25 @@
+export {
+  buildKnowledgeIndex,
+  findKnowledge,
+  getKnowledgeSection,
+  knowledgeUri,
+  loadKnowledge,
+  RESOURCE_SCHEME,
+} from './lib/knowledge-store.js';
+export type { KnowledgeEntry } from './lib/knowledge-store.js';
+export {
+  createKnowledgeServer,
+  ERROR_CODES,
+  SERVER_NAME,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from './lib/server.js';
+export type {
+  JsonRpcError,
+  JsonRpcId,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  KnowledgeServer,
+  KnowledgeServerOptions,
+} from './lib/server.js';
+export { createInProcessClient, McpError, serveStdio } from './lib/stdio.js';
+export type { InProcessClient } from './lib/stdio.js';
@@ -0,0 +1,109 @@
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import {
+  expandIncludes,
+  extractSection,
+  parseFrontmatter,
+  slugifyHeading,
+  splitSections,
+} from '@solo-labs/utils';
+import { buildSearchIndex, type SearchIndex } from '@solo-labs/protocol-knowledge';
+
+// Resources are addressed as aegis-knowledge://<category>/<name>
+export const RESOURCE_SCHEME = 'aegis-knowledge';
+
+export interface KnowledgeEntry {
+  name: string;
+  category: string; // concepts, patterns or gotchas
+  title: string;
+  summary: string;
+  tags: string[];
+  related: string[];
+  uri: string;
+  // Markdown without frontmatter, include directives expanded
+  content: string;
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : [];
+}
+
+export function knowledgeUri(category: string, name: string): string {
+  return `${RESOURCE_SCHEME}://${category}/${name}`;
+}
+
+/**
+ * Read every doc of a protocol-knowledge source directory (one folder per
+ * category). Throws when the directory is missing, so a broken install is
+ * reported at startup rather than as an empty server.
+ */
+export function loadKnowledge(knowledgeDir: string): KnowledgeEntry[] {
+  if (!existsSync(knowledgeDir)) {
+    throw new Error(`Knowledge directory not found: ${knowledgeDir}`);
+  }
+
+  const entries: KnowledgeEntry[] = [];
+  const categories = readdirSync(knowledgeDir)
+    .filter((item) => statSync(join(knowledgeDir, item)).isDirectory())
+    .sort();
+  for (const category of categories) {
+    const files = readdirSync(join(knowledgeDir, category))
+      .filter((file) => file.endsWith('.md'))
+      .sort();
+    for (const file of files) {
+      const filePath = join(knowledgeDir, category, file);
+      const raw = readFileSync(filePath, 'utf-8');
+      const parsed = parseFrontmatter(raw, filePath);
+      const extra = parsed?.frontmatter.extra ?? {};
+      const name = file.replace(/\.md$/, '');
+      entries.push({
+        name,
+        category,
+        title: typeof extra.title === 'string' ? extra.title : name,
+        summary: typeof extra.summary === 'string' ? extra.summary : '',
+        tags: toStringList(extra.tags),
+        related: toStringList(extra.related),
+        uri: knowledgeUri(category, name),
+        content: expandIncludes(parsed ? parsed.body : raw, filePath, {
+          roots: { 'protocol-knowledge': knowledgeDir },
+        }).trim(),
+      });
+    }
+  }
+  return entries;
+}
+
+export function findKnowledge(entries: KnowledgeEntry[], name: string): KnowledgeEntry | undefined {
+  return entries.find((entry) => entry.name === name);
+}
+
+/**
+ * One section of a doc, matched by heading text or GitHub anchor
+ * ("Share Price Formula" or "share-price-formula"). Null when no heading matches.
+ */
+export function getKnowledgeSection(entry: KnowledgeEntry, section: string): string | null {
+  const content = extractSection(entry.content, slugifyHeading(section));
+  return content === null ? null : content.trim();
+}
+
+/**
+ * Section-level search index over the loaded docs, ranked the same way as
+ * searchKnowledge() of @solo-labs/protocol-knowledge.
+ */
+export function buildKnowledgeIndex(entries: KnowledgeEntry[]): SearchIndex {
+  return buildSearchIndex(
+    entries.flatMap((entry) =>
+      splitSections(entry.content).map((section) => ({
+        name: entry.name,
+        category: entry.category,
+        title: entry.title,
+        heading: section.heading,
+        anchor: section.anchor,
+        parents: section.parents,
+        text: section.body,
+      }))
+    )
+  );
+}
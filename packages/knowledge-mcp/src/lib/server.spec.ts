@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { knowledgeUri } from './knowledge-store.js';
+import {
+  ERROR_CODES,
+  SERVER_NAME,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  createKnowledgeServer,
+} from './server.js';
+import { McpError, createInProcessClient } from './stdio.js';
+
+const knowledgeDir = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '../../../agents/protocol-knowledge/src'
+);
+
+function connect() {
+  return createInProcessClient(createKnowledgeServer({ knowledgeDir, version: '0.0.0-test' }));
+}
+
+interface ToolResult {
+  content: { type: string; text: string }[];
+  isError?: boolean;
+}
+
+describe('knowledge MCP server', () => {
+  it('answers initialize with the negotiated protocol version', () => {
+    const client = connect();
+    const result = client.request('initialize', {
+      protocolVersion: SUPPORTED_PROTOCOL_VERSIONS[0],
+      capabilities: {},
+      clientInfo: { name: 'spec', version: '0.0.0' },
+    }) as { protocolVersion: string; serverInfo: { name: string; version: string } };
+
+    assert.equal(result.protocolVersion, SUPPORTED_PROTOCOL_VERSIONS[0]);
+    assert.deepEqual(result.serverInfo, { name: SERVER_NAME, version: '0.0.0-test' });
+  });
+
+  it('lists its tools', () => {
+    const { tools } = connect().request('tools/list') as { tools: { name: string }[] };
+
+    assert.deepEqual(tools.map((tool) => tool.name).sort(), [
+      'list_gotchas',
+      'lookup_concept',
+      'search_knowledge',
+    ]);
+  });
+
+  it('looks up a concept and one of its sections', () => {
+    const client = connect();
+    const whole = client.request('tools/call', {
+      name: 'lookup_concept',
+      arguments: { name: 'pips' },
+    }) as ToolResult;
+    const section = client.request('tools/call', {
+      name: 'lookup_concept',
+      arguments: { name: 'pips', section: 'Definition' },
+    }) as ToolResult;
+
+    assert.ok(!whole.isError);
+    assert.match(whole.content[0].text, /^# PIPS: Parts Per Million in AEGIS/);
+    assert.ok(!section.isError);
+    assert.match(section.content[0].text, /1,000,000 PIPS/);
+    assert.doesNotMatch(section.content[0].text, /## Why PIPS\?/);
+  });
+
+  it('reports an unknown concept as a tool error', () => {
+    const result = connect().request('tools/call', {
+      name: 'lookup_concept',
+      arguments: { name: 'no-such-concept' },
+    }) as ToolResult;
+
+    assert.equal(result.isError, true);
+    assert.match(result.content[0].text, /Unknown doc "no-such-concept"/);
+  });
+
+  it('reads a knowledge doc as a resource', () => {
+    const uri = knowledgeUri('concepts', 'pips');
+    const { contents } = connect().request('resources/read', { uri }) as {
+      contents: { uri: string; mimeType: string; text: string }[];
+    };
+
+    assert.equal(contents.length, 1);
+    assert.equal(contents[0].uri, uri);
+    assert.equal(contents[0].mimeType, 'text/markdown');
+    assert.match(contents[0].text, /^# PIPS/);
+  });
+
+  it('rejects an unknown resource', () => {
+    assert.throws(
+      () =>
+        connect().request('resources/read', { uri: knowledgeUri('concepts', 'no-such-concept') }),
+      (error: unknown) => error instanceof McpError && error.code === ERROR_CODES.resourceNotFound
+    );
+  });
+});
@@ -0,0 +1,287 @@
+import { searchSections, type SearchIndex } from '@solo-labs/protocol-knowledge';
+import {
+  buildKnowledgeIndex,
+  findKnowledge,
+  getKnowledgeSection,
+  loadKnowledge,
+  type KnowledgeEntry,
+} from './knowledge-store.js';
+
+export const SERVER_NAME = 'solo-labs-knowledge';
+
+// Newest first; an unknown client version is answered with the newest
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+export const ERROR_CODES = {
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internalError: -32603,
+  resourceNotFound: -32002,
+} as const;
+
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  // Absent for notifications, which get no response
+  id?: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+}
+
+export type JsonRpcResponse =
+  | { jsonrpc: '2.0'; id: JsonRpcId | null; result: unknown }
+  | { jsonrpc: '2.0'; id: JsonRpcId | null; error: JsonRpcError };
+
+export interface KnowledgeServerOptions {
+  // protocol-knowledge source directory (concepts/, patterns/, gotchas/)
+  knowledgeDir: string;
+  // Reported as serverInfo.version
+  version: string;
+}
+
+export interface KnowledgeServer {
+  entries: KnowledgeEntry[];
+  // Answer one decoded JSON-RPC message; null for notifications
+  handle(message: unknown): JsonRpcResponse | null;
+}
+
+interface ToolResult {
+  content: { type: 'text'; text: string }[];
+  isError?: boolean;
+}
+
+class RequestError extends Error {
+  constructor(
+    readonly code: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+const INSTRUCTIONS =
+  'AEGIS protocol knowledge (L-units, vault operations, precision and other gotchas). ' +
+  'Call lookup_concept with a doc name, optionally with a section heading, instead ' +
+  'of guessing protocol details; use search_knowledge when the name is unknown.';
+
+const TOOLS = [
+  {
+    name: 'lookup_concept',
+    description:
+      'Return a protocol-knowledge doc (concept, pattern or gotcha) by name, or one of its sections.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Doc name, e.g. "l-units" or "equity-neutrality"',
+        },
+        section: {
+          type: 'string',
+          description: 'Heading text or anchor, e.g. "Share Price Formula"; omit for the whole doc',
+        },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'list_gotchas',
+    description: 'List the known protocol pitfalls with a one-line summary each.',
+    inputSchema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'search_knowledge',
+    description:
+      'Search every section of the protocol-knowledge docs and return the best matches with a snippet.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Words to look for' },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of results (default 5)',
+        },
+      },
+      required: ['query'],
+    },
+  },
+];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+function text(value: string, isError = false): ToolResult {
+  return {
+    content: [{ type: 'text', text: value }],
+    ...(isError ? { isError } : {}),
+  };
+}
+
+function requireString(args: Record<string, unknown>, key: string): string {
+  const value = args[key];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new RequestError(ERROR_CODES.invalidParams, `"${key}" must be a non-empty string`);
+  }
+  return value.trim();
+}
+
+function describeEntry(entry: KnowledgeEntry): string {
+  return `- ${entry.name} (${entry.category}): ${entry.summary || entry.title}`;
+}
+
+function lookupConcept(entries: KnowledgeEntry[], args: Record<string, unknown>): ToolResult {
+  const name = requireString(args, 'name');
+  const entry = findKnowledge(entries, name);
+  if (!entry) {
+    return text(
+      `Unknown doc "${name}". Available:\n${entries.map(describeEntry).join('\n')}`,
+      true
+    );
+  }
+  if (args.section === undefined) {
+    return text(entry.content);
+  }
+
+  const section = requireString(args, 'section');
+  const content = getKnowledgeSection(entry, section);
+  return content === null ? text(`No section "${section}" in ${entry.name}`, true) : text(content);
+}
+
+function listGotchas(entries: KnowledgeEntry[]): ToolResult {
+  const gotchas = entries.filter((entry) => entry.category === 'gotchas');
+  return text(gotchas.map(describeEntry).join('\n'));
+}
+
+function search(
+  entries: KnowledgeEntry[],
+  index: SearchIndex,
+  args: Record<string, unknown>
+): ToolResult {
+  const query = requireString(args, 'query');
+  const { limit = 5 } = args;
+  if (typeof limit !== 'number' || !Number.isInteger(limit) || limit <= 0) {
+    throw new RequestError(ERROR_CODES.invalidParams, '"limit" must be a positive integer');
+  }
+
+  const hits = searchSections(index, query, { limit });
+  if (hits.length === 0) {
+    return text(`No matches for "${query}"`);
+  }
+  return text(
+    hits
+      .map((hit) => {
+        const entry = findKnowledge(entries, hit.name)!;
+        const uri = hit.anchor ? `${entry.uri}#${hit.anchor}` : entry.uri;
+        return `## ${hit.heading ?? hit.title} (${hit.name})\n${uri}\n${hit.snippet}`;
+      })
+      .join('\n\n')
+  );
+}
+
+/**
+ * MCP server (JSON-RPC 2.0) over the protocol-knowledge docs. Transport-free:
+ * serveStdio() connects it to a process, createInProcessClient() to a caller.
+ * Docs are read once, so the server never touches the network or the disk again.
+ */
+export function createKnowledgeServer(options: KnowledgeServerOptions): KnowledgeServer {
+  const entries = loadKnowledge(options.knowledgeDir);
+  const index = buildKnowledgeIndex(entries);
+
+  const methods: Record<string, (params: Record<string, unknown>) => unknown> = {
+    initialize: (params) => ({
+      protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(params.protocolVersion as string)
+        ? params.protocolVersion
+        : SUPPORTED_PROTOCOL_VERSIONS[0],
+      capabilities: { tools: {}, resources: {} },
+      serverInfo: { name: SERVER_NAME, version: options.version },
+      instructions: INSTRUCTIONS,
+    }),
+    ping: () => ({}),
+    'resources/list': () => ({
+      resources: entries.map((entry) => ({
+        uri: entry.uri,
+        name: entry.name,
+        title: entry.title,
+        description: entry.summary,
+        mimeType: 'text/markdown',
+      })),
+    }),
+    'resources/read': (params) => {
+      const uri = requireString(params, 'uri');
+      const entry = entries.find((item) => item.uri === uri);
+      if (!entry) {
+        throw new RequestError(ERROR_CODES.resourceNotFound, `Resource not found: ${uri}`);
+      }
+      return {
+        contents: [{ uri, mimeType: 'text/markdown', text: entry.content }],
+      };
+    },
+    'tools/list': () => ({ tools: TOOLS }),
+    'tools/call': (params) => {
+      const name = requireString(params, 'name');
+      const args = params.arguments ?? {};
+      if (!isObject(args)) {
+        throw new RequestError(ERROR_CODES.invalidParams, '"arguments" must be an object');
+      }
+      switch (name) {
+        case 'lookup_concept':
+          return lookupConcept(entries, args);
+        case 'list_gotchas':
+          return listGotchas(entries);
+        case 'search_knowledge':
+          return search(entries, index, args);
+        default:
+          throw new RequestError(ERROR_CODES.invalidParams, `Unknown tool: ${name}`);
+      }
+    },
+  };
+
+  function handle(message: unknown): JsonRpcResponse | null {
+    if (!isObject(message) || message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+      const id = isObject(message) ? message.id : undefined;
+      return {
+        jsonrpc: '2.0',
+        id: typeof id === 'string' || typeof id === 'number' ? id : null,
+        error: { code: ERROR_CODES.invalidRequest, message: 'Invalid request' },
+      };
+    }
+
+    const { id, method, params = {} } = message as Partial<JsonRpcRequest>;
+    // Notifications (notifications/initialized, cancellations) need no answer
+    if (id === undefined) {
+      return null;
+    }
+
+    try {
+      const handler = methods[method as string];
+      if (!handler) {
+        throw new RequestError(ERROR_CODES.methodNotFound, `Method not found: ${method}`);
+      }
+      if (!isObject(params)) {
+        throw new RequestError(ERROR_CODES.invalidParams, '"params" must be an object');
+      }
+      return { jsonrpc: '2.0', id, result: handler(params) };
+    } catch (error) {
+      // A bug or an fs error in one handler must not take the whole server down
+      const { code, message } =
+        error instanceof RequestError
+          ? error
+          : {
+              code: ERROR_CODES.internalError,
+              message: `Internal error: ${error instanceof Error ? error.message : String(error)}`,
+            };
+      return { jsonrpc: '2.0', id, error: { code, message } };
+    }
+  }
+
+  return { entries, handle };
+}
@@ -0,0 +1,87 @@
+import { createInterface } from 'readline';
+import type { Readable, Writable } from 'stream';
+import { ERROR_CODES, type JsonRpcResponse, type KnowledgeServer } from './server.js';
+
+export class McpError extends Error {
+  constructor(
+    readonly code: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'McpError';
+  }
+}
+
+export interface InProcessClient {
+  // Send a request and return its result; throws an McpError for error responses
+  request(method: string, params?: Record<string, unknown>): unknown;
+  notify(method: string, params?: Record<string, unknown>): void;
+}
+
+/**
+ * Serve newline-delimited JSON-RPC messages (the MCP stdio transport) until
+ * the input ends. stdout carries protocol messages only, so nothing else may
+ * be written to it while serving.
+ */
+export function serveStdio(
+  server: KnowledgeServer,
+  input: Readable = process.stdin,
+  output: Writable = process.stdout
+): Promise<void> {
+  const lines = createInterface({ input, crlfDelay: Infinity });
+  const send = (response: JsonRpcResponse) => output.write(`${JSON.stringify(response)}\n`);
+
+  lines.on('line', (line) => {
+    if (line.trim() === '') {
+      return;
+    }
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      send({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: ERROR_CODES.parseError, message: 'Parse error' },
+      });
+      return;
+    }
+    const response = server.handle(message);
+    if (response) {
+      send(response);
+    }
+  });
+
+  return new Promise((resolve) => lines.once('close', () => resolve()));
+}
+
+/**
+ * Client that talks to a server in the same process, e.g. from tests. Messages
+ * go through JSON like on the wire, so results are plain data.
+ */
+export function createInProcessClient(server: KnowledgeServer): InProcessClient {
+  let nextId = 1;
+  const roundTrip = (message: object) => server.handle(JSON.parse(JSON.stringify(message)));
+
+  return {
+    request(method, params) {
+      const response = roundTrip({
+        jsonrpc: '2.0',
+        id: nextId++,
+        method,
+        ...(params ? { params } : {}),
+      });
+      if (!response) {
+        throw new Error(`No response to ${method}`);
+      }
+      const decoded = JSON.parse(JSON.stringify(response));
+      if ('error' in decoded) {
+        throw new McpError(decoded.error.code, decoded.error.message);
+      }
+      return decoded.result;
+    },
+    notify(method, params) {
+      roundTrip({ jsonrpc: '2.0', method, ...(params ? { params } : {}) });
+    },
+  };
+}
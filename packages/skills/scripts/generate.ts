@@ -0,0 +1,23 @@
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { generateSkills } from '../../utils/src/lib/generate-skills.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const agentsPath = join(__dirname, '..', '..', 'agents');
+
+generateSkills({
+  knowledgePath: join(agentsPath, 'protocol-knowledge', 'src'),
+  agentsPath,
+  // Agents that mostly carry protocol knowledge rather than drive a workflow
+  agents: ['aegis-architect', 'assemblyscript-expert', 'l-unit-accountant'],
+  knowledgeSkill: {
+    name: 'aegis-protocol-knowledge',
+    description:
+      'AEGIS protocol reference: L-units, the sqrt(K) floor, PIPS, two-phase execution, vault and keeper flows, and known pitfalls (equity neutrality, precision, reentrancy, AssemblyScript). Use when working on AEGIS contracts, subgraphs or tests, or when unsure how a protocol mechanism works.',
+  },
+  outputPath: join(__dirname, '..', 'src'),
+  regenerateCommand: 'npx nx run @solo-labs/skills:generate-index',
+}).catch((error) => {
+  console.error('Failed to generate skills:', error);
+  process.exit(1);
+});
@@ -0,0 +1,85 @@
+// Auto-generated file - DO NOT EDIT
+// Generated by @solo-labs/utils generate-skills
+// To regenerate, run: npx nx run @solo-labs/skills:generate-index
+
+/**
+ * @solo-labs/skills
+ *
+ * Claude Agent Skills generated from the protocol-knowledge docs and the most
+ * knowledge-heavy agents. Each skill is a folder with a SKILL.md; Claude Code
+ * loads it only when a task matches its description. "init --skills" installs
+ * them into skills/.
+ */
+
+export interface SkillDefinition {
+  description: string;
+  // Source the skill is generated from, relative to packages/
+  source: string;
+  // Supporting files next to SKILL.md, relative to the skill folder
+  files: readonly string[];
+  // Skills whose files SKILL.md links to
+  requires: readonly SkillName[];
+  filePath: string;
+}
+
+export type SkillName =
+  | 'aegis-architect'
+  | 'aegis-protocol-knowledge'
+  | 'assemblyscript-expert'
+  | 'l-unit-accountant';
+
+/**
+ * Every generated skill, keyed by name
+ */
+export const skills: Record<SkillName, SkillDefinition> = {
+  'aegis-architect': {
+    description:
+      'Protocol architecture specialist for AegisEngine - designs vault lifecycle, session management, and understands three-layer execution model',
+    source: 'agents/agnostic/src/aegis-architect.md',
+    files: [],
+    requires: ['aegis-protocol-knowledge'],
+    filePath: './aegis-architect/SKILL.md',
+  },
+  'aegis-protocol-knowledge': {
+    description:
+      'AEGIS protocol reference: L-units, the sqrt(K) floor, PIPS, two-phase execution, vault and keeper flows, and known pitfalls (equity neutrality, precision, reentrancy, AssemblyScript). Use when working on AEGIS contracts, subgraphs or tests, or when unsure how a protocol mechanism works.',
+    source: 'agents/protocol-knowledge/src',
+    files: [
+      'concepts/l-units.md',
+      'concepts/pips.md',
+      'concepts/sqrt-k-floor.md',
+      'concepts/transient-storage.md',
+      'concepts/two-phase-execution.md',
+      'concepts/v4-hooks.md',
+      'gotchas/assemblyscript-quirks.md',
+      'gotchas/equity-neutrality.md',
+      'gotchas/precision-errors.md',
+      'gotchas/reentrancy-risks.md',
+      'patterns/collateral-management.md',
+      'patterns/fee-accrual.md',
+      'patterns/keeper-flows.md',
+      'patterns/session-lifecycle.md',
+      'patterns/vault-operations.md',
+    ],
+    requires: [],
+    filePath: './aegis-protocol-knowledge/SKILL.md',
+  },
+  'assemblyscript-expert': {
+    description:
+      'Specialist in AssemblyScript for The Graph subgraph development with performance optimization',
+    source: 'agents/subgraph/src/assemblyscript-expert.md',
+    files: [],
+    requires: ['aegis-protocol-knowledge'],
+    filePath: './assemblyscript-expert/SKILL.md',
+  },
+  'l-unit-accountant': {
+    description:
+      'L-unit math and equity calculation specialist - validates equity-neutral operations, debugs share price calculations, ensures PIPS precision',
+    source: 'agents/agnostic/src/l-unit-accountant.md',
+    files: [],
+    requires: ['aegis-protocol-knowledge'],
+    filePath: './l-unit-accountant/SKILL.md',
+  },
+};
+
+export default skills;
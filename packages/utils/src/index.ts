@@ -1,3 +1,40 @@
 export * from './lib/utils.js';
 export { generateIndex } from './lib/generate-index.js';
 export type { GenerateIndexOptions } from './lib/generate-index.js';
+export { lintContent, formatDiagnostic } from './lib/lint-content.js';
+export type {
+  LintContentOptions,
+  LintDiagnostic,
+  LintSeverity,
+} from './lib/lint-content.js';
+export {
+  FrontmatterError,
+  getSubagentReferences,
+  parseFrontmatter,
+  parseToolList,
+  parseToolSpec,
+} from './lib/frontmatter.js';
+export type {
+  Frontmatter,
+  ParsedMarkdown,
+  ToolSpec,
+} from './lib/frontmatter.js';
+export { generateKnowledgeIndex } from './lib/generate-knowledge-index.js';
+export type { GenerateKnowledgeIndexOptions } from './lib/generate-knowledge-index.js';
+export {
+  expandIncludes,
+  extractSection,
+  findIncludes,
+  IncludeError,
+  slugifyHeading,
+  splitSections,
+} from './lib/includes.js';
+export type {
+  ExpandIncludesOptions,
+  IncludeDirective,
+  MarkdownSection,
+} from './lib/includes.js';
+export { generateHooksIndex, HOOK_EVENTS } from './lib/generate-hooks-index.js';
+export type { GenerateHooksIndexOptions } from './lib/generate-hooks-index.js';
+export { generateSkills } from './lib/generate-skills.js';
+export type { GenerateSkillsOptions } from './lib/generate-skills.js';
@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  FrontmatterError,
+  getSubagentReferences,
+  parseFrontmatter,
+  parseToolList,
+  parseToolSpec,
+} from './frontmatter.js';
+
+const lines = (...items: string[]) => items.join('\n');
+
+describe('parseToolSpec', () => {
+  it('splits a tool from its specifier and reads Task subagents', () => {
+    assert.deepEqual(parseToolSpec('Bash(git show:*)'), {
+      raw: 'Bash(git show:*)',
+      tool: 'Bash',
+      specifier: 'git show:*',
+      subagentType: null,
+    });
+    assert.equal(
+      parseToolSpec('Task(subagent_type: planner)').subagentType,
+      'planner'
+    );
+    assert.equal(parseToolSpec('Read').specifier, null);
+  });
+
+  it('reads a comma-separated string or a YAML list', () => {
+    const tools = ['Read(*)', 'Bash(git log:*, git diff:*)', 'Grep'];
+
+    assert.deepEqual(
+      parseToolList(tools.join(', ')).map((spec) => spec.raw),
+      tools
+    );
+    assert.deepEqual(
+      parseToolList([...tools, ' ']).map((spec) => spec.raw),
+      tools
+    );
+  });
+});
+
+describe('parseFrontmatter', () => {
+  it('returns null without a frontmatter block', () => {
+    assert.equal(parseFrontmatter('# Plan\n'), null);
+  });
+
+  it('reads the known keys and keeps the rest as extra', () => {
+    const parsed = parseFrontmatter(
+      lines(
+        '\uFEFF---',
+        'name: planner',
+        'description: Plans the work',
+        'argument-hint: [task]',
+        'tools: *',
+        'knowledge: l-units, equity-neutrality',
+        'color: blue',
+        '---',
+        '',
+        '# Planner'
+      )
+    );
+
+    assert.ok(parsed);
+    assert.equal(parsed.frontmatter.argumentHint, '[task]');
+    assert.deepEqual(parsed.frontmatter.allowedTools, [parseToolSpec('*')]);
+    assert.deepEqual(parsed.frontmatter.knowledge, [
+      'l-units',
+      'equity-neutrality',
+    ]);
+    assert.deepEqual(parsed.frontmatter.extra, { color: 'blue' });
+    assert.equal(parsed.body, '\n# Planner');
+    assert.equal(parsed.bodyLine, 9);
+  });
+
+  it('lists the agents delegated to through Task', () => {
+    const parsed = parseFrontmatter(
+      lines(
+        '---',
+        'allowed-tools: Task(subagent_type:planner), Task(subagent_type:*), Task(subagent_type:planner)',
+        '---'
+      )
+    );
+
+    assert.deepEqual(getSubagentReferences(parsed!.frontmatter), ['planner']);
+  });
+
+  it('reports malformed frontmatter with the file and line', () => {
+    const fails = (content: string, message: RegExp) =>
+      assert.throws(
+        () => parseFrontmatter(content, 'plan.md'),
+        (error: unknown) =>
+          error instanceof FrontmatterError && message.test(error.message)
+      );
+
+    fails(
+      lines('---', 'name: plan'),
+      /^plan\.md:1: frontmatter block is not closed/
+    );
+    fails(
+      lines('---', 'name: plan', 'color: [blue', '---'),
+      /^plan\.md:\d+: invalid YAML/
+    );
+    fails(lines('---', '- plan', '---'), /^plan\.md:2: .* YAML mapping$/);
+    fails(
+      lines('---', 'description:', '  - a list', '---'),
+      /"description" must be a string, got a list/
+    );
+  });
+});
@@ -0,0 +1,232 @@
+import { parseDocument } from 'yaml';
+
+export interface ToolSpec {
+  raw: string; // Entry as written, e.g. 'Bash(git show:*)'
+  tool: string; // 'Bash', 'Task', 'mcp__spec-workflow__*', or '*'
+  specifier: string | null; // Text inside the parentheses, if any
+  subagentType: string | null; // X in Task(subagent_type:X)
+}
+
+export interface Frontmatter {
+  name?: string;
+  description?: string;
+  argumentHint?: string;
+  // Parsed from "allowed-tools" (commands) or "tools" (agents)
+  allowedTools?: ToolSpec[];
+  model?: string;
+  // Protocol-knowledge docs an agent relies on, e.g. [l-units, equity-neutrality]
+  knowledge?: string[];
+  // Every other key, with its YAML value
+  extra: Record<string, unknown>;
+}
+
+export interface ParsedMarkdown {
+  frontmatter: Frontmatter;
+  body: string;
+  // 1-based line of the first body line
+  bodyLine: number;
+}
+
+export class FrontmatterError extends Error {
+  constructor(
+    message: string,
+    readonly filePath?: string,
+    readonly line?: number
+  ) {
+    super(
+      `${filePath ? `${filePath}${line ? `:${line}` : ''}: ` : ''}${message}`
+    );
+    this.name = 'FrontmatterError';
+  }
+}
+
+// Opening and closing delimiters must be on their own lines; the block itself may be empty
+const FRONTMATTER_PATTERN = /^---\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+// Keys Claude Code reads as plain strings even when they start with a YAML indicator
+// (e.g. "tools: *" or "argument-hint: [file]")
+const RAW_STRING_KEYS = [
+  'name',
+  'description',
+  'argument-hint',
+  'allowed-tools',
+  'tools',
+  'model',
+];
+// Block scalars (| and >) are left alone so multi-line descriptions still work
+const YAML_INDICATOR_START = /^[*&![{@`%]/;
+
+const KNOWN_KEYS = new Set([...RAW_STRING_KEYS, 'knowledge']);
+
+function quoteRawStrings(yaml: string): string {
+  return yaml
+    .split(/\r?\n/)
+    .map((line) => {
+      const match = line.match(/^([A-Za-z-]+):[ \t]+(.+?)[ \t]*$/);
+      if (
+        !match ||
+        !RAW_STRING_KEYS.includes(match[1]) ||
+        !YAML_INDICATOR_START.test(match[2])
+      ) {
+        return line;
+      }
+      return `${match[1]}: '${match[2].replace(/'/g, "''")}'`;
+    })
+    .join('\n');
+}
+
+// Split on commas that are not inside parentheses
+function splitToolList(value: string): string[] {
+  const entries: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth = Math.max(0, depth - 1);
+    if (char === ',' && depth === 0) {
+      entries.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  entries.push(current);
+  return entries.map((entry) => entry.trim()).filter((entry) => entry !== '');
+}
+
+export function parseToolSpec(raw: string): ToolSpec {
+  const match = raw.match(/^([^()]+?)\s*(?:\((.*)\))?$/);
+  const tool = match ? match[1].trim() : raw;
+  const specifier = match && match[2] !== undefined ? match[2].trim() : null;
+  const subagent =
+    tool === 'Task' && specifier !== null
+      ? specifier.match(/^subagent_type\s*:\s*(.*)$/)
+      : null;
+
+  return {
+    raw,
+    tool,
+    specifier,
+    subagentType: subagent ? subagent[1].trim() : null,
+  };
+}
+
+/**
+ * Parse a tool list written either as a comma-separated string
+ * ("Read(*), Task(subagent_type:planner)") or as a YAML sequence.
+ */
+export function parseToolList(value: unknown): ToolSpec[] {
+  const entries = Array.isArray(value)
+    ? value.map((item) => String(item).trim()).filter((item) => item !== '')
+    : splitToolList(String(value ?? ''));
+  return entries.map(parseToolSpec);
+}
+
+// Agents delegated to via Task(subagent_type:X), wildcards and empty references excluded
+export function getSubagentReferences(frontmatter: Frontmatter): string[] {
+  const names = (frontmatter.allowedTools ?? [])
+    .map((spec) => spec.subagentType)
+    .filter((name): name is string => !!name && !name.includes('*'));
+  return Array.from(new Set(names));
+}
+
+function readString(
+  data: Record<string, unknown>,
+  key: string,
+  filePath?: string
+): string | undefined {
+  const value = data[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    throw new FrontmatterError(
+      `"${key}" must be a string, got ${Array.isArray(value) ? 'a list' : typeof value}`,
+      filePath
+    );
+  }
+  return String(value).trim();
+}
+
+// Accepts a YAML sequence or a comma-separated string
+function readNameList(
+  data: Record<string, unknown>,
+  key: string,
+  filePath?: string
+): string[] | undefined {
+  const value = data[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const items = Array.isArray(value) ? value : String(value).split(',');
+  if (items.some((item) => typeof item !== 'string')) {
+    throw new FrontmatterError(`"${key}" must be a list of names`, filePath);
+  }
+  return items.map((item: string) => item.trim()).filter((item) => item !== '');
+}
+
+/**
+ * Parse the YAML frontmatter of an agent or command Markdown file.
+ * Returns null when the file has no frontmatter block; throws a
+ * FrontmatterError (with file and line) when the YAML is malformed.
+ */
+export function parseFrontmatter(
+  content: string,
+  filePath?: string
+): ParsedMarkdown | null {
+  const text = content.replace(/^\uFEFF/, '');
+  const match = text.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    if (/^---\r?\n/.test(text)) {
+      throw new FrontmatterError(
+        'frontmatter block is not closed with "---"',
+        filePath,
+        1
+      );
+    }
+    return null;
+  }
+
+  const document = parseDocument(quoteRawStrings(match[1] ?? ''));
+  if (document.errors.length > 0) {
+    const [error] = document.errors;
+    // +1 for the opening "---" line
+    const line = error.linePos ? error.linePos[0].line + 1 : undefined;
+    throw new FrontmatterError(
+      `invalid YAML: ${error.message
+        .split('\n')[0]
+        .replace(/ at line \d+, column \d+:?$/, '')}`,
+      filePath,
+      line
+    );
+  }
+
+  const data: unknown = document.toJS() ?? {};
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new FrontmatterError(
+      'frontmatter must be a YAML mapping',
+      filePath,
+      2
+    );
+  }
+
+  const record = data as Record<string, unknown>;
+  const tools = record['allowed-tools'] ?? record.tools;
+  const frontmatter: Frontmatter = {
+    name: readString(record, 'name', filePath),
+    description: readString(record, 'description', filePath),
+    argumentHint: readString(record, 'argument-hint', filePath),
+    allowedTools: tools === undefined ? undefined : parseToolList(tools),
+    model: readString(record, 'model', filePath),
+    knowledge: readNameList(record, 'knowledge', filePath),
+    extra: Object.fromEntries(
+      Object.entries(record).filter(([key]) => !KNOWN_KEYS.has(key))
+    ),
+  };
+
+  return {
+    frontmatter,
+    body: text.slice(match[0].length),
+    bodyLine: match[0].split('\n').length,
+  };
+}
@@ -0,0 +1,230 @@
+#!/usr/bin/env node
+
+import { readdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { execSync } from 'child_process';
+
+// Claude Code hook events a definition may attach to
+export const HOOK_EVENTS = [
+  'PreToolUse',
+  'PostToolUse',
+  'Notification',
+  'UserPromptSubmit',
+  'Stop',
+  'SubagentStop',
+  'PreCompact',
+  'SessionStart',
+  'SessionEnd',
+] as const;
+
+interface HookCommandInfo {
+  type: 'command';
+  command: string;
+  timeout?: number;
+}
+
+interface HookInfo {
+  name: string;
+  description: string;
+  event: string;
+  matcher?: string;
+  hooks: HookCommandInfo[];
+  filePath: string;
+}
+
+export interface GenerateHooksIndexOptions {
+  srcPath: string; // Directory containing one <name>.json per hook
+  outputPath: string;
+  regenerateCommand: string; // The nx command to regenerate
+}
+
+// Doc comment of the generated index.ts
+const PACKAGE_DOC = `/**
+ * @solo-labs/hooks
+ *
+ * Optional Claude Code hooks shipped with the toolkit. Each definition is one
+ * entry of the settings.json "hooks" section; "init --hooks=<names>" merges
+ * the selected ones into the target settings.json.
+ */`;
+
+const DEFINITION_KEYS = ['description', 'event', 'matcher', 'hooks'];
+
+function parseHookCommand(
+  value: unknown,
+  index: number,
+  filePath: string,
+): HookCommandInfo {
+  const where = `${filePath}: hooks[${index}]`;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${where} must be an object`);
+  }
+  const { type, command, timeout, ...rest } = value as Record<string, unknown>;
+  if (type !== 'command') {
+    throw new Error(`${where}: "type" must be "command"`);
+  }
+  if (typeof command !== 'string' || command.trim() === '') {
+    throw new Error(`${where}: missing "command"`);
+  }
+  if (
+    timeout !== undefined &&
+    (typeof timeout !== 'number' || !Number.isInteger(timeout) || timeout <= 0)
+  ) {
+    throw new Error(`${where}: "timeout" must be a positive number of seconds`);
+  }
+  const unknown = Object.keys(rest);
+  if (unknown.length > 0) {
+    throw new Error(`${where}: unknown key "${unknown[0]}"`);
+  }
+  return timeout === undefined
+    ? { type, command }
+    : { type, command, timeout: timeout as number };
+}
+
+async function parseHookDefinition(
+  filePath: string,
+  file: string,
+): Promise<HookInfo> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`${filePath}: ${error}`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${filePath}: expected a JSON object`);
+  }
+
+  const definition = raw as Record<string, unknown>;
+  const unknown = Object.keys(definition).filter(
+    (key) => !DEFINITION_KEYS.includes(key),
+  );
+  if (unknown.length > 0) {
+    throw new Error(`${filePath}: unknown key "${unknown[0]}"`);
+  }
+  if (typeof definition.description !== 'string' || !definition.description) {
+    throw new Error(`${filePath}: missing "description"`);
+  }
+  if (!HOOK_EVENTS.includes(definition.event as (typeof HOOK_EVENTS)[number])) {
+    throw new Error(
+      `${filePath}: "event" must be one of ${HOOK_EVENTS.join(', ')}`,
+    );
+  }
+  if (
+    definition.matcher !== undefined &&
+    typeof definition.matcher !== 'string'
+  ) {
+    throw new Error(`${filePath}: "matcher" must be a string`);
+  }
+  if (!Array.isArray(definition.hooks) || definition.hooks.length === 0) {
+    throw new Error(`${filePath}: "hooks" must list at least one command`);
+  }
+
+  return {
+    name: file.replace(/\.json$/, ''),
+    description: definition.description,
+    event: definition.event as string,
+    ...(definition.matcher !== undefined
+      ? { matcher: definition.matcher as string }
+      : {}),
+    hooks: definition.hooks.map((hook, index) =>
+      parseHookCommand(hook, index, filePath),
+    ),
+    filePath: `./${file}`,
+  };
+}
+
+export async function generateHooksIndex(
+  options: GenerateHooksIndexOptions,
+): Promise<void> {
+  const { srcPath, outputPath, regenerateCommand } = options;
+
+  const files = (await readdir(srcPath))
+    .filter((file) => file.endsWith('.json'))
+    .sort();
+  const definitions: HookInfo[] = [];
+  for (const file of files) {
+    definitions.push(await parseHookDefinition(join(srcPath, file), file));
+  }
+
+  const hooksObject = JSON.stringify(
+    Object.fromEntries(
+      definitions.map(({ name, ...definition }) => [name, definition]),
+    ),
+    null,
+    2,
+  );
+
+  const indexContent = `// Auto-generated file - DO NOT EDIT
+// Generated by @solo-labs/utils generate-hooks-index
+// To regenerate, run: ${regenerateCommand}
+
+${PACKAGE_DOC}
+
+export type HookEvent = ${HOOK_EVENTS.map((event) => JSON.stringify(event)).join(' | ')};
+
+export interface HookCommand {
+  type: 'command';
+  command: string;
+  // Seconds before Claude Code cancels the command
+  timeout?: number;
+}
+
+export interface HookDefinition {
+  description: string;
+  event: HookEvent;
+  // Tool name pattern for PreToolUse/PostToolUse, e.g. "Edit|Write"
+  matcher?: string;
+  hooks: readonly HookCommand[];
+  filePath: string;
+}
+
+export type HookName = ${definitions.map((definition) => JSON.stringify(definition.name)).join(' | ') || 'never'};
+
+/**
+ * Every hook definition, keyed by name
+ */
+export const hooks: Record<HookName, HookDefinition> = ${hooksObject};
+
+export default hooks;
+`;
+
+  // Write the generated index.ts
+  await writeFile(outputPath, indexContent, 'utf-8');
+
+  // Format the generated file using Prettier
+  try {
+    execSync(`npx prettier --write "${outputPath}"`, {
+      stdio: 'pipe',
+    });
+  } catch (error) {
+    console.warn('Warning: Failed to format generated file:', error);
+  }
+
+  console.log(`Generated index.ts with ${definitions.length} hooks`);
+  definitions.forEach((definition) => {
+    console.log(`  - ${definition.name} (${definition.event})`);
+  });
+}
+
+// CLI support
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const [
+    srcPath,
+    outputPath,
+    regenerateCommand = 'npx nx run <project>:generate-index',
+  ] = process.argv.slice(2);
+
+  if (!srcPath || !outputPath) {
+    console.error(
+      'Usage: generate-hooks-index <srcPath> <outputPath> [regenerateCommand]',
+    );
+    process.exit(1);
+  }
+
+  generateHooksIndex({ srcPath, outputPath, regenerateCommand }).catch(
+    (error) => {
+      console.error('Failed to generate hooks index:', error);
+      process.exit(1);
+    },
+  );
+}
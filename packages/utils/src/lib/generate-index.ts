@@ -1,15 +1,32 @@
 #!/usr/bin/env node
 
 import { readdir, readFile, writeFile } from 'fs/promises';
-import { join } from 'path';
+import { basename, dirname, join } from 'path';
 import { execSync } from 'child_process';
+import {
+  FrontmatterError,
+  getSubagentReferences,
+  parseFrontmatter,
+  type ToolSpec,
+} from './frontmatter.js';
 
 interface ItemInfo {
   name: string;
   description: string;
   filePath: string;
+  argumentHint: string | null;
+  // null when the frontmatter does not restrict tools
+  allowedTools: ToolSpec[] | null;
+  model: string | null;
+  subagents: string[];
+  knowledge: string[];
+  package: string;
+  bytes: number;
+  extra: Record<string, unknown>;
 }
 
+type ParsedItem = Omit<ItemInfo, 'filePath' | 'package'>;
+
 export interface GenerateIndexOptions {
   srcPath: string;
   outputPath: string;
@@ -17,27 +34,49 @@ export interface GenerateIndexOptions {
   exportName: string; // 'agents' or 'commands'
   typeNamePlural?: string; // 'Agents' or 'Commands'
   regenerateCommand: string; // The nx command to regenerate
+  packageName?: string; // Content package, defaults to the directory containing srcPath
+}
+
+export const CATALOG_FILENAME = 'catalog.json';
+
+// Shape of each generated entry, shared by the agent and command templates
+const ENTRY_TYPES = `export interface ToolSpec {
+  raw: string;
+  tool: string;
+  specifier: string | null;
+  subagentType: string | null;
 }
 
+export interface ContentEntry {
+  description: string;
+  filePath: string;
+  argumentHint: string | null;
+  allowedTools: readonly ToolSpec[] | null;
+  model: string | null;
+  subagents: readonly string[];
+  knowledge: readonly string[];
+  package: string;
+  bytes: number;
+  extra: Readonly<Record<string, unknown>>;
+}`;
+
 async function parseMarkdownFile(
   filePath: string,
   useFilenameAsName = false
-): Promise<{ name: string; description: string } | null> {
+): Promise<ParsedItem | null> {
   try {
     const content = await readFile(filePath, 'utf-8');
 
-    // Look for YAML frontmatter
-    const yamlMatch = content.match(/^---\n([\s\S]*?)\n---/);
-    if (!yamlMatch) {
+    const parsed = parseFrontmatter(content, filePath);
+    if (!parsed) {
       console.warn(`No YAML frontmatter found in ${filePath}`);
       return null;
     }
 
-    const yamlContent = yamlMatch[1];
+    const { frontmatter } = parsed;
 
     // Extract description (always required)
-    const descriptionMatch = yamlContent.match(/^description:\s*(.+)$/m);
-    if (!descriptionMatch) {
+    if (!frontmatter.description) {
       console.warn(`Missing description in ${filePath}`);
       return null;
     }
@@ -50,21 +89,29 @@ async function parseMarkdownFile(
       name = filename.replace('.md', '');
     } else {
       // For agents, extract name from YAML
-      const nameMatch = yamlContent.match(/^name:\s*(.+)$/m);
-      if (!nameMatch) {
+      if (!frontmatter.name) {
         console.warn(`Missing name in ${filePath}`);
         return null;
       }
-      name = nameMatch[1].trim();
+      name = frontmatter.name;
     }
 
-    const description = descriptionMatch[1].trim();
-
-    // Remove quotes if present
-    const cleanDescription = description.replace(/^["']|["']$/g, '');
-
-    return { name, description: cleanDescription };
+    return {
+      name,
+      description: frontmatter.description,
+      argumentHint: frontmatter.argumentHint ?? null,
+      allowedTools: frontmatter.allowedTools ?? null,
+      model: frontmatter.model ?? null,
+      subagents: getSubagentReferences(frontmatter),
+      knowledge: frontmatter.knowledge ?? [],
+      bytes: Buffer.byteLength(content, 'utf-8'),
+      extra: frontmatter.extra,
+    };
   } catch (error) {
+    if (error instanceof FrontmatterError) {
+      console.warn(error.message);
+      return null;
+    }
     console.error(`Error parsing ${filePath}:`, error);
     return null;
   }
@@ -75,6 +122,7 @@ export async function generateIndex(
 ): Promise<void> {
   const { srcPath, outputPath, typeName, exportName, regenerateCommand } =
     options;
+  const packageName = options.packageName ?? basename(dirname(srcPath));
 
   // Read all files in src directory
   const files = await readdir(srcPath);
@@ -93,30 +141,38 @@ export async function generateIndex(
     const parsed = await parseMarkdownFile(filePath, useFilenameAsName);
 
     if (parsed) {
-      items.push({
-        name: parsed.name,
-        description: parsed.description,
-        filePath: `./${file}`,
-      });
+      items.push({ ...parsed, filePath: `./${file}`, package: packageName });
     }
   }
 
   // Sort items alphabetically by name
   items.sort((a, b) => a.name.localeCompare(b.name));
 
+  // Keyed by name; JSON literals keep descriptions and tool specs correctly escaped
+  const entries = Object.fromEntries(
+    items.map((item) => [
+      item.name,
+      {
+        description: item.description,
+        filePath: item.filePath,
+        argumentHint: item.argumentHint,
+        allowedTools: item.allowedTools,
+        model: item.model,
+        subagents: item.subagents,
+        knowledge: item.knowledge,
+        package: item.package,
+        bytes: item.bytes,
+        extra: item.extra,
+      },
+    ])
+  );
+
   // Generate TypeScript content
-  const typeUnion = items.map((item) => `  | '${item.name}'`).join('\n');
-
-  const itemsObject = items
-    .map((item) => {
-      const key = item.name.includes('-') ? `'${item.name}'` : item.name;
-      return `  ${key}: {
-    description:
-      '${item.description}',
-    filePath: '${item.filePath}',
-  }`;
-    })
-    .join(',\n');
+  const typeUnion = items
+    .map((item) => `  | ${JSON.stringify(item.name)}`)
+    .join('\n');
+
+  const itemsObject = JSON.stringify(entries, null, 2);
 
   const indexContent =
     typeName === 'Agent'
@@ -124,44 +180,45 @@ export async function generateIndex(
 // Generated by @solo-labs/utils generate-index
 // To regenerate, run: ${regenerateCommand}
 
+${ENTRY_TYPES}
+
 // Agent types
 type Agent =
 ${typeUnion};
 
 type Agents = {
-  [key in Agent]: {
-    description: string;
-    filePath: string;
-  };
+  [key in Agent]: ContentEntry;
 };
 
-// Export agents with descriptions and file paths
-export const agents: Agents = {
-${itemsObject},
-} as const;
+// Export agents with their frontmatter, file paths and sizes
+export const agents: Agents = ${itemsObject} as const;
 
 export type AgentName = keyof typeof agents;`
       : `// Auto-generated file - DO NOT EDIT
 // Generated by @solo-labs/utils generate-index
 // To regenerate, run: ${regenerateCommand}
 
+${ENTRY_TYPES}
+
 type CommandName =
 ${typeUnion};
 
 export type Commands = {
-  [key in CommandName]: {
-    description: string;
-    filePath: string;
-  };
+  [key in CommandName]: ContentEntry;
 };
 
-export const commands: Commands = {
-${itemsObject},
-} as const;`;
+export const commands: Commands = ${itemsObject} as const;`;
 
   // Write the generated index.ts
   await writeFile(outputPath, indexContent, 'utf-8');
 
+  // Same data as JSON for consumers that do not load TypeScript
+  await writeFile(
+    join(dirname(outputPath), CATALOG_FILENAME),
+    `${JSON.stringify({ [exportName]: entries }, null, 2)}\n`,
+    'utf-8'
+  );
+
   // Format the generated file using Prettier
   try {
     execSync(`npx prettier --write "${outputPath}"`, {
@@ -171,7 +228,9 @@ ${itemsObject},
     console.warn('Warning: Failed to format generated file:', error);
   }
 
-  console.log(`Generated index.ts with ${items.length} ${exportName}`);
+  console.log(
+    `Generated index.ts and ${CATALOG_FILENAME} with ${items.length} ${exportName}`
+  );
   items.forEach((item) => {
     console.log(`  - ${item.name}`);
   });
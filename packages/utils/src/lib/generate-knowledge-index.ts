@@ -0,0 +1,262 @@
+#!/usr/bin/env node
+
+import { readdir, readFile, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { execSync } from 'child_process';
+import { parseFrontmatter } from './frontmatter.js';
+
+interface KnowledgeDocInfo {
+  name: string;
+  category: string;
+  title: string;
+  summary: string;
+  tags: string[];
+  related: string[];
+  filePath: string;
+}
+
+export interface GenerateKnowledgeIndexOptions {
+  srcPath: string; // Directory containing one folder per category
+  outputPath: string;
+  regenerateCommand: string; // The nx command to regenerate
+}
+
+// Doc comment of the generated index.ts
+const PACKAGE_DOC = `/**
+ * @solo-labs/protocol-knowledge
+ *
+ * Embedded domain knowledge for AEGIS protocol agents.
+ * This package provides structured documentation about AEGIS concepts,
+ * patterns, and common gotchas for use by AI agents.
+ *
+ * Knowledge Categories:
+ * - concepts/ - Core protocol concepts (L-units, sqrt(K), PIPS, etc.)
+ * - patterns/ - Implementation patterns (vault ops, keeper flows, etc.)
+ * - gotchas/ - Common mistakes and how to avoid them
+ */`;
+
+function readStringList(
+  value: unknown,
+  key: string,
+  filePath: string
+): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new Error(`${filePath}: "${key}" must be a list of strings`);
+  }
+  return value.map((item: string) => item.trim());
+}
+
+async function parseKnowledgeDoc(
+  filePath: string,
+  category: string,
+  file: string
+): Promise<KnowledgeDocInfo> {
+  const content = await readFile(filePath, 'utf-8');
+  const parsed = parseFrontmatter(content, filePath);
+  if (!parsed) {
+    throw new Error(`${filePath}: missing YAML frontmatter`);
+  }
+
+  const { extra } = parsed.frontmatter;
+  for (const key of ['title', 'summary']) {
+    if (typeof extra[key] !== 'string' || extra[key] === '') {
+      throw new Error(`${filePath}: missing "${key}"`);
+    }
+  }
+
+  return {
+    name: file.replace(/\.md$/, ''),
+    category,
+    title: extra.title as string,
+    summary: extra.summary as string,
+    tags: readStringList(extra.tags, 'tags', filePath),
+    related: readStringList(extra.related, 'related', filePath),
+    filePath: `./${category}/${file}`,
+  };
+}
+
+// "concepts" -> "ConceptName"
+function toTypeName(category: string): string {
+  const singular = category.replace(/s$/, '');
+  return `${singular[0].toUpperCase()}${singular.slice(1)}Name`;
+}
+
+export async function generateKnowledgeIndex(
+  options: GenerateKnowledgeIndexOptions
+): Promise<void> {
+  const { srcPath, outputPath, regenerateCommand } = options;
+
+  const categories: string[] = [];
+  for (const entry of (await readdir(srcPath)).sort()) {
+    if ((await stat(join(srcPath, entry))).isDirectory()) {
+      categories.push(entry);
+    }
+  }
+
+  const docs: KnowledgeDocInfo[] = [];
+  for (const category of categories) {
+    const files = (await readdir(join(srcPath, category)))
+      .filter((file) => file.endsWith('.md'))
+      .sort();
+    for (const file of files) {
+      docs.push(
+        await parseKnowledgeDoc(join(srcPath, category, file), category, file)
+      );
+    }
+  }
+
+  // Docs are referenced by bare name, so names must be unique across categories
+  const byName = new Map<string, KnowledgeDocInfo>();
+  const problems: string[] = [];
+  for (const doc of docs) {
+    const existing = byName.get(doc.name);
+    if (existing) {
+      problems.push(
+        `${doc.filePath}: name "${doc.name}" is also used by ${existing.filePath}`
+      );
+    }
+    byName.set(doc.name, doc);
+  }
+  for (const doc of docs) {
+    for (const related of doc.related) {
+      if (!byName.has(related)) {
+        problems.push(
+          `${doc.filePath}: related doc "${related}" does not exist`
+        );
+      }
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid knowledge docs:\n  ${problems.join('\n  ')}`);
+  }
+
+  const categoryMaps = categories
+    .map((category) => {
+      const paths = Object.fromEntries(
+        docs
+          .filter((doc) => doc.category === category)
+          .map((doc) => [doc.name, doc.filePath])
+      );
+      return `export const ${category} = ${JSON.stringify(paths, null, 2)} as const;`;
+    })
+    .join('\n\n');
+
+  const nameTypes = categories
+    .map(
+      (category) =>
+        `export type ${toTypeName(category)} = keyof typeof ${category};`
+    )
+    .join('\n');
+
+  const docsObject = JSON.stringify(
+    Object.fromEntries(
+      docs.map((doc) => [
+        doc.name,
+        {
+          title: doc.title,
+          summary: doc.summary,
+          category: doc.category,
+          tags: doc.tags,
+          related: doc.related,
+          filePath: doc.filePath,
+        },
+      ])
+    ),
+    null,
+    2
+  );
+
+  const indexContent = `// Auto-generated file - DO NOT EDIT
+// Generated by @solo-labs/utils generate-knowledge-index
+// To regenerate, run: ${regenerateCommand}
+
+${PACKAGE_DOC}
+
+${categoryMaps}
+
+${nameTypes}
+
+export type KnowledgeCategory = ${categories.map((category) => JSON.stringify(category)).join(' | ')};
+
+export type KnowledgeDocName = ${categories.map(toTypeName).join(' | ')};
+
+export interface KnowledgeDoc {
+  title: string;
+  summary: string;
+  category: KnowledgeCategory;
+  tags: readonly string[];
+  related: readonly KnowledgeDocName[];
+  filePath: string;
+}
+
+/**
+ * Frontmatter of every knowledge document, keyed by name
+ */
+export const docs: Record<KnowledgeDocName, KnowledgeDoc> = ${docsObject};
+
+/**
+ * All knowledge documents indexed by category
+ */
+export const knowledge = {
+${categories.map((category) => `  ${category},`).join('\n')}
+} as const;
+
+export default knowledge;
+
+// Section-level full-text search; the index is written by scripts/generate-search-index.ts
+export { searchKnowledge, searchIndex } from './search-index.js';
+export { buildSearchIndex, searchSections, tokenize } from './search.js';
+export type {
+  SearchHit,
+  SearchIndex,
+  SearchOptions,
+  SearchSection,
+  SectionInput,
+} from './search.js';
+`;
+
+  // Write the generated index.ts
+  await writeFile(outputPath, indexContent, 'utf-8');
+
+  // Format the generated file using Prettier
+  try {
+    execSync(`npx prettier --write "${outputPath}"`, {
+      stdio: 'pipe',
+    });
+  } catch (error) {
+    console.warn('Warning: Failed to format generated file:', error);
+  }
+
+  console.log(
+    `Generated index.ts with ${docs.length} knowledge docs in ${categories.length} categories`
+  );
+  docs.forEach((doc) => {
+    console.log(`  - ${doc.category}/${doc.name}`);
+  });
+}
+
+// CLI support
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const [
+    srcPath,
+    outputPath,
+    regenerateCommand = 'npx nx run <project>:generate-index',
+  ] = process.argv.slice(2);
+
+  if (!srcPath || !outputPath) {
+    console.error(
+      'Usage: generate-knowledge-index <srcPath> <outputPath> [regenerateCommand]'
+    );
+    process.exit(1);
+  }
+
+  generateKnowledgeIndex({ srcPath, outputPath, regenerateCommand }).catch(
+    (error) => {
+      console.error('Failed to generate knowledge index:', error);
+      process.exit(1);
+    }
+  );
+}
@@ -0,0 +1,327 @@
+#!/usr/bin/env node
+
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { dirname, join, relative } from 'path';
+import { execSync } from 'child_process';
+import { parseFrontmatter } from './frontmatter.js';
+import { extractSection } from './includes.js';
+
+export interface GenerateSkillsOptions {
+  knowledgePath: string; // protocol-knowledge src/ with one folder per category
+  agentsPath: string; // packages/agents, searched as <package>/src/<name>.md
+  agents: string[]; // Agents to turn into skills
+  knowledgeSkill: { name: string; description: string };
+  outputPath: string; // Directory that gets one folder per skill and index.ts
+  regenerateCommand: string; // The nx command to regenerate
+}
+
+interface KnowledgeDocInfo {
+  name: string;
+  category: string;
+  title: string;
+  summary: string;
+}
+
+interface SkillInfo {
+  name: string;
+  description: string;
+  // Where the skill comes from, relative to packages/
+  source: string;
+  // Supporting files next to SKILL.md
+  files: string[];
+  // Other skills SKILL.md links to
+  requires: string[];
+}
+
+// Skill names: lowercase letters, digits and hyphens, at most 64 characters
+const SKILL_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+// Doc comment of the generated index.ts
+const PACKAGE_DOC = `/**
+ * @solo-labs/skills
+ *
+ * Claude Agent Skills generated from the protocol-knowledge docs and the most
+ * knowledge-heavy agents. Each skill is a folder with a SKILL.md; Claude Code
+ * loads it only when a task matches its description. "init --skills" installs
+ * them into skills/.
+ */`;
+
+const generatedNotice = (source: string, regenerateCommand: string) =>
+  `<!-- Generated from ${source} - DO NOT EDIT. To regenerate, run: ${regenerateCommand} -->`;
+
+function skillFile(
+  name: string,
+  description: string,
+  body: string,
+  allowedTools?: string,
+): string {
+  const frontmatter = [
+    `name: ${name}`,
+    `description: ${JSON.stringify(description)}`,
+    ...(allowedTools ? [`allowed-tools: ${allowedTools}`] : []),
+  ];
+  return `---\n${frontmatter.join('\n')}\n---\n\n${body.trim()}\n`;
+}
+
+async function readKnowledgeDocs(
+  knowledgePath: string,
+): Promise<KnowledgeDocInfo[]> {
+  const docs: KnowledgeDocInfo[] = [];
+  for (const category of (await readdir(knowledgePath)).sort()) {
+    if (!(await stat(join(knowledgePath, category))).isDirectory()) {
+      continue;
+    }
+    const files = (await readdir(join(knowledgePath, category)))
+      .filter((file) => file.endsWith('.md'))
+      .sort();
+    for (const file of files) {
+      const filePath = join(knowledgePath, category, file);
+      const parsed = parseFrontmatter(
+        await readFile(filePath, 'utf-8'),
+        filePath,
+      );
+      const name = file.replace(/\.md$/, '');
+      docs.push({
+        name,
+        category,
+        title: String(parsed?.frontmatter.extra.title ?? name),
+        summary: String(parsed?.frontmatter.extra.summary ?? ''),
+      });
+    }
+  }
+  return docs;
+}
+
+async function findAgentFile(
+  agentsPath: string,
+  name: string,
+): Promise<string> {
+  for (const contentPackage of (await readdir(agentsPath)).sort()) {
+    const filePath = join(agentsPath, contentPackage, 'src', `${name}.md`);
+    try {
+      if ((await stat(filePath)).isFile()) {
+        return filePath;
+      }
+    } catch {
+      // Not in this package
+    }
+  }
+  throw new Error(`Agent "${name}" not found under ${agentsPath}`);
+}
+
+/**
+ * Put the skill's Protocol Knowledge section where the agent has its own, which
+ * points at the docs installed under .claude/knowledge and not at the skill.
+ */
+function withKnowledgeSection(body: string, section: string): string {
+  const own = extractSection(body, 'protocol-knowledge');
+  if (own === null) {
+    return [body.trim(), section].filter(Boolean).join('\n\n');
+  }
+  const [before, after] = body.split(`## Protocol Knowledge\n${own}`);
+  return [before.trim(), section, after.trim()].filter(Boolean).join('\n\n');
+}
+
+// "- [Title](path): summary" lines, grouped under a heading per category
+function listDocs(docs: KnowledgeDocInfo[], pathPrefix: string): string {
+  const categories = Array.from(new Set(docs.map((doc) => doc.category)));
+  return categories
+    .map((category) => {
+      const lines = docs
+        .filter((doc) => doc.category === category)
+        .map(
+          (doc) =>
+            `- [${doc.title}](${pathPrefix}${doc.category}/${doc.name}.md)${doc.summary ? `: ${doc.summary}` : ''}`,
+        );
+      const heading = category.charAt(0).toUpperCase() + category.slice(1);
+      return `## ${heading}\n\n${lines.join('\n')}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Write one skill per protocol-knowledge doc set and per listed agent:
+ *
+ * - <knowledge skill>/SKILL.md indexes the docs, which sit next to it as
+ *   include directives, so installing expands them from protocol-knowledge
+ * - <agent>/SKILL.md is the agent's prompt with its declared knowledge docs
+ *   linked from the knowledge skill
+ *
+ * Skill folders that are no longer generated are removed, then index.ts is
+ * rewritten.
+ */
+export async function generateSkills(
+  options: GenerateSkillsOptions,
+): Promise<void> {
+  const {
+    knowledgePath,
+    agentsPath,
+    agents,
+    knowledgeSkill,
+    outputPath,
+    regenerateCommand,
+  } = options;
+  const packagesPath = join(outputPath, '..', '..');
+
+  for (const name of [knowledgeSkill.name, ...agents]) {
+    if (!SKILL_NAME_PATTERN.test(name)) {
+      throw new Error(
+        `"${name}" is not a valid skill name (lowercase letters, digits and hyphens, at most 64 characters)`,
+      );
+    }
+  }
+
+  // Start from an empty tree so renamed or dropped skills leave nothing behind
+  for (const entry of await readdir(outputPath)) {
+    if ((await stat(join(outputPath, entry))).isDirectory()) {
+      await rm(join(outputPath, entry), { recursive: true });
+    }
+  }
+
+  const write = async (filePath: string, content: string) => {
+    await mkdir(dirname(join(outputPath, filePath)), { recursive: true });
+    await writeFile(join(outputPath, filePath), content, 'utf-8');
+  };
+
+  const docs = await readKnowledgeDocs(knowledgePath);
+  const docsByName = new Map(docs.map((doc) => [doc.name, doc]));
+  const skills: SkillInfo[] = [];
+
+  // The knowledge skill: an index in SKILL.md, the docs as supporting files
+  const knowledgeSource = relative(packagesPath, knowledgePath);
+  const docFiles = docs.map((doc) => `${doc.category}/${doc.name}.md`);
+  await write(
+    join(knowledgeSkill.name, 'SKILL.md'),
+    skillFile(
+      knowledgeSkill.name,
+      knowledgeSkill.description,
+      `${generatedNotice(knowledgeSource, regenerateCommand)}
+
+# AEGIS Protocol Knowledge
+
+Reference docs for the AEGIS protocol. Read only the docs the task needs;
+they link to each other where concepts depend on one another.
+
+${listDocs(docs, '')}`,
+    ),
+  );
+  for (const file of docFiles) {
+    await write(
+      join(knowledgeSkill.name, file),
+      `<!-- include: protocol-knowledge/${file} -->\n`,
+    );
+  }
+  skills.push({
+    name: knowledgeSkill.name,
+    description: knowledgeSkill.description,
+    source: knowledgeSource,
+    files: docFiles,
+    requires: [],
+  });
+
+  // Agent skills: the agent's prompt, loaded on demand instead of as a subagent
+  for (const name of agents) {
+    const filePath = await findAgentFile(agentsPath, name);
+    const parsed = parseFrontmatter(
+      await readFile(filePath, 'utf-8'),
+      filePath,
+    );
+    const description = parsed?.frontmatter.description;
+    if (!parsed || !description) {
+      throw new Error(
+        `${filePath}: skills need a description in the frontmatter`,
+      );
+    }
+
+    const declared = parsed.frontmatter.knowledge ?? [];
+    const unknown = declared.filter((docName) => !docsByName.has(docName));
+    if (unknown.length > 0) {
+      throw new Error(
+        `${filePath}: unknown knowledge docs ${unknown.join(', ')}`,
+      );
+    }
+    const knowledgeSection =
+      declared.length > 0
+        ? `## Protocol Knowledge\n\nRead these docs from the ${knowledgeSkill.name} skill when the task needs them:\n\n${declared
+            .map((docName) => docsByName.get(docName)!)
+            .map(
+              (doc) =>
+                `- [${doc.title}](../${knowledgeSkill.name}/${doc.category}/${doc.name}.md)`,
+            )
+            .join('\n')}`
+        : '';
+
+    const source = relative(packagesPath, filePath);
+    await write(
+      join(name, 'SKILL.md'),
+      skillFile(
+        name,
+        description,
+        `${generatedNotice(source, regenerateCommand)}\n\n${withKnowledgeSection(parsed.body, knowledgeSection)}`,
+        parsed.frontmatter.allowedTools?.map((tool) => tool.raw).join(', '),
+      ),
+    );
+    skills.push({
+      name,
+      description,
+      source,
+      files: [],
+      requires: declared.length > 0 ? [knowledgeSkill.name] : [],
+    });
+  }
+
+  skills.sort((a, b) => a.name.localeCompare(b.name));
+  const skillsObject = JSON.stringify(
+    Object.fromEntries(
+      skills.map(({ name, ...skill }) => [
+        name,
+        { ...skill, filePath: `./${name}/SKILL.md` },
+      ]),
+    ),
+    null,
+    2,
+  );
+
+  const indexContent = `// Auto-generated file - DO NOT EDIT
+// Generated by @solo-labs/utils generate-skills
+// To regenerate, run: ${regenerateCommand}
+
+${PACKAGE_DOC}
+
+export interface SkillDefinition {
+  description: string;
+  // Source the skill is generated from, relative to packages/
+  source: string;
+  // Supporting files next to SKILL.md, relative to the skill folder
+  files: readonly string[];
+  // Skills whose files SKILL.md links to
+  requires: readonly SkillName[];
+  filePath: string;
+}
+
+export type SkillName = ${skills.map((skill) => JSON.stringify(skill.name)).join(' | ')};
+
+/**
+ * Every generated skill, keyed by name
+ */
+export const skills: Record<SkillName, SkillDefinition> = ${skillsObject};
+
+export default skills;
+`;
+
+  const indexPath = join(outputPath, 'index.ts');
+  await writeFile(indexPath, indexContent, 'utf-8');
+
+  // Format the generated file using Prettier
+  try {
+    execSync(`npx prettier --write "${indexPath}"`, {
+      stdio: 'pipe',
+    });
+  } catch (error) {
+    console.warn('Warning: Failed to format generated file:', error);
+  }
+
+  console.log(
+    `Generated ${skills.length} skills: ${skills.map((skill) => skill.name).join(', ')}`,
+  );
+}
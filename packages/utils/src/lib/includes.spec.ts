@@ -0,0 +1,213 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import {
+  IncludeError,
+  expandIncludes,
+  extractSection,
+  findIncludes,
+  slugifyHeading,
+  splitSections,
+} from './includes.js';
+
+const lines = (...items: string[]) => items.join('\n');
+
+describe('findIncludes', () => {
+  it('finds directives alone on their line, outside code fences', () => {
+    const content = lines(
+      '# Agent',
+      '<!-- include: protocol-knowledge/concepts/pips.md#definition -->',
+      'Text <!-- include: ./inline.md --> is not a directive',
+      '```md',
+      '<!-- include: ./fenced.md -->',
+      '```',
+      '  <!--include: ./shared/workflow.md-->'
+    );
+
+    assert.deepEqual(findIncludes(content), [
+      {
+        target: 'protocol-knowledge/concepts/pips.md#definition',
+        path: 'protocol-knowledge/concepts/pips.md',
+        anchor: 'definition',
+        line: 2,
+      },
+      {
+        target: './shared/workflow.md',
+        path: './shared/workflow.md',
+        anchor: null,
+        line: 7,
+      },
+    ]);
+  });
+});
+
+describe('sections', () => {
+  const doc = lines(
+    'Intro',
+    '# L-Units',
+    '## Share Price Formula',
+    'price = assets / supply',
+    '### Rounding',
+    'round down',
+    '```',
+    '# not a heading',
+    '```',
+    '## Related Concepts',
+    'PIPS'
+  );
+
+  it('slugifies headings like GitHub', () => {
+    assert.equal(
+      slugifyHeading(' Share Price (v2) Formula '),
+      'share-price-v2-formula'
+    );
+  });
+
+  it('extracts a section with its subsections, up to the next sibling', () => {
+    assert.equal(
+      extractSection(doc, 'share-price-formula'),
+      lines(
+        'price = assets / supply',
+        '### Rounding',
+        'round down',
+        '```',
+        '# not a heading',
+        '```'
+      )
+    );
+    assert.equal(extractSection(doc, 'related-concepts'), 'PIPS');
+    assert.equal(extractSection(doc, 'missing'), null);
+  });
+
+  it('splits a document at every heading, tracking parents', () => {
+    assert.deepEqual(
+      splitSections(doc).map((section) => [
+        section.anchor,
+        section.level,
+        section.parents,
+        section.line,
+      ]),
+      [
+        [null, 0, [], 1],
+        ['l-units', 1, [], 2],
+        ['share-price-formula', 2, ['L-Units'], 3],
+        ['rounding', 3, ['L-Units', 'Share Price Formula'], 5],
+        ['related-concepts', 2, ['L-Units'], 10],
+      ]
+    );
+  });
+});
+
+describe('expandIncludes', () => {
+  let rootDir: string;
+  let roots: Record<string, string>;
+
+  function writeFile(relativePath: string, text: string): string {
+    const filePath = path.join(rootDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, text);
+    return filePath;
+  }
+
+  function expand(relativePath: string): string {
+    const filePath = path.join(rootDir, relativePath);
+    return expandIncludes(fs.readFileSync(filePath, 'utf-8'), filePath, {
+      roots,
+    });
+  }
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'includes-'));
+    roots = { 'protocol-knowledge': path.join(rootDir, 'knowledge') };
+    writeFile(
+      'knowledge/concepts/pips.md',
+      lines(
+        '---',
+        'title: PIPS',
+        '---',
+        '# PIPS',
+        '## Definition',
+        '',
+        '1e6',
+        ''
+      )
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('inlines a section without the frontmatter or the heading', () => {
+    writeFile(
+      'agents/accountant.md',
+      lines(
+        '# Accountant',
+        '<!-- include: protocol-knowledge/concepts/pips.md#definition -->',
+        'End'
+      )
+    );
+
+    assert.equal(
+      expand('agents/accountant.md'),
+      lines('# Accountant', '1e6', 'End')
+    );
+  });
+
+  it('resolves ./ paths against the including file and expands recursively', () => {
+    writeFile(
+      'commands/shared/workflow.md',
+      lines('## Plan', '<!-- include: protocol-knowledge/concepts/pips.md -->')
+    );
+    writeFile(
+      'commands/plan.md',
+      lines('# Plan', '<!-- include: ./shared/workflow.md#plan -->')
+    );
+
+    assert.equal(
+      expand('commands/plan.md'),
+      lines('# Plan', '# PIPS', '## Definition', '', '1e6')
+    );
+  });
+
+  it('reports a cycle with the chain of includes', () => {
+    writeFile('commands/a.md', lines('<!-- include: ./b.md -->'));
+    writeFile('commands/b.md', lines('', '<!-- include: ./a.md -->'));
+
+    assert.throws(
+      () => expand('commands/a.md'),
+      (error: unknown) =>
+        error instanceof IncludeError &&
+        error.filePath === path.join(rootDir, 'commands', 'b.md') &&
+        error.line === 2 &&
+        /^include cycle: .*a\.md# -> .*b\.md# -> .*a\.md#$/.test(error.reason)
+    );
+  });
+
+  it('reports missing files, anchors and roots at the directive', () => {
+    writeFile(
+      'commands/missing.md',
+      lines('# Missing', '<!-- include: ./nowhere.md -->')
+    );
+    writeFile(
+      'commands/anchor.md',
+      lines('<!-- include: protocol-knowledge/concepts/pips.md#nope -->')
+    );
+    writeFile('commands/root.md', lines('<!-- include: other/pips.md -->'));
+
+    assert.throws(
+      () => expand('commands/missing.md'),
+      /missing\.md:2: included file "\.\/nowhere\.md" does not exist$/
+    );
+    assert.throws(
+      () => expand('commands/anchor.md'),
+      /no heading with anchor "#nope" in "protocol-knowledge\/concepts\/pips\.md"/
+    );
+    assert.throws(
+      () => expand('commands/root.md'),
+      /unknown include root "other" in "other\/pips\.md" \(expected protocol-knowledge or a \.\/ path\)/
+    );
+  });
+});
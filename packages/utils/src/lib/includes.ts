@@ -0,0 +1,261 @@
+import { readFileSync, existsSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { parseFrontmatter } from './frontmatter.js';
+
+export interface IncludeDirective {
+  target: string; // As written, e.g. 'protocol-knowledge/concepts/l-units.md#share-price-formula'
+  path: string;
+  anchor: string | null;
+  line: number; // 1-based line of the directive
+}
+
+export interface MarkdownSection {
+  heading: string | null; // Null for the text before the first heading
+  anchor: string | null;
+  level: number; // 1-6; 0 for the text before the first heading
+  parents: string[]; // Enclosing headings, outermost first
+  body: string; // Lines up to the next heading of any level
+  line: number; // 1-based line of the heading
+}
+
+export interface ExpandIncludesOptions {
+  // Directory each include prefix resolves to, e.g. { 'protocol-knowledge': '<dir>/src' }.
+  // Targets starting with ./ or ../ resolve against the including file instead.
+  roots: Record<string, string>;
+}
+
+export class IncludeError extends Error {
+  constructor(
+    readonly reason: string, // The message without the file and line prefix
+    readonly filePath?: string,
+    readonly line?: number
+  ) {
+    super(
+      `${filePath ? `${filePath}${line ? `:${line}` : ''}: ` : ''}${reason}`
+    );
+    this.name = 'IncludeError';
+  }
+}
+
+// The directive must be alone on its line: <!-- include: path/to/file.md#anchor -->
+const INCLUDE_PATTERN = /^[ \t]*<!--\s*include:\s*(\S+?)\s*-->[ \t]*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+// GitHub-style heading anchor: "Share Price Formula" -> "share-price-formula"
+export function slugifyHeading(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+// Include directives outside fenced code blocks
+export function findIncludes(content: string): IncludeDirective[] {
+  const directives: IncludeDirective[] = [];
+  let inFence = false;
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    const match = inFence ? null : line.match(INCLUDE_PATTERN);
+    if (match) {
+      const [path, anchor] = match[1].split('#');
+      directives.push({
+        target: match[1],
+        path,
+        anchor: anchor || null,
+        line: index + 1,
+      });
+    }
+  });
+  return directives;
+}
+
+function resolveIncludePath(
+  directive: IncludeDirective,
+  filePath: string,
+  options: ExpandIncludesOptions
+): string {
+  if (/^\.\.?\//.test(directive.path)) {
+    return resolve(dirname(filePath), directive.path);
+  }
+
+  const [root, ...rest] = directive.path.split('/');
+  const rootDir = options.roots[root];
+  if (!rootDir) {
+    const known = Object.keys(options.roots);
+    throw new IncludeError(
+      `unknown include root "${root}" in "${directive.target}"${
+        known.length > 0 ? ` (expected ${known.join(', ')} or a ./ path)` : ''
+      }`,
+      filePath,
+      directive.line
+    );
+  }
+  return resolve(rootDir, ...rest);
+}
+
+/**
+ * The lines under the heading whose anchor matches, up to the next heading of
+ * the same or a higher level. The heading itself is left out so the including
+ * file keeps control of its own outline.
+ */
+export function extractSection(content: string, anchor: string): string | null {
+  const lines = content.split(/\r?\n/);
+  let inFence = false;
+  let start = -1;
+  let level = 0;
+
+  for (let index = 0; index < lines.length; index++) {
+    if (FENCE_PATTERN.test(lines[index])) {
+      inFence = !inFence;
+      continue;
+    }
+    const heading = inFence ? null : lines[index].match(HEADING_PATTERN);
+    if (!heading) {
+      continue;
+    }
+    if (start >= 0 && heading[1].length <= level) {
+      return lines.slice(start, index).join('\n');
+    }
+    if (start < 0 && slugifyHeading(heading[2]) === anchor) {
+      start = index + 1;
+      level = heading[1].length;
+    }
+  }
+
+  return start >= 0 ? lines.slice(start).join('\n') : null;
+}
+
+/**
+ * Split a document at every heading outside fenced code blocks. Each section
+ * holds only the text up to the next heading, so nested sections do not repeat
+ * their children; empty leading text is dropped.
+ */
+export function splitSections(content: string): MarkdownSection[] {
+  const lines = content.split(/\r?\n/);
+  const sections: MarkdownSection[] = [];
+  const open: { level: number; heading: string }[] = [];
+  let current: MarkdownSection = {
+    heading: null,
+    anchor: null,
+    level: 0,
+    parents: [],
+    body: '',
+    line: 1,
+  };
+  let bodyStart = 0;
+  let inFence = false;
+
+  const close = (end: number) => {
+    current.body = trimBlankLines(lines.slice(bodyStart, end).join('\n'));
+    if (current.heading !== null || current.body !== '') {
+      sections.push(current);
+    }
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    if (FENCE_PATTERN.test(lines[index])) {
+      inFence = !inFence;
+      continue;
+    }
+    const heading = inFence ? null : lines[index].match(HEADING_PATTERN);
+    if (!heading) {
+      continue;
+    }
+    close(index);
+
+    const level = heading[1].length;
+    while (open.length > 0 && open[open.length - 1].level >= level) {
+      open.pop();
+    }
+    current = {
+      heading: heading[2],
+      anchor: slugifyHeading(heading[2]),
+      level,
+      parents: open.map((item) => item.heading),
+      body: '',
+      line: index + 1,
+    };
+    open.push({ level, heading: heading[2] });
+    bodyStart = index + 1;
+  }
+  close(lines.length);
+
+  return sections;
+}
+
+function trimBlankLines(text: string): string {
+  return text.replace(/^(?:[ \t]*\r?\n)+/, '').replace(/(?:\r?\n[ \t]*)+$/, '');
+}
+
+function expandFile(
+  content: string,
+  filePath: string,
+  options: ExpandIncludesOptions,
+  stack: string[]
+): string {
+  const directives = findIncludes(content);
+  if (directives.length === 0) {
+    return content;
+  }
+
+  const lines = content.split(/\r?\n/);
+  for (const directive of directives) {
+    const includePath = resolveIncludePath(directive, filePath, options);
+    const key = `${includePath}#${directive.anchor ?? ''}`;
+    if (stack.includes(key)) {
+      throw new IncludeError(
+        `include cycle: ${[...stack, key]
+          .slice(stack.indexOf(key))
+          .join(' -> ')}`,
+        filePath,
+        directive.line
+      );
+    }
+    if (!existsSync(includePath)) {
+      throw new IncludeError(
+        `included file "${directive.path}" does not exist`,
+        filePath,
+        directive.line
+      );
+    }
+
+    const included = readFileSync(includePath, 'utf-8');
+    const parsed = parseFrontmatter(included, includePath);
+    let fragment = parsed ? parsed.body : included;
+    if (directive.anchor) {
+      const section = extractSection(fragment, directive.anchor);
+      if (section === null) {
+        throw new IncludeError(
+          `no heading with anchor "#${directive.anchor}" in "${directive.path}"`,
+          filePath,
+          directive.line
+        );
+      }
+      fragment = section;
+    }
+
+    lines[directive.line - 1] = trimBlankLines(
+      expandFile(fragment, includePath, options, [...stack, key])
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Replace every include directive with the file or section it names,
+ * recursively. Frontmatter of included files is dropped. Throws an
+ * IncludeError (with file and line) for missing files or anchors and cycles.
+ */
+export function expandIncludes(
+  content: string,
+  filePath: string,
+  options: ExpandIncludesOptions
+): string {
+  return expandFile(content, filePath, options, [`${resolve(filePath)}#`]);
+}
@@ -0,0 +1,176 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { formatDiagnostic, lintContent } from './lint-content.js';
+
+const lines = (...items: string[]) => `${items.join('\n')}\n`;
+
+describe('lintContent', () => {
+  let rootDir: string;
+
+  function writeFile(relativePath: string, text: string) {
+    const filePath = path.join(rootDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, text);
+  }
+
+  const writeAgent = (name: string, ...content: string[]) =>
+    writeFile(`packages/agents/agnostic/src/${name}.md`, lines(...content));
+  const writeCommand = (name: string, ...content: string[]) =>
+    writeFile(`packages/commands/agnostic/src/${name}.md`, lines(...content));
+
+  // Diagnostics as "file:line: severity: message [rule]", paths relative to the workspace
+  async function lint(): Promise<string[]> {
+    return (await lintContent({ rootDir })).map(formatDiagnostic);
+  }
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lint-content-'));
+    writeFile(
+      'packages/agents/protocol-knowledge/src/concepts/l-units.md',
+      lines('# L-Units', '', '## Debugging Checklist', '', '- Check rounding')
+    );
+    writeAgent(
+      'planner',
+      '---',
+      'name: planner',
+      'description: Plans the work',
+      'model: claude-sonnet-4-5-20250929',
+      '---',
+      '',
+      '# Planner'
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('accepts valid agents and commands', async () => {
+    writeAgent(
+      'l-unit-accountant',
+      '---',
+      'name: l-unit-accountant',
+      'description: Checks L-unit math',
+      'tools: Read, Bash(forge test:*), mcp__knowledge__search',
+      'knowledge: l-units',
+      '---',
+      '',
+      'Read `.claude/knowledge/aegis/concepts/l-units.md` first.',
+      '',
+      '<!-- include: protocol-knowledge/concepts/l-units.md#debugging-checklist -->',
+      '',
+      'See [the planner](./planner.md).'
+    );
+    writeCommand(
+      'plan',
+      '---',
+      'description: Plan a change',
+      'allowed-tools: Task(subagent_type:planner), Task(subagent_type:*)',
+      '---',
+      '',
+      '```md',
+      '[not checked](./missing.md)',
+      '```'
+    );
+
+    assert.deepEqual(await lint(), []);
+  });
+
+  it('reports frontmatter that is missing, malformed or incomplete', async () => {
+    writeCommand('bare', '# No frontmatter');
+    writeCommand(
+      'broken',
+      '---',
+      'description: Broken',
+      'color: [unclosed',
+      '---'
+    );
+    writeAgent('nameless', '---', 'description: No name', '---');
+
+    assert.deepEqual(await lint(), [
+      'packages/agents/agnostic/src/nameless.md:1: error: agent frontmatter is missing "name" [required-key]',
+      'packages/commands/agnostic/src/bare.md:1: error: missing YAML frontmatter block [frontmatter]',
+      'packages/commands/agnostic/src/broken.md:3: error: invalid YAML: Flow sequence in block collection must be sufficiently indented and end with a ] [frontmatter]',
+    ]);
+  });
+
+  it('checks agent names, models and tools', async () => {
+    writeAgent(
+      'reviewer',
+      '---',
+      'name: code-reviewer',
+      'description: Reviews',
+      'model: gpt-4',
+      'tools: Read, planner, Bash()',
+      '---'
+    );
+
+    assert.deepEqual(await lint(), [
+      'packages/agents/agnostic/src/reviewer.md:2: error: agent name "code-reviewer" does not match file name "reviewer.md" [agent-name]',
+      'packages/agents/agnostic/src/reviewer.md:4: error: unknown model "gpt-4" (expected opus, sonnet, haiku, inherit or a claude-* model ID) [model]',
+      'packages/agents/agnostic/src/reviewer.md:5: error: invalid tools entry "planner" (use Task(subagent_type:planner) to allow delegating to an agent) [allowed-tools]',
+      'packages/agents/agnostic/src/reviewer.md:5: error: empty specifier in "Bash()" [allowed-tools]',
+    ]);
+  });
+
+  it('checks that subagent types name agents', async () => {
+    writeCommand(
+      'explore',
+      '---',
+      'description: Explore',
+      'allowed-tools: Task(subagent_type:ghost), Task(subagent_type:explore), Task(subagent_type:)',
+      '---'
+    );
+
+    assert.deepEqual(await lint(), [
+      'packages/commands/agnostic/src/explore.md:3: error: subagent_type "ghost" is not a known agent [subagent-type]',
+      'packages/commands/agnostic/src/explore.md:3: error: subagent_type "explore" is a command, not an agent [subagent-type]',
+      'packages/commands/agnostic/src/explore.md:3: error: empty subagent_type in "Task(subagent_type:)" [subagent-type]',
+    ]);
+  });
+
+  it('checks declared knowledge docs exist and are referenced', async () => {
+    writeAgent(
+      'accountant',
+      '---',
+      'name: accountant',
+      'description: Accounts',
+      'knowledge: l-units, pips',
+      '---'
+    );
+    writeCommand(
+      'debug',
+      '---',
+      'description: Debug',
+      'knowledge: l-units',
+      '---'
+    );
+
+    assert.deepEqual(await lint(), [
+      'packages/agents/agnostic/src/accountant.md:4: warning: "l-units" is never referenced; point at .claude/knowledge/aegis/<category>/l-units.md [knowledge]',
+      'packages/agents/agnostic/src/accountant.md:4: error: "pips" is not a protocol-knowledge doc [knowledge]',
+      'packages/commands/agnostic/src/debug.md:3: warning: only agents can declare knowledge docs; the installer ignores this key on commands [knowledge]',
+    ]);
+  });
+
+  it('reports includes that do not expand and links that do not resolve', async () => {
+    writeCommand(
+      'review',
+      '---',
+      'description: Review',
+      '---',
+      '<!-- include: ./shared/missing.md -->',
+      '<!-- include: protocol-knowledge/concepts/l-units.md#nope -->',
+      'See [the docs](../docs/guide.md) and [the site](https://example.com).'
+    );
+
+    assert.deepEqual(await lint(), [
+      'packages/commands/agnostic/src/review.md:4: error: included file "./shared/missing.md" does not exist [include]',
+      'packages/commands/agnostic/src/review.md:5: error: no heading with anchor "#nope" in "protocol-knowledge/concepts/l-units.md" [include]',
+      'packages/commands/agnostic/src/review.md:6: error: relative link "../docs/guide.md" does not resolve [broken-link]',
+    ]);
+  });
+});
@@ -0,0 +1,401 @@
+#!/usr/bin/env node
+
+import { readdir, readFile, stat } from 'fs/promises';
+import { existsSync } from 'fs';
+import { dirname, join, relative, resolve } from 'path';
+import { FrontmatterError, parseFrontmatter } from './frontmatter.js';
+import { expandIncludes, findIncludes, IncludeError } from './includes.js';
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintDiagnostic {
+  file: string;
+  line: number;
+  severity: LintSeverity;
+  rule: string;
+  message: string;
+}
+
+export interface LintContentOptions {
+  rootDir: string; // Workspace root containing packages/agents and packages/commands
+}
+
+type ContentKind = 'agent' | 'command';
+
+interface ContentFile {
+  kind: ContentKind;
+  name: string;
+  filePath: string;
+  content: string;
+}
+
+// Model aliases accepted by Claude Code, plus full model IDs such as claude-sonnet-4-5-20250929
+const MODEL_ALIASES = ['opus', 'sonnet', 'haiku', 'inherit'];
+const MODEL_ID_PATTERN = /^claude-(opus|sonnet|haiku)-\d+(-\d+)?(-\d{8})?$/;
+
+// PascalCase built-in tools (optionally with a specifier) or MCP tools (mcp__server__tool)
+const TOOL_PATTERN =
+  /^(?:[A-Z][A-Za-z]*|mcp__[\w-]+(?:__[\w*-]+)?)(?:\((.*)\))?$/;
+
+const REQUIRED_KEYS: Record<ContentKind, string[]> = {
+  agent: ['name', 'description'],
+  command: ['description'],
+};
+
+async function loadContentFiles(rootDir: string): Promise<ContentFile[]> {
+  const files: ContentFile[] = [];
+
+  for (const [kind, dir] of [
+    ['agent', 'agents'],
+    ['command', 'commands'],
+  ] as const) {
+    const baseDir = join(rootDir, 'packages', dir);
+    if (!existsSync(baseDir)) {
+      continue;
+    }
+
+    for (const pkg of (await readdir(baseDir)).sort()) {
+      const srcPath = join(baseDir, pkg, 'src');
+      if (!existsSync(srcPath) || !(await stat(srcPath)).isDirectory()) {
+        continue;
+      }
+
+      const markdownFiles = (await readdir(srcPath))
+        .filter((file) => file.endsWith('.md'))
+        .sort();
+      for (const file of markdownFiles) {
+        const filePath = join(srcPath, file);
+        files.push({
+          kind,
+          name: file.replace(/\.md$/, ''),
+          filePath,
+          content: await readFile(filePath, 'utf-8'),
+        });
+      }
+    }
+  }
+
+  return files;
+}
+
+function getKnowledgeDir(rootDir: string): string {
+  return join(rootDir, 'packages', 'agents', 'protocol-knowledge', 'src');
+}
+
+// Names of the protocol-knowledge docs agents can declare in "knowledge"
+async function loadKnowledgeNames(rootDir: string): Promise<Set<string>> {
+  const names = new Set<string>();
+  const knowledgeDir = getKnowledgeDir(rootDir);
+  if (!existsSync(knowledgeDir)) {
+    return names;
+  }
+
+  for (const category of await readdir(knowledgeDir)) {
+    const categoryDir = join(knowledgeDir, category);
+    if (!(await stat(categoryDir)).isDirectory()) {
+      continue;
+    }
+    for (const file of await readdir(categoryDir)) {
+      if (file.endsWith('.md')) {
+        names.add(file.replace(/\.md$/, ''));
+      }
+    }
+  }
+
+  return names;
+}
+
+// 1-based line of each top-level frontmatter key, for pointing diagnostics at it
+function getKeyLines(content: string): Map<string, number> {
+  const keyLines = new Map<string, number>();
+  const lines = content.split(/\r?\n/);
+  for (let index = 1; index < lines.length && lines[index] !== '---'; index++) {
+    const match = lines[index].match(/^([A-Za-z0-9_-]+):/);
+    if (match) {
+      keyLines.set(match[1], index + 1);
+    }
+  }
+  return keyLines;
+}
+
+function lintFile(
+  file: ContentFile,
+  agentNames: Set<string>,
+  commandNames: Set<string>,
+  knowledgeNames: Set<string>,
+  rootDir: string
+): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const report = (
+    line: number,
+    severity: LintSeverity,
+    rule: string,
+    message: string
+  ) => {
+    diagnostics.push({
+      file: relative(rootDir, file.filePath),
+      line,
+      severity,
+      rule,
+      message,
+    });
+  };
+
+  let parsed: ReturnType<typeof parseFrontmatter>;
+  try {
+    parsed = parseFrontmatter(file.content);
+  } catch (error) {
+    if (!(error instanceof FrontmatterError)) {
+      throw error;
+    }
+    report(error.line ?? 1, 'error', 'frontmatter', error.message);
+    return diagnostics;
+  }
+  if (!parsed) {
+    report(1, 'error', 'frontmatter', 'missing YAML frontmatter block');
+    return diagnostics;
+  }
+
+  const { frontmatter } = parsed;
+  const keyLines = getKeyLines(file.content);
+  const lineOf = (key: string) => keyLines.get(key) ?? 1;
+
+  const requiredValues: Record<string, string | undefined> = {
+    name: frontmatter.name,
+    description: frontmatter.description,
+  };
+  for (const key of REQUIRED_KEYS[file.kind]) {
+    if (!requiredValues[key]) {
+      report(
+        1,
+        'error',
+        'required-key',
+        `${file.kind} frontmatter is missing "${key}"`
+      );
+    }
+  }
+
+  if (
+    file.kind === 'agent' &&
+    frontmatter.name &&
+    frontmatter.name !== file.name
+  ) {
+    report(
+      lineOf('name'),
+      'error',
+      'agent-name',
+      `agent name "${frontmatter.name}" does not match file name "${file.name}.md"`
+    );
+  }
+
+  const model = frontmatter.model;
+  if (
+    model !== undefined &&
+    !MODEL_ALIASES.includes(model) &&
+    !MODEL_ID_PATTERN.test(model)
+  ) {
+    report(
+      lineOf('model'),
+      'error',
+      'model',
+      `unknown model "${model}" (expected ${MODEL_ALIASES.join(', ')} or a claude-* model ID)`
+    );
+  }
+
+  const toolsKey = keyLines.has('allowed-tools') ? 'allowed-tools' : 'tools';
+  for (const spec of frontmatter.allowedTools ?? []) {
+    if (spec.raw === '*') {
+      continue;
+    }
+
+    if (!TOOL_PATTERN.test(spec.raw)) {
+      const hint = agentNames.has(spec.raw)
+        ? ` (use Task(subagent_type:${spec.raw}) to allow delegating to an agent)`
+        : '';
+      report(
+        lineOf(toolsKey),
+        'error',
+        'allowed-tools',
+        `invalid ${toolsKey} entry "${spec.raw}"${hint}`
+      );
+      continue;
+    }
+
+    if (spec.specifier === '') {
+      report(
+        lineOf(toolsKey),
+        'error',
+        'allowed-tools',
+        `empty specifier in "${spec.raw}"`
+      );
+      continue;
+    }
+
+    const agentName = spec.subagentType;
+    if (agentName === null || agentName.includes('*')) {
+      continue;
+    }
+    if (agentName === '') {
+      report(
+        lineOf(toolsKey),
+        'error',
+        'subagent-type',
+        `empty subagent_type in "${spec.raw}"`
+      );
+    } else if (agentNames.has(agentName)) {
+      continue;
+    } else if (commandNames.has(agentName)) {
+      report(
+        lineOf(toolsKey),
+        'error',
+        'subagent-type',
+        `subagent_type "${agentName}" is a command, not an agent`
+      );
+    } else {
+      report(
+        lineOf(toolsKey),
+        'error',
+        'subagent-type',
+        `subagent_type "${agentName}" is not a known agent`
+      );
+    }
+  }
+
+  for (const docName of frontmatter.knowledge ?? []) {
+    if (file.kind === 'command') {
+      report(
+        lineOf('knowledge'),
+        'warning',
+        'knowledge',
+        'only agents can declare knowledge docs; the installer ignores this key on commands'
+      );
+      break;
+    }
+    if (!knowledgeNames.has(docName)) {
+      report(
+        lineOf('knowledge'),
+        'error',
+        'knowledge',
+        `"${docName}" is not a protocol-knowledge doc`
+      );
+    } else if (
+      !new RegExp(`knowledge/aegis/[\\w-]+/${docName}\\.md`).test(file.content)
+    ) {
+      // Installing the doc does not help unless the prompt tells the agent where it is
+      report(
+        lineOf('knowledge'),
+        'warning',
+        'knowledge',
+        `"${docName}" is never referenced; point at .claude/knowledge/aegis/<category>/${docName}.md`
+      );
+    }
+  }
+
+  // Each include directive must expand; nested problems are reported on the directive that pulls them in
+  for (const directive of findIncludes(file.content)) {
+    try {
+      expandIncludes(`<!-- include: ${directive.target} -->`, file.filePath, {
+        roots: { 'protocol-knowledge': getKnowledgeDir(rootDir) },
+      });
+    } catch (error) {
+      if (
+        !(error instanceof IncludeError) &&
+        !(error instanceof FrontmatterError)
+      ) {
+        throw error;
+      }
+      const message =
+        error instanceof IncludeError && error.filePath === file.filePath
+          ? error.reason
+          : `"${directive.target}" cannot be expanded: ${error.message}`;
+      report(
+        directive.line,
+        'error',
+        'include',
+        message.split(`${resolve(rootDir)}/`).join('')
+      );
+    }
+  }
+
+  // Relative Markdown links outside code blocks must point at existing files
+  let inFence = false;
+  file.content.split(/\r?\n/).forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) {
+      return;
+    }
+
+    const prose = line.replace(/`[^`]*`/g, '');
+    for (const match of prose.matchAll(
+      /\[[^\]]*\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g
+    )) {
+      const target = match[1].split('#')[0];
+      if (
+        target === '' ||
+        /^[a-z][a-z0-9+.-]*:/i.test(target) ||
+        target.startsWith('/')
+      ) {
+        continue;
+      }
+      if (
+        !existsSync(resolve(dirname(file.filePath), decodeURIComponent(target)))
+      ) {
+        report(
+          index + 1,
+          'error',
+          'broken-link',
+          `relative link "${match[1]}" does not resolve`
+        );
+      }
+    }
+  });
+
+  return diagnostics;
+}
+
+export async function lintContent(
+  options: LintContentOptions
+): Promise<LintDiagnostic[]> {
+  const files = await loadContentFiles(options.rootDir);
+  const knowledgeNames = await loadKnowledgeNames(options.rootDir);
+  const agentNames = new Set(
+    files.filter((f) => f.kind === 'agent').map((f) => f.name)
+  );
+  const commandNames = new Set(
+    files.filter((f) => f.kind === 'command').map((f) => f.name)
+  );
+
+  return files.flatMap((file) =>
+    lintFile(file, agentNames, commandNames, knowledgeNames, options.rootDir)
+  );
+}
+
+export function formatDiagnostic(diagnostic: LintDiagnostic): string {
+  return `${diagnostic.file}:${diagnostic.line}: ${diagnostic.severity}: ${diagnostic.message} [${diagnostic.rule}]`;
+}
+
+// CLI support
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const [rootDir = process.cwd()] = process.argv.slice(2);
+
+  lintContent({ rootDir: resolve(rootDir) })
+    .then((diagnostics) => {
+      diagnostics.forEach((diagnostic) =>
+        console.log(formatDiagnostic(diagnostic))
+      );
+
+      const errors = diagnostics.filter((d) => d.severity === 'error').length;
+      const warnings = diagnostics.length - errors;
+      console.log(`\n${errors} errors, ${warnings} warnings`);
+      if (errors > 0) {
+        process.exit(1);
+      }
+    })
+    .catch((error) => {
+      console.error('Failed to lint content:', error);
+      process.exit(1);
+    });
+}